@@ -1,20 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
-import { rateLimit } from "@/lib/rateLimit";
+import {
+  rateLimit,
+  rateLimitExceededResponse,
+  withRateLimitHeaders
+} from "@/lib/rateLimit/limiter";
+import { authenticateRequest } from "@/lib/serverAuth";
 import { computeObservationEditStats } from "@/lib/firebasePersistence";
+import { getLlmConfigError, getLlmProvider } from "@/lib/llm/provider";
 
 export const runtime = "nodejs";
 
-const MODEL_NAME = "gemini-2.5-flash";
 const MAX_TEXT_CHARS = 80_000;
 
-function getClientIp(request: NextRequest) {
-  const forwardedFor = request.headers.get("x-forwarded-for");
-  if (forwardedFor) {
-    return forwardedFor.split(",")[0]?.trim() || "unknown";
-  }
-  return request.headers.get("x-real-ip") || "unknown";
-}
-
 function trimText(value: unknown) {
   return String(value || "").replace(/\r\n/g, "\n").trim();
 }
@@ -79,8 +76,7 @@ function buildFallbackSummary(aiText: string, finalText: string) {
   };
 }
 
-async function callGeminiIssueSummary(params: {
-  apiKey: string;
+async function callIssueSummary(params: {
   aiText: string;
   finalText: string;
 }) {
@@ -107,61 +103,36 @@ ${params.aiText}
 FINAL_FINDINGS:
 ${params.finalText}`;
 
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1/models/${MODEL_NAME}:generateContent?key=${params.apiKey}`,
-    {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json"
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            role: "user",
-            parts: [{ text: prompt }]
-          }
-        ],
-        generationConfig: {
-          temperature: 0.1,
-          maxOutputTokens: 1024
-        }
-      })
-    }
-  );
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Gemini API error: ${response.status} ${errorText}`);
-  }
-
-  const data = await response.json();
-  const parts = data?.candidates?.[0]?.content?.parts || [];
-  const text = parts
-    .map((part: { text?: string }) => part.text || "")
-    .join("")
-    .trim();
-  if (!text) {
-    throw new Error("Empty response from Gemini");
-  }
-  const parsed = extractJson(text);
+  const completion = await getLlmProvider().generate({
+    task: "issue-summary",
+    systemText: "",
+    userText: prompt,
+    temperature: 0.1,
+    maxOutputTokens: 1024
+  });
+  const parsed = extractJson(completion.text);
   if (!parsed) {
-    throw new Error("Invalid JSON from Gemini");
+    throw new Error("Invalid JSON from model");
   }
   return parsed;
 }
 
 export async function POST(request: NextRequest) {
-  const ip = getClientIp(request);
-  const limit = rateLimit(ip);
+  const auth = await authenticateRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  if (!auth.user.admin) {
+    return NextResponse.json({ error: "Admin access required." }, { status: 403 });
+  }
+  const limit = await rateLimit(auth.user, "admin-issue-summary");
   if (!limit.allowed) {
-    return NextResponse.json(
-      {
-        error: "Rate limit exceeded. Try again later."
-      },
-      { status: 429 }
-    );
+    return rateLimitExceededResponse(limit);
   }
+  return withRateLimitHeaders(await summarizeIssue(request), limit);
+}
 
+async function summarizeIssue(request: NextRequest) {
   let aiText = "";
   let finalText = "";
   try {
@@ -185,8 +156,7 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
+  if (getLlmConfigError()) {
     const fallback = buildFallbackSummary(aiText, finalText);
     return NextResponse.json({
       ...fallback,
@@ -195,8 +165,7 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const parsed = await callGeminiIssueSummary({
-      apiKey,
+    const parsed = await callIssueSummary({
       aiText,
       finalText
     });
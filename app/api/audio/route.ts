@@ -1,32 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
+import { isAllowedFirebaseStorageUrl } from "@/lib/audio/storage";
+import {
+  rateLimit,
+  rateLimitExceededResponse,
+  withRateLimitHeaders
+} from "@/lib/rateLimit/limiter";
+import { authenticateRequest } from "@/lib/serverAuth";
 
-const ALLOWED_STORAGE_HOSTS = new Set([
-  "firebasestorage.googleapis.com",
-  "storage.googleapis.com"
-]);
-
-function isAllowedFirebaseStorageUrl(rawUrl: string) {
-  try {
-    const parsed = new URL(rawUrl);
-    if (parsed.protocol !== "https:") return false;
-    if (!ALLOWED_STORAGE_HOSTS.has(parsed.hostname)) return false;
-
-    const configuredBucket = (process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET || "").trim();
-    if (!configuredBucket) return true;
-
-    const bucketFromPath = parsed.pathname.match(/^\/v0\/b\/([^/]+)\/o\//)?.[1] || "";
-    if (bucketFromPath && bucketFromPath !== configuredBucket) return false;
-
-    const bucketFromQuery = parsed.searchParams.get("bucket");
-    if (bucketFromQuery && bucketFromQuery !== configuredBucket) return false;
-
-    return true;
-  } catch {
-    return false;
+export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
   }
+  const limit = await rateLimit(auth.user, "audio");
+  if (!limit.allowed) {
+    return rateLimitExceededResponse(limit);
+  }
+  return withRateLimitHeaders(await proxyAudio(request), limit);
 }
 
-export async function POST(request: NextRequest) {
+async function proxyAudio(request: NextRequest) {
   try {
     const body = (await request.json()) as { audioDownloadUrl?: unknown };
     const audioDownloadUrl =
@@ -1,7 +1,12 @@
 import { Buffer } from "buffer";
 import { NextRequest, NextResponse } from "next/server";
 import { getTemplateById } from "@/lib/templates";
-import { rateLimit } from "@/lib/rateLimit";
+import {
+  rateLimit,
+  rateLimitExceededResponse,
+  withRateLimitHeaders
+} from "@/lib/rateLimit/limiter";
+import { authenticateRequest, type AuthenticatedUser } from "@/lib/serverAuth";
 import {
   buildUsgReport,
   buildUsgKubReport,
@@ -11,9 +16,66 @@ import {
   USG_KUB_FEMALE_TEMPLATE,
   USG_KUB_MALE_TEMPLATE,
   USG_FIELD_KEYS,
+  USG_FIELD_LABELS,
   type UsgFieldOverrides,
-  type UsgGender
+  type UsgGender,
+  type UsgReportSettings
 } from "@/lib/usgTemplate";
+import { parseUsgReportSettingsJson } from "@/lib/usg/reportSettings";
+import {
+  buildStructuredReport,
+  getStructuredTemplate,
+  listStructuredFields,
+  normalizeStructuredOverrides,
+  structuredFieldKeys,
+  type StructuredFieldOverrides,
+  type StructuredTemplateDef
+} from "@/lib/structuredTemplates";
+import {
+  buildDopplerReport,
+  dopplerFieldKeys,
+  dopplerFieldLabels,
+  getDopplerMode,
+  getDopplerModeDef,
+  sanitizeDopplerStudy,
+  type DopplerMode
+} from "@/lib/usg/doppler";
+import {
+  buildObstetricReport,
+  getObstetricVariant,
+  mergeObstetricStudies,
+  obstetricFieldKeys,
+  sanitizeObstetricStudy,
+  type ObstetricVariant
+} from "@/lib/usg/obstetric";
+import {
+  buildThyroidReport,
+  isThyroidTemplateId,
+  normalizeThyroidForConsistency,
+  sanitizeThyroidStudy,
+  THYROID_FIELD_KEYS,
+  THYROID_FIELD_LABELS,
+  THYROID_TEMPLATE_ID,
+  TIRADS_COMPOSITIONS,
+  TIRADS_ECHOGENIC_FOCI,
+  TIRADS_ECHOGENICITIES,
+  TIRADS_MARGINS,
+  TIRADS_SHAPES
+} from "@/lib/usg/thyroid";
+import {
+  BIRADS_CALCIFICATIONS,
+  BIRADS_ECHO_PATTERNS,
+  BIRADS_MARGINS,
+  BIRADS_ORIENTATIONS,
+  BIRADS_POSTERIOR_FEATURES,
+  BIRADS_SHAPES,
+  BREAST_FIELD_KEYS,
+  BREAST_FIELD_LABELS,
+  BREAST_TEMPLATE_ID,
+  buildBreastReport,
+  isBreastTemplateId,
+  sanitizeBreastStudy
+} from "@/lib/usg/breast";
 import {
   CUSTOM_TEMPLATE_ID,
   CUSTOM_KUB_TEMPLATE_ID,
@@ -30,14 +92,100 @@ import {
   suggestProfileFieldIdsFromFindings,
   type TemplateProfile
 } from "@/lib/usgTemplateProfile";
+import {
+  getLlmConfigError,
+  getLlmProvider,
+  type LlmAudioInput
+} from "@/lib/llm/provider";
+import {
+  buildDopplerExtractionSchema,
+  buildObstetricExtractionSchema,
+  buildStructuredExtractionSchema,
+  buildUsgExtractionSchema,
+  buildUsgSectionSchema,
+  BREAST_OUTPUT_SCHEMA,
+  NARRATIVE_OUTPUT_SCHEMA,
+  THYROID_OUTPUT_SCHEMA,
+  TRANSCRIPT_OUTPUT_SCHEMA
+} from "@/lib/llm/outputSchemas";
+import { generateStructured, ModelOutputValidationError } from "@/lib/llm/structured";
+import { createUsageMeter, type GenerationUsage, type UsageMeter } from "@/lib/llm/metering";
+import {
+  getUsageLedgerConfigError,
+  parseLedgerReportId,
+  recordGenerationUsage
+} from "@/lib/usageLedger/ledger";
+import { downloadStorageAudio, storageObjectName } from "@/lib/audio/storage";
+import { isWavMimeType, splitWavAudio } from "@/lib/audio/wav";
+import type { GenerationStageEmitter } from "@/lib/generationStages";
+import {
+  applyVoiceCommands,
+  fillNormalOrganFields,
+  type AppliedVoiceCommand,
+  type VoiceOrgan
+} from "@/lib/voiceCommands";
+import { encodeServerSentEvent } from "@/lib/sse";
+import {
+  buildUsgFieldAttributions,
+  listLowConfidenceFields,
+  type UsgFieldAttributionMap
+} from "@/lib/usg/attribution";
+import { checkUsgConsistency, type UsgConsistencyIssue } from "@/lib/usg/consistency";
+import {
+  DEFAULT_CRITICAL_RULES,
+  detectCriticalFindings,
+  formatCriticalFindingFlag,
+  parseCriticalRulesJson,
+  type CriticalFinding
+} from "@/lib/criticalFindings";
+import {
+  buildExtractionLanguageNote,
+  buildTranscriptionLanguageRules,
+  countUntranslatedValues,
+  dictationLanguageLabel,
+  normalizeDictationLanguage,
+  repairParsedLanguageArtifacts,
+  type DictationLanguage
+} from "@/lib/dictationLanguage";
+import {
+  buildComparisonSection,
+  compareStudyFields,
+  formatPriorStudyForPrompt,
+  parsePriorStudyJson,
+  type PriorComparison
+} from "@/lib/priorComparison";
+import {
+  getUsgBlock,
+  spliceRenderedSection,
+  type UsgBlockDef,
+  type UsgBlockId
+} from "@/lib/usg/blocks";
+import {
+  concatTranscripts,
+  formatTranscriptForPrompt,
+  hasTranscriptTimestamps,
+  sanitizeTranscript,
+  splitTranscriptAt,
+  windowTranscript,
+  type DictationTranscript
+} from "@/lib/transcript";
 
-const MODEL_NAME = "gemini-2.5-flash";
 const DEBUG_GEMINI_LOG = process.env.DEBUG_GEMINI_LOG === "true";
 const DEBUG_GEMINI_CLIENT = process.env.DEBUG_GEMINI_CLIENT === "true";
 const DEFAULT_DISCLAIMER =
   "Draft only. Must be reviewed and signed by the doctor.";
 const MAX_AUDIO_BYTES = 100 * 1024 * 1024;
 const MAX_INLINE_AUDIO_BYTES = 100 * 1024 * 1024;
+const MAX_STORED_AUDIO_BYTES = 500 * 1024 * 1024;
+const AUDIO_SEGMENT_MAX_BYTES = 20 * 1024 * 1024;
+const AUDIO_SEGMENT_OVERLAP_SEC = 6;
+const MAX_TRANSCRIPT_CHARS = 200_000;
+const MAX_REPORT_TEXT_CHARS = 100_000;
+const TOKEN_EVENT_INTERVAL_MS = 250;
+const REPAIRED_OUTPUT_FLAG = "Model output was repaired after failing schema validation.";
+const TRANSCRIPT_SOURCE_RULE =
+  "- The dictation is provided as a verbatim, timestamped transcript of the audio. Treat transcript text as what was spoken; never add content that is not in it.\n";
+const REPORT_FOOTER_PATTERN = /^-{5,}|has its limitations/i;
 const FORBIDDEN_HEADERS = [
   "impression",
   "conclusion",
@@ -49,14 +197,6 @@ const FORBIDDEN_HEADERS = [
 
 export const runtime = "nodejs";
 
-function getClientIp(request: NextRequest) {
-  const forwardedFor = request.headers.get("x-forwarded-for");
-  if (forwardedFor) {
-    return forwardedFor.split(",")[0]?.trim() || "unknown";
-  }
-  return request.headers.get("x-real-ip") || "unknown";
-}
-
 function sanitizeObservations(text: string, forbiddenHeaders: string[]) {
   const lines = text.split(/\r?\n/);
   let removed = false;
@@ -84,67 +224,23 @@ function estimateBase64Size(bytes: number) {
   return Math.ceil(bytes / 3) * 4;
 }
 
-function extractJson(text: string) {
-  const firstBrace = text.indexOf("{");
-  const lastBrace = text.lastIndexOf("}");
-  if (firstBrace === -1 || lastBrace === -1 || lastBrace <= firstBrace) {
-    throw new Error("No JSON object found in response");
-  }
-  const jsonSlice = text.slice(firstBrace, lastBrace + 1);
-  return JSON.parse(jsonSlice);
-}
-
-function stripControlChars(text: string) {
-  return text.replace(
-    /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F-\u009F\u200B-\u200D\uFEFF]/g,
-    ""
-  );
-}
-
-function escapeNewlinesInsideJsonStrings(text: string) {
-  let out = "";
-  let inString = false;
-  let escaped = false;
-  for (let i = 0; i < text.length; i += 1) {
-    const char = text[i];
-    if (!inString) {
-      out += char;
-      if (char === "\"") {
-        inString = true;
-      }
-      continue;
-    }
-
-    if (escaped) {
-      out += char;
-      escaped = false;
-      continue;
-    }
-
-    if (char === "\\") {
-      out += char;
-      escaped = true;
-      continue;
-    }
-
-    if (char === "\"") {
-      out += char;
-      inString = false;
-      continue;
-    }
-
-    if (char === "\n") {
-      out += "\\n";
-      continue;
-    }
-    if (char === "\r") {
-      out += "\\r";
-      continue;
-    }
-
-    out += char;
+function modelOutputErrorResponse(error: ModelOutputValidationError) {
+  const payload: {
+    error: string;
+    code: string;
+    task: string;
+    issues: ModelOutputValidationError["issues"];
+    debug?: { rawText: string };
+  } = {
+    error: error.message,
+    code: "model_output_invalid",
+    task: error.task,
+    issues: error.issues
+  };
+  if (DEBUG_GEMINI_CLIENT) {
+    payload.debug = { rawText: error.rawText };
   }
-  return out;
+  return NextResponse.json(payload, { status: 502 });
 }
 
 function parseJsonStringValue(text: string, startIndex: number) {
@@ -196,55 +292,6 @@ function parseJsonStringValue(text: string, startIndex: number) {
   return null;
 }
 
-function parseJsonStringValueLenient(text: string, startIndex: number) {
-  let value = "";
-  let escaped = false;
-  for (let i = startIndex + 1; i < text.length; i += 1) {
-    const char = text[i];
-    if (escaped) {
-      switch (char) {
-        case "n":
-          value += "\n";
-          break;
-        case "r":
-          value += "\r";
-          break;
-        case "t":
-          value += "\t";
-          break;
-        case "\"":
-          value += "\"";
-          break;
-        case "\\":
-          value += "\\";
-          break;
-        case "u": {
-          const hex = text.slice(i + 1, i + 5);
-          if (/^[0-9a-fA-F]{4}$/.test(hex)) {
-            value += String.fromCharCode(parseInt(hex, 16));
-            i += 4;
-          }
-          break;
-        }
-        default:
-          value += char;
-      }
-      escaped = false;
-      continue;
-    }
-
-    if (char === "\\") {
-      escaped = true;
-      continue;
-    }
-    if (char === "\"") {
-      return { value, endIndex: i, complete: true };
-    }
-    value += char;
-  }
-  return { value, endIndex: text.length - 1, complete: false };
-}
-
 function extractStringField(rawText: string, field: string) {
   const fieldIndex = rawText.indexOf(`"${field}"`);
   if (fieldIndex === -1) {
@@ -262,175 +309,6 @@ function extractStringField(rawText: string, field: string) {
   return parsed ? parsed.value : null;
 }
 
-function extractStringFieldLenient(rawText: string, field: string) {
-  const fieldIndex = rawText.indexOf(`"${field}"`);
-  if (fieldIndex === -1) {
-    return null;
-  }
-  const colonIndex = rawText.indexOf(":", fieldIndex);
-  if (colonIndex === -1) {
-    return null;
-  }
-  const quoteIndex = rawText.indexOf("\"", colonIndex + 1);
-  if (quoteIndex === -1) {
-    return null;
-  }
-  const parsed = parseJsonStringValueLenient(rawText, quoteIndex);
-  return parsed ? parsed.value : null;
-}
-
-function extractFlagsField(rawText: string) {
-  const match = rawText.match(/"flags"\s*:\s*(\[[\s\S]*?\])/);
-  if (!match) {
-    return null;
-  }
-  try {
-    return JSON.parse(match[1]);
-  } catch {
-    return null;
-  }
-}
-
-function extractStringArrayField(rawText: string, field: string) {
-  const match = rawText.match(
-    new RegExp(`"${field}"\\s*:\\s*(\\[[\\s\\S]*?\\])`)
-  );
-  if (!match) {
-    return null;
-  }
-  try {
-    const parsed = JSON.parse(match[1]);
-    if (!Array.isArray(parsed)) {
-      return null;
-    }
-    return parsed
-      .map((value) => (typeof value === "string" ? value.trim() : ""))
-      .filter(Boolean);
-  } catch {
-    return null;
-  }
-}
-
-function fallbackParse(rawText: string) {
-  const template_id = extractStringField(rawText, "template_id");
-  const observations = extractStringField(rawText, "observations");
-  const disclaimer = extractStringField(rawText, "disclaimer");
-  const patient_name = extractStringField(rawText, "patient_name");
-  const patient_gender = extractStringField(rawText, "patient_gender");
-  const exam_date = extractStringField(rawText, "exam_date");
-  const conclusion = extractStringField(rawText, "conclusion");
-  const flags = extractFlagsField(rawText);
-  const other_observations = extractStringArrayField(
-    rawText,
-    "other_observations"
-  );
-  const fields: Record<string, string> = {};
-  for (const key of USG_FIELD_KEYS) {
-    const value = extractStringField(rawText, key as string);
-    if (value) {
-      fields[key as string] = value;
-    }
-  }
-
-  if (
-    !template_id &&
-    !observations &&
-    !disclaimer &&
-    !patient_name &&
-    !patient_gender &&
-    !exam_date &&
-    !conclusion &&
-    !flags &&
-    !other_observations?.length &&
-    Object.keys(fields).length === 0
-  ) {
-    return null;
-  }
-
-  return {
-    template_id,
-    observations,
-    disclaimer,
-    patient_name,
-    patient_gender,
-    exam_date,
-    conclusion,
-    flags,
-    other_observations,
-    fields: Object.keys(fields).length ? fields : undefined
-  };
-}
-
-function fallbackParseLenient(rawText: string) {
-  const template_id = extractStringFieldLenient(rawText, "template_id");
-  const observations = extractStringFieldLenient(rawText, "observations");
-  const disclaimer = extractStringFieldLenient(rawText, "disclaimer");
-  const patient_name = extractStringFieldLenient(rawText, "patient_name");
-  const patient_gender = extractStringFieldLenient(rawText, "patient_gender");
-  const exam_date = extractStringFieldLenient(rawText, "exam_date");
-  const conclusion = extractStringFieldLenient(rawText, "conclusion");
-  const flags = extractFlagsField(rawText);
-  const other_observations = extractStringArrayField(
-    rawText,
-    "other_observations"
-  );
-  const fields: Record<string, string> = {};
-  for (const key of USG_FIELD_KEYS) {
-    const value = extractStringFieldLenient(rawText, key as string);
-    if (value) {
-      fields[key as string] = value;
-    }
-  }
-
-  if (
-    !template_id &&
-    !observations &&
-    !disclaimer &&
-    !patient_name &&
-    !patient_gender &&
-    !exam_date &&
-    !conclusion &&
-    !flags &&
-    !other_observations?.length &&
-    Object.keys(fields).length === 0
-  ) {
-    return null;
-  }
-
-  return {
-    template_id,
-    observations,
-    disclaimer,
-    patient_name,
-    patient_gender,
-    exam_date,
-    conclusion,
-    flags,
-    other_observations,
-    fields: Object.keys(fields).length ? fields : undefined
-  };
-}
-
-function parseModelJson(rawText: string) {
-  const fenceMatch = rawText.match(/```(?:json)?\s*([\s\S]*?)\s*```/i);
-  const unfenced = fenceMatch ? fenceMatch[1] : rawText;
-  try {
-    return extractJson(unfenced);
-  } catch {
-    const sanitized = stripControlChars(unfenced);
-    try {
-      return extractJson(sanitized);
-    } catch {
-      const repaired = escapeNewlinesInsideJsonStrings(sanitized);
-      try {
-        return extractJson(repaired);
-      } catch {
-        return fallbackParse(repaired) ?? fallbackParseLenient(repaired);
-      }
-    }
-  }
-}
-
 function getFieldValue(source: Record<string, unknown> | null, keys: string[]) {
   if (!source) return "";
   for (const key of keys) {
@@ -613,30 +491,6 @@ function buildUsgFieldOverrides(parsed: Record<string, unknown>) {
   return overrides;
 }
 
-function hasAllUsgFieldKeys(fields: unknown) {
-  if (!fields || typeof fields !== "object") {
-    return false;
-  }
-  return USG_FIELD_KEYS.every((key) =>
-    Object.prototype.hasOwnProperty.call(fields, key)
-  );
-}
-
-function hasAllProfileFieldKeys(
-  extraFields: unknown,
-  fieldIds: string[]
-) {
-  if (!fieldIds.length) {
-    return true;
-  }
-  if (!extraFields || typeof extraFields !== "object") {
-    return false;
-  }
-  return fieldIds.every((fieldId) =>
-    Object.prototype.hasOwnProperty.call(extraFields, fieldId)
-  );
-}
-
 function normalizeOtherObservationLine(value: string) {
   return repairRadiologyPhraseArtifacts(value);
 }
@@ -980,7 +834,65 @@ function appendOtherObservationsSection(baseText: string, observations: string[]
   return `${baseText.trim()}\n\nOTHER OBSERVATIONS:\n${lines.join("\n")}`;
 }
 
-function normalizeAudioMimeType(file: File) {
+// The USG footer (end-of-report line and limitations note) closes the report,
+// so sections added after rendering go above it. `footerLines` holds any
+// institution-specific footer text from the report settings.
+function insertBeforeReportFooter(baseText: string, section: string, footerLines: string[]) {
+  const lines = baseText.trim().split(/\r?\n/);
+  const custom = new Set(footerLines.map((line) => line.trim()).filter(Boolean));
+  const footerIndex = lines.findIndex((line) => {
+    const trimmed = line.trim();
+    return custom.has(trimmed) || REPORT_FOOTER_PATTERN.test(trimmed);
+  });
+  if (footerIndex === -1) return `${lines.join("\n")}\n\n${section}`;
+  const body = lines.slice(0, footerIndex).join("\n").trimEnd();
+  return `${body}\n\n${section}\n${lines.slice(footerIndex).join("\n")}`;
+}
+
+function nonEmptyUsgFields(overrides: UsgFieldOverrides) {
+  const fields: Record<string, string> = {};
+  for (const key of USG_FIELD_KEYS) {
+    const value = overrides[key];
+    if (typeof value === "string" && value.trim()) fields[key] = value.trim();
+  }
+  return fields;
+}
+
+// Reports token progress and, for USG extraction, every field whose string
+// value has fully arrived in the partial JSON.
+function createTokenProgressHandler(params: {
+  emit: GenerationStageEmitter;
+  task: string;
+  trackUsgFields: boolean;
+}) {
+  let text = "";
+  let lastEmitAt = 0;
+  const sentFields: Record<string, string> = {};
+
+  return (delta: string) => {
+    text += delta;
+    const fields: Record<string, string> = {};
+    if (params.trackUsgFields) {
+      for (const key of USG_FIELD_KEYS) {
+        if (key in sentFields) continue;
+        const value = extractStringField(text, key);
+        if (value === null) continue;
+        sentFields[key] = value;
+        if (value.trim()) fields[key] = value.trim();
+      }
+    }
+    const now = Date.now();
+    if (!Object.keys(fields).length && now - lastEmitAt < TOKEN_EVENT_INTERVAL_MS) return;
+    lastEmitAt = now;
+    params.emit("tokens", {
+      task: params.task,
+      chars: text.length,
+      ...(Object.keys(fields).length ? { fields } : {})
+    });
+  };
+}
+
+function normalizeAudioMimeType(file: { type: string; name: string }) {
   const trimmed = (file.type || "").trim();
   if (trimmed) {
     const base = trimmed.split(";")[0]?.trim() || trimmed;
@@ -1027,10 +939,17 @@ function isUsgTemplateId(templateId: string) {
     templateId === "USG_KUB_MALE" ||
     templateId === "USG_KUB_FEMALE" ||
     templateId === CUSTOM_TEMPLATE_ID ||
-    templateId === CUSTOM_KUB_TEMPLATE_ID
+    templateId === CUSTOM_KUB_TEMPLATE_ID ||
+    isLesionUsgTemplateId(templateId)
   );
 }
 
+// USG templates whose findings are per-lesion records rather than the
+// canonical abdomen/KUB field set.
+function isLesionUsgTemplateId(templateId: string) {
+  return isThyroidTemplateId(templateId) || isBreastTemplateId(templateId);
+}
+
 function templateGenderFromId(templateId: string): UsgGender {
   return templateId === "USG_ABDOMEN_FEMALE" ||
     templateId === "USG_KUB_FEMALE"
@@ -1038,7 +957,16 @@ function templateGenderFromId(templateId: string): UsgGender {
     : "male";
 }
 
-function getUsgTemplateText(templateId: string, gender: UsgGender) {
+function getUsgTemplateText(
+  templateId: string,
+  gender: UsgGender,
+  settings: UsgReportSettings | null
+) {
+  if (settings) {
+    return isUsgKubTemplateId(templateId)
+      ? buildUsgKubReport({ gender, settings })
+      : buildUsgReport({ gender, settings });
+  }
   if (isUsgKubTemplateId(templateId)) {
     return gender === "female"
       ? USG_KUB_FEMALE_TEMPLATE
@@ -1060,105 +988,669 @@ function getUsgTemplateScopeLabel(templateId: string) {
   return isUsgKubTemplateId(templateId) ? "USG KUB" : "USG Whole Abdomen";
 }
 
-async function callGemini(params: {
-  apiKey: string;
-  userText: string;
-  systemText: string;
-  audioBase64: string;
-  mimeType: string;
-  maxOutputTokens?: number;
-  temperature?: number;
+async function transcribeDictation(params: {
+  audio: LlmAudioInput;
+  language: DictationLanguage;
+  meter: UsageMeter;
+  signal?: AbortSignal;
+  onTextDelta?: (delta: string) => void;
 }) {
-  const combinedText = `${params.systemText}\n\n${params.userText}`;
-  const generationConfig: Record<string, unknown> = {
-    temperature: params.temperature ?? 0.2,
-    maxOutputTokens: params.maxOutputTokens ?? 2048
-  };
+  const systemText =
+    "You are a medical transcription assistant for radiology dictation. Output JSON only.";
+  const userText = `Transcribe this radiology dictation verbatim.
+
+STRICT RULES:
+- Return JSON only. No markdown, no code fences.
+- Transcribe exactly what is spoken, in order. Do NOT summarize, reorder, correct, or add findings.
+- Keep numbers, units, laterality, and negations exactly as spoken.
+- Split into short segments at sentence boundaries or natural pauses.
+- start_sec and end_sec are offsets from the start of the audio, in seconds.
+- Keep non-dictation speech (conversation, chatter) as its own segments; do not drop it.
+- If a word is unintelligible, write "[inaudible]".
+${buildTranscriptionLanguageRules(params.language)}
+Return JSON ONLY with schema:
+{
+  "segments": [
+    { "start_sec": 0, "end_sec": 0, "text": "" }
+  ]
+}`;
+
+  const { value, completion } = await generateStructured<unknown>({
+    task: "transcribe",
+    systemText,
+    userText,
+    audio: params.audio,
+    maxOutputTokens: 8192,
+    temperature: 0,
+    responseSchema: TRANSCRIPT_OUTPUT_SCHEMA,
+    meter: params.meter,
+    signal: params.signal,
+    onTextDelta: params.onTextDelta
+  });
+  return { transcript: sanitizeTranscript(value), rawText: completion.text };
+}
 
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1/models/${MODEL_NAME}:generateContent?key=${params.apiKey}`,
-    {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json"
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            role: "user",
-            parts: [
-              { text: combinedText },
-              {
-                inlineData: {
-                  mimeType: params.mimeType,
-                  data: params.audioBase64
-                }
-              }
-            ]
-          }
-        ],
-        generationConfig
-      })
-    }
-  );
+// Audio over the inline limit goes to the provider file store when there is
+// one; otherwise PCM WAV is split into overlapping pieces, each transcribed on
+// its own and trimmed to the part of the timeline it owns. Returns null when
+// the audio can be handled neither way.
+async function transcribeAudio(params: {
+  buffer: Buffer;
+  mimeType: string;
+  displayName: string;
+  language: DictationLanguage;
+  meter: UsageMeter;
+  signal?: AbortSignal;
+  emit: GenerationStageEmitter;
+}) {
+  const { buffer, mimeType, language, meter, signal, emit } = params;
+  const onTextDelta = createTokenProgressHandler({
+    emit,
+    task: "transcribe",
+    trackUsgFields: false
+  });
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Gemini API error: ${response.status} ${errorText}`);
+  if (estimateBase64Size(buffer.length) <= MAX_INLINE_AUDIO_BYTES) {
+    emit("model_call_started", { task: "transcribe" });
+    const result = await transcribeDictation({
+      audio: { base64: buffer.toString("base64"), mimeType },
+      language,
+      meter,
+      signal,
+      onTextDelta
+    });
+    return {
+      transcript: result.transcript,
+      pieces: [] as DictationTranscript[],
+      rawText: result.rawText
+    };
   }
 
-  const data = await response.json();
+  const provider = getLlmProvider();
+  if (provider.uploadAudio) {
+    emit("model_call_started", { task: "upload", detail: `${buffer.length} bytes` });
+    const audio = await provider.uploadAudio({
+      data: buffer,
+      mimeType,
+      displayName: params.displayName,
+      signal
+    });
+    emit("model_call_started", { task: "transcribe" });
+    const result = await transcribeDictation({ audio, language, meter, signal, onTextDelta });
+    return {
+      transcript: result.transcript,
+      pieces: [] as DictationTranscript[],
+      rawText: result.rawText
+    };
+  }
 
-  const parts = data?.candidates?.[0]?.content?.parts || [];
-  const text = parts
-    .map((part: { text?: string }) => part.text || "")
-    .join("")
-    .trim();
+  const segments = isWavMimeType(mimeType)
+    ? splitWavAudio({
+        buffer,
+        maxSegmentBytes: Math.floor((AUDIO_SEGMENT_MAX_BYTES * 3) / 4),
+        overlapSec: AUDIO_SEGMENT_OVERLAP_SEC
+      })
+    : null;
+  if (!segments) {
+    return null;
+  }
 
-  if (!text) {
-    throw new Error("Empty response from Gemini");
+  const pieces: DictationTranscript[] = [];
+  const rawTexts: string[] = [];
+  const halfOverlap = AUDIO_SEGMENT_OVERLAP_SEC / 2;
+  for (const [index, segment] of segments.entries()) {
+    emit("model_call_started", {
+      task: "transcribe",
+      detail: `segment ${index + 1}/${segments.length}`
+    });
+    const result = await transcribeDictation({
+      audio: { base64: segment.buffer.toString("base64"), mimeType: "audio/wav" },
+      language,
+      meter,
+      signal,
+      onTextDelta
+    });
+    rawTexts.push(result.rawText);
+    if (!result.transcript) continue;
+    const piece = windowTranscript(result.transcript, {
+      offsetSec: segment.startSec,
+      fromSec: index === 0 ? 0 : segment.startSec + halfOverlap,
+      toSec: index === segments.length - 1 ? Infinity : segment.endSec - halfOverlap
+    });
+    if (piece) pieces.push(piece);
   }
+  return { transcript: concatTranscripts(pieces), pieces, rawText: rawTexts.join("\n\n") };
+}
+
+const SINGLE_VALUE_USG_FIELDS = new Set<keyof UsgFieldOverrides>([
+  "bladder_prevoid_volume_cc",
+  "bladder_postvoid_volume_cc",
+  "endometrium_measurement_mm",
+  "correlate_clinically"
+]);
 
-  return text;
+function mergeUsgFieldOverrides(overridesList: UsgFieldOverrides[]) {
+  const merged: UsgFieldOverrides = {};
+  for (const key of USG_FIELD_KEYS) {
+    merged[key] = "";
+    for (const overrides of overridesList) {
+      const value = (overrides[key] || "").trim();
+      if (!value) continue;
+      const current: string = merged[key] || "";
+      merged[key] =
+        !current || SINGLE_VALUE_USG_FIELDS.has(key)
+          ? value
+          : appendUniqueSentence(current, value);
+    }
+  }
+  return merged;
 }
 
-export async function POST(request: NextRequest) {
-  const ip = getClientIp(request);
-  const limit = rateLimit(ip);
+function mergeStructuredFieldValues(
+  results: Record<string, unknown>[],
+  fieldKey: "fields" | "extra_fields"
+) {
+  const merged: Record<string, string> = {};
+  for (const result of results) {
+    const values = result[fieldKey];
+    if (!values || typeof values !== "object") continue;
+    for (const [key, value] of Object.entries(values as Record<string, unknown>)) {
+      const text = typeof value === "string" ? value.trim() : "";
+      const current = merged[key] || "";
+      merged[key] = text ? (current ? appendUniqueSentence(current, text) : text) : current;
+    }
+  }
+  return merged;
+}
 
-  if (!limit.allowed) {
-    return NextResponse.json(
-      {
-        error: "Rate limit exceeded. Try again later."
-      },
-      { status: 429 }
+// Folds the extractions of consecutive audio pieces into the shape of a single
+// model response so the rest of the pipeline is unchanged.
+function mergeSegmentExtractions(
+  results: Record<string, unknown>[],
+  mode: "usg" | "thyroid" | "breast" | "structured" | "doppler" | "obstetric" | "narrative"
+) {
+  const collectStrings = (keys: string[]) =>
+    Array.from(
+      new Set(
+        results.flatMap((result) =>
+          keys.flatMap((key) => {
+            const value = result[key];
+            if (Array.isArray(value)) {
+              return value.filter(
+                (item): item is string => typeof item === "string" && Boolean(item.trim())
+              );
+            }
+            return typeof value === "string" && value.trim() ? [value] : [];
+          })
+        )
+      )
     );
+  const firstValue = (keys: string[]) =>
+    results.map((result) => getFieldValue(result, keys)).find((value) => value.trim()) || "";
+
+  const merged: Record<string, unknown> = {
+    template_id: results[0]?.template_id,
+    flags: collectStrings(["flags"]),
+    disclaimer: firstValue(["disclaimer"])
+  };
+  if (mode === "narrative") {
+    merged.observations = results
+      .map((result) =>
+        typeof result.observations === "string" ? result.observations.trim() : ""
+      )
+      .filter(Boolean)
+      .join("\n");
+    return merged;
   }
 
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    return NextResponse.json(
-      { error: "GEMINI_API_KEY is not configured." },
-      { status: 500 }
+  for (const key of [
+    "patient_name",
+    "patient_gender",
+    "exam_date",
+    "patient_age",
+    "patient_lab_no",
+    "referred_by"
+  ]) {
+    merged[key] = firstValue([key]);
+  }
+  if (mode === "structured") {
+    merged.fields = mergeStructuredFieldValues(results, "fields");
+    return merged;
+  }
+  if (mode === "thyroid") {
+    merged.fields = mergeStructuredFieldValues(results, "fields");
+    merged.nodules = results.flatMap((result) =>
+      Array.isArray(result.nodules) ? result.nodules : []
     );
+    return merged;
   }
-
-  try {
-    const formData = await request.formData();
-    const templateId = formData.get("template_id")?.toString();
-    const audioFile = formData.get("audio_file");
-    const customTemplateTextRaw = formData
-      .get("custom_template_text")
-      ?.toString();
-    const customTemplateGenderRaw = formData
-      .get("custom_template_gender")
-      ?.toString();
+  if (mode === "breast") {
+    merged.exam_side = firstValue(["exam_side"]);
+    merged.fields = mergeStructuredFieldValues(results, "fields");
+    merged.lesions = results.flatMap((result) =>
+      Array.isArray(result.lesions) ? result.lesions : []
+    );
+    return merged;
+  }
+  if (mode === "doppler") {
+    merged.exam_side = firstValue(["exam_side"]);
+    merged.fields = mergeStructuredFieldValues(results, "fields");
+    return merged;
+  }
+  if (mode === "obstetric") {
+    return {
+      ...merged,
+      ...mergeObstetricStudies(results.map((result) => sanitizeObstetricStudy(result)))
+    };
+  }
+  merged.fields = mergeUsgFieldOverrides(
+    results.map((result) => buildUsgFieldOverrides(result))
+  );
+  merged.other_observations = collectStrings(["other_observations", "otherObservations"]);
+  merged.unmapped_findings = collectStrings(["unmapped_findings", "unmappedFindings"]);
+
+  const extraFields = mergeStructuredFieldValues(results, "extra_fields");
+  const fieldSources: Record<string, { confidence?: unknown }> = {};
+  const confidences: number[] = [];
+  for (const result of results) {
+    const sources = result.field_sources ?? result.fieldSources;
+    if (sources && typeof sources === "object") {
+      for (const [key, entry] of Object.entries(sources as Record<string, unknown>)) {
+        if (!entry || typeof entry !== "object") continue;
+        const candidate = entry as { confidence?: unknown };
+        const current = fieldSources[key];
+        if (!current || Number(candidate.confidence) > Number(current.confidence)) {
+          fieldSources[key] = candidate;
+        }
+      }
+    }
+    const confidence = result.extraction_confidence ?? result.extractionConfidence;
+    if (typeof confidence === "number" && Number.isFinite(confidence)) {
+      confidences.push(confidence);
+    }
+  }
+  if (Object.keys(extraFields).length) {
+    merged.extra_fields = extraFields;
+  }
+  merged.field_sources = fieldSources;
+  if (confidences.length) {
+    merged.extraction_confidence = Math.min(...confidences);
+  }
+  return merged;
+}
+
+function buildStructuredSystemText(structured: StructuredTemplateDef) {
+  const fieldsSchema = structuredFieldKeys(structured)
+    .map((key) => `    "${key}": ""`)
+    .join(",\n");
+  const organRule = structured.organs.length
+    ? `\n- Organ-state consistency is mandatory: if a structure is not visualized, not assessed, or surgically absent, put that statement in its main field (${structured.organs
+        .map((organ) => organ.mainField)
+        .join(", ")}) and keep its dependent detail fields empty.`
+    : "";
+  return `You are a radiology documentation assistant. Follow strict rules and output JSON only.\n\nSTRICT RULES:\n${TRANSCRIPT_SOURCE_RULE}- Return JSON only. No markdown, no code fences.\n- Fill ONLY the fields object, patient_name, patient_gender, and exam_date.\n- If a field is not explicitly mentioned, return an empty string for that field; the report builder fills normal defaults.\n- Do NOT include Impression, Conclusion, Diagnosis, Advice, Plan, or Recommendations.\n- Ignore non-dictation audio (patient conversation, small talk, procedure chatter). Extract only reportable findings.\n- Pay special attention to negations, laterality, and measurements/units.${organRule}\n- Use professional radiology terminology only.\n- If uncertain, write "[Unclear - needs review]" and add a flag.\n\nReturn JSON ONLY with schema:\n{\n  "template_id": "${structured.id}",\n  "patient_name": "",\n  "patient_gender": "",\n  "exam_date": "",\n  "fields": {\n${fieldsSchema}\n  },\n  "flags": [],\n  "disclaimer": "${DEFAULT_DISCLAIMER}"\n}`;
+}
+
+function buildStructuredFieldGuidance(structured: StructuredTemplateDef) {
+  return listStructuredFields(structured)
+    .map(
+      (item) =>
+        `- ${item.key}: ${item.label}${item.normal ? ` (normal wording: "${item.normal}.")` : ""}`
+    )
+    .join("\n");
+}
+
+function buildThyroidSystemText() {
+  const fieldsSchema = THYROID_FIELD_KEYS.map((key) => `    "${key}": ""`).join(",\n");
+  return `You are a radiology documentation assistant. Follow strict rules and output JSON only.\n\nSTRICT RULES:\n${TRANSCRIPT_SOURCE_RULE}- Return JSON only. No markdown, no code fences.\n- Fill the fields object with dictated gland findings; if a field is not explicitly mentioned, return an empty string (the report builder fills normal defaults).\n- Add one nodules entry per dictated thyroid nodule. Never invent nodules.\n- Nodule sizes are numbers in millimetres (convert cm to mm); return null for a dimension that was not dictated.\n- Map each nodule feature to the closest allowed value. Use "indeterminate" when composition, echogenicity, or margin was not stated; use ["none"] when no echogenic foci were described.\n- Do NOT compute TI-RADS points, categories, or FNA recommendations; the report builder does that.\n- impression holds only a dictated impression for diffuse gland disease; nodule impressions are generated.\n- Organ-state consistency is mandatory: if a lobe is surgically absent or not visualized, say so in its main field and add no nodules for it.\n- Ignore non-dictation audio (patient conversation, small talk, procedure chatter). Extract only reportable findings.\n- Use professional radiology terminology only.\n- If uncertain, write "[Unclear - needs review]" and add a flag.\n\nReturn JSON ONLY with schema:\n{\n  "template_id": "${THYROID_TEMPLATE_ID}",\n  "patient_name": "",\n  "patient_gender": "",\n  "exam_date": "",\n  "fields": {\n${fieldsSchema}\n  },\n  "nodules": [\n    { "lobe": "right", "location": "", "ap_mm": null, "transverse_mm": null, "cc_mm": null, "composition": "", "echogenicity": "", "shape": "", "margin": "", "echogenic_foci": [], "description": "" }\n  ],\n  "flags": [],\n  "disclaimer": "${DEFAULT_DISCLAIMER}"\n}`;
+}
+
+const THYROID_NODULE_GUIDANCE = `NODULE GUIDANCE (ACR TI-RADS lexicon):\n- lobe: right, left, isthmus, or unspecified\n- location: pole/position within the lobe (e.g., lower pole)\n- ap_mm, transverse_mm, cc_mm: the three dimensions in mm\n- composition: ${TIRADS_COMPOSITIONS.join(", ")}\n- echogenicity: ${TIRADS_ECHOGENICITIES.join(", ")}\n- shape: ${TIRADS_SHAPES.join(", ")}\n- margin: ${TIRADS_MARGINS.join(", ")}\n- echogenic_foci: any of ${TIRADS_ECHOGENIC_FOCI.join(", ")}\n- Use not_described for any composition, echogenicity, shape or margin that was not dictated; use indeterminate only when it was dictated as indeterminate\n- description: other dictated detail (vascularity, halo, interval change) as a full sentence`;
+
+function buildBreastSystemText() {
+  const fieldsSchema = BREAST_FIELD_KEYS.map((key) => `    "${key}": ""`).join(",\n");
+  return `You are a radiology documentation assistant. Follow strict rules and output JSON only.\n\nSTRICT RULES:\n${TRANSCRIPT_SOURCE_RULE}- Return JSON only. No markdown, no code fences.\n- exam_side is bilateral unless only one breast was examined.\n- Fill the fields object with dictated background findings; if a field is not explicitly mentioned, return an empty string (the report builder fills normal defaults).\n- Add one lesions entry per dictated breast lesion. Never invent lesions.\n- Laterality is mandatory: set side exactly as dictated; use "unspecified" if the side was not stated. Never guess it from the clock position.\n- clock_position is the clock-face hour (1-12) or null. Sizes are numbers in mm (convert cm to mm); distance_from_nipple_cm stays in cm.\n- Map each lesion feature to the closest BI-RADS lexicon value.\n- Do NOT assign BI-RADS categories or management; the report builder does that.\n- impression holds only a dictated impression for non-lesion findings; lesion impressions are generated.\n- Ignore non-dictation audio (patient conversation, small talk, procedure chatter). Extract only reportable findings.\n- Use professional radiology terminology only.\n- If uncertain, write "[Unclear - needs review]" and add a flag.\n\nReturn JSON ONLY with schema:\n{\n  "template_id": "${BREAST_TEMPLATE_ID}",\n  "patient_name": "",\n  "patient_gender": "",\n  "exam_date": "",\n  "exam_side": "bilateral",\n  "fields": {\n${fieldsSchema}\n  },\n  "lesions": [\n    { "side": "right", "clock_position": null, "location": "", "distance_from_nipple_cm": null, "ap_mm": null, "transverse_mm": null, "cc_mm": null, "shape": "", "orientation": "", "margin": "", "echo_pattern": "", "posterior_features": "", "calcifications": "", "biopsy_proven_malignancy": false, "description": "" }\n  ],\n  "flags": [],\n  "disclaimer": "${DEFAULT_DISCLAIMER}"\n}`;
+}
+
+const BREAST_LESION_GUIDANCE = `LESION GUIDANCE (BI-RADS ultrasound lexicon):\n- side: right, left, or unspecified\n- clock_position: hour on the clock face; location: quadrant, retroareolar or axillary tail wording as dictated\n- distance_from_nipple_cm: distance from the nipple in cm\n- ap_mm, transverse_mm, cc_mm: the three dimensions in mm\n- shape: ${BIRADS_SHAPES.join(", ")}\n- orientation: ${BIRADS_ORIENTATIONS.join(", ")}\n- margin: ${BIRADS_MARGINS.join(", ")}\n- echo_pattern: ${BIRADS_ECHO_PATTERNS.join(", ")}\n- posterior_features: ${BIRADS_POSTERIOR_FEATURES.join(", ")}\n- calcifications: ${BIRADS_CALCIFICATIONS.join(", ")}\n- Use not_described for any shape, orientation, margin, echo_pattern, posterior_features or calcifications that was not dictated\n- biopsy_proven_malignancy: true only when a prior biopsy-proven cancer is dictated for this lesion\n- description: other dictated detail (vascularity, elasticity, interval change) as a full sentence`;
+
+function buildDopplerSystemText(templateId: string, mode: DopplerMode) {
+  const fieldsSchema = dopplerFieldKeys(mode)
+    .map((key) => `    "${key}": ""`)
+    .join(",\n");
+  return `You are a radiology documentation assistant. Follow strict rules and output JSON only.\n\nSTRICT RULES:\n${TRANSCRIPT_SOURCE_RULE}- Return JSON only. No markdown, no code fences.\n- exam_side is bilateral unless only one limb was examined.\n- Fill ONLY the fields object, patient_name, patient_gender, exam_date, and exam_side.\n- Laterality is mandatory: put each finding under the side it was dictated for. Never copy a finding to the other side.\n- If a field is not explicitly mentioned, return an empty string; the report builder fills normal defaults.\n- <side>_summary holds a whole-limb statement (e.g., "Normal study") when dictated.\n- Do NOT include Impression, Conclusion, Diagnosis, Advice, Plan, or Recommendations.\n- Ignore non-dictation audio (patient conversation, small talk, procedure chatter). Extract only reportable findings.\n- Use professional radiology terminology only.\n- If uncertain, write "[Unclear - needs review]" and add a flag.\n\nReturn JSON ONLY with schema:\n{\n  "template_id": "${templateId}",\n  "patient_name": "",\n  "patient_gender": "",\n  "exam_date": "",\n  "exam_side": "bilateral",\n  "fields": {\n${fieldsSchema}\n  },\n  "flags": [],\n  "disclaimer": "${DEFAULT_DISCLAIMER}"\n}`;
+}
+
+function buildDopplerFieldGuidance(mode: DopplerMode) {
+  const def = getDopplerModeDef(mode);
+  return `Keys follow <side>_<segment>_<parameter> with side right or left.\nSegments: ${def.segments
+    .map((segment) => `${segment.key} (${segment.label})`)
+    .join(", ")}\nParameters:\n${def.parameters
+    .map(
+      (parameter) =>
+        `- ${parameter.key}: ${parameter.label}${
+          parameter.key === "psv" ? " - number only" : " - short finding"
+        }${parameter.normal ? ` (normal wording: "${parameter.normal}")` : ""}`
+    )
+    .join("\n")}${def.notes
+    .map((note) => `\n- ${note.key}: ${note.label} (normal wording: "${note.normal}.")`)
+    .join("")}\n- other_findings: findings outside the listed segments`;
+}
+
+const OBSTETRIC_FIELD_GUIDANCE: Record<string, string> = {
+  lmp: "last menstrual period date as spoken",
+  dictated_ga_weeks: "completed weeks of the gestational age by dates/LMP if dictated, else null",
+  dictated_ga_days: "extra days of the dictated gestational age, else null",
+  chorionicity: "chorionicity/amnionicity for multiple gestations (e.g., dichorionic diamniotic)",
+  cervical_length_mm: "cervical length in mm",
+  maternal_findings: "uterus, adnexa and other maternal findings as full sentences",
+  label: "fetus label as dictated (A, B, twin 1...)",
+  cardiac_activity: "cardiac activity as dictated (present/absent)",
+  fhr_bpm: "fetal heart rate in bpm",
+  presentation: "fetal presentation/lie (cephalic, breech, transverse)",
+  gestational_sac_msd_mm: "mean gestational sac diameter in mm",
+  yolk_sac: "yolk sac description",
+  crl_mm: "crown-rump length in mm",
+  nt_mm: "nuchal translucency in mm",
+  bpd_mm: "biparietal diameter in mm",
+  hc_mm: "head circumference in mm",
+  ac_mm: "abdominal circumference in mm",
+  fl_mm: "femur length in mm",
+  placenta: "placental location, grade and relation to the internal os",
+  afi_cm: "amniotic fluid index in cm",
+  dvp_cm: "deepest vertical pocket in cm",
+  other_findings: "other fetal findings (anatomy, cord, anomalies) as full sentences"
+};
+
+function buildObstetricSystemText(templateId: string, variant: ObstetricVariant) {
+  const keys = obstetricFieldKeys(variant);
+  const fetusSchema = [
+    ...keys.fetus.text.map((key) => `      "${key}": ""`),
+    ...keys.fetus.numeric.map((key) => `      "${key}": null`)
+  ].join(",\n");
+  const studySchema = [
+    ...keys.study.text.map((key) => `  "${key}": "",`),
+    ...keys.study.numeric.map((key) => `  "${key}": null,`)
+  ].join("\n");
+  return `You are a radiology documentation assistant. Follow strict rules and output JSON only.\n\nSTRICT RULES:\n${TRANSCRIPT_SOURCE_RULE}- Return JSON only. No markdown, no code fences.\n- Add one entry to fetuses per fetus, in the order dictated (Fetus A first). A singleton pregnancy has exactly one entry.\n- Measurements are numbers only. Convert every length to millimetres (e.g., BPD 5.8 cm -> 58) except afi_cm and dvp_cm, which stay in centimetres.\n- If a measurement is not explicitly dictated, return null. Never estimate a measurement.\n- Do NOT compute or output gestational age by ultrasound, EFW, or percentiles; the report builder calculates them.\n- dictated_ga_weeks/dictated_ga_days hold only a gestational age stated by dates/LMP, not one read off the machine for a measurement.\n- Do NOT include Impression, Conclusion, Diagnosis, Advice, Plan, or Recommendations.\n- Ignore non-dictation audio (patient conversation, small talk, procedure chatter). Extract only reportable findings.\n- Use professional radiology terminology only.\n- If uncertain, write "[Unclear - needs review]" and add a flag.\n\nReturn JSON ONLY with schema:\n{\n  "template_id": "${templateId}",\n  "patient_name": "",\n  "patient_gender": "",\n  "exam_date": "",\n${studySchema}\n  "fetuses": [\n    {\n${fetusSchema}\n    }\n  ],\n  "flags": [],\n  "disclaimer": "${DEFAULT_DISCLAIMER}"\n}`;
+}
+
+function buildObstetricFieldGuidance(variant: ObstetricVariant) {
+  const keys = obstetricFieldKeys(variant);
+  const describe = (key: string) => `- ${key}: ${OBSTETRIC_FIELD_GUIDANCE[key] || key}`;
+  return `STUDY FIELDS:\n${[...keys.study.text, ...keys.study.numeric]
+    .map(describe)
+    .join("\n")}\n\nPER-FETUS FIELDS (one fetuses entry per fetus):\n${[
+    ...keys.fetus.text,
+    ...keys.fetus.numeric
+  ]
+    .map(describe)
+    .join("\n")}`;
+}
+
+function sectionLabel(block: UsgBlockDef) {
+  return block.heading.replace(/:$/, "");
+}
+
+async function runSectionRedictation(params: {
+  templateId: string;
+  block: UsgBlockDef;
+  gender: UsgGender;
+  reportText: string;
+  transcript: DictationTranscript;
+  language: DictationLanguage;
+  stageFlags: string[];
+  voiceCommands: AppliedVoiceCommand[];
+  normalOrgans: VoiceOrgan[];
+  reportSettings: UsgReportSettings | null;
+  meter: UsageMeter;
+  signal?: AbortSignal;
+}) {
+  const { templateId, block, gender, reportText, transcript, language, stageFlags } = params;
+  const label = sectionLabel(block);
+  const fieldsSchema = block.fieldKeys.map((key) => `    "${key}": ""`).join(",\n");
+  const systemText = `You are a radiology documentation assistant. Follow strict rules and output JSON only.\n\nSTRICT RULES:\n${TRANSCRIPT_SOURCE_RULE}- Return JSON only. No markdown, no code fences.\n- This dictation re-records ONE report section: ${label}. Fill ONLY the fields listed in the schema.\n- If a field is not explicitly mentioned, return an empty string for that field.\n- Ignore findings that belong to other organs or sections.\n- Organ-state consistency is mandatory: if the organ is not visualized, surgically absent, or not assessed, put that statement in the main field and keep dependent detail fields empty.\n- Use professional radiology terminology only; convert "stone/stones" to "calculus/calculi".\n- Strings must be valid JSON (no unescaped newlines).\n- If uncertain, write "[Unclear - needs review]" and add a flag.\n- For every non-empty field, add an entry in field_sources keyed by the same field key: source_phrase, start_sec/end_sec (null if unknown), and confidence (0-1).\n\nReturn JSON ONLY with schema:\n{\n  "fields": {\n${fieldsSchema}\n  },\n  "field_sources": {},\n  "flags": []\n}`;
+  const userText = `Template: ${templateId}\nSection: ${label}\nAllowed field keys: ${block.fieldKeys.join(
+    ", "
+  )}\n\nDICTATION TRANSCRIPT (verbatim; [mm:ss-mm:ss] are offsets into the clip):\n${formatTranscriptForPrompt(
+    transcript
+  )}\n${buildExtractionLanguageNote(language)}`;
+
+  let parsedUsg: Record<string, unknown>;
+  try {
+    const result = await generateStructured<Record<string, unknown>>({
+      task: "generate-section",
+      systemText,
+      userText,
+      maxOutputTokens: 2048,
+      temperature: 0.2,
+      responseSchema: buildUsgSectionSchema(block.fieldKeys),
+      meter: params.meter,
+      signal: params.signal
+    });
+    parsedUsg = repairParsedLanguageArtifacts(result.value, language);
+    if (result.repaired) {
+      stageFlags.push(REPAIRED_OUTPUT_FLAG);
+    }
+    if (DEBUG_GEMINI_LOG) {
+      console.log(`[llm] section ${block.id} raw response:`, result.completion.text);
+    }
+  } catch (error) {
+    if (error instanceof ModelOutputValidationError) {
+      return modelOutputErrorResponse(error);
+    }
+    return NextResponse.json(
+      { error: (error as Error).message || "Model request failed." },
+      { status: 500 }
+    );
+  }
+
+  const extracted = fillNormalOrganFields(buildUsgFieldOverrides(parsedUsg), params.normalOrgans);
+  const blockOverrides: UsgFieldOverrides = {};
+  for (const key of block.fieldKeys) {
+    const value = extracted[key];
+    if (typeof value === "string" && value.trim()) {
+      blockOverrides[key] = value;
+    }
+  }
+  if (!Object.keys(blockOverrides).length) {
+    return NextResponse.json(
+      { error: `No ${label} findings were dictated in this clip.` },
+      { status: 422 }
+    );
+  }
+
+  const normalizedUsg = normalizeUsgOverridesForConsistency({
+    overrides: blockOverrides,
+    gender
+  });
+  const renderParams = {
+    gender,
+    overrides: normalizedUsg.overrides,
+    suppressedFields: normalizedUsg.suppressedFields,
+    settings: params.reportSettings
+  };
+  const renderedText = isUsgKubTemplateId(templateId)
+    ? buildUsgKubReport(renderParams)
+    : buildUsgReport(renderParams);
+
+  const spliced = spliceRenderedSection({
+    reportText,
+    renderedText,
+    blockId: block.id
+  });
+  if (!spliced) {
+    return NextResponse.json(
+      { error: `${label} is not a section of this report template.` },
+      { status: 422 }
+    );
+  }
+
+  const fieldAttributions = buildUsgFieldAttributions({
+    rawSources: parsedUsg.field_sources ?? parsedUsg.fieldSources,
+    overrides: normalizedUsg.overrides,
+    transcript
+  });
+  const flags = Array.isArray(parsedUsg.flags)
+    ? parsedUsg.flags.map((flag: unknown) => String(flag))
+    : [];
+  flags.push(...stageFlags);
+  const lowConfidenceFields = listLowConfidenceFields(fieldAttributions);
+  if (lowConfidenceFields.length) {
+    flags.push(
+      `Low-confidence extraction for ${lowConfidenceFields.length} field${
+        lowConfidenceFields.length === 1 ? "" : "s"
+      } (${lowConfidenceFields.join(", ")}); highlighted in the report for review.`
+    );
+  }
+  if (spliced.status === "inserted") {
+    flags.push(`${label} section was missing from the report and has been inserted.`);
+  }
+
+  return NextResponse.json({
+    template_id: templateId,
+    observations: spliced.text,
+    flags,
+    disclaimer: DEFAULT_DISCLAIMER,
+    transcript,
+    ...(params.voiceCommands.length ? { voice_commands: params.voiceCommands } : {}),
+    field_attributions: fieldAttributions,
+    section: {
+      block_id: block.id,
+      status: spliced.status
+    },
+    usage: params.meter.summary()
+  });
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const limit = await rateLimit(auth.user, "generate");
+  if (!limit.allowed) {
+    return rateLimitExceededResponse(limit);
+  }
+  return withRateLimitHeaders(await streamOrRunGenerate(request, auth.user), limit);
+}
+
+async function streamOrRunGenerate(request: NextRequest, user: AuthenticatedUser) {
+  const llmConfigError = getLlmConfigError();
+  if (llmConfigError) {
+    return NextResponse.json({ error: llmConfigError }, { status: 500 });
+  }
+  // Refused before any model call, so no usage goes unrecorded.
+  const ledgerConfigError = getUsageLedgerConfigError();
+  if (ledgerConfigError) {
+    return NextResponse.json({ error: ledgerConfigError }, { status: 500 });
+  }
+
+  const acceptsEventStream = (request.headers.get("accept") || "").includes(
+    "text/event-stream"
+  );
+  if (!acceptsEventStream) {
+    return runGenerate(request, user, () => undefined, request.signal);
+  }
+
+  const startedAt = Date.now();
+  const encoder = new TextEncoder();
+  // Aborted when the client goes away, so model calls stop spending tokens.
+  const abort = new AbortController();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // Writes after a disconnect throw; they are dropped instead.
+      const send = (event: string, data: unknown) => {
+        if (abort.signal.aborted) return;
+        try {
+          controller.enqueue(encoder.encode(encodeServerSentEvent(event, data)));
+        } catch {
+          abort.abort();
+        }
+      };
+      try {
+        const response = await runGenerate(
+          request,
+          user,
+          (stage, details = {}) => {
+            send("stage", { stage, elapsed_ms: Date.now() - startedAt, ...details });
+          },
+          abort.signal
+        );
+        const payload = await response.json().catch(() => ({}));
+        if (response.ok) {
+          send("complete", payload);
+        } else {
+          send("error", { ...payload, status: response.status });
+        }
+      } catch (streamError) {
+        send("error", {
+          error: streamError instanceof Error ? streamError.message : "Generation failed.",
+          status: 500
+        });
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed or cancelled by the client.
+        }
+      }
+    },
+    cancel() {
+      abort.abort();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive"
+    }
+  });
+}
+
+async function runGenerate(
+  request: NextRequest,
+  user: AuthenticatedUser,
+  emit: GenerationStageEmitter,
+  signal: AbortSignal
+) {
+  const meter = createUsageMeter();
+  let meteredTemplate: { id: string; title: string } | null = null;
+  let meteredReportId = "";
+  try {
+    const formData = await request.formData();
+    const templateId = formData.get("template_id")?.toString();
+    meteredReportId = parseLedgerReportId(formData.get("report_id")?.toString());
+    const audioFile = formData.get("audio_file");
+    const audioUrl = formData.get("audio_url")?.toString().trim() || "";
+    const transcriptRaw = formData.get("transcript")?.toString();
+    const mode = formData.get("mode")?.toString() || "";
+    const blockIdRaw = formData.get("block_id")?.toString() || "";
+    const reportTextRaw = formData.get("report_text")?.toString() || "";
+    const customTemplateTextRaw = formData
+      .get("custom_template_text")
+      ?.toString();
+    const customTemplateGenderRaw = formData
+      .get("custom_template_gender")
+      ?.toString();
     const customTemplateMappingRaw = formData
       .get("custom_template_mapping")
       ?.toString();
     const customTemplateProfileRaw = formData
       .get("custom_template_profile")
       ?.toString();
+    const criticalRules =
+      parseCriticalRulesJson(formData.get("critical_rules")?.toString() || "") ||
+      DEFAULT_CRITICAL_RULES;
+    const priorStudy = parsePriorStudyJson(formData.get("prior_study")?.toString() || "");
+    const reportSettings = parseUsgReportSettingsJson(
+      formData.get("report_settings")?.toString() || ""
+    );
+    const dictationLanguage = normalizeDictationLanguage(
+      formData.get("dictation_language")?.toString()
+    );
 
     if (!templateId) {
       return NextResponse.json({ error: "template_id is required." }, { status: 400 });
@@ -1168,6 +1660,7 @@ export async function POST(request: NextRequest) {
     if (!template) {
       return NextResponse.json({ error: "Unknown template_id." }, { status: 400 });
     }
+    meteredTemplate = template;
     const isCustomTemplate =
       template.id === CUSTOM_TEMPLATE_ID || template.id === CUSTOM_KUB_TEMPLATE_ID;
     const customTemplateText = (customTemplateTextRaw || "").replace(/\r\n/g, "\n");
@@ -1194,42 +1687,202 @@ export async function POST(request: NextRequest) {
       profileExtraFieldsSeed[fieldId] = "";
     }
 
-    if (!audioFile || !(audioFile instanceof File)) {
-      return NextResponse.json({ error: "audio_file is required." }, { status: 400 });
-    }
+    emit("upload_received", {
+      detail:
+        audioFile instanceof File
+          ? `${audioFile.size} bytes of audio`
+          : transcriptRaw?.trim()
+          ? "transcript"
+          : undefined
+    });
 
-    if (audioFile.size > MAX_AUDIO_BYTES) {
-      return NextResponse.json(
-        { error: "Audio file exceeds 100MB." },
-        { status: 413 }
-      );
+    const isSectionMode = mode === "section";
+    let sectionBlock: UsgBlockDef | undefined;
+    if (isSectionMode) {
+      sectionBlock = getUsgBlock(blockIdRaw.toUpperCase() as UsgBlockId);
+      if (!sectionBlock) {
+        return NextResponse.json({ error: "Unknown block_id." }, { status: 400 });
+      }
+      if (
+        !isUsgTemplateId(template.id) ||
+        isLesionUsgTemplateId(template.id) ||
+        isCustomTemplate
+      ) {
+        return NextResponse.json(
+          { error: "Section redictation is only available for standard USG templates." },
+          { status: 400 }
+        );
+      }
+      if (!reportTextRaw.trim()) {
+        return NextResponse.json(
+          { error: "report_text is required for section redictation." },
+          { status: 400 }
+        );
+      }
+      if (reportTextRaw.length > MAX_REPORT_TEXT_CHARS) {
+        return NextResponse.json(
+          { error: `report_text exceeds ${MAX_REPORT_TEXT_CHARS} characters.` },
+          { status: 413 }
+        );
+      }
+    } else if (mode) {
+      return NextResponse.json({ error: "Unknown mode." }, { status: 400 });
     }
 
-    if (estimateBase64Size(audioFile.size) > MAX_INLINE_AUDIO_BYTES) {
-      return NextResponse.json(
-        {
-          error:
-            "Audio file is too large for inline upload after base64 encoding (100MB limit). Please upload a smaller file (~75MB max) or switch to the Files API."
-        },
-        { status: 413 }
-      );
+    const stageFlags: string[] = [];
+    let transcript: DictationTranscript | null = null;
+    let segmentTranscripts: DictationTranscript[] = [];
+    if (transcriptRaw?.trim()) {
+      if (transcriptRaw.length > MAX_TRANSCRIPT_CHARS) {
+        return NextResponse.json(
+          { error: `transcript exceeds ${MAX_TRANSCRIPT_CHARS} characters.` },
+          { status: 413 }
+        );
+      }
+      transcript = sanitizeTranscript(transcriptRaw);
+      if (!transcript) {
+        return NextResponse.json({ error: "transcript is invalid." }, { status: 400 });
+      }
+      emit("transcribed", { detail: `${transcript.segments.length} segments (reused)` });
+    } else {
+      let audioBuffer: Buffer;
+      let audioName: string;
+      let mimeType: string;
+      if (audioUrl) {
+        const downloaded = await downloadStorageAudio({
+          url: audioUrl,
+          maxBytes: MAX_STORED_AUDIO_BYTES
+        });
+        if (!downloaded.ok) {
+          return NextResponse.json({ error: downloaded.error }, { status: downloaded.status });
+        }
+        audioBuffer = downloaded.buffer;
+        audioName = storageObjectName(audioUrl);
+        mimeType = normalizeAudioMimeType({
+          type: /^(audio|video)\//.test(downloaded.contentType) ? downloaded.contentType : "",
+          name: audioName
+        });
+      } else {
+        if (!audioFile || !(audioFile instanceof File)) {
+          return NextResponse.json(
+            { error: "audio_file or audio_url is required." },
+            { status: 400 }
+          );
+        }
+
+        if (audioFile.size > MAX_AUDIO_BYTES) {
+          return NextResponse.json(
+            { error: "Audio file exceeds 100MB. Upload it to storage and send audio_url instead." },
+            { status: 413 }
+          );
+        }
+
+        audioBuffer = Buffer.from(await audioFile.arrayBuffer());
+        audioName = audioFile.name;
+        mimeType = normalizeAudioMimeType(audioFile);
+      }
+
+      if (!mimeType || !mimeType.startsWith("audio/")) {
+        return NextResponse.json(
+          {
+            error:
+              "Unsupported audio type. Please upload a .wav, .mp3, .m4a, .mp4, .webm, or .ogg file."
+          },
+          { status: 400 }
+        );
+      }
+
+      try {
+        const transcription = await transcribeAudio({
+          buffer: audioBuffer,
+          mimeType,
+          displayName: audioName || "dictation",
+          language: dictationLanguage,
+          meter,
+          signal,
+          emit
+        });
+        if (!transcription) {
+          return NextResponse.json(
+            {
+              error:
+                "Audio is too large for inline upload (~75MB) and the configured model provider has no file store. Use WAV audio so it can be split into segments, or switch to the Gemini provider."
+            },
+            { status: 413 }
+          );
+        }
+        if (DEBUG_GEMINI_LOG) {
+          console.log("[llm] transcription raw response:", transcription.rawText);
+        }
+        transcript = transcription.transcript;
+        segmentTranscripts = transcription.pieces;
+      } catch (error) {
+        if (error instanceof ModelOutputValidationError) {
+          return modelOutputErrorResponse(error);
+        }
+        return NextResponse.json(
+          { error: (error as Error).message || "Transcription request failed." },
+          { status: 500 }
+        );
+      }
+      if (!transcript) {
+        return NextResponse.json(
+          { error: "No dictation could be transcribed from the audio." },
+          { status: 422 }
+        );
+      }
+      if (!hasTranscriptTimestamps(transcript)) {
+        stageFlags.push("Transcript timestamps unavailable for this recording.");
+      }
+      if (segmentTranscripts.length > 1) {
+        stageFlags.push(
+          `Long recording processed in ${segmentTranscripts.length} overlapping segments; findings were merged.`
+        );
+      }
+      emit("transcribed", { detail: `${transcript.segments.length} segments` });
     }
 
-    const mimeType = normalizeAudioMimeType(audioFile);
-    if (!mimeType || !mimeType.startsWith("audio/")) {
-      return NextResponse.json(
-        {
-          error:
-            "Unsupported audio type. Please upload a .wav, .mp3, .m4a, .mp4, .webm, or .ogg file."
-        },
-        { status: 400 }
+    // Spoken commands are resolved before extraction so the model only ever
+    // sees the dictation as the radiologist meant it. They run once over the
+    // whole recording, so a correction at the start of a piece still reaches
+    // the sentence before it; the pieces are cut again afterwards.
+    const voiceCommandResult = applyVoiceCommands(transcript);
+    transcript = voiceCommandResult.transcript;
+    if (segmentTranscripts.length > 1) {
+      segmentTranscripts = splitTranscriptAt(
+        transcript,
+        segmentTranscripts
+          .slice(1)
+          .map((piece) => piece.segments.find((segment) => segment.start_sec !== null)?.start_sec)
+          .filter((start): start is number => typeof start === "number")
       );
     }
-
-    const audioBuffer = Buffer.from(await audioFile.arrayBuffer());
-    const audioBase64 = audioBuffer.toString("base64");
+    const voiceCommands = voiceCommandResult.commands;
+    const normalOrgans = voiceCommandResult.normalOrgans;
+
+    if (sectionBlock) {
+      return await runSectionRedictation({
+        templateId: template.id,
+        block: sectionBlock,
+        gender: templateGenderFromId(template.id),
+        reportText: reportTextRaw.replace(/\r\n/g, "\n"),
+        transcript,
+        language: dictationLanguage,
+        stageFlags,
+        voiceCommands,
+        normalOrgans,
+        reportSettings,
+        meter,
+        signal
+      });
+    }
 
     const isUsg = isUsgTemplateId(template.id);
+    const isThyroid = isThyroidTemplateId(template.id);
+    const isBreast = isBreastTemplateId(template.id);
+    const structuredTemplate = isUsg ? null : getStructuredTemplate(template.id);
+    const obstetricVariant = isUsg ? null : getObstetricVariant(template.id);
+    const dopplerMode = isUsg ? null : getDopplerMode(template.id);
     const customGender = normalizeGender(customTemplateGenderRaw || "");
     const templateGender: UsgGender = isUsg
       ? isCustomTemplate
@@ -1242,7 +1895,7 @@ export async function POST(request: NextRequest) {
       customTemplateMappingRaw || ""
     );
     const isKUBTemplate = isUsgKubTemplateId(template.id);
-    const usgTemplateText = getUsgTemplateText(template.id, templateGender);
+    const usgTemplateText = getUsgTemplateText(template.id, templateGender, reportSettings);
     const usgTemplateScopeLabel = getUsgTemplateScopeLabel(template.id);
     const usgFilterScopeLabel = isKUBTemplate ? "USG-KUB" : "USG-abdomen";
     const usgKeywordScope = getUsgObservationKeywordScope(template.id);
@@ -1273,9 +1926,19 @@ export async function POST(request: NextRequest) {
     const phrasePreservationUserNote =
       "\n- Organ/device phrase examples to preserve exactly: Foley's bulb in situ, Foley's catheter in situ, DJ stent in situ, gall bladder in situ, uterus in situ, IUCD in situ, Copper-T in situ.\n- If audio sounds like \"C2\" / \"see two\" in these contexts, interpret it as \"in situ\".";
 
-    const systemText = isUsg
-    ? `You are a radiology documentation assistant. Follow strict rules and output JSON only.\n\nSTRICT RULES:\n- Return JSON only. No markdown, no code fences.\n- Use the provided ${usgTemplateScopeLabel} template for context, but do NOT output it directly.\n- Output MUST include the full fields object with ALL keys present. Do NOT omit keys.\n- Fill ONLY the fields object, patient_name, patient_gender, exam_date, and other_observations.\n- Ignore non-dictation audio (patient conversation, small talk, procedure chatter). Extract only reportable findings.\n- If a finding belongs to a canonical organ section, it MUST go into that organ field and NOT into other_observations.\n- Put text in other_observations only if it does not belong to any canonical organ section or field.\n- other_observations MUST contain only ${usgOtherObservationScope}. Do NOT include chatter/noise/admin instructions.${profileSystemRuleNote}${usgFocusRuleNote}${phrasePreservationRuleNote}\n- Example: renal/kidney findings such as cortical cysts belong in kidney fields, not other_observations.\n- If a field is not explicitly mentioned, return an empty string for that field.\n- Exception for impression: if not explicitly spoken, infer a concise impression from abnormal extracted findings.\n- If extracted findings are all normal/unremarkable, keep impression as empty string.\n- Strings must be valid JSON (no unescaped newlines).\n- If uncertain, write "[Unclear - needs review]" and add a flag.\n- For endometrium_measurement_mm, return numbers only (no units).\n- For bladder_prevoid_volume_cc and bladder_postvoid_volume_cc, return only dictated numeric values (cc), and keep empty if not explicitly stated.\n- Organ-state consistency is mandatory: if an organ is not visualized, surgically absent, or not assessed, put that statement in the organ main field and keep dependent detail fields empty.\n- Example: if uterus is absent/not visualized (e.g., post-hysterectomy), keep uterus_myometrium and endometrium_measurement_mm empty.\n- Use professional radiology terminology only; avoid colloquial wording.\n- Convert colloquial \"stone/stones\" wording to medical terms (\"calculus/calculi\") with correct singular/plural.\n- Use formal diagnostic terms in impression when appropriate (e.g., \"left nephrolithiasis\", \"cholelithiasis\").\n\nReturn JSON ONLY with schema:\n{\n  "template_id": "${template.id}",\n  "patient_name": "",\n  "patient_gender": "",\n  "exam_date": "",\n  "fields": {\n    "liver_main": "",\n    "liver_focal_lesion": "",\n    "liver_hepatic_veins": "",\n    "liver_ihbr": "",\n    "liver_portal_vein": "",\n    "gallbladder_main": "",\n    "gallbladder_calculus_sludge": "",\n    "cbd_main": "",\n    "pancreas_main": "",\n    "pancreas_echotexture": "",\n    "spleen_main": "",\n    "spleen_focal_lesion": "",\n    "kidneys_size": "",\n    "kidneys_main": "",\n    "kidneys_cmd": "",\n    "kidneys_cortical_scarring": "",\n    "kidneys_parenchyma": "",\n    "kidneys_calculus_hydronephrosis": "",\n    "bladder_main": "",\n    "bladder_wall_thickening": "",\n    "bladder_mass_calculus": "",\n    "bladder_prevoid_volume_cc": "",\n    "bladder_postvoid_volume_cc": "",\n    "prostate_main": "",\n    "prostate_echotexture": "",\n    "uterus_main": "",\n    "uterus_myometrium": "",\n    "endometrium_measurement_mm": "",\n    "ovaries_main": "",\n    "adnexal_mass": "",\n    "peritoneal_fluid": "",\n    "lymph_nodes": "",\n    "impression": "",\n    "correlate_clinically": ""\n  },\n  "other_observations": []${profileSchemaReturnSnippet},\n  "flags": [],\n  "disclaimer": "${DEFAULT_DISCLAIMER}"\n}`
-    : `You are a radiology documentation assistant. Follow strict rules and output JSON only.\n\nSTRICT RULES:\n- Output must contain ONLY OBSERVATIONS / FINDINGS.\n- Do NOT include Impression, Conclusion, Diagnosis, Advice, Plan, or Recommendations.\n- Do NOT add normal findings unless explicitly spoken in the audio.\n- Do NOT infer missing info. If uncertain, write "[Unclear - needs review]" and add a flag.\n- Ignore non-dictation audio (patient conversation, small talk, procedure chatter). Extract only reportable findings.\n- Pay special attention to negations, laterality, and measurements/units.\n\nReturn JSON ONLY with schema:\n{\n  "template_id": "...",\n  "observations": "...",\n  "flags": ["..."],\n  "disclaimer": "${DEFAULT_DISCLAIMER}"\n}`;
+    const systemText = isThyroid
+    ? buildThyroidSystemText()
+    : isBreast
+    ? buildBreastSystemText()
+    : isUsg
+    ? `You are a radiology documentation assistant. Follow strict rules and output JSON only.\n\nSTRICT RULES:\n${TRANSCRIPT_SOURCE_RULE}- Return JSON only. No markdown, no code fences.\n- Use the provided ${usgTemplateScopeLabel} template for context, but do NOT output it directly.\n- Output MUST include the full fields object with ALL keys present. Do NOT omit keys.\n- Fill ONLY the fields object, patient_name, patient_gender, exam_date, and other_observations.\n- Ignore non-dictation audio (patient conversation, small talk, procedure chatter). Extract only reportable findings.\n- If a finding belongs to a canonical organ section, it MUST go into that organ field and NOT into other_observations.\n- Put text in other_observations only if it does not belong to any canonical organ section or field.\n- other_observations MUST contain only ${usgOtherObservationScope}. Do NOT include chatter/noise/admin instructions.${profileSystemRuleNote}${usgFocusRuleNote}${phrasePreservationRuleNote}\n- Example: renal/kidney findings such as cortical cysts belong in kidney fields, not other_observations.\n- If a field is not explicitly mentioned, return an empty string for that field.\n- Exception for impression: if not explicitly spoken, infer a concise impression from abnormal extracted findings.\n- If extracted findings are all normal/unremarkable, keep impression as empty string.\n- Strings must be valid JSON (no unescaped newlines).\n- If uncertain, write "[Unclear - needs review]" and add a flag.\n- For every non-empty field, add an entry in field_sources keyed by the same field key: source_phrase (the exact transcript words it came from), start_sec/end_sec (from the transcript timestamps, null if unknown), and confidence (0-1: how sure you are it was heard and routed correctly).\n- For endometrium_measurement_mm, return numbers only (no units).\n- For bladder_prevoid_volume_cc and bladder_postvoid_volume_cc, return only dictated numeric values (cc), and keep empty if not explicitly stated.\n- Organ-state consistency is mandatory: if an organ is not visualized, surgically absent, or not assessed, put that statement in the organ main field and keep dependent detail fields empty.\n- Example: if uterus is absent/not visualized (e.g., post-hysterectomy), keep uterus_myometrium and endometrium_measurement_mm empty.\n- Use professional radiology terminology only; avoid colloquial wording.\n- Convert colloquial \"stone/stones\" wording to medical terms (\"calculus/calculi\") with correct singular/plural.\n- Use formal diagnostic terms in impression when appropriate (e.g., \"left nephrolithiasis\", \"cholelithiasis\").\n\nReturn JSON ONLY with schema:\n{\n  "template_id": "${template.id}",\n  "patient_name": "",\n  "patient_gender": "",\n  "exam_date": "",\n  "fields": {\n    "liver_main": "",\n    "liver_focal_lesion": "",\n    "liver_hepatic_veins": "",\n    "liver_ihbr": "",\n    "liver_portal_vein": "",\n    "gallbladder_main": "",\n    "gallbladder_calculus_sludge": "",\n    "cbd_main": "",\n    "pancreas_main": "",\n    "pancreas_echotexture": "",\n    "spleen_main": "",\n    "spleen_focal_lesion": "",\n    "kidneys_size": "",\n    "kidneys_main": "",\n    "kidneys_cmd": "",\n    "kidneys_cortical_scarring": "",\n    "kidneys_parenchyma": "",\n    "kidneys_calculus_hydronephrosis": "",\n    "bladder_main": "",\n    "bladder_wall_thickening": "",\n    "bladder_mass_calculus": "",\n    "bladder_prevoid_volume_cc": "",\n    "bladder_postvoid_volume_cc": "",\n    "prostate_main": "",\n    "prostate_echotexture": "",\n    "uterus_main": "",\n    "uterus_myometrium": "",\n    "endometrium_measurement_mm": "",\n    "ovaries_main": "",\n    "adnexal_mass": "",\n    "peritoneal_fluid": "",\n    "lymph_nodes": "",\n    "impression": "",\n    "correlate_clinically": ""\n  },\n  "other_observations": []${profileSchemaReturnSnippet},\n  "field_sources": {\n    "liver_main": { "source_phrase": "", "start_sec": null, "end_sec": null, "confidence": 0 }\n  },\n  "flags": [],\n  "disclaimer": "${DEFAULT_DISCLAIMER}"\n}`
+    : structuredTemplate
+    ? buildStructuredSystemText(structuredTemplate)
+    : dopplerMode
+    ? buildDopplerSystemText(template.id, dopplerMode)
+    : obstetricVariant
+    ? buildObstetricSystemText(template.id, obstetricVariant)
+    : `You are a radiology documentation assistant. Follow strict rules and output JSON only.\n\nSTRICT RULES:\n${TRANSCRIPT_SOURCE_RULE}- Output must contain ONLY OBSERVATIONS / FINDINGS.\n- Do NOT include Impression, Conclusion, Diagnosis, Advice, Plan, or Recommendations.\n- Do NOT add normal findings unless explicitly spoken in the audio.\n- Do NOT infer missing info. If uncertain, write "[Unclear - needs review]" and add a flag.\n- Ignore non-dictation audio (patient conversation, small talk, procedure chatter). Extract only reportable findings.\n- Pay special attention to negations, laterality, and measurements/units.\n\nReturn JSON ONLY with schema:\n{\n  "template_id": "...",\n  "observations": "...",\n  "flags": ["..."],\n  "disclaimer": "${DEFAULT_DISCLAIMER}"\n}`;
     const usgModeNote =
     isCustomTemplate
       ? `\nCUSTOM TEMPLATE MODE:\n- Extract canonical USG fields only.\n- Do NOT attempt to format the final custom report layout.\n- Leave unmentioned fields empty.${hasApprovedProfileExtraction ? `\n- Profile schema enabled with extra field ids: ${profileExtraFieldIds.join(", ")}` : ""}`
@@ -1287,48 +1950,129 @@ export async function POST(request: NextRequest) {
       ? `\nKUB FOCUS:\n- Primary sections are kidneys, urinary bladder, and ${templateGender === "female" ? "uterus" : "prostate"}.\n- Keep non-KUB organ fields empty unless explicitly dictated.`
       : "";
 
-    const userText = isUsg
-    ? `Template: ${template.title} (${template.id})\nAllowed topics: ${template.allowedTopics.join(", ")}\nPreferred order: ${template.headings?.join(" > ") || "Use logical order"}${usgModeNote}${usgFocusUserNote}\n\nPATIENT INFO:\n- patient_name: full patient name as spoken (if mentioned)\n- patient_gender: male/female as spoken (if mentioned)\n- exam_date: date as spoken (if mentioned)\n\nTERMINOLOGY STYLE:\n- Use professional radiology language only.\n- Avoid colloquial terms (e.g., do not output \"stone\"; use \"calculus/calculi\" as appropriate).\n- Prefer formal impression phrasing when appropriate (e.g., \"left nephrolithiasis\").${phrasePreservationUserNote}\n\nFIELD GUIDANCE (values plug into the report builder):\n- liver_main: sentence/phrase describing liver size/echotexture\n- liver_focal_lesion: full sentence\n- liver_hepatic_veins: full sentence\n- liver_ihbr: full sentence\n- liver_portal_vein: full sentence\n- gallbladder_main: sentence/phrase describing wall/contour\n- gallbladder_calculus_sludge: full sentence\n- cbd_main: full sentence (e.g., "CBD is normal." or "CBD measures 6 mm and is normal.")\n- pancreas_main: sentence/phrase for size/shape/contour\n- pancreas_echotexture: full sentence\n- spleen_main: sentence/phrase\n- spleen_focal_lesion: full sentence\n- kidneys_size: include right/left measurements if mentioned (e.g., "Right Kidney    : 116x46 mm      Left kidney   :   105x52 mm")\n- kidneys_main: full sentence\n- kidneys_cmd: full sentence\n- kidneys_cortical_scarring: full sentence\n- kidneys_parenchyma: full sentence\n- kidneys_calculus_hydronephrosis: full sentence\n- bladder_main: sentence/phrase\n- bladder_wall_thickening: full sentence\n- bladder_mass_calculus: full sentence\n- bladder_prevoid_volume_cc: dictated prevoid volume value only (cc), empty if not spoken\n- bladder_postvoid_volume_cc: dictated postvoid volume value only (cc), empty if not spoken\n- prostate_main: full sentence (male only)\n- prostate_echotexture: full sentence (male only)\n- uterus_main: full sentence (female only)\n- uterus_myometrium: full sentence (female only)\n- endometrium_measurement_mm: number only (female only)\n- ovaries_main: full sentence (female only)\n- adnexal_mass: full sentence (female only)\n- peritoneal_fluid: full sentence\n- lymph_nodes: full sentence\n- impression: if spoken, use it. If not spoken, infer concise impression from abnormal extracted findings using professional terminology. If all findings are normal/unremarkable, keep empty.\n- correlate_clinically: "Please correlate clinically." if dictated; empty if not mentioned\n- other_observations: only ${usgOtherObservationScope} not fitting canonical keys or sections (array of concise strings). Exclude noise/chatter/admin lines.\n- Routing rule: if a finding mentions a canonical organ or section, place it in that organ field instead of other_observations.\n- Example: "Few cortical cysts are seen in the right kidney..." belongs in kidney fields, not other_observations.\n- Organ-state rule: if any organ is not visualized, surgically absent, or not assessed, state that in organ main field and leave dependent detail fields empty (example: uterus absent -> uterus_myometrium=\"\", endometrium_measurement_mm=\"\").${profileUserGuidance}\n\nAllowed field keys: ${USG_FIELD_KEYS.join(", ")}\n\n${usgTemplateScopeLabel.toUpperCase()} TEMPLATE (for context only; do not output directly):\n${usgTemplateText}\n`
-    : `Template: ${template.title} (${template.id})\nAllowed topics: ${template.allowedTopics.join(", ")}\nPreferred order: ${template.headings?.join(" > ") || "Use logical order"}\n\nForbidden output sections: Impression, Conclusion, Diagnosis, Advice, Plan, Recommendations.\nOnly return OBSERVATIONS / FINDINGS.\n\nDo NOT add facts that are not explicitly spoken in the audio.`;
-
-    let rawText: string;
+    const transcriptPromptBlockFor = (source: DictationTranscript) =>
+      `\n\nDICTATION TRANSCRIPT (verbatim; [mm:ss-mm:ss] are offsets into the audio):\n${formatTranscriptForPrompt(
+        source
+      )}\n`;
+
+    const buildUserText = (transcriptPromptBlock: string) => isThyroid
+    ? `Template: ${template.title} (${template.id})\nAllowed topics: ${template.allowedTopics.join(", ")}\n\nPATIENT INFO:\n- patient_name: full patient name as spoken (if mentioned)\n- patient_gender: male/female as spoken (if mentioned)\n- exam_date: date as spoken (if mentioned)\n\nFIELD GUIDANCE (values plug into the report builder; leave a field empty when it was not dictated):\n- right_lobe_main / left_lobe_main: lobe size, dimensions and echotexture as full sentences\n- isthmus_main: isthmus thickness as a full sentence\n- parenchyma: diffuse echotexture/vascularity findings (e.g., heterogeneous, thyroiditis pattern)\n- cervical_lymph_nodes: cervical lymph node findings\n- other_findings: other neck findings (parathyroid, salivary glands)\n- impression: dictated impression for diffuse disease only\n\n${THYROID_NODULE_GUIDANCE}\n\nAllowed field keys: ${THYROID_FIELD_KEYS.join(", ")}${transcriptPromptBlock}`
+    : isBreast
+    ? `Template: ${template.title} (${template.id})\nAllowed topics: ${template.allowedTopics.join(", ")}\n\nPATIENT INFO:\n- patient_name: full patient name as spoken (if mentioned)\n- patient_gender: male/female as spoken (if mentioned)\n- exam_date: date as spoken (if mentioned)\n\nFIELD GUIDANCE (values plug into the report builder; leave a field empty when it was not dictated):\n- right_breast_main / left_breast_main: background parenchyma, ducts and skin for that breast as full sentences\n- right_axilla / left_axilla: axillary lymph node findings for that side\n- other_findings: findings outside the breasts and axillae\n- impression: dictated impression for non-lesion findings only\n\n${BREAST_LESION_GUIDANCE}\n\nAllowed field keys: ${BREAST_FIELD_KEYS.join(", ")}${transcriptPromptBlock}`
+    : isUsg
+    ? `Template: ${template.title} (${template.id})\nAllowed topics: ${template.allowedTopics.join(", ")}\nPreferred order: ${template.headings?.join(" > ") || "Use logical order"}${usgModeNote}${usgFocusUserNote}\n\nPATIENT INFO:\n- patient_name: full patient name as spoken (if mentioned)\n- patient_gender: male/female as spoken (if mentioned)\n- exam_date: date as spoken (if mentioned)\n\nTERMINOLOGY STYLE:\n- Use professional radiology language only.\n- Avoid colloquial terms (e.g., do not output \"stone\"; use \"calculus/calculi\" as appropriate).\n- Prefer formal impression phrasing when appropriate (e.g., \"left nephrolithiasis\").${phrasePreservationUserNote}\n\nFIELD GUIDANCE (values plug into the report builder):\n- liver_main: sentence/phrase describing liver size/echotexture\n- liver_focal_lesion: full sentence\n- liver_hepatic_veins: full sentence\n- liver_ihbr: full sentence\n- liver_portal_vein: full sentence\n- gallbladder_main: sentence/phrase describing wall/contour\n- gallbladder_calculus_sludge: full sentence\n- cbd_main: full sentence (e.g., "CBD is normal." or "CBD measures 6 mm and is normal.")\n- pancreas_main: sentence/phrase for size/shape/contour\n- pancreas_echotexture: full sentence\n- spleen_main: sentence/phrase\n- spleen_focal_lesion: full sentence\n- kidneys_size: include right/left measurements if mentioned (e.g., "Right Kidney    : 116x46 mm      Left kidney   :   105x52 mm")\n- kidneys_main: full sentence\n- kidneys_cmd: full sentence\n- kidneys_cortical_scarring: full sentence\n- kidneys_parenchyma: full sentence\n- kidneys_calculus_hydronephrosis: full sentence\n- bladder_main: sentence/phrase\n- bladder_wall_thickening: full sentence\n- bladder_mass_calculus: full sentence\n- bladder_prevoid_volume_cc: dictated prevoid volume value only (cc), empty if not spoken\n- bladder_postvoid_volume_cc: dictated postvoid volume value only (cc), empty if not spoken\n- prostate_main: full sentence (male only)\n- prostate_echotexture: full sentence (male only)\n- uterus_main: full sentence (female only)\n- uterus_myometrium: full sentence (female only)\n- endometrium_measurement_mm: number only (female only)\n- ovaries_main: full sentence (female only)\n- adnexal_mass: full sentence (female only)\n- peritoneal_fluid: full sentence\n- lymph_nodes: full sentence\n- impression: if spoken, use it. If not spoken, infer concise impression from abnormal extracted findings using professional terminology. If all findings are normal/unremarkable, keep empty.\n- correlate_clinically: "Please correlate clinically." if dictated; empty if not mentioned\n- field_sources: one entry per non-empty field. Use confidence below 0.6 whenever the transcript wording was unclear or ambiguous, or you had to infer the field.\n- other_observations: only ${usgOtherObservationScope} not fitting canonical keys or sections (array of concise strings). Exclude noise/chatter/admin lines.\n- Routing rule: if a finding mentions a canonical organ or section, place it in that organ field instead of other_observations.\n- Example: "Few cortical cysts are seen in the right kidney..." belongs in kidney fields, not other_observations.\n- Organ-state rule: if any organ is not visualized, surgically absent, or not assessed, state that in organ main field and leave dependent detail fields empty (example: uterus absent -> uterus_myometrium=\"\", endometrium_measurement_mm=\"\").${profileUserGuidance}\n\nAllowed field keys: ${USG_FIELD_KEYS.join(", ")}\n\n${usgTemplateScopeLabel.toUpperCase()} TEMPLATE (for context only; do not output directly):\n${usgTemplateText}\n${transcriptPromptBlock}`
+    : structuredTemplate
+    ? `Template: ${template.title} (${template.id})\nAllowed topics: ${template.allowedTopics.join(", ")}\n\nPATIENT INFO:\n- patient_name: full patient name as spoken (if mentioned)\n- patient_gender: male/female as spoken (if mentioned)\n- exam_date: date as spoken (if mentioned)\n\nFIELD GUIDANCE (values plug into the report builder; leave a field empty when it was not dictated):\n${buildStructuredFieldGuidance(
+        structuredTemplate
+      )}\n\nAllowed field keys: ${structuredFieldKeys(structuredTemplate).join(", ")}${transcriptPromptBlock}`
+    : dopplerMode
+    ? `Template: ${template.title} (${template.id})\nAllowed topics: ${template.allowedTopics.join(", ")}\n\nPATIENT INFO:\n- patient_name: full patient name as spoken (if mentioned)\n- patient_gender: male/female as spoken (if mentioned)\n- exam_date: date as spoken (if mentioned)\n\nFIELD GUIDANCE (values plug into a bilateral table; leave a field empty when it was not dictated):\n${buildDopplerFieldGuidance(
+        dopplerMode
+      )}\n\nAllowed field keys: ${dopplerFieldKeys(dopplerMode).join(", ")}${transcriptPromptBlock}`
+    : obstetricVariant
+    ? `Template: ${template.title} (${template.id})\nAllowed topics: ${template.allowedTopics.join(", ")}\n\nPATIENT INFO:\n- patient_name: full patient name as spoken (if mentioned)\n- patient_gender: female unless dictated otherwise\n- exam_date: date as spoken (if mentioned)\n\n${buildObstetricFieldGuidance(
+        obstetricVariant
+      )}${transcriptPromptBlock}`
+    : `Template: ${template.title} (${template.id})\nAllowed topics: ${template.allowedTopics.join(", ")}\nPreferred order: ${template.headings?.join(" > ") || "Use logical order"}\n\nForbidden output sections: Impression, Conclusion, Diagnosis, Advice, Plan, Recommendations.\nOnly return OBSERVATIONS / FINDINGS.\n\nDo NOT add facts that are not explicitly spoken in the audio.${transcriptPromptBlock}`;
+
+    const priorPromptBlock =
+      priorStudy && (isUsg || structuredTemplate || dopplerMode)
+        ? formatPriorStudyForPrompt(priorStudy)
+        : "";
+
+    const extractionSources = segmentTranscripts.length > 1 ? segmentTranscripts : [transcript];
+    const parsedSegments: Record<string, unknown>[] = [];
     let debugRawText: string | null = null;
 
-    try {
-      rawText = await callGemini({
-        apiKey,
-        userText,
-        systemText,
-        audioBase64,
-        mimeType,
-        maxOutputTokens: isUsg ? 4096 : 2048,
-        temperature: 0.2
-      });
-      debugRawText = rawText;
-      if (DEBUG_GEMINI_LOG) {
-        console.log("[gemini] raw response:", rawText);
+    const responseSchema = isThyroid
+      ? THYROID_OUTPUT_SCHEMA
+      : isBreast
+      ? BREAST_OUTPUT_SCHEMA
+      : isUsg
+      ? buildUsgExtractionSchema({
+          profileFieldIds: hasApprovedProfileExtraction ? profileExtraFieldIds : []
+        })
+      : structuredTemplate
+      ? buildStructuredExtractionSchema(structuredFieldKeys(structuredTemplate))
+      : dopplerMode
+      ? buildDopplerExtractionSchema(dopplerMode)
+      : obstetricVariant
+      ? buildObstetricExtractionSchema(obstetricVariant)
+      : NARRATIVE_OUTPUT_SCHEMA;
+
+    for (const [index, source] of extractionSources.entries()) {
+      try {
+        emit("model_call_started", {
+          task: "generate",
+          ...(extractionSources.length > 1
+            ? { detail: `segment ${index + 1}/${extractionSources.length}` }
+            : {})
+        });
+        const { value, completion, repaired } = await generateStructured<
+          Record<string, unknown>
+        >({
+          task: "generate",
+          userText: `${buildUserText(transcriptPromptBlockFor(source))}${buildExtractionLanguageNote(
+            dictationLanguage
+          )}${priorPromptBlock}`,
+          systemText,
+          maxOutputTokens: isUsg ? 6144 : 2048,
+          temperature: 0.2,
+          responseSchema,
+          meter,
+          signal,
+          onTextDelta: createTokenProgressHandler({
+            emit,
+            task: "generate",
+            trackUsgFields: isUsg && !isThyroid && !isBreast
+          })
+        });
+        const rawText = completion.text;
+        debugRawText = debugRawText ? `${debugRawText}\n\n${rawText}` : rawText;
+        if (DEBUG_GEMINI_LOG) {
+          console.log(
+            `[llm] ${completion.provider}/${completion.model} raw response (${completion.latencyMs} ms, ${completion.usage.totalTokens} tokens):`,
+            rawText
+          );
+        }
+        if (repaired && !stageFlags.includes(REPAIRED_OUTPUT_FLAG)) {
+          stageFlags.push(REPAIRED_OUTPUT_FLAG);
+        }
+        parsedSegments.push(value);
+      } catch (error) {
+        if (error instanceof ModelOutputValidationError) {
+          return modelOutputErrorResponse(error);
+        }
+        return NextResponse.json(
+          { error: (error as Error).message || "Model request failed." },
+          { status: 500 }
+        );
       }
-    } catch (error) {
-      return NextResponse.json(
-        { error: (error as Error).message || "Gemini request failed." },
-        { status: 500 }
-      );
     }
 
-    const parsed = parseModelJson(rawText);
-
-    if (!parsed) {
-      const errorPayload: { error: string; debug?: { rawText: string } } = {
-        error: "Gemini returned invalid JSON."
-      };
-      if (DEBUG_GEMINI_CLIENT && debugRawText) {
-        errorPayload.debug = { rawText: debugRawText };
-      }
-      return NextResponse.json(errorPayload, { status: 500 });
-    }
+    const parsedMerged =
+      parsedSegments.length === 1
+        ? parsedSegments[0]
+        : mergeSegmentExtractions(
+            parsedSegments,
+            isThyroid
+              ? "thyroid"
+              : isBreast
+              ? "breast"
+              : isUsg
+              ? "usg"
+              : structuredTemplate
+              ? "structured"
+              : dopplerMode
+              ? "doppler"
+              : obstetricVariant
+              ? "obstetric"
+              : "narrative"
+          );
+    const parsed = repairParsedLanguageArtifacts(parsedMerged, dictationLanguage);
 
     if (DEBUG_GEMINI_LOG) {
-      console.log("[gemini] parsed response:", parsed);
+      console.log("[llm] parsed response:", parsed);
     }
 
     let observationsRaw = "";
@@ -1343,282 +2087,513 @@ export async function POST(request: NextRequest) {
           extraction_confidence: number | null;
         }
       | undefined;
+    let fieldAttributions: UsgFieldAttributionMap | undefined;
+    let consistencyIssues: UsgConsistencyIssue[] = [];
+    let extractedFieldValues: Record<string, string> = {};
+    let extractedFieldLabels: Record<string, string> = {};
+    const untranslatedCount = countUntranslatedValues(parsed);
+    if (untranslatedCount) {
+      extraFlags.push(
+        `${untranslatedCount} extracted value(s) still contain ${dictationLanguageLabel(
+          dictationLanguage
+        )} text; review the translation.`
+      );
+    }
 
-    if (isUsg) {
-    const parsedUsg = parsed as Record<string, unknown>;
-    const extractedOverrides = buildUsgFieldOverrides(parsedUsg);
-    const {
-      observations: otherObservations,
-      droppedCount: droppedOtherObservationsCount
-    } = extractOtherObservations(parsedUsg, usgKeywordScope);
-    const unmappedFindingsRaw = extractUnmappedFindings(parsedUsg);
-    const unmappedFindingsFiltered = unmappedFindingsRaw.filter(
-      (finding) => isRelevantUsgOtherObservation(finding, usgKeywordScope)
-    );
-    const droppedUnmappedFindingsCount =
-      unmappedFindingsRaw.length - unmappedFindingsFiltered.length;
-    const profileExtraFieldValues = extractProfileExtraFields(
-      parsedUsg,
-      customTemplateProfile
-    );
-
-    const patientSource = parsedUsg;
-    const rawPatientName = getFieldValue(patientSource, [
-      "patient_name",
-      "patientName",
-      "name"
-    ]);
-    const rawPatientGender = getFieldValue(patientSource, [
-      "patient_gender",
-      "patientGender",
-      "gender",
-      "sex"
-    ]);
-    const rawExamDate = getFieldValue(patientSource, [
-      "exam_date",
-      "examDate",
-      "date"
-    ]);
-    const rawPatientAge = getFieldValue(patientSource, [
-      "patient_age",
-      "patientAge",
-      "age"
-    ]);
-    const rawPatientLabNo = getFieldValue(patientSource, [
-      "patient_lab_no",
-      "patientLabNo",
-      "lab_no",
-      "labNo",
-      "lab_number",
-      "labNumber"
-    ]);
-    const rawReferredBy = getFieldValue(patientSource, [
-      "referred_by",
-      "referredBy",
-      "referrer",
-      "referrer_name",
-      "referrerName"
-    ]);
-
-    const normalizedGender = normalizeGender(rawPatientGender);
-    let effectiveGender = templateGender;
-    if (normalizedGender) {
-      effectiveGender = normalizedGender as UsgGender;
-      if (effectiveGender !== templateGender) {
+    if (isThyroid) {
+      const normalizedThyroid = normalizeThyroidForConsistency(sanitizeThyroidStudy(parsed));
+      const { study } = normalizedThyroid;
+      emit("json_parsed", {
+        fields: study.fields as Record<string, string>,
+        detail: `${study.nodules.length} nodule(s)`
+      });
+      const absentLobes = Object.entries(normalizedThyroid.lobeStates).filter(
+        ([, state]) => state !== "present"
+      );
+      emit("normalization", {
+        detail: absentLobes.map(([lobe, state]) => `${lobe}: ${state}`).join(", ")
+      });
+      if (normalizedThyroid.droppedNodules) {
         extraFlags.push(
-          `Gender mismatch: template=${genderLabelFromKey(
-            templateGender
-          )}, audio=${genderLabelFromKey(effectiveGender)}`
+          `Dropped ${normalizedThyroid.droppedNodules} nodule(s) dictated in a lobe reported as absent or not visualized.`
         );
       }
-    } else if (rawPatientGender.trim()) {
-      extraFlags.push("Patient gender unclear; using template gender");
-    }
-
-    const reroutedObservations = rerouteOrganSpecificOtherObservations({
-      overrides: extractedOverrides,
-      observations: otherObservations
-    });
-    if (reroutedObservations.reroutedCount > 0) {
-      extraFlags.push(
-        `Moved ${reroutedObservations.reroutedCount} organ-specific observation${
-          reroutedObservations.reroutedCount === 1 ? "" : "s"
-        } from OTHER OBSERVATIONS into canonical report sections.`
+      const spokenGender = normalizeGender(
+        getFieldValue(parsed, ["patient_gender", "patientGender"])
       );
-    }
-
-    const normalizedUsg = normalizeUsgOverridesForConsistency({
-      overrides: reroutedObservations.overrides,
-      gender: effectiveGender
-    });
-    const overrides = normalizedUsg.overrides;
-    const hasHighRiskOrganState = Object.values(normalizedUsg.organStates).some(
-      (state) => state !== "visualized"
-    );
-    if (hasHighRiskOrganState) {
-      extraFlags.push(
-        "Applied organ-state consistency cleanup to avoid contradictory findings."
+      const thyroidReport = buildThyroidReport({
+        patient: {
+          name: getFieldValue(parsed, ["patient_name", "patientName"]),
+          gender: spokenGender ? genderLabelFromKey(spokenGender as UsgGender) : "",
+          date: getFieldValue(parsed, ["exam_date", "examDate"])
+        },
+        study,
+        suppressedFields: normalizedThyroid.suppressedFields
+      });
+      extractedFieldValues = study.fields as Record<string, string>;
+      extractedFieldLabels = THYROID_FIELD_LABELS;
+      observationsRaw = thyroidReport.text;
+      extraFlags.push(...thyroidReport.flags);
+    } else if (isBreast) {
+      const study = sanitizeBreastStudy(parsed);
+      emit("json_parsed", {
+        fields: study.fields as Record<string, string>,
+        detail: `${study.lesions.length} lesion(s), ${study.exam_side}`
+      });
+      const spokenGender = normalizeGender(
+        getFieldValue(parsed, ["patient_gender", "patientGender"])
       );
-    }
-
-    if (!hasAllUsgFieldKeys(parsedUsg.fields)) {
-      extraFlags.push("Model output missing some canonical fields; missing fields treated as empty.");
-    }
-    if (
-      hasApprovedProfileExtraction &&
-      !hasAllProfileFieldKeys(
-        parsedUsg.extra_fields && typeof parsedUsg.extra_fields === "object"
-          ? parsedUsg.extra_fields
-          : parsedUsg.extraFields && typeof parsedUsg.extraFields === "object"
-          ? parsedUsg.extraFields
-          : null,
-        profileExtraFieldIds
-      )
-    ) {
-      extraFlags.push(
-        "Model output missing some profile extra_fields keys; missing values treated as empty."
+      const breastReport = buildBreastReport({
+        patient: {
+          name: getFieldValue(parsed, ["patient_name", "patientName"]),
+          gender: spokenGender ? genderLabelFromKey(spokenGender as UsgGender) : "",
+          date: getFieldValue(parsed, ["exam_date", "examDate"])
+        },
+        study
+      });
+      emit("normalization", { detail: `BI-RADS ${breastReport.overall}` });
+      extractedFieldValues = study.fields as Record<string, string>;
+      extractedFieldLabels = BREAST_FIELD_LABELS;
+      observationsRaw = breastReport.text;
+      extraFlags.push(...breastReport.flags);
+    } else if (isUsg) {
+      const parsedUsg = parsed as Record<string, unknown>;
+      const extractedOverrides = fillNormalOrganFields(
+        buildUsgFieldOverrides(parsedUsg),
+        normalOrgans
       );
-    }
-    if (droppedOtherObservationsCount > 0) {
-      extraFlags.push(
-        `Filtered non-${usgFilterScopeLabel} or noisy lines from OTHER OBSERVATIONS.`
+      emit("json_parsed", { fields: nonEmptyUsgFields(extractedOverrides) });
+      const {
+        observations: otherObservations,
+        droppedCount: droppedOtherObservationsCount
+      } = extractOtherObservations(parsedUsg, usgKeywordScope);
+      const unmappedFindingsRaw = extractUnmappedFindings(parsedUsg);
+      const unmappedFindingsFiltered = unmappedFindingsRaw.filter(
+        (finding) => isRelevantUsgOtherObservation(finding, usgKeywordScope)
       );
-    }
-    if (droppedUnmappedFindingsCount > 0) {
-      extraFlags.push(
-        `Filtered non-${usgFilterScopeLabel} or noisy lines from unmapped findings.`
+      const droppedUnmappedFindingsCount =
+        unmappedFindingsRaw.length - unmappedFindingsFiltered.length;
+      const profileExtraFieldValues = extractProfileExtraFields(
+        parsedUsg,
+        customTemplateProfile
       );
-    }
 
-    const patient = {
-      name: rawPatientName,
-      gender: genderLabelFromKey(effectiveGender),
-      date: rawExamDate,
-      age: rawPatientAge,
-      labNo: rawPatientLabNo,
-      referredBy: rawReferredBy
-    };
+      const patientSource = parsedUsg;
+      const rawPatientName = getFieldValue(patientSource, [
+        "patient_name",
+        "patientName",
+        "name"
+      ]);
+      const rawPatientGender = getFieldValue(patientSource, [
+        "patient_gender",
+        "patientGender",
+        "gender",
+        "sex"
+      ]);
+      const rawExamDate = getFieldValue(patientSource, [
+        "exam_date",
+        "examDate",
+        "date"
+      ]);
+      const rawPatientAge = getFieldValue(patientSource, [
+        "patient_age",
+        "patientAge",
+        "age"
+      ]);
+      const rawPatientLabNo = getFieldValue(patientSource, [
+        "patient_lab_no",
+        "patientLabNo",
+        "lab_no",
+        "labNo",
+        "lab_number",
+        "labNumber"
+      ]);
+      const rawReferredBy = getFieldValue(patientSource, [
+        "referred_by",
+        "referredBy",
+        "referrer",
+        "referrer_name",
+        "referrerName"
+      ]);
+
+      const normalizedGender = normalizeGender(rawPatientGender);
+      let effectiveGender = templateGender;
+      if (normalizedGender) {
+        effectiveGender = normalizedGender as UsgGender;
+        if (effectiveGender !== templateGender) {
+          extraFlags.push(
+            `Gender mismatch: template=${genderLabelFromKey(
+              templateGender
+            )}, audio=${genderLabelFromKey(effectiveGender)}`
+          );
+        }
+      } else if (rawPatientGender.trim()) {
+        extraFlags.push("Patient gender unclear; using template gender");
+      }
 
-    if (isCustomTemplate) {
-      const rendered = renderCustomTemplateDeterministically({
-        templateText: customTemplateText,
-        mapping: customTemplateMapping,
+      const reroutedObservations = rerouteOrganSpecificOtherObservations({
+        overrides: extractedOverrides,
+        observations: otherObservations
+      });
+      if (reroutedObservations.reroutedCount > 0) {
+        extraFlags.push(
+          `Moved ${reroutedObservations.reroutedCount} organ-specific observation${
+            reroutedObservations.reroutedCount === 1 ? "" : "s"
+          } from OTHER OBSERVATIONS into canonical report sections.`
+        );
+      }
+      emit("rerouting", {
+        detail: `${reroutedObservations.reroutedCount} rerouted, ${reroutedObservations.remainingObservations.length} kept as other observations`,
+        fields: nonEmptyUsgFields(reroutedObservations.overrides)
+      });
+
+      const normalizedUsg = normalizeUsgOverridesForConsistency({
+        overrides: reroutedObservations.overrides,
+        gender: effectiveGender
+      });
+      const overrides = normalizedUsg.overrides;
+      emit("normalization", {
+        detail: Object.entries(normalizedUsg.organStates)
+          .filter(([, state]) => state !== "visualized")
+          .map(([organ, state]) => `${organ}: ${state}`)
+          .join(", "),
+        fields: nonEmptyUsgFields(overrides)
+      });
+      fieldAttributions = buildUsgFieldAttributions({
+        rawSources: parsedUsg.field_sources ?? parsedUsg.fieldSources,
         overrides,
-        gender: effectiveGender,
-        patient,
-        templateScope: isKUBTemplate ? "kub" : "abdomen",
-        suppressedFields: normalizedUsg.suppressedFields,
-        organStates: normalizedUsg.organStates
+        transcript
       });
-      observationsRaw = rendered.text;
-      if (rendered.sectionsDetected === 0) {
+      const lowConfidenceFields = listLowConfidenceFields(fieldAttributions);
+      if (lowConfidenceFields.length) {
         extraFlags.push(
-          "Custom template headings not detected; returned canonical USG report."
+          `Low-confidence extraction for ${lowConfidenceFields.length} field${
+            lowConfidenceFields.length === 1 ? "" : "s"
+          } (${lowConfidenceFields.join(", ")}); highlighted in the report for review.`
         );
-      } else if (rendered.sectionsReplaced === 0) {
+      }
+      const hasHighRiskOrganState = Object.values(normalizedUsg.organStates).some(
+        (state) => state !== "visualized"
+      );
+      if (hasHighRiskOrganState) {
         extraFlags.push(
-          "Custom template headings detected but no dictated section overrides found; template body preserved."
+          "Applied organ-state consistency cleanup to avoid contradictory findings."
         );
       }
-      if (rendered.usedFallbackDetection) {
+
+      if (droppedOtherObservationsCount > 0) {
         extraFlags.push(
-          "Custom template mapping partially resolved using heading heuristics."
+          `Filtered non-${usgFilterScopeLabel} or noisy lines from OTHER OBSERVATIONS.`
         );
       }
-      if (rendered.forcedCanonicalFallback) {
+      if (droppedUnmappedFindingsCount > 0) {
         extraFlags.push(
-          rendered.fallbackReason ||
-            "Custom template fallback to canonical report for consistency."
+          `Filtered non-${usgFilterScopeLabel} or noisy lines from unmapped findings.`
         );
       }
-      if (hasApprovedProfileExtraction && customTemplateProfile) {
-        const profileValues: Record<string, string> = {};
-        for (const key of USG_FIELD_KEYS) {
-          const value = overrides[key];
-          if (typeof value !== "string" || !value.trim()) continue;
-          profileValues[key] = value.trim();
-        }
-        for (const fieldId of profileExtraFieldIds) {
-          const value = profileExtraFieldValues[fieldId];
-          if (!value?.trim()) continue;
-          profileValues[fieldId] = value.trim();
-        }
 
-        const profileRendered = renderProfileSectionsDeterministically({
-          templateText: observationsRaw,
-          profile: customTemplateProfile,
-          values: profileValues
+      const patient = {
+        name: rawPatientName,
+        gender: genderLabelFromKey(effectiveGender),
+        date: rawExamDate,
+        age: rawPatientAge,
+        labNo: rawPatientLabNo,
+        referredBy: rawReferredBy
+      };
+
+      if (isCustomTemplate) {
+        const rendered = renderCustomTemplateDeterministically({
+          templateText: customTemplateText,
+          mapping: customTemplateMapping,
+          overrides,
+          gender: effectiveGender,
+          patient,
+          templateScope: isKUBTemplate ? "kub" : "abdomen",
+          suppressedFields: normalizedUsg.suppressedFields,
+          organStates: normalizedUsg.organStates,
+          settings: reportSettings
         });
-        observationsRaw = profileRendered.text;
-        if (profileRendered.sectionsDetected === 0) {
+        observationsRaw = rendered.text;
+        if (rendered.sectionsDetected === 0) {
           extraFlags.push(
-            "Approved template profile sections not detected in custom template."
+            "Custom template headings not detected; returned canonical USG report."
           );
-        } else if (profileRendered.sectionsReplaced === 0) {
+        } else if (rendered.sectionsReplaced === 0) {
           extraFlags.push(
-            "Template profile sections detected but no profile field overrides were filled."
+            "Custom template headings detected but no dictated section overrides found; template body preserved."
           );
         }
+        if (rendered.usedFallbackDetection) {
+          extraFlags.push(
+            "Custom template mapping partially resolved using heading heuristics."
+          );
+        }
+        if (rendered.forcedCanonicalFallback) {
+          extraFlags.push(
+            rendered.fallbackReason ||
+              "Custom template fallback to canonical report for consistency."
+          );
+        }
+        if (hasApprovedProfileExtraction && customTemplateProfile) {
+          const profileValues: Record<string, string> = {};
+          for (const key of USG_FIELD_KEYS) {
+            const value = overrides[key];
+            if (typeof value !== "string" || !value.trim()) continue;
+            profileValues[key] = value.trim();
+          }
+          for (const fieldId of profileExtraFieldIds) {
+            const value = profileExtraFieldValues[fieldId];
+            if (!value?.trim()) continue;
+            profileValues[fieldId] = value.trim();
+          }
+
+          const profileRendered = renderProfileSectionsDeterministically({
+            templateText: observationsRaw,
+            profile: customTemplateProfile,
+            values: profileValues
+          });
+          observationsRaw = profileRendered.text;
+          if (profileRendered.sectionsDetected === 0) {
+            extraFlags.push(
+              "Approved template profile sections not detected in custom template."
+            );
+          } else if (profileRendered.sectionsReplaced === 0) {
+            extraFlags.push(
+              "Template profile sections detected but no profile field overrides were filled."
+            );
+          }
+        }
+      } else if (isUsgKubTemplateId(template.id)) {
+        observationsRaw = buildUsgKubReport({
+          gender: effectiveGender,
+          patient,
+          overrides,
+          suppressedFields: normalizedUsg.suppressedFields,
+          settings: reportSettings
+        });
+      } else {
+        observationsRaw = buildUsgReport({
+          gender: effectiveGender,
+          patient,
+          overrides,
+          suppressedFields: normalizedUsg.suppressedFields,
+          settings: reportSettings
+        });
       }
-    } else if (isUsgKubTemplateId(template.id)) {
-      observationsRaw = buildUsgKubReport({
-        gender: effectiveGender,
-        patient,
-        overrides,
-        suppressedFields: normalizedUsg.suppressedFields
+
+      if (reroutedObservations.remainingObservations.length) {
+        observationsRaw = appendOtherObservationsSection(
+          observationsRaw,
+          reroutedObservations.remainingObservations
+        );
+        extraFlags.push(
+          "Additional non-canonical observations appended under OTHER OBSERVATIONS."
+        );
+      }
+
+      consistencyIssues = checkUsgConsistency({ overrides, reportText: observationsRaw });
+      extractedFieldValues = overrides as Record<string, string>;
+      extractedFieldLabels = USG_FIELD_LABELS;
+      extraFlags.push(...consistencyIssues.map((issue) => issue.message));
+
+      const extractionConfidenceValue =
+        typeof parsedUsg.extraction_confidence === "number" &&
+        Number.isFinite(parsedUsg.extraction_confidence)
+          ? Math.max(0, Math.min(1, parsedUsg.extraction_confidence))
+          : typeof parsedUsg.extractionConfidence === "number" &&
+            Number.isFinite(parsedUsg.extractionConfidence)
+          ? Math.max(0, Math.min(1, parsedUsg.extractionConfidence))
+          : null;
+      if (
+        extractionConfidenceValue !== null &&
+        extractionConfidenceValue < 0.5
+      ) {
+        extraFlags.push("Low extraction confidence; review report carefully.");
+      }
+
+      if (isCustomTemplate && customTemplateProfile) {
+        profileFeedback = {
+          unmapped_findings: unmappedFindingsFiltered,
+          suggested_new_fields: suggestProfileFieldIdsFromFindings(
+            unmappedFindingsFiltered
+          ),
+          extraction_confidence: extractionConfidenceValue
+        };
+      }
+    } else if (structuredTemplate) {
+      const fieldsSource =
+        parsed.fields && typeof parsed.fields === "object"
+          ? (parsed.fields as Record<string, unknown>)
+          : {};
+      const structuredOverrides: StructuredFieldOverrides = {};
+      for (const key of structuredFieldKeys(structuredTemplate)) {
+        const value = getFieldValue(fieldsSource, [key]);
+        if (value) structuredOverrides[key] = value;
+      }
+      emit("json_parsed", { fields: structuredOverrides });
+
+      const normalizedStructured = normalizeStructuredOverrides({
+        template: structuredTemplate,
+        overrides: structuredOverrides
       });
-    } else {
-      observationsRaw = buildUsgReport({
-        gender: effectiveGender,
-        patient,
-        overrides,
-        suppressedFields: normalizedUsg.suppressedFields
+      const flaggedOrgans = Object.entries(normalizedStructured.organStates).filter(
+        ([, state]) => state !== "visualized"
+      );
+      emit("normalization", {
+        detail: flaggedOrgans.map(([organ, state]) => `${organ}: ${state}`).join(", "),
+        fields: normalizedStructured.overrides
       });
-    }
+      for (const conflict of normalizedStructured.conflicts) {
+        extraFlags.push(
+          `${conflict.mainLabel} is dictated as ${conflict.state.replace(
+            /_/g,
+            " "
+          )}, but ${conflict.detailLabels.join(" and ")} ${
+            conflict.detailLabels.length === 1 ? "was" : "were"
+          } also dictated. Both are kept; review and resolve.`
+        );
+      }
 
-    if (reroutedObservations.remainingObservations.length) {
-      observationsRaw = appendOtherObservationsSection(
-        observationsRaw,
-        reroutedObservations.remainingObservations
+      const spokenGender = normalizeGender(
+        getFieldValue(parsed, ["patient_gender", "patientGender"])
       );
-      extraFlags.push(
-        "Additional non-canonical observations appended under OTHER OBSERVATIONS."
+      observationsRaw = buildStructuredReport({
+        template: structuredTemplate,
+        patient: {
+          name: getFieldValue(parsed, ["patient_name", "patientName"]),
+          gender: spokenGender ? genderLabelFromKey(spokenGender as UsgGender) : "",
+          date: getFieldValue(parsed, ["exam_date", "examDate"])
+        },
+        overrides: normalizedStructured.overrides,
+        suppressedFields: normalizedStructured.suppressedFields
+      });
+      extractedFieldValues = normalizedStructured.overrides;
+      extractedFieldLabels = Object.fromEntries(
+        listStructuredFields(structuredTemplate).map((item) => [item.key, item.label])
       );
-    }
-
-    const extractionConfidenceValue =
-      typeof parsedUsg.extraction_confidence === "number" &&
-      Number.isFinite(parsedUsg.extraction_confidence)
-        ? Math.max(0, Math.min(1, parsedUsg.extraction_confidence))
-        : typeof parsedUsg.extractionConfidence === "number" &&
-          Number.isFinite(parsedUsg.extractionConfidence)
-        ? Math.max(0, Math.min(1, parsedUsg.extractionConfidence))
-        : null;
-    if (
-      extractionConfidenceValue !== null &&
-      extractionConfidenceValue < 0.5
-    ) {
-      extraFlags.push("Low extraction confidence; review report carefully.");
-    }
-
-    if (isCustomTemplate && customTemplateProfile) {
-      profileFeedback = {
-        unmapped_findings: unmappedFindingsFiltered,
-        suggested_new_fields: suggestProfileFieldIdsFromFindings(
-          unmappedFindingsFiltered
-        ),
-        extraction_confidence: extractionConfidenceValue
-      };
-    }
+    } else if (dopplerMode) {
+      const study = sanitizeDopplerStudy(parsed, dopplerMode);
+      emit("json_parsed", { fields: study.fields, detail: study.exam_side });
+      const spokenGender = normalizeGender(
+        getFieldValue(parsed, ["patient_gender", "patientGender"])
+      );
+      const dopplerReport = buildDopplerReport({
+        mode: dopplerMode,
+        patient: {
+          name: getFieldValue(parsed, ["patient_name", "patientName"]),
+          gender: spokenGender ? genderLabelFromKey(spokenGender as UsgGender) : "",
+          date: getFieldValue(parsed, ["exam_date", "examDate"])
+        },
+        study
+      });
+      extractedFieldValues = study.fields;
+      extractedFieldLabels = dopplerFieldLabels(dopplerMode);
+      observationsRaw = dopplerReport.text;
+      extraFlags.push(...dopplerReport.flags);
+    } else if (obstetricVariant) {
+      const study = sanitizeObstetricStudy(parsed);
+      emit("json_parsed", { detail: `${study.fetuses.length} fetus(es)` });
+      const obstetricReport = buildObstetricReport({
+        variant: obstetricVariant,
+        patient: {
+          name: getFieldValue(parsed, ["patient_name", "patientName"]),
+          date: getFieldValue(parsed, ["exam_date", "examDate"])
+        },
+        study
+      });
+      observationsRaw = obstetricReport.text;
+      extraFlags.push(...obstetricReport.flags);
     } else {
+      emit("json_parsed");
       observationsRaw =
         typeof (parsed as any)?.observations === "string"
           ? (parsed as any).observations
           : "";
     }
 
+    const extractedFields = Object.fromEntries(
+      Object.entries(extractedFieldValues).filter(
+        ([, value]) => typeof value === "string" && value.trim()
+      )
+    );
     const disclaimerRaw =
       typeof parsed?.disclaimer === "string" && parsed.disclaimer.trim()
         ? parsed.disclaimer
         : DEFAULT_DISCLAIMER;
 
-    const sanitized = isUsg
-      ? { text: observationsRaw, removed: false }
-      : sanitizeObservations(observationsRaw, FORBIDDEN_HEADERS);
+    // Obstetric reports carry a computed impression, so they skip the
+    // forbidden-section filter like the USG templates do.
+    const sanitized =
+      isUsg || obstetricVariant
+        ? { text: observationsRaw, removed: false }
+        : sanitizeObservations(observationsRaw, FORBIDDEN_HEADERS);
     const emptyObservations = !sanitized.text.trim();
-    const flagsRawWithExtra = [...flagsRaw, ...extraFlags];
+    const criticalFindings = emptyObservations
+      ? []
+      : detectCriticalFindings({
+          rules: criticalRules,
+          templateId: template.id,
+          fields: extractedFieldValues,
+          observations: sanitized.text
+        });
+
+    // Added after critical-finding detection so findings quoted from the
+    // prior report are not flagged again.
+    let observationsText = sanitized.text;
+    let priorComparison: PriorComparison | undefined;
+    if (priorStudy && Object.keys(extractedFields).length) {
+      const comparisons = compareStudyFields({
+        prior: priorStudy.fields,
+        current: extractedFields
+      });
+      if (!emptyObservations) {
+        observationsText = insertBeforeReportFooter(
+          observationsText,
+          buildComparisonSection({
+            prior: priorStudy,
+            comparisons,
+            labels: extractedFieldLabels
+          }),
+          [reportSettings?.endOfReportLine || "", reportSettings?.limitationsNote || ""]
+        );
+      }
+      priorComparison = {
+        prior: {
+          report_id: priorStudy.report_id,
+          template_id: priorStudy.template_id,
+          exam_date: priorStudy.exam_date
+        },
+        fields: comparisons
+      };
+    }
+    const flagsRawWithExtra = [
+      ...criticalFindings.map(formatCriticalFindingFlag),
+      ...flagsRaw,
+      ...stageFlags,
+      ...extraFlags
+    ];
     const flags = sanitized.removed
       ? Array.from(new Set(["Removed forbidden section", ...flagsRawWithExtra]))
       : flagsRawWithExtra;
     const finalFlags = emptyObservations
       ? Array.from(new Set(["No clear findings detected in audio", ...flags]))
       : flags;
+    emit("render_complete", { chars: observationsText.length });
 
     const responsePayload: {
       template_id: string;
       observations: string;
       flags: string[];
       disclaimer: string;
+      transcript: DictationTranscript;
+      dictation_language?: DictationLanguage;
+      voice_commands?: AppliedVoiceCommand[];
+      field_attributions?: UsgFieldAttributionMap;
+      consistency_issues?: UsgConsistencyIssue[];
+      critical_findings?: CriticalFinding[];
+      extracted_fields?: Record<string, string>;
+      prior_comparison?: PriorComparison;
+      usage: GenerationUsage;
       profile_feedback?: {
         unmapped_findings: string[];
         suggested_new_fields: string[];
@@ -1629,11 +2604,43 @@ export async function POST(request: NextRequest) {
       template_id: template.id,
       observations: emptyObservations
         ? "[Unclear - needs review]"
-        : sanitized.text,
+        : observationsText,
       flags: finalFlags,
-      disclaimer: disclaimerRaw
+      disclaimer: disclaimerRaw,
+      transcript,
+      usage: meter.summary()
     };
 
+    // The transcript stays in the dictated language; the language tag tells
+    // the client how to read it.
+    if (dictationLanguage !== "en") {
+      responsePayload.dictation_language = dictationLanguage;
+    }
+
+    if (voiceCommands.length) {
+      responsePayload.voice_commands = voiceCommands;
+    }
+
+    if (fieldAttributions) {
+      responsePayload.field_attributions = fieldAttributions;
+    }
+
+    if (consistencyIssues.length) {
+      responsePayload.consistency_issues = consistencyIssues;
+    }
+
+    if (criticalFindings.length) {
+      responsePayload.critical_findings = criticalFindings;
+    }
+
+    if (Object.keys(extractedFields).length) {
+      responsePayload.extracted_fields = extractedFields;
+    }
+
+    if (priorComparison) {
+      responsePayload.prior_comparison = priorComparison;
+    }
+
     if (profileFeedback) {
       responsePayload.profile_feedback = profileFeedback;
     }
@@ -1653,5 +2660,14 @@ export async function POST(request: NextRequest) {
       payload.debug = { stack: (error as Error).stack as string };
     }
     return NextResponse.json(payload, { status: 500 });
+  } finally {
+    // Calls made before a failure or a client disconnect are billed too.
+    await recordGenerationUsage({
+      user,
+      reportId: meteredReportId,
+      templateId: meteredTemplate?.id || "",
+      templateTitle: meteredTemplate?.title || "",
+      usage: meter.summary()
+    });
   }
 }
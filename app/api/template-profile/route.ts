@@ -1,116 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
-import { rateLimit } from "@/lib/rateLimit";
+import {
+  rateLimit,
+  rateLimitExceededResponse,
+  withRateLimitHeaders
+} from "@/lib/rateLimit/limiter";
+import { authenticateRequest } from "@/lib/serverAuth";
 import { detectHeadingCandidates, hashTemplateText } from "@/lib/usgCustomTemplate";
 import {
   sanitizeTemplateProfile,
   TEMPLATE_PROFILE_VERSION
 } from "@/lib/usgTemplateProfile";
 import { USG_FIELD_KEYS } from "@/lib/usgTemplate";
+import { getLlmConfigError } from "@/lib/llm/provider";
+import { TEMPLATE_PROFILE_OUTPUT_SCHEMA } from "@/lib/llm/outputSchemas";
+import { generateStructured } from "@/lib/llm/structured";
 
 export const runtime = "nodejs";
 
-const MODEL_NAME = "gemini-2.5-flash";
 const MAX_TEMPLATE_CHARS = 80_000;
 
-function getClientIp(request: NextRequest) {
-  const forwardedFor = request.headers.get("x-forwarded-for");
-  if (forwardedFor) {
-    return forwardedFor.split(",")[0]?.trim() || "unknown";
-  }
-  return request.headers.get("x-real-ip") || "unknown";
-}
-
-function extractJson(text: string) {
-  const firstBrace = text.indexOf("{");
-  const lastBrace = text.lastIndexOf("}");
-  if (firstBrace === -1 || lastBrace === -1 || lastBrace <= firstBrace) {
-    throw new Error("No JSON object found in response");
-  }
-  return JSON.parse(text.slice(firstBrace, lastBrace + 1));
-}
-
-function stripControlChars(text: string) {
-  return text.replace(
-    /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F-\u009F\u200B-\u200D\uFEFF]/g,
-    ""
-  );
-}
-
-function escapeNewlinesInsideJsonStrings(text: string) {
-  let out = "";
-  let inString = false;
-  let escaped = false;
-  for (let i = 0; i < text.length; i += 1) {
-    const char = text[i];
-    if (!inString) {
-      out += char;
-      if (char === "\"") {
-        inString = true;
-      }
-      continue;
-    }
-
-    if (escaped) {
-      out += char;
-      escaped = false;
-      continue;
-    }
-
-    if (char === "\\") {
-      out += char;
-      escaped = true;
-      continue;
-    }
-
-    if (char === "\"") {
-      out += char;
-      inString = false;
-      continue;
-    }
-
-    if (char === "\n") {
-      out += "\\n";
-      continue;
-    }
-    if (char === "\r") {
-      out += "\\r";
-      continue;
-    }
-
-    out += char;
-  }
-  return out;
-}
-
-function removeTrailingCommas(text: string) {
-  return text.replace(/,\s*([}\]])/g, "$1");
-}
-
-function parseModelJson(rawText: string) {
-  const fenceMatch = rawText.match(/```(?:json)?\s*([\s\S]*?)\s*```/i);
-  const unfenced = fenceMatch ? fenceMatch[1] : rawText;
-  try {
-    return extractJson(unfenced);
-  } catch {
-    const sanitized = stripControlChars(unfenced);
-    try {
-      return extractJson(sanitized);
-    } catch {
-      const repairedNewlines = escapeNewlinesInsideJsonStrings(sanitized);
-      try {
-        return extractJson(repairedNewlines);
-      } catch {
-        const repairedCommas = removeTrailingCommas(repairedNewlines);
-        try {
-          return extractJson(repairedCommas);
-        } catch {
-          return null;
-        }
-      }
-    }
-  }
-}
-
 function buildFallbackProfileSeed(templateText: string) {
   const headingCandidates = detectHeadingCandidates(templateText);
   const headings = headingCandidates.map((item) => item.line).filter(Boolean);
@@ -146,12 +54,10 @@ function buildFallbackProfileSeed(templateText: string) {
   };
 }
 
-async function callGeminiTemplateIntelligence(params: {
-  apiKey: string;
+async function callTemplateIntelligence(params: {
   templateText: string;
   templateGender: string;
   templateScope: "abdomen" | "kub";
-  forceValidJson?: boolean;
 }) {
   const systemText =
     "You are a radiology template intelligence assistant. Output JSON only.";
@@ -196,72 +102,35 @@ Return JSON schema:
   "notes": []
 }
 
-TEMPLATE TEXT:\n${params.templateText}${
-    params.forceValidJson
-      ? "\n\nFINAL CHECK: return syntactically valid JSON only, matching the schema exactly."
-      : ""
-  }`;
-
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1/models/${MODEL_NAME}:generateContent?key=${params.apiKey}`,
-    {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json"
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            role: "user",
-            parts: [{ text: `${systemText}\n\n${userText}` }]
-          }
-        ],
-        generationConfig: {
-          temperature: 0.1,
-          maxOutputTokens: 4096
-        }
-      })
-    }
-  );
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Gemini API error: ${response.status} ${errorText}`);
-  }
-
-  const data = await response.json();
-  const parts = data?.candidates?.[0]?.content?.parts || [];
-  const text = parts
-    .map((part: { text?: string }) => part.text || "")
-    .join("")
-    .trim();
+TEMPLATE TEXT:\n${params.templateText}`;
 
-  if (!text) {
-    throw new Error("Empty response from Gemini");
-  }
-
-  return text;
+  const { value } = await generateStructured<Record<string, unknown>>({
+    task: "template-profile",
+    systemText,
+    userText,
+    temperature: 0.1,
+    maxOutputTokens: 4096,
+    responseSchema: TEMPLATE_PROFILE_OUTPUT_SCHEMA
+  });
+  return value;
 }
 
 export async function POST(request: NextRequest) {
-  const ip = getClientIp(request);
-  const limit = rateLimit(ip);
-
+  const auth = await authenticateRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const limit = await rateLimit(auth.user, "template-profile");
   if (!limit.allowed) {
-    return NextResponse.json(
-      {
-        error: "Rate limit exceeded. Try again later."
-      },
-      { status: 429 }
-    );
+    return rateLimitExceededResponse(limit);
   }
+  return withRateLimitHeaders(await buildTemplateProfile(request), limit);
+}
 
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    return NextResponse.json(
-      { error: "GEMINI_API_KEY is not configured." },
-      { status: 500 }
-    );
+async function buildTemplateProfile(request: NextRequest) {
+  const llmConfigError = getLlmConfigError();
+  if (llmConfigError) {
+    return NextResponse.json({ error: llmConfigError }, { status: 500 });
   }
 
   let templateText = "";
@@ -296,30 +165,14 @@ export async function POST(request: NextRequest) {
 
   const templateHash = hashTemplateText(templateText.trim());
 
-  let rawText = "";
   let parsed: Record<string, unknown> | null = null;
   let intelligenceError = "";
   try {
-    rawText = await callGeminiTemplateIntelligence({
-      apiKey,
+    parsed = await callTemplateIntelligence({
       templateText,
       templateGender,
       templateScope
     });
-    parsed = parseModelJson(rawText) as Record<string, unknown> | null;
-    if (!parsed) {
-      rawText = await callGeminiTemplateIntelligence({
-        apiKey,
-        templateText,
-        templateGender,
-        templateScope,
-        forceValidJson: true
-      });
-      parsed = parseModelJson(rawText) as Record<string, unknown> | null;
-    }
-    if (!parsed) {
-      throw new Error("Template intelligence returned invalid JSON.");
-    }
   } catch (error) {
     intelligenceError =
       (error as Error).message || "Template intelligence failed.";
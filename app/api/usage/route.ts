@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  rateLimit,
+  rateLimitExceededResponse,
+  withRateLimitHeaders
+} from "@/lib/rateLimit/limiter";
+import { authenticateRequest } from "@/lib/serverAuth";
+import {
+  getUsageLedgerConfigError,
+  readUsageLedger,
+  usageLedgerMonth
+} from "@/lib/usageLedger/ledger";
+
+export const runtime = "nodejs";
+
+const MONTH_PATTERN = /^\d{4}-(?:0[1-9]|1[0-2])$/;
+
+// Returns the server-written usage ledger for one UTC month (the current one
+// unless `month=YYYY-MM` is given). Admins only.
+export async function GET(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  if (!auth.user.admin) {
+    return NextResponse.json({ error: "Admin access required." }, { status: 403 });
+  }
+  const limit = await rateLimit(auth.user, "admin-usage");
+  if (!limit.allowed) {
+    return rateLimitExceededResponse(limit);
+  }
+  return withRateLimitHeaders(await listUsage(request), limit);
+}
+
+async function listUsage(request: NextRequest) {
+  const ledgerConfigError = getUsageLedgerConfigError();
+  if (ledgerConfigError) {
+    return NextResponse.json({ error: ledgerConfigError }, { status: 500 });
+  }
+  const month = request.nextUrl.searchParams.get("month")?.trim() || usageLedgerMonth(Date.now());
+  if (!MONTH_PATTERN.test(month)) {
+    return NextResponse.json({ error: "month must be YYYY-MM." }, { status: 400 });
+  }
+  try {
+    return NextResponse.json({ month, entries: await readUsageLedger(month) });
+  } catch (error) {
+    return NextResponse.json(
+      { error: (error as Error).message || "Usage ledger unavailable." },
+      { status: 500 }
+    );
+  }
+}
@@ -11,8 +11,10 @@ import {
   updateProfile
 } from "firebase/auth";
 import {
+  addDoc,
   collection,
   collectionGroup,
+  deleteDoc,
   doc,
   getDoc,
   increment,
@@ -38,20 +40,32 @@ import {
   extractObservationCoreText,
   fileNameSafe,
   labelForStatus,
+  listPriorReportCandidates,
   modalityForTemplateId,
+  needsCriticalAcknowledgement,
   parsePatientFromReport,
   parseTimestampToMillis,
+  pinCriticalReports,
   statusBadgeClasses,
   type ReportRecord,
   type ReportStatus
 } from "@/lib/firebasePersistence";
 import {
+  buildUsgKubReport,
+  buildUsgReport,
   type UsgGender,
+  type UsgReportSettings,
   USG_ABDOMEN_FEMALE_TEMPLATE,
   USG_ABDOMEN_MALE_TEMPLATE,
+  USG_BUILT_IN_BOILERPLATE,
   USG_KUB_FEMALE_TEMPLATE,
   USG_KUB_MALE_TEMPLATE
 } from "@/lib/usgTemplate";
+import {
+  parseUsgReportSettingsJson,
+  sanitizeUsgReportSettings,
+  USG_REPORT_SETTING_LINES
+} from "@/lib/usg/reportSettings";
 import {
   CUSTOM_TEMPLATE_ID,
   CUSTOM_KUB_TEMPLATE_ID,
@@ -68,9 +82,89 @@ import {
   sanitizeTemplateProfile,
   type TemplateProfile
 } from "@/lib/usgTemplateProfile";
+import {
+  formatTranscriptTimestamp,
+  sanitizeTranscript,
+  type DictationTranscript
+} from "@/lib/transcript";
+import {
+  listLowConfidenceFields,
+  parseUsgFieldAttributions,
+  type UsgFieldAttributionMap
+} from "@/lib/usg/attribution";
+import {
+  parseUsgConsistencyIssues,
+  type UsgConsistencyIssue
+} from "@/lib/usg/consistency";
+import { USG_BLOCKS, type UsgBlockId } from "@/lib/usg/blocks";
+import {
+  DEFAULT_CRITICAL_RULES,
+  MAX_CRITICAL_PATTERN_LENGTH,
+  MAX_CRITICAL_RULES,
+  formatCriticalFindingFlag,
+  parseCriticalFindings,
+  parseCriticalRulesJson,
+  type CriticalFinding
+} from "@/lib/criticalFindings";
+import { compareStudyFields, humanizeFieldKey } from "@/lib/priorComparison";
+import {
+  DEFAULT_DICTATION_LANGUAGE,
+  DICTATION_LANGUAGES,
+  normalizeDictationLanguage,
+  type DictationLanguage
+} from "@/lib/dictationLanguage";
+import { parseAppliedVoiceCommands, type AppliedVoiceCommand } from "@/lib/voiceCommands";
+import { isDopplerTemplateId } from "@/lib/usg/doppler";
+import { isThyroidTemplateId } from "@/lib/usg/thyroid";
+import { isBreastTemplateId } from "@/lib/usg/breast";
+import {
+  GENERATION_STAGE_LABELS,
+  parseGenerationStageEvent,
+  type GenerationStageEvent
+} from "@/lib/generationStages";
+import { readServerSentEvents } from "@/lib/sse";
+import { lcsDiff, type DiffOp } from "@/lib/textDiff";
+import {
+  buildAuditEditDiff,
+  labelForAuditEvent,
+  parseReportAuditEvent,
+  type ReportAuditEvent
+} from "@/lib/reportAudit";
+import {
+  labelForVersionReason,
+  parseReportVersion,
+  selectVersionsToPrune,
+  shouldSnapshotVersion,
+  type ReportVersion,
+  type ReportVersionReason
+} from "@/lib/reportVersions";
+import {
+  buildSignOffExportHtml,
+  hashReportContent,
+  isSignedReport,
+  MAX_ADDENDUM_CHARS,
+  parseReportAddendum,
+  readReportSignOffFields,
+  readSignatureImage,
+  type ReportAddendum,
+  type ReportSignOffFields
+} from "@/lib/reportSignOff";
+import type { GenerationUsage } from "@/lib/llm/metering";
+import {
+  aggregateUsage,
+  formatTokenCount,
+  formatUsd,
+  monthlyBudgetAlerts,
+  parseGenerationUsage,
+  parseUsageEntries,
+  readReportUsageFields,
+  type UsageEntry,
+  type UsageGroupBy
+} from "@/lib/usageMetering";
 
 const MAX_AUDIO_BYTES = 100 * 1024 * 1024;
 const MAX_INLINE_AUDIO_BYTES = 100 * 1024 * 1024;
+const MAX_STORED_AUDIO_BYTES = 500 * 1024 * 1024;
 const TARGET_AUDIO_BITRATE = 96_000;
 const PREFERRED_MIME_TYPES = [
   "audio/webm;codecs=opus",
@@ -89,7 +183,19 @@ const TEMPLATE_PROFILE_ENDPOINT = API_BASE_URL
 const ISSUE_SUMMARY_ENDPOINT = API_BASE_URL
   ? `${API_BASE_URL.replace(/\/$/, "")}/api/admin-issue-summary`
   : "/api/admin-issue-summary";
-const ADMIN_EMAIL = "yashovrat56@gmail.com";
+const USAGE_ENDPOINT = API_BASE_URL
+  ? `${API_BASE_URL.replace(/\/$/, "")}/api/usage`
+  : "/api/usage";
+const USAGE_BUDGETS = {
+  centreMonthlyUsd: Number(process.env.NEXT_PUBLIC_USAGE_MONTHLY_BUDGET_USD || 0) || 0,
+  radiologistMonthlyUsd:
+    Number(process.env.NEXT_PUBLIC_USAGE_RADIOLOGIST_MONTHLY_BUDGET_USD || 0) || 0
+};
+const USAGE_GROUP_OPTIONS: Array<{ value: UsageGroupBy; label: string; column: string }> = [
+  { value: "day", label: "By day", column: "Day" },
+  { value: "template", label: "By template", column: "Template" },
+  { value: "radiologist", label: "By radiologist", column: "Radiologist" }
+];
 const DEFAULT_EDITOR_FONT_SIZE_PX = 16;
 const MIN_EDITOR_FONT_SIZE_PX = 12;
 const MAX_EDITOR_FONT_SIZE_PX = 24;
@@ -168,7 +274,20 @@ function escapeHtml(value: string) {
     .replace(/'/g, "&#39;");
 }
 
-function getDefaultTemplateText(templateId: string) {
+const REPORT_SETTINGS_PREVIEW_TEMPLATES = [
+  { id: "USG_ABDOMEN_MALE", label: "Abdomen (Male)" },
+  { id: "USG_ABDOMEN_FEMALE", label: "Abdomen (Female)" },
+  { id: "USG_KUB_MALE", label: "KUB (Male)" },
+  { id: "USG_KUB_FEMALE", label: "KUB (Female)" }
+];
+
+function getDefaultTemplateText(templateId: string, settings?: UsgReportSettings | null) {
+  if (settings && isKubTemplateId(templateId)) {
+    return buildUsgKubReport({ gender: templateId.endsWith("FEMALE") ? "female" : "male", settings });
+  }
+  if (settings && (templateId === "USG_ABDOMEN_MALE" || templateId === "USG_ABDOMEN_FEMALE")) {
+    return buildUsgReport({ gender: templateId.endsWith("FEMALE") ? "female" : "male", settings });
+  }
   if (templateId === "USG_ABDOMEN_FEMALE") return USG_ABDOMEN_FEMALE_TEMPLATE;
   if (templateId === "USG_ABDOMEN_MALE") return USG_ABDOMEN_MALE_TEMPLATE;
   if (templateId === "USG_KUB_FEMALE") return USG_KUB_FEMALE_TEMPLATE;
@@ -180,8 +299,8 @@ function normalizeLine(text: string) {
   return text.replace(/\s+/g, " ").trim().toLowerCase();
 }
 
-function buildDefaultLineSet(templateId: string) {
-  const template = getDefaultTemplateText(templateId);
+function buildDefaultLineSet(templateId: string, settings?: UsgReportSettings | null) {
+  const template = getDefaultTemplateText(templateId, settings);
   if (!template) return new Set<string>();
   return new Set(template.split(/\r?\n/).map(normalizeLine).filter(Boolean));
 }
@@ -559,8 +678,11 @@ function splitIntoSentences(text: string) {
     .filter(Boolean);
 }
 
-function buildDefaultSectionSentenceMap(templateId: string) {
-  const template = getDefaultTemplateText(templateId);
+function buildDefaultSectionSentenceMap(
+  templateId: string,
+  settings?: UsgReportSettings | null
+) {
+  const template = getDefaultTemplateText(templateId, settings);
   const map: Record<string, Set<string>> = {};
   if (!template) return map;
 
@@ -730,6 +852,53 @@ function buildKubHeaderTableHtml(rows: KubHeaderRow[]) {
   return `<table class="kub-header-table"><tbody>${rowHtml}</tbody></table>`;
 }
 
+function buildBilateralTableHtml(rows: string[][], className: string) {
+  const [header, ...body] = rows;
+  const headerHtml = `<tr>${header.map((cell) => `<th>${escapeHtml(cell)}</th>`).join("")}</tr>`;
+  const bodyHtml = body
+    .map(
+      ([label, ...cells]) =>
+        `<tr><th>${escapeHtml(label)}</th>${cells
+          .map((cell) => `<td>${escapeHtml(cell)}</td>`)
+          .join("")}</tr>`
+    )
+    .join("");
+  return `<table class="kub-header-table ${className}"><thead>${headerHtml}</thead><tbody>${bodyHtml}</tbody></table>`;
+}
+
+// Doppler segment tables and thyroid and breast lesion tables are ASCII grids
+// in the plain-text report, which a proportional font misaligns; they are
+// swapped for HTML the same way as the KUB header.
+function injectBilateralTables(lines: string[], className = "bilateral-table") {
+  const output: string[] = [];
+  for (let i = 0; i < lines.length; i += 1) {
+    if (!/^\+[-+]+\+$/.test(lines[i].trim())) {
+      output.push(lines[i]);
+      continue;
+    }
+    const rows: string[][] = [];
+    let j = i;
+    for (; j < lines.length; j += 1) {
+      const trimmed = lines[j].trim();
+      if (/^\+[-+]+\+$/.test(trimmed)) continue;
+      if (!trimmed.startsWith("|") || !trimmed.endsWith("|")) break;
+      rows.push(
+        trimmed
+          .slice(1, -1)
+          .split("|")
+          .map((cell) => cell.replace(/\s+/g, " ").trim())
+      );
+    }
+    if (rows.length < 2) {
+      output.push(lines[i]);
+      continue;
+    }
+    output.push(`${KUB_TABLE_MARKER}${buildBilateralTableHtml(rows, className)}`);
+    i = j - 1;
+  }
+  return output;
+}
+
 function injectKubHeaderTable(lines: string[]) {
   let startIndex = -1;
   let endIndex = -1;
@@ -782,13 +951,21 @@ function injectKubHeaderTable(lines: string[]) {
   return [...lines.slice(0, startIndex), htmlTable, ...lines.slice(endIndex + 1)];
 }
 
-function formatReportHtml(text: string, templateId: string) {
-  const defaultLines = buildDefaultLineSet(templateId);
-  const defaultSectionSentences = buildDefaultSectionSentenceMap(templateId);
+function formatReportHtml(
+  text: string,
+  templateId: string,
+  settings?: UsgReportSettings | null
+) {
+  const defaultLines = buildDefaultLineSet(templateId, settings);
+  const defaultSectionSentences = buildDefaultSectionSentenceMap(templateId, settings);
   const hasDefaults = defaultLines.size > 0;
   const baseLines = text.split(/\r?\n/);
   const lines = isKubTemplateId(templateId)
     ? injectKubHeaderTable(baseLines)
+    : isDopplerTemplateId(templateId)
+    ? injectBilateralTables(baseLines)
+    : isThyroidTemplateId(templateId) || isBreastTemplateId(templateId)
+    ? injectBilateralTables(baseLines, "lesion-table")
     : baseLines;
   return lines
     .map((line) => {
@@ -836,6 +1013,177 @@ function formatReportHtml(text: string, templateId: string) {
     .join("<br>");
 }
 
+function markLowConfidenceSentences(html: string, attributions: UsgFieldAttributionMap) {
+  let output = html;
+  for (const key of listLowConfidenceFields(attributions)) {
+    const entry = attributions[key];
+    if (!entry) continue;
+    const title = escapeHtml(
+      `Low confidence (${Math.round(entry.confidence * 100)}%)${
+        entry.source_phrase ? ` - heard: "${entry.source_phrase}"` : ""
+      }${entry.start_sec !== null ? ` at ${formatTranscriptTimestamp(entry.start_sec)}` : ""}`
+    );
+    for (const sentence of splitIntoSentences(entry.value)) {
+      const needle = escapeHtml(sentence.replace(/[.!?]+$/, "").replace(/\s+/g, " ").trim());
+      if (needle.length < 3) continue;
+      // Only search text between tags so earlier mark titles are never matched.
+      const parts = output.split(/(<[^>]+>)/);
+      for (let i = 0; i < parts.length; i += 1) {
+        if (parts[i].startsWith("<")) continue;
+        const index = parts[i].toLowerCase().indexOf(needle.toLowerCase());
+        if (index === -1) continue;
+        const matched = parts[i].slice(index, index + needle.length);
+        parts[i] = `${parts[i].slice(0, index)}<mark class="low-confidence" title="${title}">${matched}</mark>${parts[i].slice(index + needle.length)}`;
+        break;
+      }
+      output = parts.join("");
+    }
+  }
+  return output;
+}
+
+function readFieldAttributionsFromRawJson(rawJson: string) {
+  if (!rawJson) return {} as UsgFieldAttributionMap;
+  try {
+    const parsed = JSON.parse(rawJson) as Record<string, unknown>;
+    return parseUsgFieldAttributions(parsed?.field_attributions || null);
+  } catch {
+    return {} as UsgFieldAttributionMap;
+  }
+}
+
+function writeFieldAttributionsToRawJson(
+  rawJson: string,
+  attributions: UsgFieldAttributionMap
+) {
+  if (!rawJson) return rawJson;
+  try {
+    const parsed = JSON.parse(rawJson) as Record<string, unknown>;
+    return JSON.stringify({ ...parsed, field_attributions: attributions }, null, 2);
+  } catch {
+    return rawJson;
+  }
+}
+
+function readConsistencyIssuesFromRawJson(rawJson: string) {
+  if (!rawJson) return [] as UsgConsistencyIssue[];
+  try {
+    const parsed = JSON.parse(rawJson) as Record<string, unknown>;
+    return parseUsgConsistencyIssues(parsed?.consistency_issues);
+  } catch {
+    return [] as UsgConsistencyIssue[];
+  }
+}
+
+function readCriticalFindingsFromRawJson(rawJson: string) {
+  if (!rawJson) return [] as CriticalFinding[];
+  try {
+    const parsed = JSON.parse(rawJson) as Record<string, unknown>;
+    return parseCriticalFindings(parsed?.critical_findings);
+  } catch {
+    return [] as CriticalFinding[];
+  }
+}
+
+// Every API route verifies the Firebase ID token server-side.
+async function authorizationHeaders(user: User | null): Promise<Record<string, string>> {
+  const token = user ? await user.getIdToken() : "";
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+function formatReportFieldDefaultsDraft(settings: UsgReportSettings) {
+  return JSON.stringify(
+    {
+      fieldDefaults: settings.fieldDefaults || {},
+      kubFieldDefaults: settings.kubFieldDefaults || {}
+    },
+    null,
+    2
+  );
+}
+
+function parseReportFieldDefaultsDraft(text: string) {
+  if (!text.trim()) return {};
+  try {
+    const parsed = JSON.parse(text) as unknown;
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return null;
+    const raw = parsed as Record<string, unknown>;
+    return { fieldDefaults: raw.fieldDefaults, kubFieldDefaults: raw.kubFieldDefaults };
+  } catch {
+    return null;
+  }
+}
+
+function readVoiceCommandsFromRawJson(rawJson: string) {
+  if (!rawJson) return [] as AppliedVoiceCommand[];
+  try {
+    const parsed = JSON.parse(rawJson) as Record<string, unknown>;
+    return parseAppliedVoiceCommands(parsed?.voice_commands);
+  } catch {
+    return [] as AppliedVoiceCommand[];
+  }
+}
+
+function readExtractedFieldsFromRawJson(rawJson: string) {
+  const fields: Record<string, string> = {};
+  if (!rawJson) return fields;
+  try {
+    const parsed = JSON.parse(rawJson) as Record<string, unknown>;
+    const raw = parsed?.extracted_fields;
+    if (!raw || typeof raw !== "object") return fields;
+    for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+      if (typeof value === "string" && value.trim()) fields[key] = value.trim();
+    }
+  } catch {
+    return fields;
+  }
+  return fields;
+}
+
+function readPriorReportIdFromRawJson(rawJson: string) {
+  if (!rawJson) return "";
+  try {
+    const parsed = JSON.parse(rawJson) as { prior_comparison?: { prior?: { report_id?: unknown } } };
+    return String(parsed?.prior_comparison?.prior?.report_id || "");
+  } catch {
+    return "";
+  }
+}
+
+function writeConsistencyIssuesToRawJson(rawJson: string, issues: UsgConsistencyIssue[]) {
+  if (!rawJson) return rawJson;
+  try {
+    const parsed = JSON.parse(rawJson) as Record<string, unknown>;
+    return JSON.stringify({ ...parsed, consistency_issues: issues }, null, 2);
+  } catch {
+    return rawJson;
+  }
+}
+
+// Replaces the first match in text between tags; editor HTML may leave quotes
+// unescaped, so both encodings are tried.
+function replaceReportText(html: string, find: string, replace: string) {
+  const needles = Array.from(
+    new Set([
+      escapeHtml(find),
+      find.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+    ])
+  );
+  const parts = html.split(/(<[^>]+>)/);
+  for (let i = 0; i < parts.length; i += 1) {
+    if (parts[i].startsWith("<")) continue;
+    for (const needle of needles) {
+      const index = parts[i].indexOf(needle);
+      if (index === -1) continue;
+      parts[i] = `${parts[i].slice(0, index)}${escapeHtml(replace)}${parts[i].slice(
+        index + needle.length
+      )}`.replace(/ {2,}/g, " ");
+      return parts.join("");
+    }
+  }
+  return html;
+}
+
 function htmlToPlainText(html: string) {
   if (!html) return "";
   const withBreaks = html
@@ -1077,6 +1425,50 @@ function isCustomUsgTemplate(templateId: string) {
   return templateId === CUSTOM_TEMPLATE_ID || templateId === CUSTOM_KUB_TEMPLATE_ID;
 }
 
+const TOPIC_FIELD_PREFIXES: Record<string, string[]> = {
+  liver: ["liver_"],
+  "gall bladder": ["gallbladder_"],
+  cbd: ["cbd_"],
+  pancreas: ["pancreas_"],
+  spleen: ["spleen_"],
+  kidneys: ["kidneys_"],
+  "right kidney": ["kidneys_"],
+  "left kidney": ["kidneys_"],
+  "urinary bladder": ["bladder_main", "bladder_wall_thickening", "bladder_mass_calculus"],
+  "prevoid volume": ["bladder_prevoid_volume_cc"],
+  "postvoid volume": ["bladder_postvoid_volume_cc"],
+  prostate: ["prostate_"],
+  uterus: ["uterus_", "endometrium_"],
+  adenexa: ["ovaries_", "adnexal_"],
+  "peritoneal cavity": ["peritoneal_"],
+  "lymph nodes": ["lymph_"],
+  impression: ["impression"],
+  correlation: ["correlate_"]
+};
+
+function topicHasStreamedField(topic: string, fields: Record<string, string>) {
+  const prefixes = TOPIC_FIELD_PREFIXES[topic.trim().toLowerCase()];
+  if (!prefixes) return false;
+  return Object.keys(fields).some((key) => prefixes.some((prefix) => key.startsWith(prefix)));
+}
+
+const KUB_SECTION_BLOCK_IDS: UsgBlockId[] = [
+  "KIDNEYS",
+  "BLADDER",
+  "PROSTATE_UTERUS_ADNEXA",
+  "IMPRESSION"
+];
+
+function sectionBlocksForTemplate(templateId: string) {
+  if (templateId === "USG_KUB_MALE" || templateId === "USG_KUB_FEMALE") {
+    return USG_BLOCKS.filter((block) => KUB_SECTION_BLOCK_IDS.includes(block.id));
+  }
+  if (templateId === "USG_ABDOMEN_MALE" || templateId === "USG_ABDOMEN_FEMALE") {
+    return USG_BLOCKS;
+  }
+  return [];
+}
+
 function labelForSectionKey(sectionKey: CustomTemplateSectionKey) {
   return sectionKey.replace(/_/g, " ");
 }
@@ -1091,6 +1483,9 @@ type DoctorProfile = {
   avatarUrl: string;
   walkthroughSeenVersion: number;
   walkthroughDismissedAtMs: number;
+  dictationLanguage: DictationLanguage;
+  registrationNumber: string;
+  signatureImage: string;
 };
 
 type SavedCustomTemplate = {
@@ -1141,13 +1536,6 @@ type WalkthroughStep = {
   actionLabel?: string;
 };
 
-type DiffOpKind = "equal" | "remove" | "add";
-
-type DiffOp<T> = {
-  kind: DiffOpKind;
-  value: T;
-};
-
 type AdminDiffRow = {
   key: string;
   kind: "equal" | "changed" | "removed" | "added";
@@ -1157,48 +1545,6 @@ type AdminDiffRow = {
   rightHtml: string;
 };
 
-function lcsDiff<T>(left: T[], right: T[], equals: (a: T, b: T) => boolean) {
-  const rows = left.length;
-  const cols = right.length;
-  const dp: number[][] = Array.from({ length: rows + 1 }, () =>
-    Array<number>(cols + 1).fill(0)
-  );
-
-  for (let i = 1; i <= rows; i += 1) {
-    for (let j = 1; j <= cols; j += 1) {
-      if (equals(left[i - 1], right[j - 1])) {
-        dp[i][j] = dp[i - 1][j - 1] + 1;
-      } else {
-        dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1]);
-      }
-    }
-  }
-
-  const ops: DiffOp<T>[] = [];
-  let i = rows;
-  let j = cols;
-
-  while (i > 0 || j > 0) {
-    if (i > 0 && j > 0 && equals(left[i - 1], right[j - 1])) {
-      ops.push({ kind: "equal", value: left[i - 1] });
-      i -= 1;
-      j -= 1;
-      continue;
-    }
-    if (j > 0 && (i === 0 || dp[i][j - 1] > dp[i - 1][j])) {
-      ops.push({ kind: "add", value: right[j - 1] });
-      j -= 1;
-      continue;
-    }
-    if (i > 0) {
-      ops.push({ kind: "remove", value: left[i - 1] });
-      i -= 1;
-    }
-  }
-
-  return ops.reverse();
-}
-
 function splitDiffLines(text: string) {
   const normalized = String(text || "").replace(/\r/g, "");
   if (!normalized) return [];
@@ -1369,6 +1715,73 @@ function adminDiffCellTone(
   return "bg-white dark:bg-slate-900";
 }
 
+function DiffRowsTable({
+  rows,
+  leftLabel,
+  rightLabel,
+  emptyText
+}: {
+  rows: AdminDiffRow[];
+  leftLabel: string;
+  rightLabel: string;
+  emptyText: string;
+}) {
+  return (
+    <>
+      <div className="grid grid-cols-2 border-b border-slate-200 dark:border-slate-700">
+        <p className="border-r border-slate-200 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-600 dark:border-slate-700 dark:text-slate-300">
+          {leftLabel}
+        </p>
+        <p className="px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-600 dark:text-slate-300">
+          {rightLabel}
+        </p>
+      </div>
+      <div className="custom-scrollbar max-h-[44vh] overflow-auto">
+        {rows.length === 0 ? (
+          <div className="px-4 py-4 text-sm text-slate-500">
+            {emptyText}
+          </div>
+        ) : (
+          rows.map((row) => (
+            <div
+              key={row.key}
+              className="grid grid-cols-2 border-b border-slate-100 last:border-b-0 dark:border-slate-800"
+            >
+              <div
+                className={`border-r border-slate-200 dark:border-slate-700 ${adminDiffCellTone(
+                  row.kind,
+                  "left"
+                )}`}
+              >
+                <div className="flex items-start gap-2 px-3 py-1.5">
+                  <span className="mt-0.5 w-8 shrink-0 text-right font-mono text-[10px] text-slate-400">
+                    {row.leftLineNo ?? ""}
+                  </span>
+                  <div
+                    className="min-w-0 flex-1 whitespace-pre-wrap break-words font-mono text-[11px] leading-5 text-slate-700 dark:text-slate-200"
+                    dangerouslySetInnerHTML={{ __html: row.leftHtml }}
+                  />
+                </div>
+              </div>
+              <div className={adminDiffCellTone(row.kind, "right")}>
+                <div className="flex items-start gap-2 px-3 py-1.5">
+                  <span className="mt-0.5 w-8 shrink-0 text-right font-mono text-[10px] text-slate-400">
+                    {row.rightLineNo ?? ""}
+                  </span>
+                  <div
+                    className="min-w-0 flex-1 whitespace-pre-wrap break-words font-mono text-[11px] leading-5 text-slate-700 dark:text-slate-200"
+                    dangerouslySetInnerHTML={{ __html: row.rightHtml }}
+                  />
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </>
+  );
+}
+
 function ownerUidFromDocPath(path: string) {
   const parts = String(path || "").split("/");
   if (parts.length >= 4 && parts[0] === "users" && parts[2] === "reports") {
@@ -1391,6 +1804,21 @@ function resolveOwnerName(rawName: unknown, ownerEmail: string) {
   return "Unknown owner";
 }
 
+// Usage is added rather than overwritten so regenerations and section
+// redictations all count towards what the report cost. The server records
+// the same figures in the usage ledger under this report's id.
+function usageIncrementFields(usage: GenerationUsage) {
+  return {
+    llmModel: usage.model,
+    llmPromptTokens: increment(usage.promptTokens),
+    llmAudioTokens: increment(usage.audioTokens),
+    llmOutputTokens: increment(usage.outputTokens),
+    llmLatencyMs: increment(usage.latencyMs),
+    llmCostUsd: increment(usage.costUsd),
+    llmCallCount: increment(usage.calls)
+  };
+}
+
 function randomAccessionId() {
   return `ACC-${Math.floor(10000 + Math.random() * 90000)}-${Math.random()
     .toString(36)
@@ -1444,12 +1872,29 @@ export default function Home() {
   const [isRecordingPaused, setIsRecordingPaused] = useState(false);
   const [elapsedSeconds, setElapsedSeconds] = useState(0);
   const [isGenerating, setIsGenerating] = useState(false);
-  const [processingTopicProgress, setProcessingTopicProgress] = useState(0);
+  const [generationStages, setGenerationStages] = useState<GenerationStageEvent[]>([]);
+  const [streamedFields, setStreamedFields] = useState<Record<string, string>>({});
   const [observations, setObservations] = useState("");
   const [editorFontSizePx, setEditorFontSizePx] = useState(DEFAULT_EDITOR_FONT_SIZE_PX);
   const [flags, setFlags] = useState<string[]>([]);
   const [disclaimer, setDisclaimer] = useState("");
   const [rawJson, setRawJson] = useState("");
+  const [transcript, setTranscript] = useState<DictationTranscript | null>(null);
+  const [fieldAttributions, setFieldAttributions] = useState<UsgFieldAttributionMap>({});
+  const [consistencyIssues, setConsistencyIssues] = useState<UsgConsistencyIssue[]>([]);
+  const [criticalNotifiedTo, setCriticalNotifiedTo] = useState("");
+  // "auto" picks the latest earlier report for the same patient; "none" opts out.
+  const [priorReportChoice, setPriorReportChoice] = useState("auto");
+  const [isAcknowledgingCritical, setIsAcknowledgingCritical] = useState(false);
+  const [auditEvents, setAuditEvents] = useState<ReportAuditEvent[]>([]);
+  const [reportVersions, setReportVersions] = useState<ReportVersion[]>([]);
+  const [compareVersionId, setCompareVersionId] = useState("");
+  const [reportAddenda, setReportAddenda] = useState<ReportAddendum[]>([]);
+  const [addendumDraft, setAddendumDraft] = useState("");
+  const [isSavingAddendum, setIsSavingAddendum] = useState(false);
+  const [sectionBlockId, setSectionBlockId] = useState<UsgBlockId>("KIDNEYS");
+  const [isSectionRecording, setIsSectionRecording] = useState(false);
+  const [isSectionGenerating, setIsSectionGenerating] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [activeView, setActiveView] = useState<AppView>("dashboard");
   const [customTemplateText, setCustomTemplateText] = useState("");
@@ -1461,6 +1906,7 @@ export default function Home() {
   const [customTemplateProfileNotes, setCustomTemplateProfileNotes] = useState<string[]>([]);
   const [isAnalyzingTemplateProfile, setIsAnalyzingTemplateProfile] = useState(false);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [hasAdminClaim, setHasAdminClaim] = useState(false);
   const [doctorProfile, setDoctorProfile] = useState<DoctorProfile | null>(null);
   const [authMode, setAuthMode] = useState<"signin" | "signup">("signin");
   const [authEmail, setAuthEmail] = useState("");
@@ -1492,6 +1938,9 @@ export default function Home() {
   const [activeCustomTemplateId, setActiveCustomTemplateId] = useState("");
   const [customTemplateLabel, setCustomTemplateLabel] = useState("");
   const [adminIssues, setAdminIssues] = useState<AdminIssue[]>([]);
+  const [usageEntries, setUsageEntries] = useState<UsageEntry[]>([]);
+  const [usageOwnerNames, setUsageOwnerNames] = useState<Record<string, string>>({});
+  const [usageGroupBy, setUsageGroupBy] = useState<UsageGroupBy>("day");
   const [isAdminIssuesLoading, setIsAdminIssuesLoading] = useState(false);
   const [selectedAdminIssueId, setSelectedAdminIssueId] = useState("");
   const [isIssueSummaryLoading, setIsIssueSummaryLoading] = useState(false);
@@ -1500,9 +1949,23 @@ export default function Home() {
   >({});
   const [isMobileProfileMenuOpen, setIsMobileProfileMenuOpen] = useState(false);
   const [profileDraftName, setProfileDraftName] = useState("");
+  const [profileDraftLanguage, setProfileDraftLanguage] = useState<DictationLanguage>(
+    DEFAULT_DICTATION_LANGUAGE
+  );
+  const [profileDraftRegistration, setProfileDraftRegistration] = useState("");
+  const [profileDraftSignature, setProfileDraftSignature] = useState("");
   const [profileAvatarFile, setProfileAvatarFile] = useState<File | null>(null);
   const [profileAvatarPreviewUrl, setProfileAvatarPreviewUrl] = useState("");
   const [isSavingProfile, setIsSavingProfile] = useState(false);
+  const [criticalRulesJson, setCriticalRulesJson] = useState("");
+  const [criticalRulesDraft, setCriticalRulesDraft] = useState("");
+  const [isSavingCriticalRules, setIsSavingCriticalRules] = useState(false);
+  const [reportSettingsJson, setReportSettingsJson] = useState("");
+  const [reportSettingsDraft, setReportSettingsDraft] = useState<UsgReportSettings>({});
+  const [reportFieldDefaultsDraft, setReportFieldDefaultsDraft] = useState("");
+  const [reportSettingsPreviewTemplateId, setReportSettingsPreviewTemplateId] =
+    useState("USG_ABDOMEN_MALE");
+  const [isSavingReportSettings, setIsSavingReportSettings] = useState(false);
   const [isProfileImageMenuOpen, setIsProfileImageMenuOpen] = useState(false);
   const [isWalkthroughOpen, setIsWalkthroughOpen] = useState(false);
   const [walkthroughStepIndex, setWalkthroughStepIndex] = useState(0);
@@ -1516,6 +1979,11 @@ export default function Home() {
   const recordingStartMsRef = useRef<number | null>(null);
   const audioUrlRef = useRef<string | null>(null);
   const editorRef = useRef<HTMLDivElement | null>(null);
+  const reportAudioRef = useRef<HTMLAudioElement | null>(null);
+  const auditedPlaybackRef = useRef("");
+  const lastSavedTextRef = useRef<{ reportId: string; text: string }>({ reportId: "", text: "" });
+  const sectionRecorderRef = useRef<MediaRecorder | null>(null);
+  const sectionChunksRef = useRef<Blob[]>([]);
   const fullscreenEditorRef = useRef<HTMLDivElement | null>(null);
   const generateAfterStopRef = useRef(false);
   const loadedSavedAudioReportIdRef = useRef("");
@@ -1529,6 +1997,7 @@ export default function Home() {
   const profileAvatarObjectUrlRef = useRef<string | null>(null);
   const profileImageMenuRef = useRef<HTMLDivElement | null>(null);
   const profileImageUploadInputRef = useRef<HTMLInputElement | null>(null);
+  const signatureImageInputRef = useRef<HTMLInputElement | null>(null);
   const profileImageCameraInputRef = useRef<HTMLInputElement | null>(null);
   const templateAttentionTimerRef = useRef<number | null>(null);
 
@@ -1574,6 +2043,18 @@ export default function Home() {
   );
   const observationsPlain = useMemo(() => htmlToPlainText(observations), [observations]);
   const hasObservations = Boolean(observationsPlain.trim());
+  const averageFieldConfidence = useMemo(() => {
+    const values = Object.values(fieldAttributions).map((entry) => entry?.confidence ?? 0);
+    if (!values.length) return null;
+    return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100);
+  }, [fieldAttributions]);
+  const lowConfidenceFieldCount = useMemo(
+    () => listLowConfidenceFields(fieldAttributions).length,
+    [fieldAttributions]
+  );
+  const sectionBlocks = useMemo(() => sectionBlocksForTemplate(templateId), [templateId]);
+  const activeSectionBlock =
+    sectionBlocks.find((block) => block.id === sectionBlockId) || sectionBlocks[0] || null;
   const dashboardStats = useMemo(() => deriveDashboardStats(reports), [reports]);
   const searchedReports = useMemo(() => {
     const q = searchQuery.trim().toLowerCase();
@@ -1592,8 +2073,10 @@ export default function Home() {
     );
   }, [reports, searchQuery]);
   const filteredReports = useMemo(() => {
-    if (worklistStatusFilter === "all") return searchedReports;
-    return searchedReports.filter((item) => item.status === worklistStatusFilter);
+    if (worklistStatusFilter === "all") return pinCriticalReports(searchedReports);
+    return pinCriticalReports(
+      searchedReports.filter((item) => item.status === worklistStatusFilter)
+    );
   }, [searchedReports, worklistStatusFilter]);
   const visibleWorklistReports = useMemo(
     () =>
@@ -1655,6 +2138,71 @@ export default function Home() {
     [reports, activeReportId]
   );
   const activeReportStatus = activeReport?.status || null;
+  // Signed reports keep their observations as signed; changes go into addenda.
+  const isActiveReportSigned = isSignedReport(activeReport);
+  const criticalFindings = useMemo(() => readCriticalFindingsFromRawJson(rawJson), [rawJson]);
+  const voiceCommands = useMemo(() => readVoiceCommandsFromRawJson(rawJson), [rawJson]);
+  const reportSettings = useMemo(
+    () => parseUsgReportSettingsJson(reportSettingsJson),
+    [reportSettingsJson]
+  );
+  const reportSettingsPreview = useMemo(() => {
+    const parsedFieldDefaults = parseReportFieldDefaultsDraft(reportFieldDefaultsDraft);
+    const settings = sanitizeUsgReportSettings({
+      ...reportSettingsDraft,
+      ...(parsedFieldDefaults || {})
+    });
+    const gender: UsgGender = reportSettingsPreviewTemplateId.endsWith("FEMALE")
+      ? "female"
+      : "male";
+    return {
+      text: isKubTemplateId(reportSettingsPreviewTemplateId)
+        ? buildUsgKubReport({ gender, settings })
+        : buildUsgReport({ gender, settings }),
+      fieldDefaultsValid: Boolean(parsedFieldDefaults)
+    };
+  }, [reportSettingsDraft, reportFieldDefaultsDraft, reportSettingsPreviewTemplateId]);
+  const criticalFindingFlags = useMemo(
+    () => criticalFindings.map(formatCriticalFindingFlag),
+    [criticalFindings]
+  );
+  const isCriticalUnacknowledged =
+    criticalFindings.length > 0 && !activeReport?.criticalAcknowledgedAtMs;
+  const priorCandidates = useMemo(
+    () =>
+      listPriorReportCandidates({
+        reports,
+        current: {
+          id: activeReportId,
+          templateId,
+          patientId: activeReport?.patientId || "",
+          patientName: activeReport?.patientName || "",
+          generatedAtMs: activeReport?.generatedAtMs || 0
+        }
+      }),
+    [reports, activeReportId, activeReport, templateId]
+  );
+  const selectedPriorReport = useMemo(() => {
+    if (priorReportChoice === "none") return null;
+    if (priorReportChoice !== "auto") {
+      return reports.find((item) => item.id === priorReportChoice) || null;
+    }
+    return (
+      priorCandidates.samePatient.find(
+        (item) => Object.keys(readExtractedFieldsFromRawJson(item.rawJson)).length > 0
+      ) || null
+    );
+  }, [priorReportChoice, reports, priorCandidates]);
+  const priorFieldDiff = useMemo(() => {
+    if (!selectedPriorReport) return [];
+    const current = readExtractedFieldsFromRawJson(rawJson);
+    if (!Object.keys(current).length) return [];
+    return compareStudyFields({
+      prior: readExtractedFieldsFromRawJson(selectedPriorReport.rawJson),
+      current
+    });
+  }, [selectedPriorReport, rawJson]);
+  const dictationLanguage = doctorProfile?.dictationLanguage || DEFAULT_DICTATION_LANGUAGE;
   const doctorName =
     doctorProfile?.displayName ||
     currentUser?.displayName ||
@@ -1667,8 +2215,7 @@ export default function Home() {
     ).trim() || DEFAULT_PROFILE_IMAGE_URL;
   const profileAvatarDisplayUrl = profileAvatarPreviewUrl || doctorAvatarUrl;
   const isSearchMode = Boolean(searchQuery.trim());
-  const isAdmin =
-    String(currentUser?.email || "").trim().toLowerCase() === ADMIN_EMAIL;
+  const isAdmin = Boolean(currentUser) && hasAdminClaim;
   const selectedAdminIssue =
     adminIssues.find((item) => item.issueId === selectedAdminIssueId) || null;
   const selectedAdminIssueDiffRows = useMemo(
@@ -1765,6 +2312,27 @@ export default function Home() {
     setIsWorklistExpanded(false);
   }, [searchQuery, worklistStatusFilter]);
   const adminIssueCount = adminIssues.length;
+  const compareVersion = useMemo(
+    () => reportVersions.find((version) => version.id === compareVersionId) || null,
+    [reportVersions, compareVersionId]
+  );
+  const compareVersionDiffRows = useMemo(
+    () =>
+      compareVersion ? buildAdminDiffRows(compareVersion.observationsText, observationsPlain) : [],
+    [compareVersion, observationsPlain]
+  );
+  const usageRows = useMemo(
+    () => aggregateUsage(usageEntries, usageGroupBy, usageOwnerNames).slice(0, 12),
+    [usageEntries, usageGroupBy, usageOwnerNames]
+  );
+  const usageMonthCostUsd = useMemo(
+    () => usageEntries.reduce((sum, entry) => sum + entry.costUsd, 0),
+    [usageEntries]
+  );
+  const usageBudgetAlerts = useMemo(
+    () => monthlyBudgetAlerts(usageEntries, USAGE_BUDGETS, usageOwnerNames),
+    [usageEntries, usageOwnerNames]
+  );
   const visibleQuickTemplates = isQuickTemplatesExpanded
     ? quickTemplates
     : quickTemplates.slice(0, 4);
@@ -1816,24 +2384,6 @@ export default function Home() {
     }
   }, [isSearchMode]);
 
-  useEffect(() => {
-    if (activeView !== "recording" || !isGenerating) {
-      setProcessingTopicProgress(0);
-      return;
-    }
-    setProcessingTopicProgress(0);
-    let completed = 0;
-    const total = recordingSidebarTopics.length;
-    const timer = window.setInterval(() => {
-      completed = Math.min(total, completed + 1);
-      setProcessingTopicProgress(completed);
-      if (completed >= total) {
-        window.clearInterval(timer);
-      }
-    }, 320);
-    return () => window.clearInterval(timer);
-  }, [activeView, isGenerating, recordingSidebarTopics.length]);
-
   useEffect(() => {
     if (!error) return;
     const timer = window.setTimeout(() => {
@@ -1850,6 +2400,15 @@ export default function Home() {
     setProfileDraftName(fallbackName);
   }, [doctorProfile?.displayName, currentUser?.displayName, currentUser?.email]);
 
+  useEffect(() => {
+    setProfileDraftLanguage(doctorProfile?.dictationLanguage || DEFAULT_DICTATION_LANGUAGE);
+  }, [doctorProfile?.dictationLanguage]);
+
+  useEffect(() => {
+    setProfileDraftRegistration(doctorProfile?.registrationNumber || "");
+    setProfileDraftSignature(doctorProfile?.signatureImage || "");
+  }, [doctorProfile?.registrationNumber, doctorProfile?.signatureImage]);
+
   useEffect(() => {
     return () => {
       if (profileAvatarObjectUrlRef.current) {
@@ -1970,11 +2529,14 @@ export default function Home() {
     const unsubscribe = onAuthStateChanged(firebaseClient.auth, async (user) => {
       setCurrentUser(user);
       if (!user) {
+        setHasAdminClaim(false);
         setDoctorProfile(null);
         setReports([]);
         setActiveReportId("");
         return;
       }
+      const tokenResult = await user.getIdTokenResult().catch(() => null);
+      setHasAdminClaim(tokenResult?.claims.admin === true);
       try {
         const profileRef = doc(
           firebaseClient.db,
@@ -1996,7 +2558,10 @@ export default function Home() {
             readWalkthroughSeenVersion(user.uid)
           ),
           walkthroughDismissedAtMs:
-            parseTimestampToMillis(existing?.walkthroughDismissedAt) || 0
+            parseTimestampToMillis(existing?.walkthroughDismissedAt) || 0,
+          dictationLanguage: normalizeDictationLanguage(existing?.dictationLanguage),
+          registrationNumber: String(existing?.registrationNumber || ""),
+          signatureImage: String(existing?.signatureImage || "")
         };
         await setDoc(
           profileRef,
@@ -2009,6 +2574,9 @@ export default function Home() {
             walkthroughSeenVersion: profile.walkthroughSeenVersion,
             walkthroughDismissedAt:
               existing?.walkthroughDismissedAt || null,
+            dictationLanguage: profile.dictationLanguage,
+            registrationNumber: profile.registrationNumber,
+            signatureImage: profile.signatureImage,
             updatedAt: serverTimestamp(),
             createdAt: existing?.createdAt || serverTimestamp()
           },
@@ -2069,6 +2637,7 @@ export default function Home() {
               String(data.ownerEmail || currentUser.email || "")
             ),
             rawJson: String(data.rawJson || ""),
+            transcriptJson: String(data.transcriptJson || ""),
             flags: Array.isArray(data.flags)
               ? data.flags.map((item) => String(item || ""))
               : [],
@@ -2080,6 +2649,7 @@ export default function Home() {
             audioStoragePath: String(data.audioStoragePath || ""),
             audioDownloadUrl: String(data.audioDownloadUrl || ""),
             generationMs: Number(data.generationMs || 0),
+            ...readReportUsageFields(data),
             generatedAtMs:
               parseTimestampToMillis(data.generatedAt) ||
               parseTimestampToMillis(data.createdAt),
@@ -2090,6 +2660,12 @@ export default function Home() {
                 : "male",
             customTemplateMappingJson: String(data.customTemplateMappingJson || ""),
             customTemplateProfileJson: String(data.customTemplateProfileJson || ""),
+            critical: Boolean(data.critical),
+            criticalFindingsJson: String(data.criticalFindingsJson || ""),
+            criticalAcknowledgedAtMs: parseTimestampToMillis(data.criticalAcknowledgedAt),
+            criticalAcknowledgedBy: String(data.criticalAcknowledgedBy || ""),
+            criticalNotifiedTo: String(data.criticalNotifiedTo || ""),
+            ...readReportSignOffFields(data),
             createdAtMs: parseTimestampToMillis(data.createdAt),
             updatedAtMs: parseTimestampToMillis(data.updatedAt)
           };
@@ -2108,6 +2684,7 @@ export default function Home() {
   useEffect(() => {
     if (!firebaseClient || !currentUser || !isAdmin) {
       setAdminIssues([]);
+      setUsageOwnerNames({});
       setIsAdminIssuesLoading(false);
       return;
     }
@@ -2121,12 +2698,14 @@ export default function Home() {
       issuesQuery,
       (snapshot) => {
         const next: AdminIssue[] = [];
+        const ownerNames: Record<string, string> = {};
         for (const docSnap of snapshot.docs) {
           const data = docSnap.data() as Record<string, unknown>;
           const reportId = docSnap.id;
           const ownerUid = String(data.ownerUid || ownerUidFromDocPath(docSnap.ref.path));
           const ownerEmail = String(data.ownerEmail || "");
           const ownerName = resolveOwnerName(data.ownerName, ownerEmail);
+          ownerNames[ownerUid] = ownerName;
           const statusRaw = String(data.status || "draft");
           const status: ReportStatus =
             statusRaw === "completed" ||
@@ -2164,6 +2743,7 @@ export default function Home() {
           });
         }
         setAdminIssues(next);
+        setUsageOwnerNames(ownerNames);
         setIsAdminIssuesLoading(false);
       },
       (snapshotError) => {
@@ -2174,6 +2754,34 @@ export default function Home() {
     return () => unsubscribe();
   }, [firebaseClient, currentUser, isAdmin]);
 
+  // Totals come from the server-written ledger, not from report documents,
+  // which their owners can edit and the admin feed only partly loads.
+  useEffect(() => {
+    if (!currentUser || !isAdmin) {
+      setUsageEntries([]);
+      return;
+    }
+    let cancelled = false;
+    const run = async () => {
+      try {
+        const response = await fetch(USAGE_ENDPOINT, {
+          headers: await authorizationHeaders(currentUser)
+        });
+        const payload = (await response.json().catch(() => ({}))) as Record<string, unknown>;
+        if (!response.ok) {
+          throw new Error(String(payload.error || "Usage could not be loaded."));
+        }
+        if (!cancelled) setUsageEntries(parseUsageEntries(payload.entries));
+      } catch (usageError) {
+        if (!cancelled) setError((usageError as Error).message);
+      }
+    };
+    run();
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUser, isAdmin]);
+
   useEffect(() => {
     if (!adminIssues.length) {
       setSelectedAdminIssueId("");
@@ -2184,6 +2792,51 @@ export default function Home() {
     }
   }, [adminIssues, selectedAdminIssueId]);
 
+  useEffect(() => {
+    if (!firebaseClient || !currentUser) {
+      setCriticalRulesJson("");
+      setCriticalRulesDraft("");
+      return;
+    }
+    const unsubscribe = onSnapshot(
+      doc(firebaseClient.db, `users/${currentUser.uid}/settings/criticalRules`),
+      (snapshot) => {
+        const data = snapshot.data() as Record<string, unknown> | undefined;
+        const stored = String(data?.rulesJson || "");
+        setCriticalRulesJson(stored);
+        setCriticalRulesDraft(stored || JSON.stringify(DEFAULT_CRITICAL_RULES, null, 2));
+      },
+      (snapshotError) => {
+        setError(firebaseErrorMessage(snapshotError));
+      }
+    );
+    return () => unsubscribe();
+  }, [firebaseClient, currentUser]);
+
+  useEffect(() => {
+    if (!firebaseClient || !currentUser) {
+      setReportSettingsJson("");
+      setReportSettingsDraft({});
+      setReportFieldDefaultsDraft("");
+      return;
+    }
+    const unsubscribe = onSnapshot(
+      doc(firebaseClient.db, `users/${currentUser.uid}/settings/reportDefaults`),
+      (snapshot) => {
+        const data = snapshot.data() as Record<string, unknown> | undefined;
+        const stored = String(data?.settingsJson || "");
+        const settings = parseUsgReportSettingsJson(stored) || {};
+        setReportSettingsJson(stored);
+        setReportSettingsDraft(settings);
+        setReportFieldDefaultsDraft(formatReportFieldDefaultsDraft(settings));
+      },
+      (snapshotError) => {
+        setError(firebaseErrorMessage(snapshotError));
+      }
+    );
+    return () => unsubscribe();
+  }, [firebaseClient, currentUser]);
+
   useEffect(() => {
     if (!firebaseClient || !currentUser) {
       setSavedCustomTemplates([]);
@@ -2237,17 +2890,127 @@ export default function Home() {
 
   useEffect(() => {
     if (!firebaseClient || !currentUser || !activeReportId) {
+      setAuditEvents([]);
       return;
     }
-    if (!observationsPlain.trim()) {
+    const auditQuery = query(
+      collection(firebaseClient.db, `users/${currentUser.uid}/reports/${activeReportId}/audit`),
+      orderBy("createdAt", "desc"),
+      limit(100)
+    );
+    const unsubscribe = onSnapshot(
+      auditQuery,
+      (snapshot) => {
+        setAuditEvents(
+          snapshot.docs
+            .map((docSnap) =>
+              parseReportAuditEvent(
+                docSnap.id,
+                docSnap.data({ serverTimestamps: "estimate" }) as Record<string, unknown>
+              )
+            )
+            .filter((event): event is ReportAuditEvent => Boolean(event))
+        );
+      },
+      (snapshotError) => {
+        setError(firebaseErrorMessage(snapshotError));
+      }
+    );
+    return () => unsubscribe();
+  }, [firebaseClient, currentUser, activeReportId]);
+
+  useEffect(() => {
+    setCompareVersionId("");
+    if (!firebaseClient || !currentUser || !activeReportId) {
+      setReportVersions([]);
       return;
     }
-    const timer = window.setTimeout(async () => {
-      const aiGeneratedObservationsText =
-        activeReport?.aiGeneratedObservationsText ||
-        extractObservationCoreText(observationsPlain);
-      const editStats = computeObservationEditStats(
-        aiGeneratedObservationsText,
+    const versionsQuery = query(
+      collection(firebaseClient.db, `users/${currentUser.uid}/reports/${activeReportId}/versions`),
+      orderBy("createdAt", "desc"),
+      limit(100)
+    );
+    const unsubscribe = onSnapshot(
+      versionsQuery,
+      (snapshot) => {
+        setReportVersions(
+          snapshot.docs
+            .map((docSnap) =>
+              parseReportVersion(
+                docSnap.id,
+                docSnap.data({ serverTimestamps: "estimate" }) as Record<string, unknown>
+              )
+            )
+            .filter((version): version is ReportVersion => Boolean(version))
+        );
+      },
+      (snapshotError) => {
+        setError(firebaseErrorMessage(snapshotError));
+      }
+    );
+    return () => unsubscribe();
+  }, [firebaseClient, currentUser, activeReportId]);
+
+  useEffect(() => {
+    if (!firebaseClient || !currentUser || !activeReportId) return;
+    const expired = selectVersionsToPrune(reportVersions);
+    if (!expired.length) return;
+    void Promise.all(
+      expired.map((version) =>
+        deleteDoc(
+          doc(
+            firebaseClient.db,
+            `users/${currentUser.uid}/reports/${activeReportId}/versions/${version.id}`
+          )
+        )
+      )
+    ).catch((pruneError) => setError(firebaseErrorMessage(pruneError)));
+  }, [firebaseClient, currentUser, activeReportId, reportVersions]);
+
+  useEffect(() => {
+    setAddendumDraft("");
+    if (!firebaseClient || !currentUser || !activeReportId) {
+      setReportAddenda([]);
+      return;
+    }
+    const addendaQuery = query(
+      collection(firebaseClient.db, `users/${currentUser.uid}/reports/${activeReportId}/addenda`),
+      orderBy("createdAt", "asc")
+    );
+    const unsubscribe = onSnapshot(
+      addendaQuery,
+      (snapshot) => {
+        setReportAddenda(
+          snapshot.docs
+            .map((docSnap) =>
+              parseReportAddendum(
+                docSnap.id,
+                docSnap.data({ serverTimestamps: "estimate" }) as Record<string, unknown>
+              )
+            )
+            .filter((addendum): addendum is ReportAddendum => Boolean(addendum))
+        );
+      },
+      (snapshotError) => {
+        setError(firebaseErrorMessage(snapshotError));
+      }
+    );
+    return () => unsubscribe();
+  }, [firebaseClient, currentUser, activeReportId]);
+
+  useEffect(() => {
+    if (!firebaseClient || !currentUser || !activeReportId || isActiveReportSigned) {
+      return;
+    }
+    if (!observationsPlain.trim()) {
+      return;
+    }
+    const timer = window.setTimeout(async () => {
+      const aiGeneratedObservationsText =
+        activeReport?.aiGeneratedObservationsText ||
+        extractObservationCoreText(observationsPlain);
+      const editStats = computeObservationEditStats(
+        aiGeneratedObservationsText,
         observationsPlain
       );
       try {
@@ -2267,6 +3030,20 @@ export default function Home() {
           },
           { merge: true }
         );
+        const previousText =
+          lastSavedTextRef.current.reportId === activeReportId
+            ? lastSavedTextRef.current.text
+            : activeReport?.observationsText || "";
+        lastSavedTextRef.current = { reportId: activeReportId, text: observationsPlain };
+        const edit = buildAuditEditDiff(previousText, observationsPlain);
+        if (edit) {
+          await recordAuditEvent(activeReportId, { type: "edited", ...edit });
+        }
+        await recordVersion(activeReportId, "autosave", {
+          status: activeReport?.status || "draft",
+          observationsHtml: observations,
+          observationsText: observationsPlain
+        });
       } catch (autosaveError) {
         setError(firebaseErrorMessage(autosaveError));
       }
@@ -2278,6 +3055,7 @@ export default function Home() {
     firebaseClient,
     currentUser,
     activeReportId,
+    isActiveReportSigned,
     observations,
     observationsPlain,
     activeReport?.aiGeneratedObservationsText,
@@ -2602,7 +3380,10 @@ export default function Home() {
     try {
       const response = await fetch(TEMPLATE_PROFILE_ENDPOINT, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          ...(await authorizationHeaders(currentUser)),
+          "Content-Type": "application/json"
+        },
         body: JSON.stringify({
           template_text: customTemplateText,
           template_gender: customTemplateGender,
@@ -2681,6 +3462,11 @@ export default function Home() {
     loadedCustomConfigHashRef.current = "";
     setObservations("");
     setRawJson("");
+    setTranscript(null);
+    setFieldAttributions({});
+    setConsistencyIssues([]);
+    setCriticalNotifiedTo("");
+    setPriorReportChoice("auto");
     setFlags([]);
     setDisclaimer("");
   };
@@ -2694,18 +3480,23 @@ export default function Home() {
     setAudioUrl(null);
     setObservations("");
     setRawJson("");
+    setTranscript(null);
+    setFieldAttributions({});
+    setConsistencyIssues([]);
+    setCriticalNotifiedTo("");
+    setPriorReportChoice("auto");
     setFlags([]);
     setDisclaimer("");
     setActiveView("recording");
   };
 
   const applyAudioFile = async (file: File) => {
-    if (file.size > MAX_AUDIO_BYTES) {
-      setError("Audio exceeds 100MB. Please upload a smaller file.");
+    if (file.size > MAX_STORED_AUDIO_BYTES) {
+      setError("Audio exceeds 500MB. Please upload a smaller file.");
       return false;
     }
-    if (estimateBase64Size(file.size) > MAX_INLINE_AUDIO_BYTES) {
-      setError("Audio is too large for inline upload after base64 encoding (100MB limit).");
+    if (estimateBase64Size(file.size) > MAX_INLINE_AUDIO_BYTES && !currentUser) {
+      setError("Audio over ~75MB is processed from cloud storage. Sign in to use it.");
       return false;
     }
     const url = URL.createObjectURL(file);
@@ -2751,7 +3542,10 @@ export default function Home() {
       const fetchAudioThroughProxy = async (downloadUrl: string) => {
         const response = await fetch("/api/audio", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: {
+            ...(await authorizationHeaders(currentUser)),
+            "Content-Type": "application/json"
+          },
           body: JSON.stringify({ audioDownloadUrl: downloadUrl })
         });
         if (!response.ok) {
@@ -2887,6 +3681,11 @@ export default function Home() {
       setAudioFile(null);
       setObservations("");
       setRawJson("");
+      setTranscript(null);
+      setFieldAttributions({});
+      setConsistencyIssues([]);
+      setCriticalNotifiedTo("");
+      setPriorReportChoice("auto");
       setFlags([]);
       setDisclaimer("");
       setSavedCustomTemplates([]);
@@ -3005,6 +3804,86 @@ export default function Home() {
     event.target.value = "";
   };
 
+  const handleSignatureImageChange = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    if (!file.type.startsWith("image/")) {
+      setError("Please select an image file.");
+      return;
+    }
+    try {
+      setProfileDraftSignature(await readSignatureImage(file));
+    } catch (signatureError) {
+      setError(
+        signatureError instanceof Error ? signatureError.message : "Could not read the signature image."
+      );
+    }
+  };
+
+  const handleSaveCriticalRules = async (rulesText: string) => {
+    if (!firebaseClient || !currentUser) {
+      setError("Please sign in to update critical result rules.");
+      return;
+    }
+    const rules = parseCriticalRulesJson(rulesText);
+    if (!rules || !rules.length) {
+      setError(
+        `Critical result rules must be a JSON array of up to ${MAX_CRITICAL_RULES} rules, each with a label and a valid pattern of at most ${MAX_CRITICAL_PATTERN_LENGTH} characters without nested repeats such as (a+)+.`
+      );
+      return;
+    }
+    setIsSavingCriticalRules(true);
+    setError(null);
+    try {
+      await setDoc(
+        doc(firebaseClient.db, `users/${currentUser.uid}/settings/criticalRules`),
+        {
+          rulesJson: JSON.stringify(rules, null, 2),
+          updatedBy: currentUser.uid,
+          updatedAt: serverTimestamp()
+        },
+        { merge: true }
+      );
+    } catch (saveError) {
+      setError(firebaseErrorMessage(saveError));
+    } finally {
+      setIsSavingCriticalRules(false);
+    }
+  };
+
+  const handleSaveReportSettings = async () => {
+    if (!firebaseClient || !currentUser) {
+      setError("Please sign in to update report defaults.");
+      return;
+    }
+    const parsedFieldDefaults = parseReportFieldDefaultsDraft(reportFieldDefaultsDraft);
+    if (!parsedFieldDefaults) {
+      setError("Default sentences must be a JSON object with fieldDefaults and kubFieldDefaults.");
+      return;
+    }
+    const settings = sanitizeUsgReportSettings({ ...reportSettingsDraft, ...parsedFieldDefaults });
+    setIsSavingReportSettings(true);
+    setError(null);
+    try {
+      await setDoc(
+        doc(firebaseClient.db, `users/${currentUser.uid}/settings/reportDefaults`),
+        {
+          settingsJson: settings ? JSON.stringify(settings) : "",
+          updatedBy: currentUser.uid,
+          updatedAt: serverTimestamp()
+        },
+        { merge: true }
+      );
+    } catch (saveError) {
+      setError(firebaseErrorMessage(saveError));
+    } finally {
+      setIsSavingReportSettings(false);
+    }
+  };
+
   const handleSaveProfile = async () => {
     if (!firebaseClient || !currentUser) {
       setError("Please sign in to update your profile.");
@@ -3033,6 +3912,7 @@ export default function Home() {
       const nextRole = doctorProfile?.role || "Radiologist";
       const nextEmail = currentUser.email || doctorProfile?.email || "";
       const nextPhone = doctorProfile?.phone || "";
+      const nextRegistration = profileDraftRegistration.trim();
       await setDoc(
         doc(firebaseClient.db, `users/${currentUser.uid}/profile/main`),
         {
@@ -3041,6 +3921,9 @@ export default function Home() {
           email: nextEmail,
           phone: nextPhone,
           avatarUrl,
+          dictationLanguage: profileDraftLanguage,
+          registrationNumber: nextRegistration,
+          signatureImage: profileDraftSignature,
           updatedAt: serverTimestamp()
         },
         { merge: true }
@@ -3056,7 +3939,10 @@ export default function Home() {
         phone: nextPhone,
         avatarUrl,
         walkthroughSeenVersion: doctorProfile?.walkthroughSeenVersion || 0,
-        walkthroughDismissedAtMs: doctorProfile?.walkthroughDismissedAtMs || 0
+        walkthroughDismissedAtMs: doctorProfile?.walkthroughDismissedAtMs || 0,
+        dictationLanguage: profileDraftLanguage,
+        registrationNumber: nextRegistration,
+        signatureImage: profileDraftSignature
       });
       if (profileAvatarObjectUrlRef.current) {
         URL.revokeObjectURL(profileAvatarObjectUrlRef.current);
@@ -3083,10 +3969,15 @@ export default function Home() {
     loadedSavedAudioReportIdRef.current = "";
     setActiveReportId(report.id);
     setTemplateId(report.templateId);
-    setObservations(report.observationsHtml || formatReportHtml(report.observationsText, report.templateId));
+    setObservations(report.observationsHtml || formatReportHtml(report.observationsText, report.templateId, reportSettings));
     setFlags(report.flags || []);
     setDisclaimer(report.disclaimer || "");
     setRawJson(report.rawJson || "");
+    setTranscript(sanitizeTranscript(report.transcriptJson || null));
+    setFieldAttributions(readFieldAttributionsFromRawJson(report.rawJson || ""));
+    setConsistencyIssues(readConsistencyIssuesFromRawJson(report.rawJson || ""));
+    setCriticalNotifiedTo("");
+    setPriorReportChoice(readPriorReportIdFromRawJson(report.rawJson || "") || "auto");
     setAudioFile(null);
     setAudioDuration(report.audioDurationSec || null);
     setAudioUrl(null);
@@ -3131,16 +4022,68 @@ export default function Home() {
     setActiveView("report");
   };
 
+  // Audit entries are append-only; Firestore rules reject updates and deletes
+  // and require createdAt to be the server time.
+  const recordAuditEvent = async (
+    reportId: string,
+    event: Omit<ReportAuditEvent, "id" | "actorUid" | "actorName" | "createdAtMs">
+  ) => {
+    if (!firebaseClient || !currentUser || !reportId) return;
+    try {
+      await addDoc(
+        collection(firebaseClient.db, `users/${currentUser.uid}/reports/${reportId}/audit`),
+        {
+          ...event,
+          actorUid: currentUser.uid,
+          actorName: doctorName,
+          createdAt: serverTimestamp()
+        }
+      );
+    } catch (auditError) {
+      setError(firebaseErrorMessage(auditError));
+    }
+  };
+
+  // Versions are immutable snapshots; only autosave snapshots past the
+  // retention cap are ever deleted.
+  const recordVersion = async (
+    reportId: string,
+    reason: ReportVersionReason,
+    content: Pick<ReportVersion, "status" | "observationsHtml" | "observationsText">
+  ) => {
+    if (!firebaseClient || !currentUser || !reportId) return;
+    const knownVersions = reportId === activeReportId ? reportVersions : [];
+    if (!shouldSnapshotVersion(knownVersions, reason, content.observationsText)) return;
+    try {
+      await addDoc(
+        collection(firebaseClient.db, `users/${currentUser.uid}/reports/${reportId}/versions`),
+        {
+          reason,
+          ...content,
+          actorUid: currentUser.uid,
+          actorName: doctorName,
+          createdAt: serverTimestamp()
+        }
+      );
+    } catch (versionError) {
+      setError(firebaseErrorMessage(versionError));
+    }
+  };
+
   const persistReport = async (params: {
     reportId?: string;
     status: ReportStatus;
     sourceAudio?: File | null;
+    uploadedAudio?: { storagePath: string; downloadUrl: string } | null;
     observationsHtml: string;
     observationsText: string;
     generationMs?: number;
+    usage?: GenerationUsage | null;
     rawPayloadJson: string;
+    transcriptJson?: string;
     flagList: string[];
     disclaimerText: string;
+    signOff?: Omit<ReportSignOffFields, "signedAtMs">;
   }) => {
     if (!firebaseClient || !currentUser || !templateId) return "";
     setIsSavingReport(true);
@@ -3176,7 +4119,10 @@ export default function Home() {
       let audioStoragePath = activeReport?.audioStoragePath || "";
       let audioDownloadUrl = activeReport?.audioDownloadUrl || "";
       const sourceAudio = params.sourceAudio || null;
-      if (sourceAudio) {
+      if (sourceAudio && params.uploadedAudio) {
+        audioStoragePath = params.uploadedAudio.storagePath;
+        audioDownloadUrl = params.uploadedAudio.downloadUrl;
+      } else if (sourceAudio) {
         audioStoragePath = `users/${currentUser.uid}/recordings/${reportId}-${Date.now()}-${fileNameSafe(
           sourceAudio.name
         )}`;
@@ -3194,6 +4140,10 @@ export default function Home() {
       );
       const existingSnap = await getDoc(reportRef);
       const existingData = existingSnap.data() as Record<string, unknown> | undefined;
+      if (existingData && isSignedReport(readReportSignOffFields(existingData))) {
+        setError("This report is signed and locked. Add an addendum instead.");
+        return "";
+      }
       const existingPatientId = String(
         activeReport?.patientId || existingData?.patientId || ""
       ).trim();
@@ -3218,6 +4168,19 @@ export default function Home() {
         aiGeneratedObservationsText,
         params.observationsText
       );
+      const nextCriticalFindings = readCriticalFindingsFromRawJson(params.rawPayloadJson);
+      const criticalFindingsJson = nextCriticalFindings.length
+        ? JSON.stringify(nextCriticalFindings)
+        : "";
+      // A changed set of findings needs a fresh acknowledgement.
+      const criticalAcknowledgementReset =
+        criticalFindingsJson !== String(existingData?.criticalFindingsJson || "")
+          ? {
+              criticalAcknowledgedAt: null,
+              criticalAcknowledgedBy: "",
+              criticalNotifiedTo: ""
+            }
+          : {};
       await setDoc(
         reportRef,
         {
@@ -3238,6 +4201,8 @@ export default function Home() {
           hasObservationEdits: editStats.hasEdits,
           observationEditCount: editStats.changeCount,
           rawJson: params.rawPayloadJson,
+          transcriptJson:
+            params.transcriptJson ?? (transcript ? JSON.stringify(transcript) : ""),
           flags: params.flagList,
           disclaimer: params.disclaimerText,
           audioName: sourceAudio?.name || activeReport?.audioName || "",
@@ -3248,6 +4213,7 @@ export default function Home() {
           audioStoragePath,
           audioDownloadUrl,
           generationMs: params.generationMs || activeReport?.generationMs || 0,
+          ...(params.usage ? usageIncrementFields(params.usage) : {}),
           generatedAt: new Date(resolvedGeneratedAtMs),
           customTemplateText: isCustomTemplateMode ? customTemplateText : "",
           customTemplateGender: isCustomTemplateMode
@@ -3260,6 +4226,13 @@ export default function Home() {
             isCustomTemplateMode && customTemplateProfile
               ? JSON.stringify(customTemplateProfile)
               : "",
+          critical: nextCriticalFindings.length > 0,
+          criticalFindingsJson,
+          ...criticalAcknowledgementReset,
+          // Signed in the same write as the status change, so a failure leaves
+          // the report as it was rather than completed but unsigned. The rules
+          // only accept the stamp on a report that already exists unsigned.
+          ...(params.signOff ? { ...params.signOff, signedAt: serverTimestamp() } : {}),
           updatedAt: serverTimestamp(),
           createdAt: activeReport?.createdAtMs
             ? new Date(activeReport.createdAtMs)
@@ -3268,6 +4241,53 @@ export default function Home() {
         { merge: true }
       );
 
+      const previousStatus = existingSnap.exists()
+        ? ((existingData?.status as ReportStatus | undefined) || "draft")
+        : null;
+      if (params.generationMs !== undefined) {
+        await recordAuditEvent(reportId, {
+          type: "generated",
+          detail: [selectedTemplate?.title || templateId, params.usage?.model || ""]
+            .filter(Boolean)
+            .join(" • ")
+        });
+      } else if (existingSnap.exists()) {
+        const edit = buildAuditEditDiff(
+          lastSavedTextRef.current.reportId === reportId
+            ? lastSavedTextRef.current.text
+            : String(existingData?.observationsText || ""),
+          params.observationsText
+        );
+        if (edit) {
+          await recordAuditEvent(reportId, { type: "edited", ...edit });
+        }
+      }
+      lastSavedTextRef.current = { reportId, text: params.observationsText };
+      const statusChanged = Boolean(previousStatus && previousStatus !== params.status);
+      if (previousStatus && statusChanged) {
+        await recordAuditEvent(
+          reportId,
+          params.status === "discarded"
+            ? { type: "deleted", fromStatus: previousStatus }
+            : { type: "status_changed", fromStatus: previousStatus, toStatus: params.status }
+        );
+      }
+      if (params.signOff) {
+        await recordAuditEvent(reportId, {
+          type: "signed",
+          detail: `SHA-256 ${params.signOff.contentHash.slice(0, 16)}…`
+        });
+      }
+      await recordVersion(
+        reportId,
+        params.generationMs !== undefined ? "generated" : statusChanged ? "status_change" : "saved",
+        {
+          status: params.status,
+          observationsHtml: params.observationsHtml,
+          observationsText: params.observationsText
+        }
+      );
+
       if (isCustomTemplateMode && hasMeaningfulCustomTemplateText(customTemplateText)) {
         const templateHash = getCustomTemplateHash(customTemplateText);
         const normalizedProfile = sanitizeTemplateProfile(customTemplateProfile || null, {
@@ -3324,6 +4344,47 @@ export default function Home() {
     }
   };
 
+  const handleRestoreVersion = async (version: ReportVersion) => {
+    if (isActiveReportSigned) return;
+    const confirmed = window.confirm(
+      "Restore this version? The current text is kept in version history and the restored text becomes the report."
+    );
+    if (!confirmed) return;
+    await recordVersion(activeReportId, "saved", {
+      status: activeReport?.status || "draft",
+      observationsHtml: observations,
+      observationsText: observationsPlain
+    });
+    setObservations(version.observationsHtml);
+    await recordVersion(activeReportId, "restored", {
+      status: activeReport?.status || "draft",
+      observationsHtml: version.observationsHtml,
+      observationsText: version.observationsText
+    });
+    setCompareVersionId("");
+  };
+
+  const handleExportReport = async (format: "docx" | "pdf") => {
+    const signOff =
+      activeReport && isActiveReportSigned
+        ? buildSignOffExportHtml(activeReport, reportAddenda)
+        : undefined;
+    if (format === "docx") {
+      await exportDocx(`${REPORT_EXPORT_BASENAME}.docx`, observations, signOff);
+    } else {
+      exportPdf(`${REPORT_EXPORT_BASENAME}.pdf`, observations, signOff);
+    }
+    await recordAuditEvent(activeReportId, { type: "exported", format });
+  };
+
+  // One entry per recording load; pausing and resuming is not re-logged.
+  const handleReportAudioPlay = () => {
+    const playbackKey = `${activeReportId}:${audioUrl}`;
+    if (!activeReportId || auditedPlaybackRef.current === playbackKey) return;
+    auditedPlaybackRef.current = playbackKey;
+    void recordAuditEvent(activeReportId, { type: "audio_played" });
+  };
+
   const handleFinalizeReport = async () => {
     if (!hasObservations) {
       setError("Generate a report before finalizing.");
@@ -3333,20 +4394,109 @@ export default function Home() {
       setActiveView("dashboard");
       return;
     }
-    await persistReport({
+    if (isCriticalUnacknowledged) {
+      setError("Acknowledge the critical result notification before finalizing this report.");
+      return;
+    }
+    const registrationNumber = doctorProfile?.registrationNumber.trim() || "";
+    if (!registrationNumber) {
+      setError("Add your registration number in Profile before signing off reports.");
+      return;
+    }
+    const confirmed = window.confirm(
+      "Sign off this report? The report text is locked once signed; later changes can only be added as addenda."
+    );
+    if (!confirmed) return;
+    const savedId = await persistReport({
       reportId: activeReportId || undefined,
       status: "completed",
       observationsHtml: observations,
       observationsText: observationsPlain,
       rawPayloadJson: rawJson,
       flagList: flags,
-      disclaimerText: disclaimer
+      disclaimerText: disclaimer,
+      signOff: {
+        signedByUid: currentUser.uid,
+        signedByName: doctorName,
+        signedByRegistration: registrationNumber,
+        signatureImage: doctorProfile?.signatureImage || "",
+        contentHash: await hashReportContent(observations)
+      }
     });
+    if (!savedId) return;
     setAllowRecordingFromReport(false);
     setActiveReportId("");
     setActiveView("dashboard");
   };
 
+  // Addenda are append-only and can only be written once the report is signed.
+  const handleAddAddendum = async () => {
+    const text = addendumDraft.trim();
+    if (!firebaseClient || !currentUser || !activeReportId || !isActiveReportSigned || !text) {
+      return;
+    }
+    setIsSavingAddendum(true);
+    try {
+      await addDoc(
+        collection(firebaseClient.db, `users/${currentUser.uid}/reports/${activeReportId}/addenda`),
+        {
+          text,
+          authorUid: currentUser.uid,
+          authorName: doctorName,
+          createdAt: serverTimestamp()
+        }
+      );
+      await recordAuditEvent(activeReportId, {
+        type: "addendum_added",
+        detail: text.length > 200 ? `${text.slice(0, 200)}…` : text
+      });
+      setAddendumDraft("");
+    } catch (addendumError) {
+      setError(firebaseErrorMessage(addendumError));
+    } finally {
+      setIsSavingAddendum(false);
+    }
+  };
+
+  const handleAcknowledgeCritical = async () => {
+    if (!firebaseClient || !currentUser || !activeReportId) {
+      setError("Save the report before acknowledging critical results.");
+      return;
+    }
+    const notifiedTo = criticalNotifiedTo.trim();
+    if (!notifiedTo) {
+      setError("Record who was notified of the critical result.");
+      return;
+    }
+    setIsAcknowledgingCritical(true);
+    setError(null);
+    try {
+      const reportPath = `users/${currentUser.uid}/reports/${activeReportId}`;
+      await addDoc(collection(firebaseClient.db, `${reportPath}/audit`), {
+        type: "critical_acknowledged",
+        actorUid: currentUser.uid,
+        actorName: doctorName,
+        notifiedTo,
+        findings: criticalFindings,
+        createdAt: serverTimestamp()
+      });
+      await setDoc(
+        doc(firebaseClient.db, reportPath),
+        {
+          criticalAcknowledgedAt: serverTimestamp(),
+          criticalAcknowledgedBy: doctorName,
+          criticalNotifiedTo: notifiedTo
+        },
+        { merge: true }
+      );
+      setCriticalNotifiedTo("");
+    } catch (acknowledgeError) {
+      setError(firebaseErrorMessage(acknowledgeError));
+    } finally {
+      setIsAcknowledgingCritical(false);
+    }
+  };
+
   const handleMarkDraft = async () => {
     if (!hasObservations) {
       setError("Generate a report before saving as draft.");
@@ -3391,9 +4541,12 @@ export default function Home() {
     setActiveView("dashboard");
   };
 
-  const handleGenerate = async (audioOverride?: File | null) => {
-    const sourceAudio = audioOverride || audioFile;
-    if (!sourceAudio || !templateId) return;
+  const handleGenerate = async (
+    audioOverride?: File | null,
+    transcriptOverride?: DictationTranscript | null
+  ) => {
+    const sourceAudio = transcriptOverride ? null : audioOverride || audioFile;
+    if ((!sourceAudio && !transcriptOverride) || !templateId) return;
     if (!isBackendConfigured) {
       setError("Generation is disabled on this static site. Configure NEXT_PUBLIC_API_BASE_URL.");
       return;
@@ -3412,12 +4565,71 @@ export default function Home() {
 
     setIsGenerating(true);
     setError(null);
+    setGenerationStages([]);
+    setStreamedFields({});
     const generationStartMs = Date.now();
+    // Allocated before the request so the server's usage ledger entry and
+    // the saved report share one id.
+    const reportId =
+      activeReportId ||
+      (firebaseClient && currentUser
+        ? doc(collection(firebaseClient.db, `users/${currentUser.uid}/reports`)).id
+        : "");
 
     try {
       const formData = new FormData();
       formData.append("template_id", templateId);
-      formData.append("audio_file", sourceAudio);
+      if (reportId) {
+        formData.append("report_id", reportId);
+      }
+      if (criticalRulesJson) {
+        formData.append("critical_rules", criticalRulesJson);
+      }
+      if (reportSettingsJson) {
+        formData.append("report_settings", reportSettingsJson);
+      }
+      if (dictationLanguage !== DEFAULT_DICTATION_LANGUAGE) {
+        formData.append("dictation_language", dictationLanguage);
+      }
+      const priorFields = selectedPriorReport
+        ? readExtractedFieldsFromRawJson(selectedPriorReport.rawJson)
+        : {};
+      if (selectedPriorReport && Object.keys(priorFields).length) {
+        formData.append(
+          "prior_study",
+          JSON.stringify({
+            report_id: selectedPriorReport.id,
+            template_id: selectedPriorReport.templateId,
+            exam_date:
+              selectedPriorReport.patientDate ||
+              formatGeneratedTime(selectedPriorReport.generatedAtMs),
+            fields: priorFields
+          })
+        );
+      }
+      let uploadedAudio: { storagePath: string; downloadUrl: string } | null = null;
+      if (transcriptOverride) {
+        formData.append("transcript", JSON.stringify(transcriptOverride));
+      } else if (
+        sourceAudio &&
+        estimateBase64Size(sourceAudio.size) > MAX_INLINE_AUDIO_BYTES
+      ) {
+        // Too large to post inline: the server pulls it from storage instead.
+        if (!firebaseClient || !currentUser) {
+          throw new Error("Audio over ~75MB is processed from cloud storage. Sign in to use it.");
+        }
+        const storagePath = `users/${currentUser.uid}/recordings/${
+          reportId || "pending"
+        }-${Date.now()}-${fileNameSafe(sourceAudio.name)}`;
+        const targetRef = storageRef(firebaseClient.storage, storagePath);
+        await uploadBytes(targetRef, sourceAudio, {
+          contentType: sourceAudio.type || "audio/webm"
+        });
+        uploadedAudio = { storagePath, downloadUrl: await getDownloadURL(targetRef) };
+        formData.append("audio_url", uploadedAudio.downloadUrl);
+      } else if (sourceAudio) {
+        formData.append("audio_file", sourceAudio);
+      }
       if (isCustomTemplateMode) {
         formData.append("custom_template_text", customTemplateText);
         formData.append("custom_template_gender", customTemplateGender);
@@ -3433,34 +4645,91 @@ export default function Home() {
         }
       }
 
-      const response = await fetch(API_ENDPOINT, { method: "POST", body: formData });
-      const rawResponse = await response.text();
+      const response = await fetch(API_ENDPOINT, {
+        method: "POST",
+        body: formData,
+        headers: {
+          ...(await authorizationHeaders(currentUser)),
+          Accept: "text/event-stream"
+        }
+      });
       let payload: Record<string, unknown> = {};
-      try {
-        payload = rawResponse ? (JSON.parse(rawResponse) as Record<string, unknown>) : {};
-      } catch {
-        throw new Error(
-          response.ok
-            ? "Server returned invalid JSON. Please retry."
-            : `Generation failed (${response.status}). Server returned non-JSON response.`
-        );
-      }
+      const isEventStream = (response.headers.get("content-type") || "").includes(
+        "text/event-stream"
+      );
+      if (isEventStream && response.body) {
+        let completed = false;
+        let streamError = "";
+        await readServerSentEvents(response.body, ({ event, data }) => {
+          let parsedData: unknown = null;
+          try {
+            parsedData = JSON.parse(data);
+          } catch {
+            return;
+          }
+          if (event === "stage") {
+            const stageEvent = parseGenerationStageEvent(parsedData);
+            if (!stageEvent) return;
+            setGenerationStages((current) => [...current, stageEvent]);
+            if (stageEvent.fields) {
+              const fields = stageEvent.fields;
+              setStreamedFields((current) => ({ ...current, ...fields }));
+            }
+          } else if (event === "complete") {
+            payload = (parsedData || {}) as Record<string, unknown>;
+            completed = true;
+          } else if (event === "error") {
+            const errorPayload = (parsedData || {}) as Record<string, unknown>;
+            streamError =
+              typeof errorPayload.error === "string" && errorPayload.error.trim()
+                ? errorPayload.error
+                : "Generation failed.";
+          }
+        });
+        if (streamError) {
+          throw new Error(streamError);
+        }
+        if (!completed) {
+          throw new Error("Generation stream ended before the report was ready. Please retry.");
+        }
+      } else {
+        const rawResponse = await response.text();
+        try {
+          payload = rawResponse ? (JSON.parse(rawResponse) as Record<string, unknown>) : {};
+        } catch {
+          throw new Error(
+            response.ok
+              ? "Server returned invalid JSON. Please retry."
+              : `Generation failed (${response.status}). Server returned non-JSON response.`
+          );
+        }
 
-      if (!response.ok) {
-        const apiError =
-          typeof payload.error === "string" && payload.error.trim()
-            ? payload.error
-            : "Generation failed.";
-        throw new Error(apiError);
+        if (!response.ok) {
+          const apiError =
+            typeof payload.error === "string" && payload.error.trim()
+              ? payload.error
+              : "Generation failed.";
+          throw new Error(apiError);
+        }
       }
 
       const observationsText = String(payload.observations || "");
-      const observationsHtml = formatReportHtml(observationsText, templateId);
+      const nextFieldAttributions = parseUsgFieldAttributions(
+        payload.field_attributions || null
+      );
+      const observationsHtml = markLowConfidenceSentences(
+        formatReportHtml(observationsText, templateId, reportSettings),
+        nextFieldAttributions
+      );
       const nextFlags = Array.isArray(payload.flags) ? payload.flags : [];
       const nextDisclaimer = String(payload.disclaimer || "");
       const rawPayloadJson = JSON.stringify(payload, null, 2);
+      const nextTranscript = sanitizeTranscript(payload.transcript || null);
 
       setObservations(observationsHtml);
+      setTranscript(nextTranscript);
+      setFieldAttributions(nextFieldAttributions);
+      setConsistencyIssues(parseUsgConsistencyIssues(payload.consistency_issues));
       setFlags(nextFlags);
       setDisclaimer(nextDisclaimer);
       const profileFeedback =
@@ -3481,13 +4750,16 @@ export default function Home() {
       setRawJson(rawPayloadJson);
 
       await persistReport({
-        reportId: activeReportId || undefined,
+        reportId: reportId || undefined,
         status: "pending_review",
         sourceAudio,
+        uploadedAudio,
         observationsHtml,
         observationsText,
         generationMs: Date.now() - generationStartMs,
+        usage: parseGenerationUsage(payload.usage),
         rawPayloadJson,
+        transcriptJson: nextTranscript ? JSON.stringify(nextTranscript) : "",
         flagList: nextFlags,
         disclaimerText: nextDisclaimer
       });
@@ -3500,6 +4772,169 @@ export default function Home() {
     }
   };
 
+  const handleRerunExtraction = () => {
+    if (!transcript) return;
+    void handleGenerate(null, transcript);
+  };
+
+  const handleSectionRedictation = async (clip: File) => {
+    if (!activeSectionBlock || !templateId) return;
+    if (!isBackendConfigured) {
+      setError("Generation is disabled on this static site. Configure NEXT_PUBLIC_API_BASE_URL.");
+      return;
+    }
+    if (!observationsPlain.trim()) {
+      setError("Generate a report before re-dictating a section.");
+      return;
+    }
+    if (clip.size > MAX_AUDIO_BYTES) {
+      setError("Audio exceeds 100MB. Please upload a smaller file.");
+      return;
+    }
+
+    setIsSectionGenerating(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append("template_id", templateId);
+      formData.append("mode", "section");
+      formData.append("block_id", activeSectionBlock.id);
+      if (activeReportId) {
+        formData.append("report_id", activeReportId);
+      }
+      if (reportSettingsJson) {
+        formData.append("report_settings", reportSettingsJson);
+      }
+      if (dictationLanguage !== DEFAULT_DICTATION_LANGUAGE) {
+        formData.append("dictation_language", dictationLanguage);
+      }
+      formData.append("report_text", observationsPlain);
+      formData.append("audio_file", clip);
+
+      const response = await fetch(API_ENDPOINT, {
+        method: "POST",
+        body: formData,
+        headers: await authorizationHeaders(currentUser)
+      });
+      const payload = (await response.json().catch(() => ({}))) as Record<string, unknown>;
+      if (!response.ok) {
+        throw new Error(
+          typeof payload.error === "string" && payload.error.trim()
+            ? payload.error
+            : `Section redictation failed (${response.status}).`
+        );
+      }
+
+      // Clip offsets do not line up with the saved report audio, so the new
+      // attributions are kept without timestamps.
+      const sectionAttributions = parseUsgFieldAttributions(
+        payload.field_attributions || null
+      );
+      const nextFieldAttributions: UsgFieldAttributionMap = { ...fieldAttributions };
+      for (const key of activeSectionBlock.fieldKeys) {
+        delete nextFieldAttributions[key];
+        const entry = sectionAttributions[key];
+        if (entry) {
+          nextFieldAttributions[key] = { ...entry, start_sec: null, end_sec: null };
+        }
+      }
+      const observationsText = String(payload.observations || "");
+      const sectionFlags = Array.isArray(payload.flags)
+        ? payload.flags.map((flag: unknown) => String(flag))
+        : [];
+
+      setObservations(
+        markLowConfidenceSentences(
+          formatReportHtml(observationsText, templateId, reportSettings),
+          nextFieldAttributions
+        )
+      );
+      setFieldAttributions(nextFieldAttributions);
+      setRawJson((current) => writeFieldAttributionsToRawJson(current, nextFieldAttributions));
+      setFlags((current) => Array.from(new Set([...current, ...sectionFlags])));
+      const sectionUsage = parseGenerationUsage(payload.usage);
+      if (sectionUsage && firebaseClient && currentUser && activeReportId) {
+        await setDoc(
+          doc(firebaseClient.db, `users/${currentUser.uid}/reports/${activeReportId}`),
+          usageIncrementFields(sectionUsage),
+          { merge: true }
+        );
+      }
+    } catch (sectionError) {
+      setError((sectionError as Error).message);
+    } finally {
+      setIsSectionGenerating(false);
+    }
+  };
+
+  const startSectionRecording = async () => {
+    if (isSectionRecording || isRecording) return;
+    setError(null);
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError("Audio recording is not supported in this browser.");
+      return;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const mimeType = pickSupportedMimeType();
+      let recorder: MediaRecorder;
+      try {
+        recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      } catch {
+        recorder = new MediaRecorder(stream);
+      }
+
+      sectionRecorderRef.current = recorder;
+      sectionChunksRef.current = [];
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) {
+          sectionChunksRef.current.push(event.data);
+        }
+      };
+      recorder.onstop = async () => {
+        stream.getTracks().forEach((track) => track.stop());
+        const blob = new Blob(sectionChunksRef.current, {
+          type: recorder.mimeType || "audio/webm"
+        });
+        sectionChunksRef.current = [];
+        if (!blob.size) {
+          setError("No audio captured. Please try recording again.");
+          return;
+        }
+        await handleSectionRedictation(
+          new File([blob], `section-${Date.now()}.webm`, { type: blob.type || "audio/webm" })
+        );
+      };
+
+      recorder.start(1000);
+      setIsSectionRecording(true);
+    } catch (recordError) {
+      setError((recordError as Error).message);
+    }
+  };
+
+  const stopSectionRecording = () => {
+    const recorder = sectionRecorderRef.current;
+    setIsSectionRecording(false);
+    if (!recorder || recorder.state === "inactive") return;
+    recorder.stop();
+  };
+
+  const handleSectionUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    await handleSectionRedictation(file);
+  };
+
+  const seekReportAudio = (seconds: number | null) => {
+    const player = reportAudioRef.current;
+    if (!player || seconds === null) return;
+    player.currentTime = seconds;
+    void player.play().catch(() => undefined);
+  };
+
   const startElapsedTimer = (elapsedAtStart: number) => {
     recordingStartMsRef.current = Date.now() - elapsedAtStart * 1000;
     if (timerRef.current) window.clearInterval(timerRef.current);
@@ -3562,10 +4997,15 @@ export default function Home() {
           chunksRef.current.push(event.data);
           recordedBytesRef.current += event.data.size;
           if (
-            recordedBytesRef.current > MAX_AUDIO_BYTES ||
-            estimateBase64Size(recordedBytesRef.current) > MAX_INLINE_AUDIO_BYTES
+            recordedBytesRef.current > MAX_STORED_AUDIO_BYTES ||
+            (!currentUser &&
+              estimateBase64Size(recordedBytesRef.current) > MAX_INLINE_AUDIO_BYTES)
           ) {
-            setError("Recording reached the 100MB inline limit. Please stop and upload a smaller file.");
+            setError(
+              currentUser
+                ? "Recording reached the 500MB limit. Please stop and process it."
+                : "Recording reached the 100MB inline limit. Sign in to record longer studies."
+            );
             stopRecording();
           }
         }
@@ -3695,7 +5135,10 @@ export default function Home() {
     try {
       const response = await fetch(ISSUE_SUMMARY_ENDPOINT, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          ...(await authorizationHeaders(currentUser)),
+          "Content-Type": "application/json"
+        },
         body: JSON.stringify({
           ai_text: issue.aiText,
           final_text: issue.finalText
@@ -3775,6 +5218,20 @@ export default function Home() {
     );
   };
 
+  const applyConsistencyFix = (issue: UsgConsistencyIssue) => {
+    if (!issue.fix) return;
+    const nextObservations = replaceReportText(observations, issue.fix.find, issue.fix.replace);
+    if (nextObservations === observations) {
+      setError("The suggested fix no longer matches the report text. Please edit it manually.");
+      return;
+    }
+    const nextIssues = consistencyIssues.filter((entry) => entry.id !== issue.id);
+    setObservations(nextObservations);
+    setConsistencyIssues(nextIssues);
+    setFlags((current) => current.filter((flag) => flag !== issue.message));
+    setRawJson((current) => writeConsistencyIssuesToRawJson(current, nextIssues));
+  };
+
   const toggleAbnormalFormatting = () => {
     const activeEditor = isFullscreen ? fullscreenEditorRef.current : editorRef.current;
     if (!activeEditor) return;
@@ -3811,9 +5268,31 @@ export default function Home() {
     : isRecording
       ? 1
       : 0;
-  const completedTopics = isGenerating
-    ? Math.max(baseCompletedTopics, processingTopicProgress)
-    : baseCompletedTopics;
+  const isRenderComplete = generationStages.some((event) => event.stage === "render_complete");
+  const checkedTopics = recordingSidebarTopics.map((topic, index) =>
+    isGenerating
+      ? isRenderComplete || topicHasStreamedField(topic, streamedFields)
+      : index < baseCompletedTopics
+  );
+  const completedTopics = checkedTopics.filter(Boolean).length;
+  const generationStageRows = generationStages.reduce<
+    Array<{ key: string; label: string; elapsedMs: number; detail: string }>
+  >((rows, event) => {
+    const key = event.task ? `${event.stage}:${event.task}` : event.stage;
+    const detail =
+      event.stage === "tokens"
+        ? `${event.chars ?? 0} chars`
+        : event.detail || (event.task ? event.task : "");
+    const row = {
+      key,
+      label: GENERATION_STAGE_LABELS[event.stage],
+      elapsedMs: event.elapsed_ms,
+      detail
+    };
+    const existingIndex = rows.findIndex((item) => item.key === key);
+    if (existingIndex === -1) return [...rows, row];
+    return rows.map((item, index) => (index === existingIndex ? row : item));
+  }, []);
   const isCompletedReportView = activeReportStatus === "completed";
   const goToRecordingFromReport = () => {
     if (isCompletedReportView || !allowRecordingFromReport) return;
@@ -4660,6 +6139,17 @@ export default function Home() {
                             <span className="h-1.5 w-1.5 rounded-full bg-current" />
                             {labelForStatus(item.status)}
                           </span>
+                          {item.critical && (
+                            <span
+                              className={`ml-2 inline-flex items-center rounded-full px-2 py-1 text-xs font-semibold uppercase ${
+                                needsCriticalAcknowledgement(item)
+                                  ? "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300"
+                                  : "bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300"
+                              }`}
+                            >
+                              {needsCriticalAcknowledgement(item) ? "Critical" : "Critical notified"}
+                            </span>
+                          )}
                         </td>
                         <td className="px-6 py-4">
                           <div className="font-semibold text-slate-900 dark:text-white">{item.patientName}</div>
@@ -4709,6 +6199,11 @@ export default function Home() {
                       >
                         {labelForStatus(item.status)}
                       </span>
+                      {needsCriticalAcknowledgement(item) && (
+                        <span className="inline-flex items-center rounded-full bg-red-100 px-2 py-1 text-[11px] font-semibold uppercase text-red-700">
+                          Critical
+                        </span>
+                      )}
                       <span className="text-xs font-medium text-slate-400">
                         {formatGeneratedTime(
                           item.generatedAtMs || item.createdAtMs || item.updatedAtMs
@@ -4957,21 +6452,248 @@ export default function Home() {
                 </div>
               </div>
 
-              <div className="mt-6">
-                <label className="mb-1 block text-xs font-semibold uppercase text-slate-500">
-                  Display Name
-                </label>
-                <input
-                  className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-800 focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100"
-                  value={profileDraftName}
-                  onChange={(event) => setProfileDraftName(event.target.value)}
-                  placeholder="Dr. Name"
-                />
-                <p className="mt-2 text-xs text-slate-500">
-                  Email: {doctorProfile?.email || currentUser?.email || "N/A"}
-                </p>
-              </div>
-
+              <div className="mt-6">
+                <label className="mb-1 block text-xs font-semibold uppercase text-slate-500">
+                  Display Name
+                </label>
+                <input
+                  className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-800 focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100"
+                  value={profileDraftName}
+                  onChange={(event) => setProfileDraftName(event.target.value)}
+                  placeholder="Dr. Name"
+                />
+                <p className="mt-2 text-xs text-slate-500">
+                  Email: {doctorProfile?.email || currentUser?.email || "N/A"}
+                </p>
+              </div>
+
+              <div className="mt-6">
+                <label className="mb-1 block text-xs font-semibold uppercase text-slate-500">
+                  Registration Number
+                </label>
+                <input
+                  className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-800 focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100"
+                  value={profileDraftRegistration}
+                  onChange={(event) => setProfileDraftRegistration(event.target.value)}
+                  placeholder="Medical council registration no."
+                />
+                <p className="mt-2 text-xs text-slate-500">
+                  Required to sign off reports. It is printed with your name below every finalized report.
+                </p>
+              </div>
+
+              <div className="mt-6">
+                <label className="mb-1 block text-xs font-semibold uppercase text-slate-500">
+                  Signature
+                </label>
+                <div className="flex flex-wrap items-center gap-3">
+                  <div className="flex h-20 w-60 items-center justify-center rounded-lg border border-dashed border-slate-300 bg-white p-2 dark:border-slate-700">
+                    {profileDraftSignature ? (
+                      <img
+                        className="max-h-full max-w-full object-contain"
+                        src={profileDraftSignature}
+                        alt="Signature preview"
+                      />
+                    ) : (
+                      <span className="text-xs text-slate-400">No signature</span>
+                    )}
+                  </div>
+                  <div className="flex flex-col gap-2">
+                    <button
+                      type="button"
+                      className="rounded-lg bg-primary/10 px-3 py-1.5 text-xs font-bold text-primary hover:bg-primary/20"
+                      onClick={() => signatureImageInputRef.current?.click()}
+                    >
+                      Upload Signature
+                    </button>
+                    {profileDraftSignature && (
+                      <button
+                        type="button"
+                        className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 hover:bg-slate-50 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200 dark:hover:bg-slate-800"
+                        onClick={() => setProfileDraftSignature("")}
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                  <input
+                    ref={signatureImageInputRef}
+                    type="file"
+                    accept="image/*"
+                    className="hidden"
+                    onChange={(event) => void handleSignatureImageChange(event)}
+                  />
+                </div>
+                <p className="mt-2 text-xs text-slate-500">
+                  A scan of your signature on a white or transparent background. It is added to exports of reports you sign.
+                </p>
+              </div>
+
+              <div className="mt-6">
+                <label className="mb-1 block text-xs font-semibold uppercase text-slate-500">
+                  Dictation Language
+                </label>
+                <select
+                  className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-800 focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100"
+                  value={profileDraftLanguage}
+                  onChange={(event) =>
+                    setProfileDraftLanguage(normalizeDictationLanguage(event.target.value))
+                  }
+                >
+                  {DICTATION_LANGUAGES.map((language) => (
+                    <option key={language.id} value={language.id}>
+                      {language.label}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-2 text-xs text-slate-500">
+                  The transcript keeps the language you speak; reports are always written in English.
+                </p>
+              </div>
+
+              <div className="mt-6">
+                <label className="mb-1 block text-xs font-semibold uppercase text-slate-500">
+                  Critical Result Rules
+                </label>
+                <p className="mb-2 text-xs text-slate-500">
+                  JSON array of up to {MAX_CRITICAL_RULES} rules (id, label, severity, pattern,
+                  templateIds, enabled). Patterns are limited to {MAX_CRITICAL_PATTERN_LENGTH} characters
+                  and cannot repeat a group that already repeats, such as (a+)+; those rules are dropped.
+                  Matching reports are pinned to the worklist and need an acknowledgement before sign-off.
+                </p>
+                <textarea
+                  className="custom-scrollbar h-48 w-full rounded-lg border border-slate-200 px-3 py-2 font-mono text-xs text-slate-800 focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100"
+                  value={criticalRulesDraft}
+                  onChange={(event) => setCriticalRulesDraft(event.target.value)}
+                  spellCheck={false}
+                />
+                <div className="mt-2 flex flex-wrap items-center gap-2">
+                  <button
+                    type="button"
+                    className="rounded-lg bg-primary/10 px-3 py-1.5 text-xs font-bold text-primary hover:bg-primary/20 disabled:opacity-50"
+                    onClick={() => void handleSaveCriticalRules(criticalRulesDraft)}
+                    disabled={isSavingCriticalRules}
+                  >
+                    {isSavingCriticalRules ? "Saving..." : "Save Rules"}
+                  </button>
+                  <button
+                    type="button"
+                    className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 hover:bg-slate-50 disabled:opacity-50 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200 dark:hover:bg-slate-800"
+                    onClick={() => setCriticalRulesDraft(JSON.stringify(DEFAULT_CRITICAL_RULES, null, 2))}
+                    disabled={isSavingCriticalRules}
+                  >
+                    Reset to Defaults
+                  </button>
+                  {!criticalRulesJson && (
+                    <span className="text-xs text-slate-500">Using the built-in ruleset.</span>
+                  )}
+                </div>
+              </div>
+
+              <div className="mt-6">
+                <label className="mb-1 block text-xs font-semibold uppercase text-slate-500">
+                  Report Defaults
+                </label>
+                <p className="mb-2 text-xs text-slate-500">
+                  Header, footer, referrer and normal sentences used when a finding is not dictated.
+                  Clear a line to leave it out of the report.
+                </p>
+                <div className="grid gap-4 lg:grid-cols-2">
+                  <div className="space-y-3">
+                    {USG_REPORT_SETTING_LINES.map((line) => (
+                      <div key={line.key}>
+                        <label className="mb-1 block text-[11px] font-semibold text-slate-500">
+                          {line.label}
+                        </label>
+                        {line.multiline ? (
+                          <textarea
+                            className="custom-scrollbar h-20 w-full rounded-lg border border-slate-200 px-3 py-2 text-xs text-slate-800 focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100"
+                            value={reportSettingsDraft[line.key] ?? USG_BUILT_IN_BOILERPLATE[line.key]}
+                            onChange={(event) =>
+                              setReportSettingsDraft((current) => ({
+                                ...current,
+                                [line.key]: event.target.value
+                              }))
+                            }
+                          />
+                        ) : (
+                          <input
+                            className="w-full rounded-lg border border-slate-200 px-3 py-2 text-xs text-slate-800 focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100"
+                            value={reportSettingsDraft[line.key] ?? USG_BUILT_IN_BOILERPLATE[line.key]}
+                            onChange={(event) =>
+                              setReportSettingsDraft((current) => ({
+                                ...current,
+                                [line.key]: event.target.value
+                              }))
+                            }
+                          />
+                        )}
+                      </div>
+                    ))}
+                    <div>
+                      <label className="mb-1 block text-[11px] font-semibold text-slate-500">
+                        Default sentences (JSON: fieldDefaults for every USG report, kubFieldDefaults for KUB)
+                      </label>
+                      <textarea
+                        className="custom-scrollbar h-40 w-full rounded-lg border border-slate-200 px-3 py-2 font-mono text-xs text-slate-800 focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100"
+                        value={reportFieldDefaultsDraft}
+                        onChange={(event) => setReportFieldDefaultsDraft(event.target.value)}
+                        placeholder={'{\n  "fieldDefaults": { "liver_main": "Liver is normal in size and echotexture." },\n  "kubFieldDefaults": {}\n}'}
+                        spellCheck={false}
+                      />
+                      {!reportSettingsPreview.fieldDefaultsValid && (
+                        <p className="mt-1 text-xs text-rose-600">
+                          Invalid JSON; the preview ignores default sentences until it parses.
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="mb-1 flex items-center justify-between gap-2">
+                      <span className="text-[11px] font-semibold text-slate-500">Live preview</span>
+                      <select
+                        className="rounded-lg border border-slate-200 px-2 py-1 text-xs text-slate-700 focus:border-primary focus:outline-none dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200"
+                        value={reportSettingsPreviewTemplateId}
+                        onChange={(event) => setReportSettingsPreviewTemplateId(event.target.value)}
+                      >
+                        {REPORT_SETTINGS_PREVIEW_TEMPLATES.map((item) => (
+                          <option key={item.id} value={item.id}>
+                            {item.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <pre className="custom-scrollbar h-96 overflow-auto whitespace-pre-wrap rounded-lg border border-slate-200 bg-white p-3 font-mono text-[11px] text-slate-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-300">
+                      {reportSettingsPreview.text}
+                    </pre>
+                  </div>
+                </div>
+                <div className="mt-2 flex flex-wrap items-center gap-2">
+                  <button
+                    type="button"
+                    className="rounded-lg bg-primary/10 px-3 py-1.5 text-xs font-bold text-primary hover:bg-primary/20 disabled:opacity-50"
+                    onClick={() => void handleSaveReportSettings()}
+                    disabled={isSavingReportSettings}
+                  >
+                    {isSavingReportSettings ? "Saving..." : "Save Report Defaults"}
+                  </button>
+                  <button
+                    type="button"
+                    className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 hover:bg-slate-50 disabled:opacity-50 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200 dark:hover:bg-slate-800"
+                    onClick={() => {
+                      setReportSettingsDraft({});
+                      setReportFieldDefaultsDraft("");
+                    }}
+                    disabled={isSavingReportSettings}
+                  >
+                    Reset to Built-in
+                  </button>
+                  {!reportSettingsJson && (
+                    <span className="text-xs text-slate-500">Using the built-in report text.</span>
+                  )}
+                </div>
+              </div>
+
               <div className="mt-6 flex flex-wrap items-center gap-2">
                 <button
                   data-tour-id="profile-save-button"
@@ -5135,7 +6857,89 @@ export default function Home() {
             </div>
           </header>
 
-          <div className="flex min-h-0 flex-1 overflow-hidden p-3 md:p-6">
+          <div className="flex min-h-0 flex-1 flex-col gap-4 overflow-hidden p-3 md:p-6">
+            <section className="rounded-xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+              <div className="flex flex-wrap items-center justify-between gap-2 border-b border-slate-200 px-4 py-3 dark:border-slate-800">
+                <div>
+                  <h2 className="text-sm font-semibold text-slate-900 dark:text-slate-100">
+                    Model Usage
+                  </h2>
+                  <p className="text-xs text-slate-500">
+                    {formatUsd(usageMonthCostUsd)} estimated this month
+                    {USAGE_BUDGETS.centreMonthlyUsd > 0 &&
+                      ` of ${formatUsd(USAGE_BUDGETS.centreMonthlyUsd)} budget`}
+                    .
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  {USAGE_GROUP_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      className={`rounded-lg px-2 py-1 text-xs font-semibold ${
+                        usageGroupBy === option.value
+                          ? "bg-primary/10 text-primary"
+                          : "text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800"
+                      }`}
+                      onClick={() => setUsageGroupBy(option.value)}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {usageBudgetAlerts.length > 0 && (
+                <div className="space-y-1 border-b border-slate-200 px-4 py-2 dark:border-slate-800">
+                  {usageBudgetAlerts.map((alert) => (
+                    <p
+                      key={`${alert.scope}:${alert.label}`}
+                      className={`text-xs font-semibold ${
+                        alert.level === "exceeded"
+                          ? "text-red-600 dark:text-red-400"
+                          : "text-amber-600 dark:text-amber-400"
+                      }`}
+                    >
+                      {alert.label}: {formatUsd(alert.spentUsd)} of {formatUsd(alert.budgetUsd)} monthly
+                      budget {alert.level === "exceeded" ? "exceeded" : "used (over 80%)"}.
+                    </p>
+                  ))}
+                </div>
+              )}
+              <div className="custom-scrollbar max-h-48 overflow-y-auto px-4 py-2">
+                {usageRows.length === 0 ? (
+                  <p className="py-2 text-xs text-slate-500">No metered generations yet.</p>
+                ) : (
+                  <table className="w-full text-left text-xs">
+                    <thead className="text-slate-400">
+                      <tr>
+                        <th className="py-1 font-semibold">
+                          {USAGE_GROUP_OPTIONS.find((option) => option.value === usageGroupBy)?.column}
+                        </th>
+                        <th className="py-1 text-right font-semibold">Reports</th>
+                        <th className="py-1 text-right font-semibold">Generations</th>
+                        <th className="py-1 text-right font-semibold">Prompt</th>
+                        <th className="py-1 text-right font-semibold">Audio</th>
+                        <th className="py-1 text-right font-semibold">Output</th>
+                        <th className="py-1 text-right font-semibold">Cost</th>
+                      </tr>
+                    </thead>
+                    <tbody className="text-slate-700 dark:text-slate-200">
+                      {usageRows.map((row) => (
+                        <tr key={row.key} className="border-t border-slate-100 dark:border-slate-800">
+                          <td className="truncate py-1 pr-2">{row.label}</td>
+                          <td className="py-1 text-right">{row.reports}</td>
+                          <td className="py-1 text-right">{row.generations}</td>
+                          <td className="py-1 text-right">{formatTokenCount(row.promptTokens)}</td>
+                          <td className="py-1 text-right">{formatTokenCount(row.audioTokens)}</td>
+                          <td className="py-1 text-right">{formatTokenCount(row.outputTokens)}</td>
+                          <td className="py-1 text-right font-semibold">{formatUsd(row.costUsd)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </section>
             <div className="grid min-h-0 w-full flex-1 gap-4 xl:grid-cols-[360px,minmax(0,1fr)]">
               <section
                 data-tour-id="admin-issues-panel"
@@ -5264,56 +7068,12 @@ export default function Home() {
                           </span>
                         </div>
                       </div>
-                      <div className="grid grid-cols-2 border-b border-slate-200 dark:border-slate-700">
-                        <p className="border-r border-slate-200 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-600 dark:border-slate-700 dark:text-slate-300">
-                          AI Generated Report
-                        </p>
-                        <p className="px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-600 dark:text-slate-300">
-                          Final Edited Report
-                        </p>
-                      </div>
-                      <div className="custom-scrollbar max-h-[44vh] overflow-auto">
-                        {selectedAdminIssueDiffRows.length === 0 ? (
-                          <div className="px-4 py-4 text-sm text-slate-500">
-                            No comparable report text available for diff.
-                          </div>
-                        ) : (
-                          selectedAdminIssueDiffRows.map((row) => (
-                            <div
-                              key={row.key}
-                              className="grid grid-cols-2 border-b border-slate-100 last:border-b-0 dark:border-slate-800"
-                            >
-                              <div
-                                className={`border-r border-slate-200 dark:border-slate-700 ${adminDiffCellTone(
-                                  row.kind,
-                                  "left"
-                                )}`}
-                              >
-                                <div className="flex items-start gap-2 px-3 py-1.5">
-                                  <span className="mt-0.5 w-8 shrink-0 text-right font-mono text-[10px] text-slate-400">
-                                    {row.leftLineNo ?? ""}
-                                  </span>
-                                  <div
-                                    className="min-w-0 flex-1 whitespace-pre-wrap break-words font-mono text-[11px] leading-5 text-slate-700 dark:text-slate-200"
-                                    dangerouslySetInnerHTML={{ __html: row.leftHtml }}
-                                  />
-                                </div>
-                              </div>
-                              <div className={adminDiffCellTone(row.kind, "right")}>
-                                <div className="flex items-start gap-2 px-3 py-1.5">
-                                  <span className="mt-0.5 w-8 shrink-0 text-right font-mono text-[10px] text-slate-400">
-                                    {row.rightLineNo ?? ""}
-                                  </span>
-                                  <div
-                                    className="min-w-0 flex-1 whitespace-pre-wrap break-words font-mono text-[11px] leading-5 text-slate-700 dark:text-slate-200"
-                                    dangerouslySetInnerHTML={{ __html: row.rightHtml }}
-                                  />
-                                </div>
-                              </div>
-                            </div>
-                          ))
-                        )}
-                      </div>
+                      <DiffRowsTable
+                        rows={selectedAdminIssueDiffRows}
+                        leftLabel="AI Generated Report"
+                        rightLabel="Final Edited Report"
+                        emptyText="No comparable report text available for diff."
+                      />
                     </div>
 
                     <div className="mt-4 rounded-xl border border-slate-200 bg-slate-50 p-4 dark:border-slate-700 dark:bg-slate-800/50">
@@ -5644,7 +7404,7 @@ export default function Home() {
                 </h4>
                 <div className="space-y-3">
                   {recordingSidebarTopics.map((topic, index) => {
-                    const checked = index < completedTopics;
+                    const checked = checkedTopics[index];
                     return (
                       <div key={topic} className="flex items-center gap-3">
                         {checked ? (
@@ -5682,6 +7442,26 @@ export default function Home() {
                   })}
                 </div>
               </div>
+              {isGenerating && generationStageRows.length > 0 && (
+                <div>
+                  <h4 className="mb-3 text-xs font-bold uppercase tracking-tighter text-slate-400">
+                    Processing
+                  </h4>
+                  <ul className="space-y-2">
+                    {generationStageRows.map((row) => (
+                      <li key={row.key} className="flex items-start justify-between gap-3 text-xs">
+                        <div>
+                          <p className="font-semibold text-slate-700 dark:text-slate-200">{row.label}</p>
+                          {row.detail && <p className="text-slate-500">{row.detail}</p>}
+                        </div>
+                        <span className="shrink-0 font-mono text-slate-400">
+                          {(row.elapsedMs / 1000).toFixed(1)}s
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
             <div className="mt-12 rounded-xl border border-primary/5 bg-background-light p-4 dark:bg-slate-800">
               <div className="mb-2 flex items-center gap-2">
@@ -6016,7 +7796,14 @@ export default function Home() {
                 <p className="mb-2 text-xs font-bold uppercase tracking-wider text-slate-500">
                   Listen to Recording
                 </p>
-                <audio controls preload="metadata" src={audioUrl} className="w-full" />
+                <audio
+                  ref={reportAudioRef}
+                  onPlay={handleReportAudioPlay}
+                  controls
+                  preload="metadata"
+                  src={audioUrl}
+                  className="w-full"
+                />
               </div>
             )}
 
@@ -6095,7 +7882,7 @@ export default function Home() {
                   </button>
                   <button
                     className="rounded p-1.5 text-slate-600 hover:bg-white dark:text-slate-300 dark:hover:bg-slate-700"
-                    onClick={() => exportDocx(`${REPORT_EXPORT_BASENAME}.docx`, observations)}
+                    onClick={() => void handleExportReport("docx")}
                     disabled={!hasObservations}
                     title="Download DOCX"
                   >
@@ -6103,7 +7890,7 @@ export default function Home() {
                   </button>
                   <button
                     className="rounded p-1.5 text-slate-600 hover:bg-white dark:text-slate-300 dark:hover:bg-slate-700"
-                    onClick={() => exportPdf(`${REPORT_EXPORT_BASENAME}.pdf`, observations)}
+                    onClick={() => void handleExportReport("pdf")}
                     disabled={!hasObservations}
                     title="Download PDF"
                   >
@@ -6141,10 +7928,80 @@ export default function Home() {
                   onChange={setObservations}
                   placeholder="Generated report will appear here."
                   disabled={isGenerating}
+                  readOnly={isActiveReportSigned}
                   ref={editorRef}
                   className="report-editor viewport"
                   style={{ fontSize: `${editorFontSizePx}px` }}
                 />
+                {activeReport && isActiveReportSigned && (
+                  <div className="space-y-4 border-x border-b border-slate-200 bg-slate-50 px-6 py-5 dark:border-slate-800 dark:bg-slate-900/60">
+                    <div className="flex flex-wrap items-end justify-between gap-4">
+                      <div className="space-y-0.5 text-xs text-slate-600 dark:text-slate-300">
+                        <p className="flex items-center gap-1 font-bold uppercase tracking-wider text-green-700 dark:text-green-400">
+                          <span className="material-icons-round text-sm">verified</span>
+                          Signed and locked
+                        </p>
+                        <p>
+                          {activeReport.signedByName}
+                          {activeReport.signedByRegistration &&
+                            ` • Reg. No. ${activeReport.signedByRegistration}`}
+                        </p>
+                        <p>{new Date(activeReport.signedAtMs).toLocaleString()}</p>
+                        <p className="break-all font-mono text-[10px] text-slate-400">
+                          SHA-256 {activeReport.contentHash}
+                        </p>
+                      </div>
+                      {activeReport.signatureImage && (
+                        <img
+                          className="max-h-16 max-w-[12rem] object-contain"
+                          src={activeReport.signatureImage}
+                          alt={`Signature of ${activeReport.signedByName}`}
+                        />
+                      )}
+                    </div>
+
+                    {reportAddenda.map((addendum, index) => (
+                      <div
+                        key={addendum.id}
+                        className="rounded-lg border border-slate-200 bg-white p-3 dark:border-slate-700 dark:bg-slate-900"
+                      >
+                        <p className="text-xs font-bold uppercase tracking-wider text-slate-700 dark:text-slate-200">
+                          Addendum {index + 1}
+                        </p>
+                        <p className="text-[11px] text-slate-400">
+                          {addendum.authorName || addendum.authorUid || "Unknown"} •{" "}
+                          {addendum.createdAtMs
+                            ? new Date(addendum.createdAtMs).toLocaleString()
+                            : "Saving..."}
+                        </p>
+                        <p className="mt-2 whitespace-pre-wrap text-sm text-slate-800 dark:text-slate-100">
+                          {addendum.text}
+                        </p>
+                      </div>
+                    ))}
+
+                    <div>
+                      <label className="mb-1 block text-xs font-semibold uppercase text-slate-500">
+                        New Addendum
+                      </label>
+                      <textarea
+                        className="h-24 w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-800 focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100"
+                        value={addendumDraft}
+                        maxLength={MAX_ADDENDUM_CHARS}
+                        onChange={(event) => setAddendumDraft(event.target.value)}
+                        placeholder="Corrections or additional findings. Addenda are timestamped and cannot be edited."
+                      />
+                      <button
+                        type="button"
+                        className="mt-2 rounded-lg bg-primary px-3 py-2 text-xs font-bold text-white hover:bg-primary/90 disabled:cursor-not-allowed disabled:opacity-50"
+                        onClick={() => void handleAddAddendum()}
+                        disabled={!addendumDraft.trim() || isSavingAddendum}
+                      >
+                        {isSavingAddendum ? "Saving..." : "Add Addendum"}
+                      </button>
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -6152,7 +8009,7 @@ export default function Home() {
               <div className="flex gap-2">
                 <button
                   className="flex items-center gap-2 rounded-lg border border-slate-200 px-4 py-2 text-sm font-semibold transition-all hover:bg-white dark:border-slate-700 dark:hover:bg-slate-800"
-                  onClick={() => exportPdf(`${REPORT_EXPORT_BASENAME}.pdf`, observations)}
+                  onClick={() => void handleExportReport("pdf")}
                   disabled={!hasObservations}
                 >
                   <span className="material-icons-round text-lg text-slate-500">picture_as_pdf</span>
@@ -6160,7 +8017,7 @@ export default function Home() {
                 </button>
                 <button
                   className="flex items-center gap-2 rounded-lg border border-slate-200 px-4 py-2 text-sm font-semibold transition-all hover:bg-white dark:border-slate-700 dark:hover:bg-slate-800"
-                  onClick={() => exportDocx(`${REPORT_EXPORT_BASENAME}.docx`, observations)}
+                  onClick={() => void handleExportReport("docx")}
                   disabled={!hasObservations}
                 >
                   <span className="material-icons-round text-lg text-slate-500">description</span>
@@ -6171,7 +8028,7 @@ export default function Home() {
                 <button
                   className="flex items-center gap-2 rounded-lg border border-amber-300 bg-amber-50 px-5 py-2.5 text-sm font-bold text-amber-700 transition-all hover:bg-amber-100 disabled:cursor-not-allowed disabled:opacity-50 dark:border-amber-700 dark:bg-amber-900/30 dark:text-amber-200 dark:hover:bg-amber-900/50"
                   onClick={handleMarkDraft}
-                  disabled={!hasObservations || isSavingReport}
+                  disabled={!hasObservations || isSavingReport || isActiveReportSigned}
                 >
                   {isSavingReport ? "Saving..." : isCompletedReportView ? "Move to Draft" : "Save as Draft"}
                   <span className="material-icons-round text-lg">edit_note</span>
@@ -6179,7 +8036,7 @@ export default function Home() {
                 <button
                   className="flex items-center gap-2 rounded-lg border border-slate-300 bg-white px-5 py-2.5 text-sm font-bold text-slate-700 transition-all hover:bg-slate-100 disabled:cursor-not-allowed disabled:opacity-50 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200 dark:hover:bg-slate-800"
                   onClick={handleDiscardReport}
-                  disabled={isSavingReport}
+                  disabled={isSavingReport || isActiveReportSigned}
                 >
                   {isSavingReport ? "Saving..." : "Discard"}
                   <span className="material-icons-round text-lg">delete_outline</span>
@@ -6228,6 +8085,136 @@ export default function Home() {
               </button>
             </div>
 
+            {criticalFindings.length > 0 && (
+              <div className="space-y-3 rounded-xl border-2 border-red-400 bg-red-50 p-4 dark:border-red-700 dark:bg-red-900/20">
+                <div className="flex items-center gap-2 text-red-700 dark:text-red-300">
+                  <span className="material-icons-round text-sm">priority_high</span>
+                  <span className="text-xs font-bold uppercase tracking-wider">Critical Result</span>
+                </div>
+                <ul className="space-y-2 text-sm text-slate-700 dark:text-slate-300">
+                  {criticalFindings.map((finding) => (
+                    <li key={finding.rule_id}>
+                      <span className="font-semibold text-red-700 dark:text-red-300">
+                        {finding.severity === "critical" ? "Critical" : "Urgent"}: {finding.label}
+                      </span>
+                      <span className="block text-xs text-slate-500">{finding.excerpt}</span>
+                    </li>
+                  ))}
+                </ul>
+                {activeReport?.criticalAcknowledgedAtMs ? (
+                  <p className="text-xs text-slate-600 dark:text-slate-400">
+                    {activeReport.criticalNotifiedTo} notified by {activeReport.criticalAcknowledgedBy} at{" "}
+                    {new Date(activeReport.criticalAcknowledgedAtMs).toLocaleString()}.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    <input
+                      className="w-full rounded-lg border border-red-200 bg-white px-3 py-2 text-sm text-slate-800 focus:border-red-400 focus:outline-none focus:ring-1 focus:ring-red-400 dark:border-red-900 dark:bg-slate-900 dark:text-slate-100"
+                      value={criticalNotifiedTo}
+                      onChange={(event) => setCriticalNotifiedTo(event.target.value)}
+                      placeholder="Notified to (name, role, phone)"
+                    />
+                    <button
+                      type="button"
+                      className="w-full rounded-lg bg-red-600 py-2 text-xs font-bold text-white transition-colors hover:bg-red-700 disabled:opacity-50"
+                      onClick={() => void handleAcknowledgeCritical()}
+                      disabled={isAcknowledgingCritical || !criticalNotifiedTo.trim()}
+                    >
+                      {isAcknowledgingCritical ? "Saving..." : "Acknowledge Notification"}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-3 rounded-xl border border-slate-200 bg-background-light p-4 dark:border-slate-700 dark:bg-slate-800/50">
+              <div className="flex items-center gap-2 text-slate-500">
+                <span className="material-icons-round text-sm">compare_arrows</span>
+                <span className="text-xs font-bold uppercase tracking-wider">Prior Comparison</span>
+              </div>
+              <select
+                className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-xs text-slate-700 focus:border-primary focus:outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200"
+                value={priorReportChoice}
+                onChange={(event) => setPriorReportChoice(event.target.value)}
+                disabled={isGenerating}
+              >
+                <option value="auto">Auto-match same patient</option>
+                <option value="none">No comparison</option>
+                {priorCandidates.samePatient.length > 0 && (
+                  <optgroup label="Same patient">
+                    {priorCandidates.samePatient.map((item) => (
+                      <option key={item.id} value={item.id}>
+                        {modalityForTemplateId(item.templateId, templates)} •{" "}
+                        {formatGeneratedTime(item.generatedAtMs)}
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
+                {priorCandidates.sameTemplate.length > 0 && (
+                  <optgroup label="Other reports, same template">
+                    {priorCandidates.sameTemplate.slice(0, 20).map((item) => (
+                      <option key={item.id} value={item.id}>
+                        {item.patientName} • {formatGeneratedTime(item.generatedAtMs)}
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
+              </select>
+              {selectedPriorReport ? (
+                <>
+                  <p className="text-xs text-slate-500">
+                    Prior: {selectedPriorReport.patientName} •{" "}
+                    {formatGeneratedTime(selectedPriorReport.generatedAtMs)}
+                  </p>
+                  {priorFieldDiff.length ? (
+                    <ul className="custom-scrollbar max-h-64 space-y-2 overflow-y-auto text-xs text-slate-700 dark:text-slate-300">
+                      {priorFieldDiff
+                        .filter((entry) => entry.status !== "unchanged")
+                        .map((entry) => (
+                          <li key={entry.field_key} className="rounded-lg bg-white p-2 dark:bg-slate-900">
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="font-semibold">{humanizeFieldKey(entry.field_key)}</span>
+                              <span className="text-[10px] font-bold uppercase text-slate-400">
+                                {entry.status === "not_reported" ? "not dictated" : entry.status}
+                              </span>
+                            </div>
+                            {entry.measurement ? (
+                              <p className="font-semibold text-primary">
+                                {entry.measurement.prior} → {entry.measurement.current} (
+                                {entry.measurement.delta_pct > 0 ? "+" : ""}
+                                {entry.measurement.delta_pct}%)
+                              </p>
+                            ) : null}
+                            {entry.prior ? <p className="text-slate-400 line-through">{entry.prior}</p> : null}
+                            {entry.current ? <p>{entry.current}</p> : null}
+                          </li>
+                        ))}
+                      <li className="text-slate-500">
+                        {priorFieldDiff.filter((entry) => entry.status === "unchanged").length} field(s)
+                        unchanged.
+                      </li>
+                    </ul>
+                  ) : (
+                    <p className="text-xs text-slate-500">
+                      Field-level diff is available once both reports have extracted fields.
+                    </p>
+                  )}
+                  {transcript && readPriorReportIdFromRawJson(rawJson) !== selectedPriorReport.id ? (
+                    <button
+                      type="button"
+                      className="w-full rounded-lg bg-primary/10 py-2 text-xs font-bold text-primary transition-colors hover:bg-primary/20 disabled:opacity-50"
+                      onClick={handleRerunExtraction}
+                      disabled={isGenerating}
+                    >
+                      Regenerate With Comparison
+                    </button>
+                  ) : null}
+                </>
+              ) : (
+                <p className="text-xs text-slate-500">No prior report selected.</p>
+              )}
+            </div>
+
             <div className="space-y-3 rounded-xl border border-red-200 bg-red-50 p-4 dark:border-red-900/30 dark:bg-red-900/10">
               <div className="flex items-center gap-2 text-red-600 dark:text-red-400">
                 <span className="material-icons-round text-sm">error_outline</span>
@@ -6235,8 +8222,31 @@ export default function Home() {
               </div>
               {flags.length ? (
                 <ul className="list-disc space-y-1 pl-4 text-sm text-slate-700 dark:text-slate-300">
-                  {flags.map((flag) => (
-                    <li key={flag}>{flag}</li>
+                  {flags
+                    .filter((flag) => !criticalFindingFlags.includes(flag))
+                    .filter((flag) => !consistencyIssues.some((issue) => issue.message === flag))
+                    .map((flag) => (
+                      <li key={flag}>{flag}</li>
+                    ))}
+                  {consistencyIssues.map((issue) => (
+                    <li key={issue.id}>
+                      {issue.message}
+                      {issue.fix ? (
+                        <button
+                          type="button"
+                          className="mt-1 block rounded-lg bg-red-100 px-2 py-1 text-xs font-bold text-red-700 transition-colors hover:bg-red-200 disabled:opacity-50 dark:bg-red-900/30 dark:text-red-300"
+                          onClick={() => applyConsistencyFix(issue)}
+                          disabled={isGenerating}
+                          title={
+                            issue.fix.replace
+                              ? `Replace "${issue.fix.find}" with "${issue.fix.replace}"`
+                              : `Remove "${issue.fix.find}"`
+                          }
+                        >
+                          Apply fix
+                        </button>
+                      ) : null}
+                    </li>
                   ))}
                 </ul>
               ) : (
@@ -6244,6 +8254,127 @@ export default function Home() {
               )}
             </div>
 
+            <div className="space-y-3 rounded-xl border border-slate-200 bg-background-light p-4 dark:border-slate-700 dark:bg-slate-800/50">
+              <div className="flex items-center gap-2 text-slate-500">
+                <span className="material-icons-round text-sm">record_voice_over</span>
+                <span className="text-xs font-bold uppercase tracking-wider">Transcript</span>
+              </div>
+              {transcript ? (
+                <ul className="custom-scrollbar max-h-64 space-y-1.5 overflow-y-auto text-sm text-slate-700 dark:text-slate-300">
+                  {transcript.segments.map((segment, index) => (
+                    <li key={`${index}-${segment.start_sec ?? "na"}`} className="flex gap-2">
+                      <button
+                        type="button"
+                        className="shrink-0 font-mono text-[11px] font-semibold text-primary hover:underline disabled:cursor-default disabled:text-slate-400 disabled:no-underline"
+                        onClick={() => seekReportAudio(segment.start_sec)}
+                        disabled={!audioUrl || segment.start_sec === null}
+                        title="Play from here"
+                      >
+                        {formatTranscriptTimestamp(segment.start_sec)}
+                      </button>
+                      <span>{segment.text}</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-slate-600 dark:text-slate-400">
+                  No transcript saved for this report.
+                </p>
+              )}
+              {voiceCommands.length > 0 && (
+                <div className="space-y-1.5 border-t border-slate-200 pt-3 dark:border-slate-700">
+                  <p className="text-[11px] font-bold uppercase tracking-wider text-slate-500">
+                    Voice commands applied
+                  </p>
+                  <ul className="space-y-1 text-xs text-slate-600 dark:text-slate-400">
+                    {voiceCommands.map((command, index) => (
+                      <li key={`${command.kind}-${index}`} className="flex gap-2">
+                        <span className="shrink-0 font-mono text-[11px] text-slate-400">
+                          {formatTranscriptTimestamp(command.start_sec)}
+                        </span>
+                        <span>
+                          <span className="font-semibold text-slate-700 dark:text-slate-300">
+                            &ldquo;{command.spoken}&rdquo;
+                          </span>{" "}
+                          {command.detail}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {!isCompletedReportView && transcript && (
+                <button
+                  className="w-full rounded-lg border border-slate-200 py-2 text-xs font-bold text-slate-600 transition-colors hover:bg-slate-100 disabled:cursor-not-allowed disabled:opacity-50 dark:border-slate-700 dark:text-slate-300 dark:hover:bg-slate-800"
+                  onClick={handleRerunExtraction}
+                  disabled={
+                    isGenerating ||
+                    !isBackendConfigured ||
+                    !customTemplateReady ||
+                    !customTemplateProfileReady
+                  }
+                >
+                  {isGenerating ? "Extracting..." : "Re-run Extraction (Transcript)"}
+                </button>
+              )}
+            </div>
+
+            {!isCompletedReportView && sectionBlocks.length > 0 && hasObservations && (
+              <div className="space-y-3 rounded-xl border border-slate-200 bg-background-light p-4 dark:border-slate-700 dark:bg-slate-800/50">
+                <div className="flex items-center gap-2 text-slate-500">
+                  <span className="material-icons-round text-sm">keyboard_voice</span>
+                  <span className="text-xs font-bold uppercase tracking-wider">Re-dictate Section</span>
+                </div>
+                <select
+                  className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200"
+                  value={activeSectionBlock?.id || ""}
+                  onChange={(event) => setSectionBlockId(event.target.value as UsgBlockId)}
+                  disabled={isSectionRecording || isSectionGenerating}
+                >
+                  {sectionBlocks.map((block) => (
+                    <option key={block.id} value={block.id}>
+                      {block.heading.replace(/:$/, "")}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  Only this section is replaced; edits elsewhere in the report are kept.
+                </p>
+                <div className="flex gap-2">
+                  <button
+                    className={`flex-1 rounded-lg py-2 text-xs font-bold transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${
+                      isSectionRecording
+                        ? "bg-red-500 text-white hover:bg-red-600"
+                        : "bg-primary/10 text-primary hover:bg-primary/20"
+                    }`}
+                    onClick={isSectionRecording ? stopSectionRecording : startSectionRecording}
+                    disabled={isSectionGenerating || !isBackendConfigured || isRecording}
+                  >
+                    {isSectionGenerating
+                      ? "Updating..."
+                      : isSectionRecording
+                      ? "Stop & Apply"
+                      : "Record Section"}
+                  </button>
+                  <label
+                    className={`flex-1 cursor-pointer rounded-lg border border-slate-200 py-2 text-center text-xs font-bold text-slate-600 transition-colors hover:bg-slate-100 dark:border-slate-700 dark:text-slate-300 dark:hover:bg-slate-800 ${
+                      isSectionRecording || isSectionGenerating || !isBackendConfigured
+                        ? "pointer-events-none opacity-50"
+                        : ""
+                    }`}
+                  >
+                    Upload Clip
+                    <input
+                      type="file"
+                      accept="audio/*"
+                      className="hidden"
+                      onChange={handleSectionUpload}
+                    />
+                  </label>
+                </div>
+              </div>
+            )}
+
             <div className="space-y-3 rounded-xl border border-slate-200 bg-background-light p-4 dark:border-slate-700 dark:bg-slate-800/50">
               <div className="flex items-center gap-2 text-slate-500">
                 <span className="material-icons-round text-sm">history_edu</span>
@@ -6262,15 +8393,170 @@ export default function Home() {
               )}
             </div>
 
+            {activeReportId && (
+              <div className="space-y-3 rounded-xl border border-slate-200 bg-background-light p-4 dark:border-slate-700 dark:bg-slate-800/50">
+                <div className="flex items-center gap-2 text-slate-500">
+                  <span className="material-icons-round text-sm">timeline</span>
+                  <span className="text-xs font-bold uppercase tracking-wider">Audit Trail</span>
+                </div>
+                {auditEvents.length === 0 ? (
+                  <p className="text-xs text-slate-500">No audit entries yet.</p>
+                ) : (
+                  <ol className="custom-scrollbar max-h-72 space-y-3 overflow-y-auto border-l border-slate-200 pl-3 dark:border-slate-700">
+                    {auditEvents.map((event) => (
+                      <li key={event.id} className="text-xs">
+                        <p className="font-semibold text-slate-700 dark:text-slate-200">
+                          {labelForAuditEvent(event.type)}
+                          {event.type === "status_changed" && event.fromStatus && event.toStatus && (
+                            <span className="font-normal text-slate-500">
+                              {" "}
+                              {labelForStatus(event.fromStatus)} → {labelForStatus(event.toStatus)}
+                            </span>
+                          )}
+                          {event.format && (
+                            <span className="font-normal uppercase text-slate-500"> {event.format}</span>
+                          )}
+                        </p>
+                        <p className="text-[11px] text-slate-400">
+                          {event.actorName || event.actorUid || "Unknown"} •{" "}
+                          {event.createdAtMs
+                            ? new Date(event.createdAtMs).toLocaleString()
+                            : "Saving..."}
+                        </p>
+                        {event.detail && (
+                          <p className="text-[11px] text-slate-500">{event.detail}</p>
+                        )}
+                        {event.diff && event.diff.length > 0 && (
+                          <div className="mt-1 space-y-0.5 rounded bg-white p-1.5 font-mono text-[10px] leading-snug dark:bg-slate-900">
+                            {event.diff.map((line, index) => (
+                              <p
+                                key={`${event.id}-${index}`}
+                                className={
+                                  line.op === "+"
+                                    ? "text-green-700 dark:text-green-400"
+                                    : "text-red-700 line-through dark:text-red-400"
+                                }
+                              >
+                                {line.op} {line.text}
+                              </p>
+                            ))}
+                            {event.diffTruncated && (
+                              <p className="text-slate-400">More lines changed than shown.</p>
+                            )}
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            )}
+
+            {activeReportId && (
+              <div className="space-y-3 rounded-xl border border-slate-200 bg-background-light p-4 dark:border-slate-700 dark:bg-slate-800/50">
+                <div className="flex items-center gap-2 text-slate-500">
+                  <span className="material-icons-round text-sm">history</span>
+                  <span className="text-xs font-bold uppercase tracking-wider">Version History</span>
+                </div>
+                {reportVersions.length === 0 ? (
+                  <p className="text-xs text-slate-500">No saved versions yet.</p>
+                ) : (
+                  <ul className="custom-scrollbar max-h-64 space-y-1 overflow-y-auto">
+                    {reportVersions.map((version) => (
+                      <li key={version.id}>
+                        <button
+                          type="button"
+                          className="w-full rounded-lg px-2 py-1.5 text-left text-xs hover:bg-white dark:hover:bg-slate-900"
+                          onClick={() => setCompareVersionId(version.id)}
+                        >
+                          <span className="font-semibold text-slate-700 dark:text-slate-200">
+                            {labelForVersionReason(version.reason)}
+                          </span>
+                          <span className="text-slate-500"> • {labelForStatus(version.status)}</span>
+                          <span className="block text-[11px] text-slate-400">
+                            {version.actorName || version.actorUid || "Unknown"} •{" "}
+                            {version.createdAtMs
+                              ? new Date(version.createdAtMs).toLocaleString()
+                              : "Saving..."}
+                          </span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {compareVersion && (
+              <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/60 p-4">
+                <div className="flex max-h-[90vh] w-full max-w-5xl flex-col overflow-hidden rounded-xl border border-slate-200 bg-white shadow-xl dark:border-slate-700 dark:bg-slate-900">
+                  <div className="flex flex-wrap items-center justify-between gap-2 border-b border-slate-200 bg-slate-50 px-4 py-3 dark:border-slate-700 dark:bg-slate-800/60">
+                    <div>
+                      <p className="text-sm font-semibold text-slate-900 dark:text-slate-100">
+                        {labelForVersionReason(compareVersion.reason)} version
+                      </p>
+                      <p className="text-[11px] text-slate-500">
+                        {compareVersion.actorName || "Unknown"} •{" "}
+                        {compareVersion.createdAtMs
+                          ? new Date(compareVersion.createdAtMs).toLocaleString()
+                          : "Saving..."}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        type="button"
+                        className="rounded-lg bg-primary px-3 py-2 text-xs font-bold text-white hover:bg-primary/90 disabled:cursor-not-allowed disabled:opacity-50"
+                        onClick={() => void handleRestoreVersion(compareVersion)}
+                        disabled={
+                          isActiveReportSigned ||
+                          compareVersion.observationsText === observationsPlain
+                        }
+                      >
+                        Restore This Version
+                      </button>
+                      <button
+                        type="button"
+                        className="rounded-lg border border-slate-200 px-3 py-2 text-xs font-semibold text-slate-600 hover:bg-slate-100 dark:border-slate-700 dark:text-slate-300 dark:hover:bg-slate-800"
+                        onClick={() => setCompareVersionId("")}
+                      >
+                        Close
+                      </button>
+                    </div>
+                  </div>
+                  <DiffRowsTable
+                    rows={compareVersionDiffRows}
+                    leftLabel="Selected Version"
+                    rightLabel="Current Report"
+                    emptyText="Both versions are empty."
+                  />
+                </div>
+              </div>
+            )}
+
             <div className="mt-6 border-t border-slate-100 pt-6 dark:border-slate-800">
               <div className="rounded-xl bg-slate-50 p-4 dark:bg-slate-800">
                 <div className="mb-2 flex items-center justify-between">
                   <span className="text-xs font-semibold text-slate-500">AI Confidence</span>
-                  <span className="text-xs font-bold text-green-500">94%</span>
+                  <span
+                    className={`text-xs font-bold ${
+                      lowConfidenceFieldCount ? "text-amber-500" : "text-green-500"
+                    }`}
+                  >
+                    {averageFieldConfidence === null ? "N/A" : `${averageFieldConfidence}%`}
+                  </span>
                 </div>
                 <div className="h-1.5 w-full overflow-hidden rounded-full bg-slate-200 dark:bg-slate-700">
-                  <div className="h-full w-[94%] bg-green-500" />
+                  <div
+                    className={`h-full ${lowConfidenceFieldCount ? "bg-amber-500" : "bg-green-500"}`}
+                    style={{ width: `${averageFieldConfidence ?? 0}%` }}
+                  />
                 </div>
+                {lowConfidenceFieldCount > 0 && (
+                  <p className="mt-2 text-xs text-amber-700 dark:text-amber-300">
+                    {lowConfidenceFieldCount} low-confidence field
+                    {lowConfidenceFieldCount === 1 ? "" : "s"} highlighted in the report.
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -6285,14 +8571,14 @@ export default function Home() {
           <div className="flex items-center gap-2 overflow-x-auto">
             <button
               className="min-w-[4.5rem] rounded-lg border border-slate-200 px-3 py-2 text-xs font-bold text-slate-700 dark:border-slate-700 dark:text-slate-200"
-              onClick={() => exportPdf(`${REPORT_EXPORT_BASENAME}.pdf`, observations)}
+              onClick={() => void handleExportReport("pdf")}
               disabled={!hasObservations}
             >
               PDF
             </button>
             <button
               className="min-w-[4.5rem] rounded-lg border border-slate-200 px-3 py-2 text-xs font-bold text-slate-700 dark:border-slate-700 dark:text-slate-200"
-              onClick={() => exportDocx(`${REPORT_EXPORT_BASENAME}.docx`, observations)}
+              onClick={() => void handleExportReport("docx")}
               disabled={!hasObservations}
             >
               DOCX
@@ -6300,14 +8586,14 @@ export default function Home() {
             <button
               className="min-w-[4.5rem] rounded-lg border border-amber-300 bg-amber-50 px-3 py-2 text-xs font-bold text-amber-700 dark:border-amber-700 dark:bg-amber-900/30 dark:text-amber-200"
               onClick={handleMarkDraft}
-              disabled={!hasObservations || isSavingReport}
+              disabled={!hasObservations || isSavingReport || isActiveReportSigned}
             >
               Draft
             </button>
             <button
               className="min-w-[4.5rem] rounded-lg border border-slate-300 bg-white px-3 py-2 text-xs font-bold text-slate-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200"
               onClick={handleDiscardReport}
-              disabled={isSavingReport}
+              disabled={isSavingReport || isActiveReportSigned}
             >
               Discard
             </button>
@@ -6351,6 +8637,7 @@ export default function Home() {
                 onChange={setObservations}
                 placeholder="Generated report will appear here."
                 disabled={isGenerating}
+                readOnly={isActiveReportSigned}
                 ref={fullscreenEditorRef}
                 className="report-editor full mobile-full"
                 style={{ fontSize: `${editorFontSizePx}px` }}
@@ -7,6 +7,8 @@ type EditorProps = {
   onChange: (value: string) => void;
   placeholder?: string;
   disabled?: boolean;
+  // Not editable, but shown at full strength (unlike `disabled`).
+  readOnly?: boolean;
   className?: string;
   style?: React.CSSProperties;
 };
@@ -33,7 +35,7 @@ function assignRef<T>(
 }
 
 const Editor = React.forwardRef<HTMLDivElement, EditorProps>(function Editor(
-  { value, onChange, placeholder, disabled = false, className, style },
+  { value, onChange, placeholder, disabled = false, readOnly = false, className, style },
   ref
 ) {
   const innerRef = useRef<HTMLDivElement | null>(null);
@@ -67,11 +69,12 @@ const Editor = React.forwardRef<HTMLDivElement, EditorProps>(function Editor(
         className={`w-full min-h-[240px] resize-y whitespace-pre-wrap border border-slate-200 bg-white px-6 py-5 text-base leading-relaxed focus:outline-none focus:ring-2 focus:ring-primary/20 ${
           disabled ? "cursor-not-allowed opacity-60" : ""
         } ${className || ""}`}
-        contentEditable={!disabled}
+        contentEditable={!disabled && !readOnly}
         suppressContentEditableWarning
         role="textbox"
         aria-multiline="true"
         aria-disabled={disabled}
+        aria-readonly={readOnly}
         style={style}
         onInput={handleInput}
         onBlur={handleInput}
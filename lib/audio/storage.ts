@@ -0,0 +1,89 @@
+import { Buffer } from "buffer";
+
+const ALLOWED_STORAGE_HOSTS = new Set([
+  "firebasestorage.googleapis.com",
+  "storage.googleapis.com"
+]);
+
+export function isAllowedFirebaseStorageUrl(rawUrl: string) {
+  try {
+    const parsed = new URL(rawUrl);
+    if (parsed.protocol !== "https:") return false;
+    if (!ALLOWED_STORAGE_HOSTS.has(parsed.hostname)) return false;
+
+    const configuredBucket = (process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET || "").trim();
+    if (!configuredBucket) return true;
+
+    const bucketFromPath = parsed.pathname.match(/^\/v0\/b\/([^/]+)\/o\//)?.[1] || "";
+    if (bucketFromPath && bucketFromPath !== configuredBucket) return false;
+
+    const bucketFromQuery = parsed.searchParams.get("bucket");
+    if (bucketFromQuery && bucketFromQuery !== configuredBucket) return false;
+
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function storageObjectName(rawUrl: string) {
+  try {
+    const parsed = new URL(rawUrl);
+    const encoded = parsed.pathname.match(/\/o\/([^/]+)$/)?.[1];
+    const objectPath = encoded ? decodeURIComponent(encoded) : parsed.pathname;
+    return objectPath.split("/").pop() || "";
+  } catch {
+    return "";
+  }
+}
+
+export async function downloadStorageAudio(params: { url: string; maxBytes: number }) {
+  if (!isAllowedFirebaseStorageUrl(params.url)) {
+    return { ok: false as const, status: 400, error: "Only Firebase Storage URLs are allowed." };
+  }
+
+  const upstream = await fetch(params.url, { cache: "no-store" });
+  if (!upstream.ok) {
+    return {
+      ok: false as const,
+      status: upstream.status,
+      error: `Audio download failed (${upstream.status}).`
+    };
+  }
+
+  const tooLarge = {
+    ok: false as const,
+    status: 413,
+    error: "Stored audio exceeds the size limit."
+  };
+  const declaredLength = Number(upstream.headers.get("content-length") || 0);
+  if (declaredLength > params.maxBytes) {
+    await upstream.body?.cancel();
+    return tooLarge;
+  }
+  if (!upstream.body) {
+    return { ok: false as const, status: 502, error: "Audio download returned no data." };
+  }
+
+  // content-length can be missing or wrong, so the limit is enforced on the
+  // bytes actually read and the download is dropped as soon as it is passed.
+  const reader = upstream.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > params.maxBytes) {
+      await reader.cancel();
+      return tooLarge;
+    }
+    chunks.push(value);
+  }
+
+  return {
+    ok: true as const,
+    buffer: Buffer.concat(chunks, received),
+    contentType: upstream.headers.get("content-type") || ""
+  };
+}
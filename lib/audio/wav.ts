@@ -0,0 +1,96 @@
+import { Buffer } from "buffer";
+
+export type WavAudioSegment = {
+  buffer: Buffer;
+  startSec: number;
+  endSec: number;
+};
+
+type WavLayout = {
+  fmtChunk: Buffer;
+  byteRate: number;
+  blockAlign: number;
+  dataOffset: number;
+  dataLength: number;
+};
+
+export function isWavMimeType(mimeType: string) {
+  return /^audio\/(wav|wave|x-wav)$/i.test(mimeType.trim());
+}
+
+function readWavLayout(buffer: Buffer): WavLayout | null {
+  if (buffer.length < 12) return null;
+  if (buffer.toString("ascii", 0, 4) !== "RIFF" || buffer.toString("ascii", 8, 12) !== "WAVE") {
+    return null;
+  }
+
+  let fmtChunk: Buffer | null = null;
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString("ascii", offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const bodyStart = offset + 8;
+    if (id === "fmt ") {
+      fmtChunk = buffer.subarray(offset, bodyStart + size);
+    } else if (id === "data") {
+      if (!fmtChunk || fmtChunk.length < 24) return null;
+      const byteRate = fmtChunk.readUInt32LE(16);
+      const blockAlign = fmtChunk.readUInt16LE(20);
+      if (!byteRate || !blockAlign) return null;
+      return {
+        fmtChunk,
+        byteRate,
+        blockAlign,
+        dataOffset: bodyStart,
+        // Streaming recorders often leave the size field at 0 or 0xffffffff.
+        dataLength:
+          size && bodyStart + size <= buffer.length ? size : buffer.length - bodyStart
+      };
+    }
+    offset = bodyStart + size + (size % 2);
+  }
+  return null;
+}
+
+function buildWavFile(layout: WavLayout, data: Buffer) {
+  const dataHeader = Buffer.alloc(8);
+  dataHeader.write("data", 0, "ascii");
+  dataHeader.writeUInt32LE(data.length, 4);
+  const riffHeader = Buffer.alloc(12);
+  riffHeader.write("RIFF", 0, "ascii");
+  riffHeader.writeUInt32LE(4 + layout.fmtChunk.length + dataHeader.length + data.length, 4);
+  riffHeader.write("WAVE", 8, "ascii");
+  return Buffer.concat([riffHeader, layout.fmtChunk, dataHeader, data]);
+}
+
+// Splits PCM WAV audio on sample boundaries so each piece stays under
+// maxSegmentBytes; neighbouring pieces share overlapSec of audio.
+export function splitWavAudio(params: {
+  buffer: Buffer;
+  maxSegmentBytes: number;
+  overlapSec: number;
+}): WavAudioSegment[] | null {
+  const layout = readWavLayout(params.buffer);
+  if (!layout) return null;
+
+  const alignDown = (bytes: number) => Math.floor(bytes / layout.blockAlign) * layout.blockAlign;
+  const segmentBytes = alignDown(params.maxSegmentBytes - 128);
+  const overlapBytes = alignDown(params.overlapSec * layout.byteRate);
+  if (segmentBytes <= overlapBytes * 2) return null;
+
+  const segments: WavAudioSegment[] = [];
+  const data = params.buffer.subarray(
+    layout.dataOffset,
+    layout.dataOffset + layout.dataLength
+  );
+  for (let start = 0; start < data.length; start += segmentBytes - overlapBytes) {
+    const end = Math.min(data.length, start + segmentBytes);
+    segments.push({
+      buffer: buildWavFile(layout, data.subarray(start, end)),
+      startSec: start / layout.byteRate,
+      endSec: end / layout.byteRate
+    });
+    if (end >= data.length) break;
+  }
+  return segments;
+}
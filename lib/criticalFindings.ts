@@ -0,0 +1,322 @@
+export type CriticalSeverity = "critical" | "urgent";
+
+// Patterns are stored as regex source strings so an institution can edit the
+// ruleset as JSON; an empty templateIds list applies the rule to every template.
+export type CriticalRule = {
+  id: string;
+  label: string;
+  severity: CriticalSeverity;
+  pattern: string;
+  templateIds: string[];
+  enabled: boolean;
+};
+
+export type CriticalFinding = {
+  rule_id: string;
+  label: string;
+  severity: CriticalSeverity;
+  field_key: string | null;
+  excerpt: string;
+};
+
+export const DEFAULT_CRITICAL_RULES: CriticalRule[] = [
+  {
+    id: "ectopic_pregnancy",
+    label: "Ectopic pregnancy",
+    severity: "critical",
+    pattern: "\\b(ectopic|tubal|heterotopic)\\s+(pregnancy|gestation)\\b",
+    templateIds: [],
+    enabled: true
+  },
+  {
+    id: "absent_fetal_cardiac_activity",
+    label: "Absent fetal cardiac activity",
+    severity: "critical",
+    pattern:
+      "\\b(absent|no)\\s+(fetal\\s+)?cardiac activity\\b|\\bcardiac activity\\s*(is\\s+)?(:\\s*)?(absent|not seen)\\b|\\bintra-?uterine fetal demise\\b|\\biufd\\b",
+    templateIds: [],
+    enabled: true
+  },
+  {
+    id: "perforation",
+    label: "Suspected hollow viscus perforation",
+    severity: "critical",
+    pattern: "\\b(pneumoperitoneum|free (intra-?peritoneal )?air|perforat\\w*)\\b",
+    templateIds: [],
+    enabled: true
+  },
+  {
+    id: "haemoperitoneum",
+    label: "Haemoperitoneum",
+    severity: "critical",
+    pattern: "\\bh(a)?emoperitoneum\\b|\\bfree fluid with (internal echoes|debris|clots?)\\b",
+    templateIds: [],
+    enabled: true
+  },
+  {
+    id: "dvt",
+    label: "Deep vein thrombosis",
+    severity: "critical",
+    pattern: "\\b(deep vein thrombosis|dvt|(acute |occlusive |non-?occlusive |partial(ly)? occlusive )?thromb(us|osis|osed)|non-?compressible)\\b",
+    templateIds: ["DOPPLER_LOWER_LIMB"],
+    enabled: true
+  },
+  {
+    id: "acute_limb_ischaemia",
+    label: "Acute arterial occlusion",
+    severity: "critical",
+    pattern: "\\b(acute (arterial )?occlusion|occlusive thromb(us|osis)|no (arterial )?flow)\\b",
+    templateIds: ["DOPPLER_LOWER_LIMB_ARTERIAL"],
+    enabled: true
+  },
+  {
+    id: "torsion",
+    label: "Testicular or ovarian torsion",
+    severity: "critical",
+    pattern: "\\btorsion\\b",
+    templateIds: [],
+    enabled: true
+  },
+  {
+    id: "aortic_catastrophe",
+    label: "Aortic dissection or ruptured aneurysm",
+    severity: "critical",
+    pattern: "\\b(aortic dissection|dissecting aneurysm|ruptured? (abdominal )?(aortic )?aneurysm)\\b",
+    templateIds: [],
+    enabled: true
+  },
+  {
+    id: "intracranial_haemorrhage",
+    label: "Intracranial haemorrhage",
+    severity: "critical",
+    pattern:
+      "\\b(intracranial|subdural|extradural|epidural|subarachnoid|intracerebral|intraparenchymal|intraventricular)\\s+(h(a)?emorrhage|h(a)?ematoma|bleed)\\b",
+    templateIds: [],
+    enabled: true
+  },
+  {
+    id: "pneumothorax",
+    label: "Pneumothorax",
+    severity: "critical",
+    pattern: "\\b(tension\\s+)?pneumothorax\\b",
+    templateIds: [],
+    enabled: true
+  },
+  {
+    id: "acute_appendicitis",
+    label: "Acute appendicitis",
+    severity: "urgent",
+    pattern: "\\bacute appendicitis\\b|\\bappendicular (abscess|perforation)\\b",
+    templateIds: [],
+    enabled: true
+  },
+  {
+    id: "obstructive_uropathy",
+    label: "Gross hydronephrosis",
+    severity: "urgent",
+    pattern: "\\b(gross|severe|grade (iii|iv|3|4))\\s+hydro(uretero)?nephrosis\\b|\\bpyonephrosis\\b",
+    templateIds: [],
+    enabled: true
+  }
+];
+
+const NEGATION_BEFORE_PATTERN =
+  /\b(no|not|without|nil|negative for|ruled? out|rule out|unlikely)\b[^,;|]*$/i;
+const NEGATION_AFTER_PATTERN = /^[^,.;|]*\b(ruled out|excluded|not seen|not (?:identified|detected))\b/i;
+
+function normalizeText(value: unknown) {
+  if (typeof value !== "string") return "";
+  return value.replace(/\s+/g, " ").trim();
+}
+
+function slugify(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_|_$/g, "");
+}
+
+// Rules arrive from the client and run on the server against every report,
+// so their size and shape are bounded to keep one ruleset from stalling the
+// event loop for everyone.
+export const MAX_CRITICAL_RULES = 50;
+export const MAX_CRITICAL_PATTERN_LENGTH = 300;
+
+// True when a group repeated by *, + or {n,} itself contains a quantifier,
+// e.g. "(a+)+" or "(\w*\s?)*", the shape behind catastrophic backtracking. A
+// group marked optional with ? stays allowed.
+function hasNestedQuantifier(pattern: string) {
+  const groupHasQuantifier: boolean[] = [false];
+  let lastGroupHadQuantifier = false;
+  let inClass = false;
+  for (let index = 0; index < pattern.length; index += 1) {
+    const char = pattern[index];
+    if (char === "\\") {
+      index += 1;
+      lastGroupHadQuantifier = false;
+      continue;
+    }
+    if (inClass) {
+      if (char === "]") inClass = false;
+      continue;
+    }
+    if (char === "[") {
+      inClass = true;
+      lastGroupHadQuantifier = false;
+    } else if (char === "(") {
+      groupHasQuantifier.push(false);
+      if (pattern[index + 1] === "?") index += 1;
+      lastGroupHadQuantifier = false;
+    } else if (char === ")") {
+      lastGroupHadQuantifier = groupHasQuantifier.pop() || false;
+      if (lastGroupHadQuantifier) {
+        groupHasQuantifier[groupHasQuantifier.length - 1] = true;
+      }
+    } else if (char === "*" || char === "+" || char === "?" || char === "{") {
+      const unbounded = char === "*" || char === "+" || /^\{\d*,\}/.test(pattern.slice(index));
+      if (unbounded && lastGroupHadQuantifier) return true;
+      groupHasQuantifier[groupHasQuantifier.length - 1] = true;
+      lastGroupHadQuantifier = false;
+    } else {
+      lastGroupHadQuantifier = false;
+    }
+  }
+  return false;
+}
+
+// Compiled first so the nesting scan only sees well-formed patterns.
+function compilePattern(pattern: string) {
+  if (pattern.length > MAX_CRITICAL_PATTERN_LENGTH) return null;
+  let compiled: RegExp;
+  try {
+    compiled = new RegExp(pattern, "gi");
+  } catch {
+    return null;
+  }
+  return hasNestedQuantifier(pattern) ? null : compiled;
+}
+
+export function sanitizeCriticalRules(input: unknown): CriticalRule[] {
+  if (!Array.isArray(input)) return [];
+  const rules: CriticalRule[] = [];
+  const seen = new Set<string>();
+  for (const item of input.slice(0, MAX_CRITICAL_RULES)) {
+    if (!item || typeof item !== "object") continue;
+    const row = item as Record<string, unknown>;
+    const label = normalizeText(row.label);
+    const pattern = typeof row.pattern === "string" ? row.pattern.trim() : "";
+    if (!label || !pattern || !compilePattern(pattern)) continue;
+    const id = slugify(normalizeText(row.id) || label);
+    if (!id || seen.has(id)) continue;
+    seen.add(id);
+    rules.push({
+      id,
+      label,
+      severity: row.severity === "urgent" ? "urgent" : "critical",
+      pattern,
+      templateIds: Array.isArray(row.templateIds)
+        ? row.templateIds.map((value) => normalizeText(value)).filter(Boolean)
+        : [],
+      enabled: row.enabled !== false
+    });
+  }
+  return rules;
+}
+
+export function parseCriticalRulesJson(text: string) {
+  if (!text.trim()) return null;
+  try {
+    return sanitizeCriticalRules(JSON.parse(text));
+  } catch {
+    return null;
+  }
+}
+
+function splitSentences(text: string) {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+// Table rows put both sides on one line, so every match in a sentence is
+// tried before the sentence is treated as negated.
+function findAffirmedSentence(text: string, pattern: RegExp) {
+  for (const sentence of splitSentences(text)) {
+    for (const match of Array.from(sentence.matchAll(pattern))) {
+      const index = match.index || 0;
+      if (NEGATION_BEFORE_PATTERN.test(sentence.slice(0, index))) continue;
+      if (NEGATION_AFTER_PATTERN.test(sentence.slice(index + match[0].length))) continue;
+      return sentence;
+    }
+  }
+  return "";
+}
+
+// Fields are checked first so a match can name the field it came from; the
+// rendered observations catch findings that only exist as free text.
+export function detectCriticalFindings(params: {
+  rules: CriticalRule[];
+  templateId: string;
+  fields?: Record<string, string>;
+  observations: string;
+}): CriticalFinding[] {
+  const findings: CriticalFinding[] = [];
+  const fieldEntries = Object.entries(params.fields || {}).filter(([, value]) =>
+    normalizeText(value)
+  );
+  for (const rule of params.rules) {
+    if (!rule.enabled) continue;
+    if (rule.templateIds.length && !rule.templateIds.includes(params.templateId)) continue;
+    const pattern = compilePattern(rule.pattern);
+    if (!pattern) continue;
+
+    let fieldKey: string | null = null;
+    let excerpt = "";
+    for (const [key, value] of fieldEntries) {
+      excerpt = findAffirmedSentence(value, pattern);
+      if (excerpt) {
+        fieldKey = key;
+        break;
+      }
+    }
+    if (!excerpt) {
+      excerpt = findAffirmedSentence(params.observations, pattern);
+    }
+    if (!excerpt) continue;
+    findings.push({
+      rule_id: rule.id,
+      label: rule.label,
+      severity: rule.severity,
+      field_key: fieldKey,
+      excerpt: excerpt.length > 200 ? `${excerpt.slice(0, 197)}...` : excerpt
+    });
+  }
+  return findings;
+}
+
+export function formatCriticalFindingFlag(finding: CriticalFinding) {
+  return `${finding.severity === "critical" ? "CRITICAL" : "URGENT"}: ${finding.label} - "${
+    finding.excerpt
+  }"`;
+}
+
+export function parseCriticalFindings(input: unknown): CriticalFinding[] {
+  if (!Array.isArray(input)) return [];
+  const findings: CriticalFinding[] = [];
+  for (const item of input) {
+    if (!item || typeof item !== "object") continue;
+    const row = item as Record<string, unknown>;
+    const ruleId = normalizeText(row.rule_id);
+    const label = normalizeText(row.label);
+    if (!ruleId || !label) continue;
+    findings.push({
+      rule_id: ruleId,
+      label,
+      severity: row.severity === "urgent" ? "urgent" : "critical",
+      field_key: normalizeText(row.field_key) || null,
+      excerpt: normalizeText(row.excerpt)
+    });
+  }
+  return findings;
+}
@@ -0,0 +1,145 @@
+export const DICTATION_LANGUAGES = [
+  { id: "en", label: "English", script: "Latin" },
+  { id: "hi-en", label: "Hinglish (Hindi-English mix)", script: "Latin" },
+  { id: "hi", label: "Hindi", script: "Devanagari" },
+  { id: "mr", label: "Marathi", script: "Devanagari" },
+  { id: "gu", label: "Gujarati", script: "Gujarati" },
+  { id: "pa", label: "Punjabi", script: "Gurmukhi" },
+  { id: "bn", label: "Bengali", script: "Bengali" },
+  { id: "ta", label: "Tamil", script: "Tamil" },
+  { id: "te", label: "Telugu", script: "Telugu" },
+  { id: "kn", label: "Kannada", script: "Kannada" },
+  { id: "ml", label: "Malayalam", script: "Malayalam" }
+] as const;
+
+export type DictationLanguage = (typeof DICTATION_LANGUAGES)[number]["id"];
+
+export const DEFAULT_DICTATION_LANGUAGE: DictationLanguage = "en";
+
+// Devanagari, Bengali, Gurmukhi, Gujarati, Tamil, Telugu, Kannada and
+// Malayalam digit blocks; each runs zero to nine from its start code point.
+const INDIC_DIGIT_ZEROS = [0x0966, 0x09e6, 0x0a66, 0x0ae6, 0x0be6, 0x0c66, 0x0ce6, 0x0d66];
+const INDIC_SCRIPT_PATTERN = /[ऀ-ൿ]/;
+
+// Romanised Hindi/Urdu words that survive into English output, plus spoken
+// unit shorthands ("6 mili"). Applied to the parsed model output, ahead of
+// the shared radiology phrase repairs.
+const HINDI_PHRASE_REPAIR_RULES: Array<[RegExp, string]> = [
+  [/\b(\d+(?:\.\d+)?)\s*(?:mili|milli)(?:\s*meter)?\b(?!\s*lit)/gi, "$1 mm"],
+  [/\b(\d+(?:\.\d+)?)\s*(?:centi|senti)(?:\s*meter)?\b/gi, "$1 cm"],
+  [/\b(?:daa?ya[nm]?|daa?yi[nm]?|dahin[ae])\b/gi, "right"],
+  [/\b(?:baa?ya[nm]?|baa?yi[nm]?|baa?e[nm])\b/gi, "left"],
+  [/\bpathr(?:i|iyan|iyaan)\b/gi, "calculus"],
+  [/\bgurd[ae]\b/gi, "kidney"],
+  [/\b(?:pitt?[ae]\s+ki\s+thaili|pitt?ashay)\b/gi, "gall bladder"],
+  [/\b(?:mutra|peshab)\s+(?:ki\s+)?thaili\b/gi, "urinary bladder"],
+  [/\b(?:jigar|yakrit)\b/gi, "liver"],
+  [/\b(?:tilli|pleeha)\b/gi, "spleen"],
+  [/\b(?:bachchedani|bachedani|garbhashay)\b/gi, "uterus"]
+];
+
+const DEVANAGARI_PHRASE_REPAIR_RULES: Array<[RegExp, string]> = [
+  [/(?:दायां|दायाँ|दाएं|दाएँ|दाहिना|दाहिने|दाहिनी)/g, "right"],
+  [/(?:बायां|बायाँ|बाएं|बाएँ|बाईं)/g, "left"],
+  [/(?:पथरी)/g, "calculus"],
+  [/(?:गुर्दा|गुर्दे)/g, "kidney"]
+];
+
+const LANGUAGE_PHRASE_REPAIR_RULES: Partial<Record<DictationLanguage, Array<[RegExp, string]>>> = {
+  "hi-en": HINDI_PHRASE_REPAIR_RULES,
+  hi: [...HINDI_PHRASE_REPAIR_RULES, ...DEVANAGARI_PHRASE_REPAIR_RULES],
+  mr: DEVANAGARI_PHRASE_REPAIR_RULES,
+  pa: HINDI_PHRASE_REPAIR_RULES
+};
+
+// Source phrases must stay verbatim so they can still be located in the
+// transcript, and patient names are never vocabulary; everything else is
+// report text.
+const VERBATIM_KEYS = new Set([
+  "field_sources",
+  "fieldSources",
+  "source_phrase",
+  "patient_name",
+  "patientName"
+]);
+
+export function normalizeDictationLanguage(value: unknown): DictationLanguage {
+  const id = typeof value === "string" ? value.trim().toLowerCase() : "";
+  const match = DICTATION_LANGUAGES.find((language) => language.id === id);
+  return match ? match.id : DEFAULT_DICTATION_LANGUAGE;
+}
+
+export function dictationLanguageLabel(language: DictationLanguage) {
+  return DICTATION_LANGUAGES.find((item) => item.id === language)?.label || "English";
+}
+
+function languageDef(language: DictationLanguage) {
+  return DICTATION_LANGUAGES.find((item) => item.id === language) || DICTATION_LANGUAGES[0];
+}
+
+export function buildTranscriptionLanguageRules(language: DictationLanguage) {
+  if (language === "en") return "";
+  const def = languageDef(language);
+  const scriptRule =
+    language === "hi-en"
+      ? "- Write Hindi words in Roman script exactly as spoken (Hinglish); keep English words in English."
+      : `- Write ${def.label} words in ${def.script} script; keep English medical terms in English.`;
+  return `- The radiologist dictates in ${def.label}. Transcribe in the language spoken; do NOT translate.\n${scriptRule}\n- Write every spoken number as digits (0-9), including numbers spoken in ${def.label}.\n`;
+}
+
+export function buildExtractionLanguageNote(language: DictationLanguage) {
+  if (language === "en") return "";
+  const def = languageDef(language);
+  return `\n\nDICTATION LANGUAGE:\n- The transcript is in ${def.label}. Write every output value in English radiology terminology; never output ${def.label} words or ${def.script} script in report fields.\n- Keep numbers, units, laterality (right/left) and negations exactly as dictated; never round or swap sides while translating.\n- field_sources.source_phrase stays verbatim transcript text; do not translate it.\n`;
+}
+
+function normalizeIndicDigits(value: string) {
+  return value.replace(/[०-९০-৯੦-੯૦-૯௦-௯౦-౯೦-೯൦-൯]/g, (digit) => {
+    const code = digit.charCodeAt(0);
+    const zero = INDIC_DIGIT_ZEROS.find((start) => code >= start && code <= start + 9) ?? code;
+    return String(code - zero);
+  });
+}
+
+export function repairLanguagePhraseArtifacts(value: string, language: DictationLanguage) {
+  if (language === "en" || !value) return value;
+  let repaired = normalizeIndicDigits(value);
+  for (const [pattern, replacement] of LANGUAGE_PHRASE_REPAIR_RULES[language] || []) {
+    repaired = repaired.replace(pattern, replacement);
+  }
+  return repaired;
+}
+
+export function repairParsedLanguageArtifacts<T>(value: T, language: DictationLanguage): T {
+  if (language === "en") return value;
+  if (typeof value === "string") {
+    return repairLanguagePhraseArtifacts(value, language) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => repairParsedLanguageArtifacts(item, language)) as T;
+  }
+  if (value && typeof value === "object") {
+    const next: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+      next[key] = VERBATIM_KEYS.has(key) ? item : repairParsedLanguageArtifacts(item, language);
+    }
+    return next as T;
+  }
+  return value;
+}
+
+// Counts report values still carrying Indic script after extraction, which
+// means part of the dictation was copied rather than translated.
+export function countUntranslatedValues(value: unknown): number {
+  if (typeof value === "string") return INDIC_SCRIPT_PATTERN.test(value) ? 1 : 0;
+  if (Array.isArray(value)) {
+    return value.reduce((sum: number, item) => sum + countUntranslatedValues(item), 0);
+  }
+  if (value && typeof value === "object") {
+    return Object.entries(value as Record<string, unknown>).reduce(
+      (sum, [key, item]) => sum + (VERBATIM_KEYS.has(key) ? 0 : countUntranslatedValues(item)),
+      0
+    );
+  }
+  return 0;
+}
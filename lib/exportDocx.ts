@@ -3,12 +3,17 @@
 import {
   AlignmentType,
   Document,
+  ImageRun,
   Packer,
   Paragraph,
   TextRun,
   UnderlineType
 } from "docx";
 import { htmlToLines } from "@/lib/richText";
+import type { ReportExportSignOff } from "@/lib/reportSignOff";
+
+// Largest box the signature image is scaled into, in pixels.
+const SIGNATURE_BOX = { width: 240, height: 80 };
 
 function paragraphAlignment(alignment: "left" | "center" | "right") {
   if (alignment === "center") return AlignmentType.CENTER;
@@ -16,9 +21,9 @@ function paragraphAlignment(alignment: "left" | "center" | "right") {
   return AlignmentType.LEFT;
 }
 
-export async function exportDocx(fileName: string, html: string) {
+function htmlToParagraphs(html: string) {
   const lines = htmlToLines(html || "");
-  const paragraphs = lines.length
+  return lines.length
     ? lines.map((line) => {
         if (!line.segments.length) {
           return new Paragraph("");
@@ -38,6 +43,43 @@ export async function exportDocx(fileName: string, html: string) {
         });
       })
     : [new Paragraph("")];
+}
+
+function loadImageSize(dataUrl: string) {
+  return new Promise<{ width: number; height: number }>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+    image.onerror = () => reject(new Error("Could not load the signature image."));
+    image.src = dataUrl;
+  });
+}
+
+async function signatureParagraph(dataUrl: string) {
+  const size = await loadImageSize(dataUrl);
+  const scale = Math.min(1, SIGNATURE_BOX.width / size.width, SIGNATURE_BOX.height / size.height);
+  return new Paragraph({
+    children: [
+      new ImageRun({
+        data: dataUrl,
+        transformation: { width: size.width * scale, height: size.height * scale }
+      })
+    ]
+  });
+}
+
+export async function exportDocx(
+  fileName: string,
+  html: string,
+  signOff?: ReportExportSignOff
+) {
+  const paragraphs = htmlToParagraphs(html);
+  if (signOff) {
+    paragraphs.push(new Paragraph(""));
+    if (signOff.signatureImage) {
+      paragraphs.push(await signatureParagraph(signOff.signatureImage));
+    }
+    paragraphs.push(...htmlToParagraphs(signOff.html));
+  }
 
   const doc = new Document({
     sections: [
@@ -2,6 +2,7 @@
 
 import { jsPDF } from "jspdf";
 import { htmlToLines, type TextAlignment, type TextSegment } from "@/lib/richText";
+import type { ReportExportSignOff } from "@/lib/reportSignOff";
 
 type Token = {
   text: string;
@@ -13,6 +14,8 @@ type Token = {
 const BASE_FONT = "helvetica";
 const LINE_HEIGHT = 18;
 const UNDERLINE_OFFSET = 2;
+// Largest box the signature image is scaled into, in points.
+const SIGNATURE_BOX = { width: 180, height: 60 };
 
 function segmentToTokens(segment: TextSegment) {
   return segment.text
@@ -31,7 +34,7 @@ function getTokenWidth(doc: jsPDF, token: Token) {
   return doc.getTextWidth(token.text);
 }
 
-export function exportPdf(fileName: string, html: string) {
+export function exportPdf(fileName: string, html: string, signOff?: ReportExportSignOff) {
   const doc = new jsPDF({ unit: "pt", format: "a4" });
   doc.setFont(BASE_FONT, "normal");
   doc.setFontSize(12);
@@ -41,7 +44,6 @@ export function exportPdf(fileName: string, html: string) {
   const pageHeight = doc.internal.pageSize.getHeight();
   const maxWidth = pageWidth - margin * 2;
 
-  const lines = htmlToLines(html || "");
   let y = margin;
 
   const ensurePage = () => {
@@ -80,44 +82,67 @@ export function exportPdf(fileName: string, html: string) {
     y += LINE_HEIGHT;
   };
 
-  lines.forEach((line) => {
-    if (!line.segments.length) {
-      renderLine([], line.alignment);
-      return;
-    }
+  const renderHtml = (source: string) => {
+    htmlToLines(source || "").forEach((line) => {
+      if (!line.segments.length) {
+        renderLine([], line.alignment);
+        return;
+      }
 
-    let currentTokens: Token[] = [];
-    let currentWidth = 0;
+      let currentTokens: Token[] = [];
+      let currentWidth = 0;
+
+      const flushLine = () => {
+        renderLine(currentTokens, line.alignment);
+        currentTokens = [];
+        currentWidth = 0;
+      };
+
+      line.segments.forEach((segment) => {
+        const tokens = segmentToTokens(segment);
+        tokens.forEach((token) => {
+          const width = getTokenWidth(doc, token);
+          const wouldOverflow = currentTokens.length > 0 &&
+            !token.isWhitespace &&
+            currentWidth + width > maxWidth;
+
+          if (wouldOverflow) {
+            flushLine();
+          }
+
+          if (currentTokens.length === 0 && token.isWhitespace) {
+            return;
+          }
+
+          currentTokens.push(token);
+          currentWidth += width;
+        });
+      });
 
-    const flushLine = () => {
       renderLine(currentTokens, line.alignment);
-      currentTokens = [];
-      currentWidth = 0;
-    };
-
-    line.segments.forEach((segment) => {
-      const tokens = segmentToTokens(segment);
-      tokens.forEach((token) => {
-        const width = getTokenWidth(doc, token);
-        const wouldOverflow = currentTokens.length > 0 &&
-          !token.isWhitespace &&
-          currentWidth + width > maxWidth;
-
-        if (wouldOverflow) {
-          flushLine();
-        }
-
-        if (currentTokens.length === 0 && token.isWhitespace) {
-          return;
-        }
-
-        currentTokens.push(token);
-        currentWidth += width;
-      });
     });
+  };
 
-    renderLine(currentTokens, line.alignment);
-  });
+  renderHtml(html);
+  if (signOff) {
+    renderLine([], "left");
+    if (signOff.signatureImage) {
+      const image = doc.getImageProperties(signOff.signatureImage);
+      const scale = Math.min(
+        1,
+        SIGNATURE_BOX.width / image.width,
+        SIGNATURE_BOX.height / image.height
+      );
+      const height = image.height * scale;
+      if (y + height > pageHeight - margin) {
+        doc.addPage();
+        y = margin;
+      }
+      doc.addImage(signOff.signatureImage, "PNG", margin, y - 12, image.width * scale, height);
+      y += height;
+    }
+    renderHtml(signOff.html);
+  }
 
   doc.save(fileName);
 }
@@ -1,5 +1,5 @@
 import { getApp, getApps, initializeApp } from "firebase/app";
-import { getAuth } from "firebase/auth";
+import { connectAuthEmulator, getAuth } from "firebase/auth";
 import { getFirestore } from "firebase/firestore";
 import { getStorage } from "firebase/storage";
 
@@ -13,6 +13,10 @@ const firebaseConfig = {
   measurementId: process.env.NEXT_PUBLIC_FIREBASE_MEASUREMENT_ID || ""
 };
 
+// Local testing: point the client at the Auth emulator; the API routes accept
+// its unsigned tokens only when FIREBASE_AUTH_EMULATOR_HOST is set server-side.
+const authEmulatorHost = (process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST || "").trim();
+
 export const isFirebaseClientConfigured = [
   firebaseConfig.apiKey,
   firebaseConfig.authDomain,
@@ -34,8 +38,12 @@ export function getFirebaseClient() {
   }
   if (!cached) {
     const app = getApps().length ? getApp() : initializeApp(firebaseConfig);
+    const auth = getAuth(app);
+    if (authEmulatorHost) {
+      connectAuthEmulator(auth, `http://${authEmulatorHost}`, { disableWarnings: true });
+    }
     cached = {
-      auth: getAuth(app),
+      auth,
       db: getFirestore(app),
       storage: getStorage(app)
     };
@@ -21,6 +21,7 @@ export type ReportRecord = {
   ownerEmail: string;
   ownerName: string;
   rawJson: string;
+  transcriptJson: string;
   flags: string[];
   disclaimer: string;
   audioName: string;
@@ -30,11 +31,29 @@ export type ReportRecord = {
   audioStoragePath: string;
   audioDownloadUrl: string;
   generationMs: number;
+  llmModel: string;
+  llmPromptTokens: number;
+  llmAudioTokens: number;
+  llmOutputTokens: number;
+  llmLatencyMs: number;
+  llmCostUsd: number;
+  llmCallCount: number;
   generatedAtMs: number;
   customTemplateText: string;
   customTemplateGender: "male" | "female";
   customTemplateMappingJson: string;
   customTemplateProfileJson: string;
+  critical: boolean;
+  criticalFindingsJson: string;
+  criticalAcknowledgedAtMs: number;
+  criticalAcknowledgedBy: string;
+  criticalNotifiedTo: string;
+  signedAtMs: number;
+  signedByUid: string;
+  signedByName: string;
+  signedByRegistration: string;
+  signatureImage: string;
+  contentHash: string;
   createdAtMs: number;
   updatedAtMs: number;
 };
@@ -240,6 +259,55 @@ export function deriveDashboardStats(reports: ReportRecord[]): DashboardStats {
   };
 }
 
+export function needsCriticalAcknowledgement(report: ReportRecord) {
+  return report.critical && !report.criticalAcknowledgedAtMs;
+}
+
+// Open critical reports are pinned above everything else; the incoming order
+// is kept within each group.
+export function pinCriticalReports(reports: ReportRecord[]) {
+  const isPinned = (report: ReportRecord) =>
+    report.critical && report.status !== "completed" && report.status !== "discarded";
+  return [...reports.filter(isPinned), ...reports.filter((report) => !isPinned(report))];
+}
+
+function normalizePatientName(name: string) {
+  const normalized = name.replace(/\s+/g, " ").trim().toLowerCase();
+  return normalized === "unknown patient" ? "" : normalized;
+}
+
+export function isSamePatient(a: ReportRecord, b: Pick<ReportRecord, "patientId" | "patientName">) {
+  if (a.patientId && b.patientId && a.patientId === b.patientId) return true;
+  const name = normalizePatientName(a.patientName);
+  return Boolean(name) && name === normalizePatientName(b.patientName);
+}
+
+// Earlier reports for the same patient come first (same template before
+// others), followed by the rest of the same template for a manual pick.
+export function listPriorReportCandidates(params: {
+  reports: ReportRecord[];
+  current: Pick<ReportRecord, "id" | "templateId" | "patientId" | "patientName" | "generatedAtMs">;
+}) {
+  const { current } = params;
+  const eligible = params.reports.filter(
+    (report) =>
+      report.id !== current.id &&
+      report.status !== "discarded" &&
+      (!current.generatedAtMs || report.generatedAtMs < current.generatedAtMs)
+  );
+  const samePatient = eligible
+    .filter((report) => isSamePatient(report, current))
+    .sort(
+      (a, b) =>
+        Number(b.templateId === current.templateId) - Number(a.templateId === current.templateId) ||
+        b.generatedAtMs - a.generatedAtMs
+    );
+  const sameTemplate = eligible.filter(
+    (report) => report.templateId === current.templateId && !samePatient.includes(report)
+  );
+  return { samePatient, sameTemplate };
+}
+
 export function labelForStatus(status: ReportStatus) {
   if (status === "discarded") return "Discarded";
   if (status === "completed") return "Completed";
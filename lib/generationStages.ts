@@ -0,0 +1,59 @@
+export type GenerationStageId =
+  | "upload_received"
+  | "model_call_started"
+  | "tokens"
+  | "transcribed"
+  | "json_parsed"
+  | "rerouting"
+  | "normalization"
+  | "render_complete";
+
+export type GenerationStageDetails = {
+  task?: string;
+  chars?: number;
+  detail?: string;
+  fields?: Record<string, string>;
+};
+
+export type GenerationStageEvent = GenerationStageDetails & {
+  stage: GenerationStageId;
+  elapsed_ms: number;
+};
+
+export type GenerationStageEmitter = (
+  stage: GenerationStageId,
+  details?: GenerationStageDetails
+) => void;
+
+export const GENERATION_STAGE_LABELS: Record<GenerationStageId, string> = {
+  upload_received: "Upload received",
+  model_call_started: "Model call started",
+  tokens: "Receiving tokens",
+  transcribed: "Transcript ready",
+  json_parsed: "JSON parsed",
+  rerouting: "Observation rerouting",
+  normalization: "Organ-state normalization",
+  render_complete: "Report rendered"
+};
+
+export function parseGenerationStageEvent(input: unknown): GenerationStageEvent | null {
+  if (!input || typeof input !== "object") return null;
+  const raw = input as Record<string, unknown>;
+  if (typeof raw.stage !== "string" || !(raw.stage in GENERATION_STAGE_LABELS)) {
+    return null;
+  }
+  const fields: Record<string, string> = {};
+  if (raw.fields && typeof raw.fields === "object") {
+    for (const [key, value] of Object.entries(raw.fields as Record<string, unknown>)) {
+      if (typeof value === "string" && value.trim()) fields[key] = value;
+    }
+  }
+  return {
+    stage: raw.stage as GenerationStageId,
+    elapsed_ms: typeof raw.elapsed_ms === "number" ? raw.elapsed_ms : 0,
+    task: typeof raw.task === "string" ? raw.task : undefined,
+    chars: typeof raw.chars === "number" ? raw.chars : undefined,
+    detail: typeof raw.detail === "string" ? raw.detail : undefined,
+    fields: Object.keys(fields).length ? fields : undefined
+  };
+}
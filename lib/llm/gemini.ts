@@ -0,0 +1,228 @@
+import type { JsonSchema } from "@/lib/llm/schema";
+import {
+  toTokenCount,
+  type LlmAudioUploadParams,
+  type LlmGenerateParams,
+  type LlmProvider
+} from "@/lib/llm/types";
+import { readServerSentEvents } from "@/lib/sse";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
+const GEMINI_API_BASE = "https://generativelanguage.googleapis.com";
+const FILE_POLL_INTERVAL_MS = 2000;
+const FILE_POLL_ATTEMPTS = 90;
+
+type GeminiUsageMetadata = {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
+  promptTokensDetails?: Array<{ modality?: string; tokenCount?: number }>;
+};
+
+// The parts of a generateContent response (or stream chunk) that are read.
+type GeminiResponse = {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+  usageMetadata?: GeminiUsageMetadata;
+};
+
+function candidateText(data: GeminiResponse | null | undefined) {
+  const parts = data?.candidates?.[0]?.content?.parts || [];
+  return parts.map((part) => part.text || "").join("");
+}
+
+// Gemini expects OpenAPI-style upper-case type names.
+function toGeminiSchema(schema: JsonSchema): Record<string, unknown> {
+  const { type, ...rest } = schema;
+  const converted: Record<string, unknown> = { ...rest, type: type.toUpperCase() };
+  if (schema.type === "array") {
+    converted.items = toGeminiSchema(schema.items);
+  }
+  if (schema.type === "object") {
+    converted.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    );
+  }
+  return converted;
+}
+
+export function createGeminiProvider(params: {
+  apiKey: string;
+  model?: string;
+}): LlmProvider {
+  const model = params.model || DEFAULT_GEMINI_MODEL;
+
+  async function generate(request: LlmGenerateParams) {
+    const startedAt = Date.now();
+    const parts: Array<Record<string, unknown>> = [
+      { text: [request.systemText, request.userText].filter(Boolean).join("\n\n") }
+    ];
+    if (request.audio?.fileUri) {
+      parts.push({
+        fileData: {
+          mimeType: request.audio.mimeType,
+          fileUri: request.audio.fileUri
+        }
+      });
+    } else if (request.audio) {
+      parts.push({
+        inlineData: {
+          mimeType: request.audio.mimeType,
+          data: request.audio.base64 || ""
+        }
+      });
+    }
+
+    const streaming = Boolean(request.onTextDelta);
+    const method = streaming ? "streamGenerateContent?alt=sse&" : "generateContent?";
+    // Files API uploads and response schemas are only available on v1beta.
+    const version = request.audio?.fileUri || request.responseSchema ? "v1beta" : "v1";
+    const response = await fetch(
+      `${GEMINI_API_BASE}/${version}/models/${model}:${method}key=${params.apiKey}`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        signal: request.signal,
+        body: JSON.stringify({
+          contents: [
+            {
+              role: "user",
+              parts
+            }
+          ],
+          generationConfig: {
+            temperature: request.temperature ?? 0.2,
+            maxOutputTokens: request.maxOutputTokens ?? 2048,
+            ...(request.responseSchema
+              ? {
+                  responseMimeType: "application/json",
+                  responseSchema: toGeminiSchema(request.responseSchema)
+                }
+              : {})
+          }
+        })
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Gemini API error: ${response.status} ${errorText}`);
+    }
+
+    let text = "";
+    let usageMetadata: GeminiUsageMetadata | null | undefined = null;
+    if (streaming && response.body) {
+      await readServerSentEvents(response.body, ({ data }) => {
+        let chunk: GeminiResponse | null;
+        try {
+          chunk = JSON.parse(data);
+        } catch {
+          return;
+        }
+        const delta = candidateText(chunk);
+        if (delta) {
+          text += delta;
+          request.onTextDelta?.(delta);
+        }
+        if (chunk?.usageMetadata) {
+          usageMetadata = chunk.usageMetadata;
+        }
+      });
+    } else {
+      const data = (await response.json()) as GeminiResponse | null;
+      text = candidateText(data);
+      usageMetadata = data?.usageMetadata;
+    }
+    text = text.trim();
+
+    if (!text) {
+      throw new Error("Empty response from Gemini");
+    }
+
+    const inputTokens = toTokenCount(usageMetadata?.promptTokenCount);
+    const outputTokens = toTokenCount(usageMetadata?.candidatesTokenCount);
+    const promptDetails: Array<{ modality?: string; tokenCount?: number }> = Array.isArray(
+      usageMetadata?.promptTokensDetails
+    )
+      ? usageMetadata.promptTokensDetails
+      : [];
+    const audioInputTokens = toTokenCount(
+      promptDetails.find((detail) => detail?.modality === "AUDIO")?.tokenCount
+    );
+    return {
+      text,
+      usage: {
+        inputTokens,
+        audioInputTokens,
+        outputTokens,
+        totalTokens:
+          toTokenCount(usageMetadata?.totalTokenCount) || inputTokens + outputTokens
+      },
+      provider: "gemini" as const,
+      model,
+      latencyMs: Date.now() - startedAt
+    };
+  }
+
+  async function uploadAudio(upload: LlmAudioUploadParams) {
+    const start = await fetch(`${GEMINI_API_BASE}/upload/v1beta/files?key=${params.apiKey}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Goog-Upload-Protocol": "resumable",
+        "X-Goog-Upload-Command": "start",
+        "X-Goog-Upload-Header-Content-Length": String(upload.data.byteLength),
+        "X-Goog-Upload-Header-Content-Type": upload.mimeType
+      },
+      body: JSON.stringify({ file: { display_name: upload.displayName || "dictation" } }),
+      signal: upload.signal
+    });
+    const uploadUrl = start.headers.get("x-goog-upload-url");
+    if (!start.ok || !uploadUrl) {
+      const errorText = await start.text();
+      throw new Error(`Gemini file upload error: ${start.status} ${errorText}`);
+    }
+
+    const finalized = await fetch(uploadUrl, {
+      method: "POST",
+      headers: {
+        "X-Goog-Upload-Offset": "0",
+        "X-Goog-Upload-Command": "upload, finalize"
+      },
+      body: upload.data,
+      signal: upload.signal
+    });
+    if (!finalized.ok) {
+      const errorText = await finalized.text();
+      throw new Error(`Gemini file upload error: ${finalized.status} ${errorText}`);
+    }
+
+    let file = (await finalized.json())?.file;
+    for (
+      let attempt = 0;
+      file?.state === "PROCESSING" && attempt < FILE_POLL_ATTEMPTS;
+      attempt += 1
+    ) {
+      upload.signal?.throwIfAborted();
+      await new Promise((resolve) => setTimeout(resolve, FILE_POLL_INTERVAL_MS));
+      const status = await fetch(`${GEMINI_API_BASE}/v1beta/${file.name}?key=${params.apiKey}`, {
+        signal: upload.signal
+      });
+      if (!status.ok) {
+        const errorText = await status.text();
+        throw new Error(`Gemini file status error: ${status.status} ${errorText}`);
+      }
+      file = await status.json();
+    }
+    if (!file?.uri || file.state !== "ACTIVE") {
+      throw new Error(
+        `Gemini file upload did not become active (state: ${file?.state || "unknown"}).`
+      );
+    }
+
+    return { mimeType: file.mimeType || upload.mimeType, fileUri: String(file.uri) };
+  }
+
+  return { name: "gemini", model, generate, uploadAudio };
+}
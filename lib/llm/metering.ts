@@ -0,0 +1,107 @@
+import type { LlmGenerateResult, LlmProviderName } from "@/lib/llm/types";
+
+// USD per million tokens. Audio input is billed separately where the provider
+// prices it differently from text; entries match on the model name prefix.
+type ModelPricing = {
+  inputPerMTok: number;
+  audioInputPerMTok: number;
+  outputPerMTok: number;
+};
+
+const MODEL_PRICING: Array<[prefix: string, pricing: ModelPricing]> = [
+  ["gemini-2.5-flash-lite", { inputPerMTok: 0.1, audioInputPerMTok: 0.3, outputPerMTok: 0.4 }],
+  ["gemini-2.5-flash", { inputPerMTok: 0.3, audioInputPerMTok: 1, outputPerMTok: 2.5 }],
+  ["gemini-2.5-pro", { inputPerMTok: 1.25, audioInputPerMTok: 1.25, outputPerMTok: 10 }],
+  ["gemini-2.0-flash-lite", { inputPerMTok: 0.075, audioInputPerMTok: 0.075, outputPerMTok: 0.3 }],
+  ["gemini-2.0-flash", { inputPerMTok: 0.1, audioInputPerMTok: 0.7, outputPerMTok: 0.4 }],
+  ["gpt-4o-mini-audio", { inputPerMTok: 0.15, audioInputPerMTok: 10, outputPerMTok: 0.6 }],
+  ["gpt-4o-audio", { inputPerMTok: 2.5, audioInputPerMTok: 40, outputPerMTok: 10 }],
+  ["gpt-4o-mini", { inputPerMTok: 0.15, audioInputPerMTok: 0.15, outputPerMTok: 0.6 }],
+  ["gpt-4o", { inputPerMTok: 2.5, audioInputPerMTok: 2.5, outputPerMTok: 10 }]
+];
+
+export type GenerationUsage = {
+  provider: LlmProviderName | "";
+  model: string;
+  // Text prompt tokens only; audio tokens are counted separately.
+  promptTokens: number;
+  audioTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  calls: number;
+  // 0 when the model has no pricing entry (including replay fixtures).
+  costUsd: number;
+};
+
+export type UsageMeter = {
+  record: (completion: LlmGenerateResult) => void;
+  summary: () => GenerationUsage;
+};
+
+function pricingForModel(model: string) {
+  const normalized = model.toLowerCase().replace(/^models\//, "");
+  return MODEL_PRICING.find(([prefix]) => normalized.startsWith(prefix))?.[1] || null;
+}
+
+export function estimateCostUsd(
+  model: string,
+  usage: { promptTokens: number; audioTokens: number; outputTokens: number }
+) {
+  const pricing = pricingForModel(model);
+  if (!pricing) return 0;
+  const cost =
+    (usage.promptTokens * pricing.inputPerMTok +
+      usage.audioTokens * pricing.audioInputPerMTok +
+      usage.outputTokens * pricing.outputPerMTok) /
+    1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+// Collects every model call made while serving one request, including schema
+// repair round-trips, so the reported cost is what the provider bills.
+export function createUsageMeter(): UsageMeter {
+  const completions: LlmGenerateResult[] = [];
+
+  function summary(): GenerationUsage {
+    let promptTokens = 0;
+    let audioTokens = 0;
+    let outputTokens = 0;
+    let totalTokens = 0;
+    let latencyMs = 0;
+    let costUsd = 0;
+    for (const completion of completions) {
+      const audio = Math.min(completion.usage.audioInputTokens, completion.usage.inputTokens);
+      const prompt = completion.usage.inputTokens - audio;
+      promptTokens += prompt;
+      audioTokens += audio;
+      outputTokens += completion.usage.outputTokens;
+      totalTokens += completion.usage.totalTokens;
+      latencyMs += completion.latencyMs;
+      costUsd += estimateCostUsd(completion.model, {
+        promptTokens: prompt,
+        audioTokens: audio,
+        outputTokens: completion.usage.outputTokens
+      });
+    }
+    const last = completions[completions.length - 1];
+    return {
+      provider: last?.provider || "",
+      model: last?.model || "",
+      promptTokens,
+      audioTokens,
+      outputTokens,
+      totalTokens,
+      latencyMs,
+      calls: completions.length,
+      costUsd: Math.round(costUsd * 1_000_000) / 1_000_000
+    };
+  }
+
+  return {
+    record: (completion) => {
+      completions.push(completion);
+    },
+    summary
+  };
+}
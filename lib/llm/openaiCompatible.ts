@@ -0,0 +1,178 @@
+import type { JsonSchema } from "@/lib/llm/schema";
+import {
+  toTokenCount,
+  type LlmGenerateParams,
+  type LlmProvider
+} from "@/lib/llm/types";
+import { readServerSentEvents } from "@/lib/sse";
+
+export const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+export const DEFAULT_OPENAI_MODEL = "gpt-4o-audio-preview";
+
+type OpenAiUsage = {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  prompt_tokens_details?: { audio_tokens?: number };
+};
+
+type OpenAiStreamChunk = {
+  choices?: Array<{ delta?: { content?: unknown } }>;
+  usage?: OpenAiUsage | null;
+};
+
+type OpenAiCompletion = {
+  choices?: Array<{ message?: { content?: unknown } }>;
+  usage?: OpenAiUsage;
+};
+
+function audioFormatFromMimeType(mimeType: string) {
+  const normalized = mimeType.toLowerCase();
+  if (normalized.includes("wav")) return "wav";
+  if (normalized.includes("mpeg") || normalized.includes("mp3")) return "mp3";
+  return "";
+}
+
+function extractMessageText(content: unknown) {
+  if (typeof content === "string") return content.trim();
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((part: { text?: string }) => (typeof part?.text === "string" ? part.text : ""))
+    .join("")
+    .trim();
+}
+
+function toOpenAiSchema(schema: JsonSchema): Record<string, unknown> {
+  const { nullable, ...rest } = schema;
+  const converted: Record<string, unknown> = {
+    ...rest,
+    type: nullable ? [schema.type, "null"] : schema.type
+  };
+  if (schema.type === "array") {
+    converted.items = toOpenAiSchema(schema.items);
+  }
+  if (schema.type === "object") {
+    converted.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toOpenAiSchema(value)])
+    );
+  }
+  return converted;
+}
+
+export function createOpenAiCompatibleProvider(params: {
+  apiKey: string;
+  baseUrl?: string;
+  model?: string;
+}): LlmProvider {
+  const model = params.model || DEFAULT_OPENAI_MODEL;
+  const baseUrl = (params.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, "");
+
+  async function generate(request: LlmGenerateParams) {
+    const startedAt = Date.now();
+    const userContent: Array<Record<string, unknown>> = [
+      { type: "text", text: request.userText }
+    ];
+    if (request.audio) {
+      if (!request.audio.base64) {
+        throw new Error("OpenAI-compatible provider does not accept uploaded audio files.");
+      }
+      const format = audioFormatFromMimeType(request.audio.mimeType);
+      if (!format) {
+        throw new Error(
+          `OpenAI-compatible provider only accepts wav or mp3 audio (received ${request.audio.mimeType}).`
+        );
+      }
+      userContent.push({
+        type: "input_audio",
+        input_audio: {
+          data: request.audio.base64,
+          format
+        }
+      });
+    }
+
+    const streaming = Boolean(request.onTextDelta);
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${params.apiKey}`
+      },
+      signal: request.signal,
+      body: JSON.stringify({
+        model,
+        messages: [
+          ...(request.systemText ? [{ role: "system", content: request.systemText }] : []),
+          { role: "user", content: userContent }
+        ],
+        temperature: request.temperature ?? 0.2,
+        max_tokens: request.maxOutputTokens ?? 2048,
+        ...(request.responseSchema
+          ? {
+              response_format: {
+                type: "json_schema",
+                json_schema: {
+                  name: request.task.replace(/[^a-zA-Z0-9_-]+/g, "_"),
+                  schema: toOpenAiSchema(request.responseSchema),
+                  strict: false
+                }
+              }
+            }
+          : {}),
+        ...(streaming ? { stream: true, stream_options: { include_usage: true } } : {})
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`OpenAI-compatible API error: ${response.status} ${errorText}`);
+    }
+
+    let text = "";
+    let usage: OpenAiUsage | null | undefined = null;
+    if (streaming && response.body) {
+      await readServerSentEvents(response.body, ({ data }) => {
+        if (data === "[DONE]") return;
+        let chunk: OpenAiStreamChunk | null;
+        try {
+          chunk = JSON.parse(data);
+        } catch {
+          return;
+        }
+        const delta = chunk?.choices?.[0]?.delta?.content;
+        if (typeof delta === "string" && delta) {
+          text += delta;
+          request.onTextDelta?.(delta);
+        }
+        if (chunk?.usage) {
+          usage = chunk.usage;
+        }
+      });
+      text = text.trim();
+    } else {
+      const data = (await response.json()) as OpenAiCompletion | null;
+      text = extractMessageText(data?.choices?.[0]?.message?.content);
+      usage = data?.usage;
+    }
+    if (!text) {
+      throw new Error("Empty response from OpenAI-compatible provider");
+    }
+
+    const inputTokens = toTokenCount(usage?.prompt_tokens);
+    const outputTokens = toTokenCount(usage?.completion_tokens);
+    return {
+      text,
+      usage: {
+        inputTokens,
+        audioInputTokens: toTokenCount(usage?.prompt_tokens_details?.audio_tokens),
+        outputTokens,
+        totalTokens: toTokenCount(usage?.total_tokens) || inputTokens + outputTokens
+      },
+      provider: "openai" as const,
+      model,
+      latencyMs: Date.now() - startedAt
+    };
+  }
+
+  return { name: "openai", model, generate };
+}
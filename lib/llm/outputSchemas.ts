@@ -0,0 +1,312 @@
+import type { JsonSchema } from "@/lib/llm/schema";
+import {
+  BIRADS_CALCIFICATIONS,
+  BIRADS_ECHO_PATTERNS,
+  BIRADS_MARGINS,
+  BIRADS_ORIENTATIONS,
+  BIRADS_POSTERIOR_FEATURES,
+  BIRADS_SHAPES,
+  BREAST_EXAM_SIDES,
+  BREAST_FIELD_KEYS,
+  BREAST_SIDES,
+  type BreastLesion
+} from "@/lib/usg/breast";
+import { DOPPLER_EXAM_SIDES, dopplerFieldKeys, type DopplerMode } from "@/lib/usg/doppler";
+import { obstetricFieldKeys, type ObstetricVariant } from "@/lib/usg/obstetric";
+import {
+  THYROID_FIELD_KEYS,
+  THYROID_LOBES,
+  TIRADS_COMPOSITIONS,
+  TIRADS_ECHOGENIC_FOCI,
+  TIRADS_ECHOGENICITIES,
+  TIRADS_MARGINS,
+  TIRADS_SHAPES,
+  type ThyroidNodule
+} from "@/lib/usg/thyroid";
+import { USG_FIELD_KEYS, type UsgFieldOverrides } from "@/lib/usgTemplate";
+import {
+  TEMPLATE_PROFILE_FIELD_TYPES,
+  type TemplateProfile,
+  type TemplateProfileField,
+  type TemplateProfileSection
+} from "@/lib/usgTemplateProfile";
+
+const STRING: JsonSchema = { type: "string" };
+const STRING_LIST: JsonSchema = { type: "array", items: STRING };
+const SECONDS: JsonSchema = { type: "number", minimum: 0, nullable: true };
+const MEASUREMENT: JsonSchema = { type: "number", minimum: 0, nullable: true };
+
+const FIELD_SOURCE_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    source_phrase: STRING,
+    start_sec: SECONDS,
+    end_sec: SECONDS,
+    confidence: { type: "number", minimum: 0, maximum: 1 }
+  },
+  required: ["source_phrase", "confidence"]
+};
+
+function requiredStringFields(keys: readonly string[]): JsonSchema {
+  return {
+    type: "object",
+    properties: Object.fromEntries(keys.map((key) => [key, STRING])),
+    required: [...keys]
+  };
+}
+
+function fieldSourcesSchema(keys: readonly string[]): JsonSchema {
+  return {
+    type: "object",
+    properties: Object.fromEntries(keys.map((key) => [key, FIELD_SOURCE_SCHEMA]))
+  };
+}
+
+export const TRANSCRIPT_OUTPUT_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    segments: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { start_sec: SECONDS, end_sec: SECONDS, text: STRING },
+        required: ["start_sec", "end_sec", "text"]
+      }
+    }
+  },
+  required: ["segments"]
+};
+
+export const NARRATIVE_OUTPUT_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    template_id: STRING,
+    observations: STRING,
+    flags: STRING_LIST,
+    disclaimer: STRING
+  },
+  required: ["observations", "flags"]
+};
+
+// Every canonical key is required so the report builder never has to guess
+// whether an empty field was omitted or meant to be blank. Approved custom
+// template profiles add their own extra_fields ids on top.
+export function buildUsgExtractionSchema(params: { profileFieldIds?: string[] } = {}) {
+  const profileFieldIds = params.profileFieldIds || [];
+  const properties: Record<string, JsonSchema> = {
+    template_id: STRING,
+    patient_name: STRING,
+    patient_gender: STRING,
+    exam_date: STRING,
+    fields: requiredStringFields(USG_FIELD_KEYS),
+    other_observations: STRING_LIST,
+    unmapped_findings: STRING_LIST,
+    field_sources: fieldSourcesSchema(USG_FIELD_KEYS),
+    flags: STRING_LIST,
+    disclaimer: STRING
+  };
+  const required = ["fields", "other_observations", "flags"];
+  if (profileFieldIds.length) {
+    properties.extra_fields = requiredStringFields(profileFieldIds);
+    properties.extraction_confidence = { type: "number", minimum: 0, maximum: 1 };
+    required.push("extra_fields");
+  }
+  return { type: "object", properties, required } satisfies JsonSchema;
+}
+
+export function buildUsgSectionSchema(fieldKeys: (keyof UsgFieldOverrides)[]): JsonSchema {
+  return {
+    type: "object",
+    properties: {
+      fields: requiredStringFields(fieldKeys),
+      field_sources: fieldSourcesSchema(fieldKeys),
+      flags: STRING_LIST
+    },
+    required: ["fields", "flags"]
+  };
+}
+
+export function buildStructuredExtractionSchema(fieldKeys: string[]): JsonSchema {
+  return {
+    type: "object",
+    properties: {
+      template_id: STRING,
+      patient_name: STRING,
+      patient_gender: STRING,
+      exam_date: STRING,
+      fields: requiredStringFields(fieldKeys),
+      flags: STRING_LIST,
+      disclaimer: STRING
+    },
+    required: ["fields", "flags"]
+  };
+}
+
+// Measurements are nullable numbers so an undictated value stays null instead
+// of being guessed; GA, EFW and percentiles are computed, never extracted.
+export function buildObstetricExtractionSchema(variant: ObstetricVariant): JsonSchema {
+  const keys = obstetricFieldKeys(variant);
+  const fetusProperties: Record<string, JsonSchema> = {
+    ...Object.fromEntries(keys.fetus.text.map((key) => [key, STRING])),
+    ...Object.fromEntries(keys.fetus.numeric.map((key) => [key, MEASUREMENT]))
+  };
+  return {
+    type: "object",
+    properties: {
+      template_id: STRING,
+      patient_name: STRING,
+      patient_gender: STRING,
+      exam_date: STRING,
+      ...Object.fromEntries(keys.study.text.map((key) => [key, STRING])),
+      ...Object.fromEntries(keys.study.numeric.map((key) => [key, MEASUREMENT])),
+      fetuses: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: fetusProperties,
+          required: Object.keys(fetusProperties)
+        }
+      },
+      flags: STRING_LIST,
+      disclaimer: STRING
+    },
+    required: [...keys.study.text, ...keys.study.numeric, "fetuses", "flags"]
+  };
+}
+
+export function buildDopplerExtractionSchema(mode: DopplerMode): JsonSchema {
+  return {
+    type: "object",
+    properties: {
+      template_id: STRING,
+      patient_name: STRING,
+      patient_gender: STRING,
+      exam_date: STRING,
+      exam_side: { type: "string", enum: [...DOPPLER_EXAM_SIDES] },
+      fields: requiredStringFields(dopplerFieldKeys(mode)),
+      flags: STRING_LIST,
+      disclaimer: STRING
+    },
+    required: ["exam_side", "fields", "flags"]
+  };
+}
+
+const THYROID_NODULE_PROPERTIES: Record<keyof ThyroidNodule, JsonSchema> = {
+  lobe: { type: "string", enum: [...THYROID_LOBES, "unspecified"] },
+  location: STRING,
+  ap_mm: MEASUREMENT,
+  transverse_mm: MEASUREMENT,
+  cc_mm: MEASUREMENT,
+  composition: { type: "string", enum: [...TIRADS_COMPOSITIONS] },
+  echogenicity: { type: "string", enum: [...TIRADS_ECHOGENICITIES] },
+  shape: { type: "string", enum: [...TIRADS_SHAPES] },
+  margin: { type: "string", enum: [...TIRADS_MARGINS] },
+  echogenic_foci: { type: "array", items: { type: "string", enum: [...TIRADS_ECHOGENIC_FOCI] } },
+  description: STRING
+};
+
+// Nodule features are closed enums so the TI-RADS points can be computed
+// deterministically by the report builder.
+export const THYROID_OUTPUT_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    template_id: STRING,
+    patient_name: STRING,
+    patient_gender: STRING,
+    exam_date: STRING,
+    fields: requiredStringFields(THYROID_FIELD_KEYS),
+    nodules: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: THYROID_NODULE_PROPERTIES,
+        required: Object.keys(THYROID_NODULE_PROPERTIES)
+      }
+    },
+    flags: STRING_LIST,
+    disclaimer: STRING
+  },
+  required: ["fields", "nodules", "flags"]
+};
+
+const BREAST_LESION_PROPERTIES: Record<keyof BreastLesion, JsonSchema> = {
+  side: { type: "string", enum: [...BREAST_SIDES, "unspecified"] },
+  clock_position: { type: "number", minimum: 1, maximum: 12, nullable: true },
+  location: STRING,
+  distance_from_nipple_cm: MEASUREMENT,
+  ap_mm: MEASUREMENT,
+  transverse_mm: MEASUREMENT,
+  cc_mm: MEASUREMENT,
+  shape: { type: "string", enum: [...BIRADS_SHAPES] },
+  orientation: { type: "string", enum: [...BIRADS_ORIENTATIONS] },
+  margin: { type: "string", enum: [...BIRADS_MARGINS] },
+  echo_pattern: { type: "string", enum: [...BIRADS_ECHO_PATTERNS] },
+  posterior_features: { type: "string", enum: [...BIRADS_POSTERIOR_FEATURES] },
+  calcifications: { type: "string", enum: [...BIRADS_CALCIFICATIONS] },
+  biopsy_proven_malignancy: { type: "boolean" },
+  description: STRING
+};
+
+export const BREAST_OUTPUT_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    template_id: STRING,
+    patient_name: STRING,
+    patient_gender: STRING,
+    exam_date: STRING,
+    exam_side: { type: "string", enum: [...BREAST_EXAM_SIDES] },
+    fields: requiredStringFields(BREAST_FIELD_KEYS),
+    lesions: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: BREAST_LESION_PROPERTIES,
+        required: Object.keys(BREAST_LESION_PROPERTIES)
+      }
+    },
+    flags: STRING_LIST,
+    disclaimer: STRING
+  },
+  required: ["exam_side", "fields", "lesions", "flags"]
+};
+
+const PROFILE_SECTION_PROPERTIES: Record<keyof TemplateProfileSection, JsonSchema> = {
+  id: STRING,
+  heading: STRING,
+  depends_on: STRING_LIST,
+  normal_hint: STRING
+};
+
+const PROFILE_FIELD_PROPERTIES: Record<keyof TemplateProfileField, JsonSchema> = {
+  id: STRING,
+  label: STRING,
+  type: { type: "string", enum: [...TEMPLATE_PROFILE_FIELD_TYPES] },
+  section_id: STRING,
+  normal_hint: STRING
+};
+
+// Only the model-proposed parts of a TemplateProfile; version, hash and
+// timestamps are stamped by sanitizeTemplateProfile.
+export const TEMPLATE_PROFILE_OUTPUT_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    sections: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: PROFILE_SECTION_PROPERTIES,
+        required: ["id", "heading", "depends_on"]
+      }
+    },
+    fields: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: PROFILE_FIELD_PROPERTIES,
+        required: ["id", "label", "type", "section_id"]
+      }
+    },
+    notes: STRING_LIST
+  } satisfies Record<keyof Pick<TemplateProfile, "sections" | "fields"> | "notes", JsonSchema>,
+  required: ["sections", "fields"]
+};
@@ -0,0 +1,83 @@
+import { createGeminiProvider } from "@/lib/llm/gemini";
+import { createOpenAiCompatibleProvider } from "@/lib/llm/openaiCompatible";
+import { createReplayProvider } from "@/lib/llm/replay";
+import type { LlmProvider, LlmProviderName } from "@/lib/llm/types";
+
+export type {
+  LlmAudioInput,
+  LlmGenerateParams,
+  LlmGenerateResult,
+  LlmProvider,
+  LlmProviderName,
+  LlmUsage
+} from "@/lib/llm/types";
+
+function readEnv(name: string) {
+  return (process.env[name] || "").trim();
+}
+
+function normalizeProviderName(value: string): LlmProviderName | "" {
+  const normalized = value.toLowerCase();
+  if (!normalized || normalized === "gemini") return "gemini";
+  if (normalized === "openai" || normalized === "openai-compatible") return "openai";
+  if (normalized === "replay") return "replay";
+  return "";
+}
+
+function liveProviderConfigError(name: "gemini" | "openai") {
+  if (name === "gemini" && !readEnv("GEMINI_API_KEY")) {
+    return "GEMINI_API_KEY is not configured.";
+  }
+  if (name === "openai" && !readEnv("OPENAI_API_KEY")) {
+    return "OPENAI_API_KEY is not configured.";
+  }
+  return "";
+}
+
+function createLiveProvider(name: "gemini" | "openai"): LlmProvider {
+  const model = readEnv("LLM_MODEL") || undefined;
+  if (name === "openai") {
+    return createOpenAiCompatibleProvider({
+      apiKey: readEnv("OPENAI_API_KEY"),
+      baseUrl: readEnv("OPENAI_BASE_URL") || undefined,
+      model
+    });
+  }
+  return createGeminiProvider({ apiKey: readEnv("GEMINI_API_KEY"), model });
+}
+
+function replayRecordSource() {
+  const raw = readEnv("LLM_REPLAY_RECORD_FROM");
+  if (!raw) return null;
+  const source = normalizeProviderName(raw);
+  return source === "gemini" || source === "openai" ? source : null;
+}
+
+export function getLlmConfigError() {
+  const name = normalizeProviderName(readEnv("LLM_PROVIDER"));
+  if (!name) {
+    return `Unknown LLM_PROVIDER "${readEnv("LLM_PROVIDER")}". Use gemini, openai, or replay.`;
+  }
+  if (name === "replay") {
+    const recordFrom = replayRecordSource();
+    return recordFrom ? liveProviderConfigError(recordFrom) : "";
+  }
+  return liveProviderConfigError(name);
+}
+
+export function getLlmProvider(): LlmProvider {
+  const configError = getLlmConfigError();
+  if (configError) {
+    throw new Error(configError);
+  }
+
+  const name = normalizeProviderName(readEnv("LLM_PROVIDER"));
+  if (name === "replay") {
+    const recordFrom = replayRecordSource();
+    return createReplayProvider({
+      fixtureDir: readEnv("LLM_REPLAY_DIR") || undefined,
+      recordFrom: recordFrom ? createLiveProvider(recordFrom) : null
+    });
+  }
+  return createLiveProvider(name === "openai" ? "openai" : "gemini");
+}
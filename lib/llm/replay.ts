@@ -0,0 +1,109 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import {
+  EMPTY_LLM_USAGE,
+  toTokenCount,
+  type LlmGenerateParams,
+  type LlmProvider
+} from "@/lib/llm/types";
+
+export const DEFAULT_REPLAY_DIR = "fixtures/llm";
+const REPLAY_STREAM_CHUNK_CHARS = 48;
+
+type ReplayFixture = {
+  text?: unknown;
+  usage?: {
+    inputTokens?: unknown;
+    audioInputTokens?: unknown;
+    outputTokens?: unknown;
+    totalTokens?: unknown;
+  };
+};
+
+function safeTaskName(task: string) {
+  return task.toLowerCase().replace(/[^a-z0-9_-]+/g, "-") || "default";
+}
+
+// Fingerprint only the prompt text so re-encoded audio of the same dictation
+// still replays the same fixture.
+export function replayFixtureKey(request: LlmGenerateParams) {
+  return createHash("sha256")
+    .update(`${request.systemText}\n\n${request.userText}`)
+    .digest("hex")
+    .slice(0, 16);
+}
+
+async function readFixture(filePath: string) {
+  try {
+    return JSON.parse(await readFile(filePath, "utf8")) as ReplayFixture;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === "ENOENT") {
+      return null;
+    }
+    throw new Error(`Invalid replay fixture ${filePath}: ${(error as Error).message}`);
+  }
+}
+
+export function createReplayProvider(params: {
+  fixtureDir?: string;
+  recordFrom?: LlmProvider | null;
+}): LlmProvider {
+  const fixtureDir = path.resolve(process.cwd(), params.fixtureDir || DEFAULT_REPLAY_DIR);
+  const model = params.recordFrom ? `replay:${params.recordFrom.model}` : "replay";
+
+  async function generate(request: LlmGenerateParams) {
+    const startedAt = Date.now();
+    const task = safeTaskName(request.task);
+    const keyedPath = path.join(fixtureDir, `${task}.${replayFixtureKey(request)}.json`);
+    const fallbackPath = path.join(fixtureDir, `${task}.json`);
+
+    const fixture = (await readFixture(keyedPath)) || (await readFixture(fallbackPath));
+    if (fixture && typeof fixture.text === "string" && fixture.text.trim()) {
+      const text = fixture.text.trim();
+      if (request.onTextDelta) {
+        for (let i = 0; i < text.length; i += REPLAY_STREAM_CHUNK_CHARS) {
+          request.onTextDelta(text.slice(i, i + REPLAY_STREAM_CHUNK_CHARS));
+        }
+      }
+      const inputTokens = toTokenCount(fixture.usage?.inputTokens);
+      const outputTokens = toTokenCount(fixture.usage?.outputTokens);
+      return {
+        text,
+        usage: fixture.usage
+          ? {
+              inputTokens,
+              audioInputTokens: toTokenCount(fixture.usage.audioInputTokens),
+              outputTokens,
+              totalTokens: toTokenCount(fixture.usage.totalTokens) || inputTokens + outputTokens
+            }
+          : { ...EMPTY_LLM_USAGE },
+        provider: "replay" as const,
+        model,
+        latencyMs: Date.now() - startedAt
+      };
+    }
+
+    if (!params.recordFrom) {
+      throw new Error(
+        `No replay fixture for task "${task}". Expected ${keyedPath} or ${fallbackPath}.`
+      );
+    }
+
+    const recorded = await params.recordFrom.generate(request);
+    await mkdir(fixtureDir, { recursive: true });
+    await writeFile(
+      keyedPath,
+      `${JSON.stringify({ text: recorded.text, usage: recorded.usage }, null, 2)}\n`,
+      "utf8"
+    );
+    return recorded;
+  }
+
+  return {
+    name: "replay",
+    model,
+    generate,
+    uploadAudio: params.recordFrom?.uploadAudio
+  };
+}
@@ -0,0 +1,123 @@
+// The subset of JSON Schema that both Gemini responseSchema and OpenAI
+// json_schema response formats accept.
+export type JsonSchema =
+  | { type: "string"; enum?: string[]; nullable?: boolean }
+  | { type: "number"; minimum?: number; maximum?: number; nullable?: boolean }
+  | { type: "boolean"; nullable?: boolean }
+  | { type: "array"; items: JsonSchema; nullable?: boolean }
+  | {
+      type: "object";
+      properties: Record<string, JsonSchema>;
+      required?: string[];
+      nullable?: boolean;
+    };
+
+export type JsonSchemaIssue = {
+  path: string;
+  message: string;
+};
+
+const MAX_SCHEMA_ISSUES = 20;
+
+function describeValue(value: unknown) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function childPath(path: string, key: string | number) {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path === "$" ? key : `${path}.${key}`;
+}
+
+function collectIssues(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  issues: JsonSchemaIssue[]
+) {
+  if (issues.length >= MAX_SCHEMA_ISSUES) return;
+  if (value === null && schema.nullable) return;
+
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") {
+        issues.push({ path, message: `expected string, got ${describeValue(value)}` });
+      } else if (schema.enum && !schema.enum.includes(value)) {
+        issues.push({ path, message: `expected one of ${schema.enum.join(", ")}` });
+      }
+      return;
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        issues.push({ path, message: `expected number, got ${describeValue(value)}` });
+      } else if (
+        (schema.minimum !== undefined && value < schema.minimum) ||
+        (schema.maximum !== undefined && value > schema.maximum)
+      ) {
+        issues.push({
+          path,
+          message: `expected a number between ${schema.minimum ?? "-inf"} and ${
+            schema.maximum ?? "inf"
+          }`
+        });
+      }
+      return;
+    case "boolean":
+      if (typeof value !== "boolean") {
+        issues.push({ path, message: `expected boolean, got ${describeValue(value)}` });
+      }
+      return;
+    case "array":
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected array, got ${describeValue(value)}` });
+        return;
+      }
+      value.forEach((item, index) =>
+        collectIssues(item, schema.items, childPath(path, index), issues)
+      );
+      return;
+    case "object": {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        issues.push({ path, message: `expected object, got ${describeValue(value)}` });
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (!Object.prototype.hasOwnProperty.call(record, key)) {
+          issues.push({ path: childPath(path, key), message: "required property is missing" });
+        }
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties)) {
+        if (record[key] === undefined) continue;
+        collectIssues(record[key], propertySchema, childPath(path, key), issues);
+      }
+    }
+  }
+}
+
+// Properties not declared in the schema are tolerated; callers only read the
+// declared ones.
+export function validateJsonSchema(value: unknown, schema: JsonSchema) {
+  const issues: JsonSchemaIssue[] = [];
+  collectIssues(value, schema, "$", issues);
+  return issues;
+}
+
+export function parseJsonResponse(
+  text: string
+): { ok: true; value: unknown } | { ok: false; issue: JsonSchemaIssue } {
+  const fenceMatch = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/i);
+  const unfenced = (fenceMatch ? fenceMatch[1] : text).trim();
+  try {
+    return { ok: true, value: JSON.parse(unfenced) };
+  } catch (error) {
+    return {
+      ok: false,
+      issue: { path: "$", message: `response is not valid JSON (${(error as Error).message})` }
+    };
+  }
+}
+
+export function formatSchemaIssues(issues: JsonSchemaIssue[]) {
+  return issues.map((issue) => `- ${issue.path}: ${issue.message}`).join("\n");
+}
@@ -0,0 +1,84 @@
+import type { UsageMeter } from "@/lib/llm/metering";
+import { getLlmProvider } from "@/lib/llm/provider";
+import {
+  formatSchemaIssues,
+  parseJsonResponse,
+  validateJsonSchema,
+  type JsonSchema,
+  type JsonSchemaIssue
+} from "@/lib/llm/schema";
+import type {
+  LlmGenerateParams,
+  LlmGenerateResult,
+  LlmProvider
+} from "@/lib/llm/types";
+
+export class ModelOutputValidationError extends Error {
+  readonly task: string;
+  readonly issues: JsonSchemaIssue[];
+  readonly rawText: string;
+
+  constructor(params: { task: string; issues: JsonSchemaIssue[]; rawText: string }) {
+    const first = params.issues[0];
+    super(
+      `Model output for "${params.task}" failed schema validation${
+        first ? ` at ${first.path}: ${first.message}` : ""
+      }.`
+    );
+    this.name = "ModelOutputValidationError";
+    this.task = params.task;
+    this.issues = params.issues;
+    this.rawText = params.rawText;
+  }
+}
+
+function checkOutput(text: string, schema: JsonSchema) {
+  const parsed = parseJsonResponse(text);
+  if (!parsed.ok) {
+    return { value: null, issues: [parsed.issue] };
+  }
+  return { value: parsed.value, issues: validateJsonSchema(parsed.value, schema) };
+}
+
+// Requests schema-constrained JSON and validates it. An invalid response gets
+// one repair round-trip that shows the model its output and the violations;
+// if that also fails, a ModelOutputValidationError is thrown.
+export async function generateStructured<T>(
+  params: LlmGenerateParams & {
+    responseSchema: JsonSchema;
+    provider?: LlmProvider;
+    meter?: UsageMeter;
+  }
+): Promise<{ value: T; completion: LlmGenerateResult; repaired: boolean }> {
+  const { provider: providerOverride, meter, ...request } = params;
+  const provider = providerOverride || getLlmProvider();
+
+  const completion = await provider.generate(request);
+  meter?.record(completion);
+  const first = checkOutput(completion.text, request.responseSchema);
+  if (!first.issues.length) {
+    return { value: first.value as T, completion, repaired: false };
+  }
+
+  // The audio is not resent: the repair only has to fix the shape of text the
+  // model already produced.
+  const repair = await provider.generate({
+    ...request,
+    audio: undefined,
+    onTextDelta: undefined,
+    temperature: 0,
+    userText: `${request.userText}\n\nYOUR PREVIOUS RESPONSE:\n${completion.text}\n\nThat response failed validation against the required JSON schema:\n${formatSchemaIssues(
+      first.issues
+    )}\n\nReturn the corrected JSON object only. Keep every value that was already valid.`
+  });
+  meter?.record(repair);
+  const second = checkOutput(repair.text, request.responseSchema);
+  if (second.issues.length) {
+    throw new ModelOutputValidationError({
+      task: request.task,
+      issues: second.issues,
+      rawText: repair.text
+    });
+  }
+  return { value: second.value as T, completion: repair, repaired: true };
+}
@@ -0,0 +1,69 @@
+import type { JsonSchema } from "@/lib/llm/schema";
+
+export type LlmProviderName = "gemini" | "openai" | "replay";
+
+// Audio is either sent inline as base64 or referenced by a provider file URI
+// returned from uploadAudio.
+export type LlmAudioInput = {
+  mimeType: string;
+  base64?: string;
+  fileUri?: string;
+};
+
+export type LlmAudioUploadParams = {
+  data: Uint8Array;
+  mimeType: string;
+  displayName?: string;
+  signal?: AbortSignal;
+};
+
+export type LlmGenerateParams = {
+  task: string;
+  systemText: string;
+  userText: string;
+  audio?: LlmAudioInput;
+  temperature?: number;
+  maxOutputTokens?: number;
+  // When set, the provider is asked for JSON matching this schema.
+  responseSchema?: JsonSchema;
+  // When set, the provider streams the response and reports text as it arrives.
+  onTextDelta?: (delta: string) => void;
+  // Aborts the provider request, e.g. when the client has disconnected.
+  signal?: AbortSignal;
+};
+
+export type LlmUsage = {
+  // inputTokens includes audioInputTokens; providers that do not break the
+  // prompt down by modality report 0 audio tokens.
+  inputTokens: number;
+  audioInputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+};
+
+export type LlmGenerateResult = {
+  text: string;
+  usage: LlmUsage;
+  provider: LlmProviderName;
+  model: string;
+  latencyMs: number;
+};
+
+export type LlmProvider = {
+  name: LlmProviderName;
+  model: string;
+  generate: (params: LlmGenerateParams) => Promise<LlmGenerateResult>;
+  uploadAudio?: (params: LlmAudioUploadParams) => Promise<LlmAudioInput>;
+};
+
+export const EMPTY_LLM_USAGE: LlmUsage = {
+  inputTokens: 0,
+  audioInputTokens: 0,
+  outputTokens: 0,
+  totalTokens: 0
+};
+
+export function toTokenCount(value: unknown) {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.round(parsed) : 0;
+}
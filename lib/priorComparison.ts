@@ -0,0 +1,206 @@
+import { parseDimensions } from "@/lib/usg/measurements";
+
+export type PriorStudy = {
+  report_id: string;
+  template_id: string;
+  exam_date: string;
+  fields: Record<string, string>;
+};
+
+export type FieldChangeStatus = "new" | "changed" | "unchanged" | "not_reported";
+
+export type FieldMeasurementChange = {
+  prior: string;
+  current: string;
+  delta_pct: number;
+};
+
+export type FieldComparison = {
+  field_key: string;
+  status: FieldChangeStatus;
+  prior: string;
+  current: string;
+  measurement: FieldMeasurementChange | null;
+};
+
+export type PriorComparison = {
+  prior: Omit<PriorStudy, "fields">;
+  fields: FieldComparison[];
+};
+
+type Measurement = {
+  kind: "linear" | "volume";
+  base: number;
+  display: string;
+};
+
+// Summary fields restate other findings, so they are diffed but never turned
+// into comparison sentences. Fields dictated for only one of the two studies
+// are left to the side-by-side diff, since a field missing from either
+// dictation says nothing about interval change.
+const SUMMARY_FIELD_KEYS = new Set(["impression", "correlate_clinically"]);
+const MAX_PRIOR_FIELD_LENGTH = 600;
+const SINGLE_MEASUREMENT_PATTERN =
+  /(\d+(?:\.\d+)?)\s*(mm|cm|cc|ml|millimet(?:er|re)s?|centimet(?:er|re)s?|millilit(?:er|re)s?)\b/i;
+
+function normalizeText(value: unknown) {
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  if (typeof value !== "string") return "";
+  return value.replace(/\s+/g, " ").trim();
+}
+
+// Dictated spacing around colons and table padding varies between studies.
+function comparable(text: string) {
+  return text.toLowerCase().replace(/\s+/g, "").replace(/\.+$/, "");
+}
+
+function stripPeriod(text: string) {
+  return text.trim().replace(/[.\s]+$/, "");
+}
+
+function formatNumber(value: number) {
+  return String(Math.round(value * 10) / 10);
+}
+
+export function humanizeFieldKey(key: string) {
+  const text = key.replace(/_/g, " ").trim();
+  return text ? `${text[0].toUpperCase()}${text.slice(1)}` : key;
+}
+
+export function sanitizePriorStudy(input: unknown): PriorStudy | null {
+  if (!input || typeof input !== "object") return null;
+  const raw = input as Record<string, unknown>;
+  const fieldsRaw =
+    raw.fields && typeof raw.fields === "object" ? (raw.fields as Record<string, unknown>) : {};
+  const fields: Record<string, string> = {};
+  for (const [key, value] of Object.entries(fieldsRaw)) {
+    const text = normalizeText(value).slice(0, MAX_PRIOR_FIELD_LENGTH);
+    if (/^[a-z0-9_]+$/i.test(key) && text) fields[key] = text;
+  }
+  if (!Object.keys(fields).length) return null;
+  return {
+    report_id: normalizeText(raw.report_id),
+    template_id: normalizeText(raw.template_id),
+    exam_date: normalizeText(raw.exam_date),
+    fields
+  };
+}
+
+export function parsePriorStudyJson(text: string) {
+  if (!text.trim()) return null;
+  try {
+    return sanitizePriorStudy(JSON.parse(text));
+  } catch {
+    return null;
+  }
+}
+
+function readMeasurement(text: string): Measurement | null {
+  const dimensions = parseDimensions(text);
+  if (dimensions) {
+    return {
+      kind: "linear",
+      base: Math.max(...dimensions.map((dimension) => dimension.mm)),
+      display: `${dimensions.map((dimension) => formatNumber(dimension.value)).join(" x ")} ${
+        dimensions[0].unit
+      }`
+    };
+  }
+  const match = SINGLE_MEASUREMENT_PATTERN.exec(text);
+  if (!match) return null;
+  const value = Number(match[1]);
+  const unit = match[2].toLowerCase();
+  if (/^(cc|ml|millil)/.test(unit)) {
+    return { kind: "volume", base: value, display: `${formatNumber(value)} cc` };
+  }
+  const isCm = /^c/.test(unit);
+  return {
+    kind: "linear",
+    base: isCm ? value * 10 : value,
+    display: `${formatNumber(value)} ${isCm ? "cm" : "mm"}`
+  };
+}
+
+function compareMeasurements(prior: string, current: string): FieldMeasurementChange | null {
+  const before = readMeasurement(prior);
+  const after = readMeasurement(current);
+  if (!before || !after || before.kind !== after.kind || !before.base) return null;
+  return {
+    prior: before.display,
+    current: after.display,
+    delta_pct: Math.round(((after.base - before.base) / before.base) * 1000) / 10
+  };
+}
+
+export function compareStudyFields(params: {
+  prior: Record<string, string>;
+  current: Record<string, string>;
+}): FieldComparison[] {
+  const keys = Array.from(
+    new Set([...Object.keys(params.current), ...Object.keys(params.prior)])
+  );
+  const comparisons: FieldComparison[] = [];
+  for (const key of keys) {
+    const prior = normalizeText(params.prior[key]);
+    const current = normalizeText(params.current[key]);
+    if (!prior && !current) continue;
+    if (!prior || !current) {
+      comparisons.push({
+        field_key: key,
+        status: prior ? "not_reported" : "new",
+        prior,
+        current,
+        measurement: null
+      });
+      continue;
+    }
+    const measurement = compareMeasurements(prior, current);
+    comparisons.push({
+      field_key: key,
+      status: comparable(prior) === comparable(current) ? "unchanged" : "changed",
+      prior,
+      current,
+      measurement: measurement && measurement.prior !== measurement.current ? measurement : null
+    });
+  }
+  return comparisons;
+}
+
+// `labels` maps field keys to the template's own field names; keys without a
+// label fall back to the humanized key.
+export function buildComparisonSection(params: {
+  prior: PriorStudy;
+  comparisons: FieldComparison[];
+  labels?: Record<string, string>;
+}) {
+  const labelFor = (key: string) => params.labels?.[key] || humanizeFieldKey(key);
+  const lines: string[] = [];
+  for (const comparison of params.comparisons) {
+    if (SUMMARY_FIELD_KEYS.has(comparison.field_key)) continue;
+    if (comparison.status === "changed" && comparison.measurement) {
+      lines.push(
+        `- ${stripPeriod(comparison.current)} (previously ${comparison.measurement.prior}, now ${
+          comparison.measurement.current
+        }).`
+      );
+    } else if (comparison.status === "changed") {
+      lines.push(
+        `- ${labelFor(comparison.field_key)}: ${stripPeriod(
+          comparison.current
+        )}; previously "${stripPeriod(comparison.prior)}".`
+      );
+    }
+  }
+  if (!lines.length) lines.push("- No significant interval change.");
+  const dated = params.prior.exam_date ? ` dated ${params.prior.exam_date}` : "";
+  return ["COMPARISON:", `Compared with the prior study${dated}.`, ...lines].join("\n");
+}
+
+export function formatPriorStudyForPrompt(prior: PriorStudy) {
+  const lines = Object.entries(prior.fields).map(([key, value]) => `- ${key}: ${value}`);
+  return `\n\nPRIOR STUDY${
+    prior.exam_date ? ` (${prior.exam_date})` : ""
+  } (for comparison context only; extract fields from the current dictation, never copy prior values into them):\n${lines.join(
+    "\n"
+  )}\n`;
+}
@@ -0,0 +1,146 @@
+import type {
+  RateLimitDecision,
+  RateLimitRule,
+  RateLimitState,
+  SlidingWindowRule,
+  TokenBucketRule
+} from "@/lib/rateLimit/types";
+
+export type RateLimitStep = {
+  state: RateLimitState;
+  decision: RateLimitDecision;
+};
+
+export function describePolicy(rule: RateLimitRule) {
+  if (rule.algorithm === "token-bucket") {
+    return `${rule.capacity};w=${Math.ceil(rule.capacity / rule.refillPerSecond)}`;
+  }
+  return `${rule.limit};w=${Math.ceil(rule.windowMs / 1000)}`;
+}
+
+// State lives long enough for the algorithm to forget it naturally.
+export function stateTtlMs(rule: RateLimitRule) {
+  if (rule.algorithm === "token-bucket") {
+    return Math.ceil((rule.capacity / rule.refillPerSecond) * 1000);
+  }
+  return rule.windowMs * 2;
+}
+
+// Sliding window counter: the previous window's count is weighted by how much
+// of it still overlaps the trailing window, so bursts at a window boundary
+// cannot double the budget the way a fixed window allows.
+function consumeSlidingWindow(
+  rule: SlidingWindowRule,
+  current: RateLimitState | null,
+  now: number
+): RateLimitStep {
+  const alignedStart = now - (now % rule.windowMs);
+  let state =
+    current?.kind === "sliding-window"
+      ? current
+      : { kind: "sliding-window" as const, windowStart: alignedStart, current: 0, previous: 0 };
+
+  if (now >= state.windowStart + rule.windowMs) {
+    const adjacent = now < state.windowStart + rule.windowMs * 2;
+    state = {
+      kind: "sliding-window",
+      windowStart: alignedStart,
+      current: 0,
+      previous: adjacent ? state.current : 0
+    };
+  }
+
+  const windowEnd = state.windowStart + rule.windowMs;
+  const overlap = (windowEnd - now) / rule.windowMs;
+  const estimated = state.previous * overlap + state.current;
+  const policy = describePolicy(rule);
+
+  if (estimated + 1 > rule.limit) {
+    let retryAt: number;
+    if (state.current + 1 <= rule.limit && state.previous > 0) {
+      const allowedOverlap = (rule.limit - state.current - 1) / state.previous;
+      retryAt = windowEnd - allowedOverlap * rule.windowMs;
+    } else {
+      const allowedOverlap = state.current > 0 ? (rule.limit - 1) / state.current : 1;
+      retryAt = windowEnd + rule.windowMs - allowedOverlap * rule.windowMs;
+    }
+    const retryAfterMs = Math.max(1, Math.ceil(retryAt - now));
+    return {
+      state,
+      decision: {
+        allowed: false,
+        limit: rule.limit,
+        remaining: 0,
+        resetMs: Math.max(retryAfterMs, windowEnd - now),
+        retryAfterMs,
+        policy
+      }
+    };
+  }
+
+  const next = { ...state, current: state.current + 1 };
+  return {
+    state: next,
+    decision: {
+      allowed: true,
+      limit: rule.limit,
+      remaining: Math.max(0, Math.floor(rule.limit - estimated - 1)),
+      resetMs: windowEnd - now,
+      retryAfterMs: 0,
+      policy
+    }
+  };
+}
+
+function consumeTokenBucket(
+  rule: TokenBucketRule,
+  current: RateLimitState | null,
+  now: number
+): RateLimitStep {
+  const refillPerMs = rule.refillPerSecond / 1000;
+  const previous =
+    current?.kind === "token-bucket"
+      ? current
+      : { kind: "token-bucket" as const, tokens: rule.capacity, updatedAt: now };
+  const elapsed = Math.max(0, now - previous.updatedAt);
+  const tokens = Math.min(rule.capacity, previous.tokens + elapsed * refillPerMs);
+  const policy = describePolicy(rule);
+
+  if (tokens < 1) {
+    const retryAfterMs = Math.max(1, Math.ceil((1 - tokens) / refillPerMs));
+    return {
+      state: { kind: "token-bucket", tokens, updatedAt: now },
+      decision: {
+        allowed: false,
+        limit: rule.capacity,
+        remaining: 0,
+        resetMs: Math.ceil((rule.capacity - tokens) / refillPerMs),
+        retryAfterMs,
+        policy
+      }
+    };
+  }
+
+  const remainingTokens = tokens - 1;
+  return {
+    state: { kind: "token-bucket", tokens: remainingTokens, updatedAt: now },
+    decision: {
+      allowed: true,
+      limit: rule.capacity,
+      remaining: Math.floor(remainingTokens),
+      resetMs: Math.ceil((rule.capacity - remainingTokens) / refillPerMs),
+      retryAfterMs: 0,
+      policy
+    }
+  };
+}
+
+export function consume(
+  rule: RateLimitRule,
+  current: RateLimitState | null,
+  now = Date.now()
+): RateLimitStep {
+  return rule.algorithm === "token-bucket"
+    ? consumeTokenBucket(rule, current, now)
+    : consumeSlidingWindow(rule, current, now);
+}
@@ -0,0 +1,59 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import type { RateLimitState, RateLimitStore } from "@/lib/rateLimit/types";
+
+export const DEFAULT_RATE_LIMIT_FILE = ".rate-limit.json";
+
+type FileEntry = {
+  state: RateLimitState;
+  expiresAt: number;
+};
+
+async function readEntries(filePath: string) {
+  try {
+    return JSON.parse(await readFile(filePath, "utf8")) as Record<string, FileEntry>;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === "ENOENT") {
+      return {};
+    }
+    throw new Error(`Invalid rate limit file ${filePath}: ${(error as Error).message}`);
+  }
+}
+
+// Survives dev-server restarts. Updates are serialised through one promise
+// chain, so it is only safe with a single server process writing the file.
+export function createFileStore(params: { filePath?: string } = {}): RateLimitStore {
+  const filePath = path.resolve(process.cwd(), params.filePath || DEFAULT_RATE_LIMIT_FILE);
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function write(
+    key: string,
+    ttlMs: number,
+    apply: (current: RateLimitState | null) => RateLimitState
+  ) {
+    const now = Date.now();
+    const entries = await readEntries(filePath);
+    for (const [entryKey, entry] of Object.entries(entries)) {
+      if (!entry || entry.expiresAt <= now) delete entries[entryKey];
+    }
+    const current = entries[key]?.state ?? null;
+    entries[key] = { state: apply(current), expiresAt: now + ttlMs };
+
+    await mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(entries), "utf8");
+    await rename(tempPath, filePath);
+  }
+
+  function update(
+    key: string,
+    ttlMs: number,
+    apply: (current: RateLimitState | null) => RateLimitState
+  ) {
+    const next = queue.then(() => write(key, ttlMs, apply));
+    queue = next.catch(() => undefined);
+    return next;
+  }
+
+  return { name: "file", update };
+}
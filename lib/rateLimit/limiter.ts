@@ -0,0 +1,110 @@
+import { NextResponse } from "next/server";
+import { consume, stateTtlMs, type RateLimitStep } from "@/lib/rateLimit/algorithms";
+import { createFileStore } from "@/lib/rateLimit/fileStore";
+import { createMemoryStore } from "@/lib/rateLimit/memoryStore";
+import { normalizeRateLimitPlan, rateLimitRuleFor } from "@/lib/rateLimit/policies";
+import { createRedisStore } from "@/lib/rateLimit/redisStore";
+import type {
+  RateLimitDecision,
+  RateLimitRoute,
+  RateLimitStore,
+  RateLimitStoreName
+} from "@/lib/rateLimit/types";
+import type { AuthenticatedUser } from "@/lib/serverAuth";
+
+export type {
+  RateLimitDecision,
+  RateLimitPlan,
+  RateLimitRoute,
+  RateLimitRule,
+  RateLimitStore,
+  RateLimitStoreName
+} from "@/lib/rateLimit/types";
+
+let cachedStore: RateLimitStore | null = null;
+
+function readEnv(name: string) {
+  return (process.env[name] || "").trim();
+}
+
+function normalizeStoreName(value: string): RateLimitStoreName | "" {
+  const normalized = value.toLowerCase();
+  if (!normalized || normalized === "memory") return "memory";
+  if (normalized === "file") return "file";
+  if (normalized === "redis") return "redis";
+  return "";
+}
+
+export function getRateLimitStore(): RateLimitStore {
+  if (cachedStore) return cachedStore;
+
+  const name = normalizeStoreName(readEnv("RATE_LIMIT_STORE"));
+  if (!name) {
+    throw new Error(
+      `Unknown RATE_LIMIT_STORE "${readEnv("RATE_LIMIT_STORE")}". Use memory, file, or redis.`
+    );
+  }
+  if (name === "redis") {
+    const url = readEnv("RATE_LIMIT_REDIS_URL");
+    const token = readEnv("RATE_LIMIT_REDIS_TOKEN");
+    if (!url || !token) {
+      throw new Error("RATE_LIMIT_REDIS_URL and RATE_LIMIT_REDIS_TOKEN must both be set.");
+    }
+    cachedStore = createRedisStore({ url, token });
+  } else if (name === "file") {
+    cachedStore = createFileStore({ filePath: readEnv("RATE_LIMIT_FILE") || undefined });
+  } else {
+    cachedStore = createMemoryStore();
+  }
+  return cachedStore;
+}
+
+// Budgets are keyed by the verified uid and route, so a whole hospital behind
+// one NAT address no longer shares a single allowance. If the store is
+// unreachable the request is let through: a limiter outage should not stop
+// radiologists from reporting.
+export async function rateLimit(
+  user: AuthenticatedUser,
+  route: RateLimitRoute
+): Promise<RateLimitDecision> {
+  const rule = rateLimitRuleFor(normalizeRateLimitPlan(user.plan), route);
+  const now = Date.now();
+  let step: RateLimitStep | null = null;
+
+  try {
+    await getRateLimitStore().update(`ratelimit:${route}:${user.uid}`, stateTtlMs(rule), (current) => {
+      step = consume(rule, current, now);
+      return step.state;
+    });
+  } catch (error) {
+    console.warn(`Rate limit store unavailable: ${(error as Error).message}`);
+  }
+  return (step as RateLimitStep | null)?.decision ?? consume(rule, null, now).decision;
+}
+
+export function rateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(decision.limit),
+    "RateLimit-Remaining": String(decision.remaining),
+    "RateLimit-Reset": String(Math.ceil(decision.resetMs / 1000)),
+    "RateLimit-Policy": decision.policy
+  };
+  if (!decision.allowed) {
+    headers["Retry-After"] = String(Math.max(1, Math.ceil(decision.retryAfterMs / 1000)));
+  }
+  return headers;
+}
+
+export function withRateLimitHeaders<T extends Response>(response: T, decision: RateLimitDecision) {
+  for (const [name, value] of Object.entries(rateLimitHeaders(decision))) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+export function rateLimitExceededResponse(decision: RateLimitDecision) {
+  return NextResponse.json(
+    { error: "Rate limit exceeded. Try again later." },
+    { status: 429, headers: rateLimitHeaders(decision) }
+  );
+}
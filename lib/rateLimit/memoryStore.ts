@@ -0,0 +1,34 @@
+import type { RateLimitState, RateLimitStore } from "@/lib/rateLimit/types";
+
+type MemoryEntry = {
+  state: RateLimitState;
+  expiresAt: number;
+};
+
+const MAX_ENTRIES = 10_000;
+
+// Process-local, so budgets reset on every cold start. Meant for local
+// development and single-instance deployments.
+export function createMemoryStore(): RateLimitStore {
+  const entries = new Map<string, MemoryEntry>();
+
+  function prune(now: number) {
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= now) entries.delete(key);
+    }
+  }
+
+  async function update(
+    key: string,
+    ttlMs: number,
+    apply: (current: RateLimitState | null) => RateLimitState
+  ) {
+    const now = Date.now();
+    const existing = entries.get(key);
+    const current = existing && existing.expiresAt > now ? existing.state : null;
+    entries.set(key, { state: apply(current), expiresAt: now + ttlMs });
+    if (entries.size > MAX_ENTRIES) prune(now);
+  }
+
+  return { name: "memory", update };
+}
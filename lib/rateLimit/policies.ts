@@ -0,0 +1,31 @@
+import type { RateLimitPlan, RateLimitRoute, RateLimitRule } from "@/lib/rateLimit/types";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Budgets per plan and route. Generation and template profiling call the
+// model, so they get hourly windows; audio playback is cheap but bursty, so
+// it gets a token bucket.
+export const RATE_LIMIT_POLICIES: Record<RateLimitPlan, Record<RateLimitRoute, RateLimitRule>> = {
+  standard: {
+    generate: { algorithm: "sliding-window", limit: 30, windowMs: HOUR_MS },
+    "template-profile": { algorithm: "sliding-window", limit: 10, windowMs: HOUR_MS },
+    "admin-issue-summary": { algorithm: "sliding-window", limit: 60, windowMs: HOUR_MS },
+    "admin-usage": { algorithm: "sliding-window", limit: 120, windowMs: HOUR_MS },
+    audio: { algorithm: "token-bucket", capacity: 30, refillPerSecond: 0.5 }
+  },
+  pro: {
+    generate: { algorithm: "sliding-window", limit: 120, windowMs: HOUR_MS },
+    "template-profile": { algorithm: "sliding-window", limit: 30, windowMs: HOUR_MS },
+    "admin-issue-summary": { algorithm: "sliding-window", limit: 200, windowMs: HOUR_MS },
+    "admin-usage": { algorithm: "sliding-window", limit: 400, windowMs: HOUR_MS },
+    audio: { algorithm: "token-bucket", capacity: 60, refillPerSecond: 1 }
+  }
+};
+
+export function normalizeRateLimitPlan(value: unknown): RateLimitPlan {
+  return value === "pro" ? "pro" : "standard";
+}
+
+export function rateLimitRuleFor(plan: RateLimitPlan, route: RateLimitRoute) {
+  return RATE_LIMIT_POLICIES[plan][route];
+}
@@ -0,0 +1,54 @@
+import type { RateLimitState, RateLimitStore } from "@/lib/rateLimit/types";
+
+type RedisRestReply = {
+  result?: unknown;
+  error?: unknown;
+};
+
+// Talks to any Redis deployment fronted by the Upstash-style REST protocol
+// (POST a JSON command array, get `{ result }` back), which works from
+// serverless functions without a persistent socket. The read and write are
+// separate commands, so concurrent requests for the same uid can race and
+// occasionally let one extra request through.
+export function createRedisStore(params: { url: string; token: string }): RateLimitStore {
+  const baseUrl = params.url.replace(/\/$/, "");
+
+  async function command(args: Array<string | number>) {
+    const response = await fetch(baseUrl, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${params.token}`,
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify(args),
+      cache: "no-store"
+    });
+    const reply = (await response.json().catch(() => ({}))) as RedisRestReply;
+    if (!response.ok || reply.error) {
+      throw new Error(
+        `Redis ${args[0]} failed (${response.status}): ${String(reply.error || "no body")}`
+      );
+    }
+    return reply.result;
+  }
+
+  async function update(
+    key: string,
+    ttlMs: number,
+    apply: (current: RateLimitState | null) => RateLimitState
+  ) {
+    const raw = await command(["GET", key]);
+    let current: RateLimitState | null = null;
+    if (typeof raw === "string") {
+      try {
+        current = JSON.parse(raw) as RateLimitState;
+      } catch {
+        current = null;
+      }
+    }
+    const next = apply(current);
+    await command(["SET", key, JSON.stringify(next), "PX", Math.max(1, Math.ceil(ttlMs))]);
+  }
+
+  return { name: "redis", update };
+}
@@ -0,0 +1,61 @@
+export type RateLimitStoreName = "memory" | "file" | "redis";
+
+export type RateLimitPlan = "standard" | "pro";
+
+export type RateLimitRoute =
+  | "generate"
+  | "template-profile"
+  | "admin-issue-summary"
+  | "admin-usage"
+  | "audio";
+
+export type SlidingWindowRule = {
+  algorithm: "sliding-window";
+  limit: number;
+  windowMs: number;
+};
+
+export type TokenBucketRule = {
+  algorithm: "token-bucket";
+  capacity: number;
+  refillPerSecond: number;
+};
+
+export type RateLimitRule = SlidingWindowRule | TokenBucketRule;
+
+export type SlidingWindowState = {
+  kind: "sliding-window";
+  windowStart: number;
+  current: number;
+  previous: number;
+};
+
+export type TokenBucketState = {
+  kind: "token-bucket";
+  tokens: number;
+  updatedAt: number;
+};
+
+export type RateLimitState = SlidingWindowState | TokenBucketState;
+
+export type RateLimitDecision = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Milliseconds until the budget is fully restored.
+  resetMs: number;
+  // Milliseconds until the next request would be allowed; 0 when allowed.
+  retryAfterMs: number;
+  policy: string;
+};
+
+// Stores hold one state blob per key. `update` reads the current state, lets
+// the algorithm derive the next one and writes it back with a TTL.
+export type RateLimitStore = {
+  name: RateLimitStoreName;
+  update: (
+    key: string,
+    ttlMs: number,
+    apply: (current: RateLimitState | null) => RateLimitState
+  ) => Promise<void>;
+};
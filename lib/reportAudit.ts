@@ -0,0 +1,136 @@
+import {
+  computeObservationEditStats,
+  extractObservationLines,
+  parseTimestampToMillis,
+  type ReportStatus
+} from "@/lib/firebasePersistence";
+import { lcsDiff } from "@/lib/textDiff";
+
+export type ReportAuditEventType =
+  | "generated"
+  | "edited"
+  | "status_changed"
+  | "exported"
+  | "audio_played"
+  | "deleted"
+  | "critical_acknowledged"
+  | "signed"
+  | "addendum_added";
+
+export type AuditDiffLine = {
+  op: "+" | "-";
+  text: string;
+};
+
+export type ReportAuditEvent = {
+  id: string;
+  type: ReportAuditEventType;
+  actorUid: string;
+  actorName: string;
+  createdAtMs: number;
+  fromStatus?: ReportStatus;
+  toStatus?: ReportStatus;
+  changeCount?: number;
+  diff?: AuditDiffLine[];
+  diffTruncated?: boolean;
+  format?: string;
+  detail?: string;
+};
+
+export const AUDIT_DIFF_MAX_LINES = 40;
+const AUDIT_DIFF_MAX_LINE_CHARS = 300;
+
+const AUDIT_EVENT_TYPES: ReportAuditEventType[] = [
+  "generated",
+  "edited",
+  "status_changed",
+  "exported",
+  "audio_played",
+  "deleted",
+  "critical_acknowledged",
+  "signed",
+  "addendum_added"
+];
+
+const AUDIT_EVENT_LABELS: Record<ReportAuditEventType, string> = {
+  generated: "Report generated",
+  edited: "Report edited",
+  status_changed: "Status changed",
+  exported: "Report exported",
+  audio_played: "Recording played",
+  deleted: "Report discarded",
+  critical_acknowledged: "Critical result acknowledged",
+  signed: "Report signed",
+  addendum_added: "Addendum added"
+};
+
+const REPORT_STATUSES: ReportStatus[] = ["draft", "pending_review", "completed", "discarded"];
+
+function toReportStatus(value: unknown) {
+  return REPORT_STATUSES.includes(value as ReportStatus) ? (value as ReportStatus) : undefined;
+}
+
+// Only removed and added observation lines are kept, so an edit entry stays
+// small however long the report is. Returns null when nothing reportable
+// changed (for example, header-only or whitespace edits).
+export function buildAuditEditDiff(previousText: string, nextText: string) {
+  const stats = computeObservationEditStats(previousText, nextText);
+  if (!stats.hasEdits) return null;
+
+  const ops = lcsDiff(
+    extractObservationLines(previousText),
+    extractObservationLines(nextText),
+    (a, b) => a.replace(/\s+/g, " ") === b.replace(/\s+/g, " ")
+  );
+  const changed = ops.filter((op) => op.kind !== "equal");
+  return {
+    changeCount: stats.changeCount,
+    diff: changed.slice(0, AUDIT_DIFF_MAX_LINES).map(
+      (op): AuditDiffLine => ({
+        op: op.kind === "add" ? "+" : "-",
+        text: op.value.slice(0, AUDIT_DIFF_MAX_LINE_CHARS)
+      })
+    ),
+    diffTruncated: changed.length > AUDIT_DIFF_MAX_LINES
+  };
+}
+
+export function parseReportAuditEvent(
+  id: string,
+  data: Record<string, unknown>
+): ReportAuditEvent | null {
+  const type = data.type as ReportAuditEventType;
+  if (!AUDIT_EVENT_TYPES.includes(type)) return null;
+  const diff = Array.isArray(data.diff)
+    ? data.diff
+        .map((item) => {
+          const entry = (item || {}) as Record<string, unknown>;
+          const op = entry.op === "+" || entry.op === "-" ? entry.op : null;
+          return op ? { op, text: String(entry.text || "") } : null;
+        })
+        .filter((item): item is AuditDiffLine => Boolean(item))
+    : undefined;
+  return {
+    id,
+    type,
+    actorUid: String(data.actorUid || ""),
+    actorName: String(data.actorName || ""),
+    createdAtMs: parseTimestampToMillis(data.createdAt),
+    fromStatus: toReportStatus(data.fromStatus),
+    toStatus: toReportStatus(data.toStatus),
+    changeCount: typeof data.changeCount === "number" ? data.changeCount : undefined,
+    diff,
+    diffTruncated: data.diffTruncated === true,
+    format: typeof data.format === "string" ? data.format : undefined,
+    detail:
+      typeof data.detail === "string"
+        ? data.detail
+        : typeof data.notifiedTo === "string"
+        ? `Notified ${data.notifiedTo}`
+        : undefined
+  };
+}
+
+export function labelForAuditEvent(type: ReportAuditEventType) {
+  return AUDIT_EVENT_LABELS[type];
+}
@@ -0,0 +1,145 @@
+import { parseTimestampToMillis } from "@/lib/firebasePersistence";
+
+export type ReportSignOffFields = {
+  signedAtMs: number;
+  signedByUid: string;
+  signedByName: string;
+  signedByRegistration: string;
+  signatureImage: string;
+  contentHash: string;
+};
+
+export type ReportAddendum = {
+  id: string;
+  text: string;
+  authorUid: string;
+  authorName: string;
+  createdAtMs: number;
+};
+
+// Appended below the original report in DOCX/PDF exports: the signature
+// image first, then the sign-off lines and addenda as HTML.
+export type ReportExportSignOff = {
+  signatureImage: string;
+  html: string;
+};
+
+// The signature is stored inline on the profile and copied onto every signed
+// report, so it is downscaled to keep report documents small.
+export const SIGNATURE_MAX_WIDTH_PX = 600;
+export const SIGNATURE_MAX_HEIGHT_PX = 200;
+export const MAX_ADDENDUM_CHARS = 4000;
+
+export function readReportSignOffFields(data: Record<string, unknown>): ReportSignOffFields {
+  return {
+    signedAtMs: parseTimestampToMillis(data.signedAt),
+    signedByUid: String(data.signedByUid || ""),
+    signedByName: String(data.signedByName || ""),
+    signedByRegistration: String(data.signedByRegistration || ""),
+    signatureImage: String(data.signatureImage || ""),
+    contentHash: String(data.contentHash || "")
+  };
+}
+
+export function isSignedReport(fields: Pick<ReportSignOffFields, "signedAtMs"> | null | undefined) {
+  return Boolean(fields && fields.signedAtMs > 0);
+}
+
+// Hex SHA-256 of the signed observations HTML. Hashing a later copy of the
+// report shows whether the signed text was altered.
+export async function hashReportContent(html: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(html));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export function parseReportAddendum(
+  id: string,
+  data: Record<string, unknown>
+): ReportAddendum | null {
+  const text = String(data.text || "").trim();
+  if (!text) return null;
+  return {
+    id,
+    text,
+    authorUid: String(data.authorUid || ""),
+    authorName: String(data.authorName || ""),
+    createdAtMs: parseTimestampToMillis(data.createdAt)
+  };
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatSignOffTime(ms: number) {
+  return ms ? new Date(ms).toLocaleString() : "Pending";
+}
+
+// `addenda` is oldest first, numbered in the order they were written.
+export function buildSignOffExportHtml(
+  signOff: ReportSignOffFields,
+  addenda: ReportAddendum[]
+): ReportExportSignOff {
+  const lines = [
+    `<p><strong>Electronically signed by:</strong> ${escapeHtml(signOff.signedByName)}</p>`,
+    signOff.signedByRegistration
+      ? `<p><strong>Registration No:</strong> ${escapeHtml(signOff.signedByRegistration)}</p>`
+      : "",
+    `<p><strong>Signed:</strong> ${escapeHtml(formatSignOffTime(signOff.signedAtMs))}</p>`,
+    signOff.contentHash
+      ? `<p><strong>Content SHA-256:</strong> ${escapeHtml(signOff.contentHash)}</p>`
+      : ""
+  ];
+  addenda.forEach((addendum, index) => {
+    lines.push(
+      "<p></p>",
+      `<p><strong><u>ADDENDUM ${index + 1}</u></strong></p>`,
+      `<p>${escapeHtml(addendum.authorName || addendum.authorUid || "Unknown")} • ${escapeHtml(
+        formatSignOffTime(addendum.createdAtMs)
+      )}</p>`,
+      ...addendum.text.split(/\n/).map((line) => `<p>${escapeHtml(line)}</p>`)
+    );
+  });
+  return {
+    signatureImage: signOff.signatureImage,
+    html: lines.filter(Boolean).join("")
+  };
+}
+
+// Reads an uploaded signature, scaled to fit SIGNATURE_MAX_* and re-encoded
+// as a PNG data URL so transparency survives.
+export function readSignatureImage(file: File) {
+  return new Promise<string>((resolve, reject) => {
+    const objectUrl = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(objectUrl);
+      const scale = Math.min(
+        1,
+        SIGNATURE_MAX_WIDTH_PX / image.naturalWidth,
+        SIGNATURE_MAX_HEIGHT_PX / image.naturalHeight
+      );
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+      canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+      const context = canvas.getContext("2d");
+      if (!context) {
+        reject(new Error("Could not read the signature image."));
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL("image/png"));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(objectUrl);
+      reject(new Error("Could not read the signature image."));
+    };
+    image.src = objectUrl;
+  });
+}
@@ -0,0 +1,88 @@
+import { parseTimestampToMillis, type ReportStatus } from "@/lib/firebasePersistence";
+
+export type ReportVersionReason = "generated" | "saved" | "status_change" | "autosave" | "restored";
+
+export type ReportVersion = {
+  id: string;
+  reason: ReportVersionReason;
+  status: ReportStatus;
+  observationsHtml: string;
+  observationsText: string;
+  actorUid: string;
+  actorName: string;
+  createdAtMs: number;
+};
+
+// Autosave fires after every pause in typing, so its snapshots are spaced out
+// and capped. Every other reason marks a milestone and is kept indefinitely.
+export const AUTOSAVE_VERSION_INTERVAL_MS = 5 * 60 * 1000;
+export const MAX_AUTOSAVE_VERSIONS = 30;
+
+const VERSION_REASONS: ReportVersionReason[] = [
+  "generated",
+  "saved",
+  "status_change",
+  "autosave",
+  "restored"
+];
+
+const VERSION_REASON_LABELS: Record<ReportVersionReason, string> = {
+  generated: "Generated",
+  saved: "Saved",
+  status_change: "Status change",
+  autosave: "Autosave",
+  restored: "Restored"
+};
+
+export function parseReportVersion(
+  id: string,
+  data: Record<string, unknown>
+): ReportVersion | null {
+  const reason = data.reason as ReportVersionReason;
+  if (!VERSION_REASONS.includes(reason)) return null;
+  const statusRaw = String(data.status || "draft");
+  const status: ReportStatus =
+    statusRaw === "completed" || statusRaw === "pending_review" || statusRaw === "discarded"
+      ? statusRaw
+      : "draft";
+  return {
+    id,
+    reason,
+    status,
+    observationsHtml: String(data.observationsHtml || ""),
+    observationsText: String(data.observationsText || ""),
+    actorUid: String(data.actorUid || ""),
+    actorName: String(data.actorName || ""),
+    createdAtMs: parseTimestampToMillis(data.createdAt)
+  };
+}
+
+// `versions` is newest first. A snapshot is skipped when the text matches the
+// latest version, and autosaves wait out the interval since the last one.
+export function shouldSnapshotVersion(
+  versions: ReportVersion[],
+  reason: ReportVersionReason,
+  observationsText: string,
+  nowMs = Date.now()
+) {
+  const latest = versions[0];
+  if (latest && latest.observationsText === observationsText && reason !== "status_change") {
+    return false;
+  }
+  if (reason !== "autosave") return true;
+  const lastAutosave = versions.find((version) => version.reason === "autosave");
+  return !lastAutosave || nowMs - lastAutosave.createdAtMs >= AUTOSAVE_VERSION_INTERVAL_MS;
+}
+
+// Autosave snapshots beyond the retention cap, oldest first, given the newest
+// first list including one just written.
+export function selectVersionsToPrune(versions: ReportVersion[]) {
+  return versions
+    .filter((version) => version.reason === "autosave")
+    .slice(MAX_AUTOSAVE_VERSIONS)
+    .reverse();
+}
+
+export function labelForVersionReason(reason: ReportVersionReason) {
+  return VERSION_REASON_LABELS[reason];
+}
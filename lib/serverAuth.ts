@@ -0,0 +1,166 @@
+import { Buffer } from "buffer";
+import { X509Certificate, verify, type KeyObject } from "crypto";
+import type { NextRequest } from "next/server";
+
+export type AuthenticatedUser = {
+  uid: string;
+  email: string;
+  admin: boolean;
+  // Billing plan from the `plan` custom claim; selects rate-limit budgets.
+  plan: string;
+};
+
+export type AuthResult =
+  | { ok: true; user: AuthenticatedUser }
+  | { ok: false; error: string; status: number };
+
+type TokenHeader = {
+  alg?: unknown;
+  kid?: unknown;
+};
+
+type TokenPayload = {
+  aud?: unknown;
+  iss?: unknown;
+  sub?: unknown;
+  exp?: unknown;
+  iat?: unknown;
+  auth_time?: unknown;
+  email?: unknown;
+  admin?: unknown;
+  plan?: unknown;
+};
+
+const PUBLIC_KEYS_URL =
+  "https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com";
+const DEFAULT_KEYS_MAX_AGE_MS = 60 * 60 * 1000;
+const CLOCK_SKEW_SEC = 60;
+
+let cachedKeys: { keys: Map<string, KeyObject>; expiresAt: number } | null = null;
+
+function projectId() {
+  return (
+    process.env.FIREBASE_PROJECT_ID ||
+    process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID ||
+    ""
+  ).trim();
+}
+
+// The Auth emulator signs nothing, so unsigned tokens are only ever accepted
+// while the server itself is pointed at an emulator.
+export function isAuthEmulatorMode() {
+  return Boolean((process.env.FIREBASE_AUTH_EMULATOR_HOST || "").trim());
+}
+
+function decodeSegment<T>(segment: string): T | null {
+  try {
+    return JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+function maxAgeMs(cacheControl: string | null) {
+  const match = cacheControl?.match(/max-age=(\d+)/);
+  return match ? parseInt(match[1], 10) * 1000 : DEFAULT_KEYS_MAX_AGE_MS;
+}
+
+async function loadPublicKeys() {
+  if (cachedKeys && cachedKeys.expiresAt > Date.now()) {
+    return cachedKeys.keys;
+  }
+  const response = await fetch(PUBLIC_KEYS_URL, { cache: "no-store" });
+  if (!response.ok) {
+    throw new Error(`Token signing keys unavailable (${response.status}).`);
+  }
+  const certificates = (await response.json()) as Record<string, string>;
+  const keys = new Map<string, KeyObject>();
+  for (const [kid, pem] of Object.entries(certificates)) {
+    keys.set(kid, new X509Certificate(pem).publicKey);
+  }
+  cachedKeys = { keys, expiresAt: Date.now() + maxAgeMs(response.headers.get("cache-control")) };
+  return keys;
+}
+
+function checkClaims(payload: TokenPayload, project: string) {
+  const now = Math.floor(Date.now() / 1000);
+  if (payload.aud !== project) return "ID token has the wrong audience.";
+  if (payload.iss !== `https://securetoken.google.com/${project}`) {
+    return "ID token has the wrong issuer.";
+  }
+  if (typeof payload.sub !== "string" || !payload.sub || payload.sub.length > 128) {
+    return "ID token has no subject.";
+  }
+  if (typeof payload.exp !== "number" || payload.exp <= now) return "ID token has expired.";
+  if (typeof payload.iat !== "number" || payload.iat > now + CLOCK_SKEW_SEC) {
+    return "ID token was issued in the future.";
+  }
+  if (typeof payload.auth_time === "number" && payload.auth_time > now + CLOCK_SKEW_SEC) {
+    return "ID token has an invalid auth time.";
+  }
+  return "";
+}
+
+export async function verifyFirebaseIdToken(token: string): Promise<AuthResult> {
+  const project = projectId();
+  if (!project) {
+    return { ok: false, error: "Firebase project is not configured on the server.", status: 500 };
+  }
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    return { ok: false, error: "Malformed ID token.", status: 401 };
+  }
+  const header = decodeSegment<TokenHeader>(parts[0]);
+  const payload = decodeSegment<TokenPayload>(parts[1]);
+  if (!header || !payload) {
+    return { ok: false, error: "Malformed ID token.", status: 401 };
+  }
+
+  if (!isAuthEmulatorMode()) {
+    if (header.alg !== "RS256" || typeof header.kid !== "string") {
+      return { ok: false, error: "ID token has an unsupported signature.", status: 401 };
+    }
+    let keys: Map<string, KeyObject>;
+    try {
+      keys = await loadPublicKeys();
+    } catch (error) {
+      return { ok: false, error: (error as Error).message, status: 503 };
+    }
+    const key = keys.get(header.kid);
+    if (!key) {
+      return { ok: false, error: "ID token was signed with an unknown key.", status: 401 };
+    }
+    const signatureValid = verify(
+      "RSA-SHA256",
+      Buffer.from(`${parts[0]}.${parts[1]}`),
+      key,
+      Buffer.from(parts[2], "base64url")
+    );
+    if (!signatureValid) {
+      return { ok: false, error: "ID token signature is invalid.", status: 401 };
+    }
+  }
+
+  const claimError = checkClaims(payload, project);
+  if (claimError) {
+    return { ok: false, error: claimError, status: 401 };
+  }
+  return {
+    ok: true,
+    user: {
+      uid: payload.sub as string,
+      email: typeof payload.email === "string" ? payload.email : "",
+      admin: payload.admin === true,
+      plan: typeof payload.plan === "string" ? payload.plan : ""
+    }
+  };
+}
+
+export async function authenticateRequest(request: NextRequest): Promise<AuthResult> {
+  const header = request.headers.get("authorization") || "";
+  const token = header.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token) {
+    return { ok: false, error: "Sign in required.", status: 401 };
+  }
+  return verifyFirebaseIdToken(token);
+}
@@ -0,0 +1,406 @@
+import { ensurePeriod } from "@/lib/usg/format";
+
+export type StructuredTemplateId =
+  | "CT_HEAD"
+  | "CT_CHEST"
+  | "MRI_BRAIN"
+  | "MRI_LUMBAR_SPINE"
+  | "XRAY_CHEST"
+  | "XRAY_KNEE";
+
+export type StructuredFieldDef = {
+  key: string;
+  label: string;
+  normal: string;
+};
+
+// A row renders as one line of sentences; a labelled row gets its own
+// "Label: ..." line under the section heading.
+export type StructuredRowDef = {
+  label: string | null;
+  fields: StructuredFieldDef[];
+};
+
+export type StructuredSectionDef = {
+  heading: string;
+  rows: StructuredRowDef[];
+};
+
+export type StructuredOrganDef = {
+  key: string;
+  mainField: string;
+  detailFields: string[];
+};
+
+export type StructuredTemplateDef = {
+  id: StructuredTemplateId;
+  reportTitle: string;
+  sections: StructuredSectionDef[];
+  organs: StructuredOrganDef[];
+};
+
+export type StructuredFieldOverrides = Record<string, string>;
+
+export type StructuredOrganState =
+  | "visualized"
+  | "not_visualized"
+  | "not_assessed"
+  | "surgically_absent"
+  | "post_operative";
+
+// Detail the radiologist dictated for an organ whose main statement says it
+// is absent, not seen or not assessed. Both are kept for them to resolve.
+export type StructuredOrganStateConflict = {
+  organKey: string;
+  state: StructuredOrganState;
+  mainLabel: string;
+  detailLabels: string[];
+};
+
+export type StructuredConsistencyNormalization = {
+  overrides: StructuredFieldOverrides;
+  suppressedFields: string[];
+  organStates: Record<string, StructuredOrganState>;
+  conflicts: StructuredOrganStateConflict[];
+};
+
+export type StructuredPatientInfo = {
+  name?: string;
+  gender?: string;
+  date?: string;
+};
+
+export const LUMBAR_DISC_LEVELS = ["L1-L2", "L2-L3", "L3-L4", "L4-L5", "L5-S1"] as const;
+
+const NOT_VISUALIZED_PATTERN =
+  /\b(not\s+(?:well\s+)?visuali[sz]ed|non[-\s]?visuali[sz]ed|could\s+not\s+be\s+visuali[sz]ed|obscured)\b/i;
+const NOT_ASSESSED_PATTERN =
+  /\b(not\s+assessed|cannot\s+be\s+assessed|not\s+included|not\s+covered|outside\s+the\s+field\s+of\s+view)\b/i;
+const SURGICALLY_ABSENT_PATTERN =
+  /\b(surgically\s+absent|resected|excised|removed|amputat(?:ed|ion)|pneumonectomy|lobectomy)\b/i;
+const POST_OPERATIVE_PATTERN =
+  /\b(post[-\s]?operative|post[-\s]?op|prosthe(?:sis|tic)|arthroplasty|replacement|fusion|laminectomy|discectomy|fixation|hardware|stent(?:ed)?)\b/i;
+
+function field(key: string, label: string, normal: string): StructuredFieldDef {
+  return { key, label, normal };
+}
+
+function section(heading: string, fields: StructuredFieldDef[]): StructuredSectionDef {
+  return { heading, rows: [{ label: null, fields }] };
+}
+
+function levelKey(level: string) {
+  return level.toLowerCase().replace(/-/g, "_");
+}
+
+function lumbarDiscRows(): StructuredRowDef[] {
+  return LUMBAR_DISC_LEVELS.map((level) => {
+    const key = levelKey(level);
+    return {
+      label: level,
+      fields: [
+        field(`${key}_disc`, `${level} disc`, "No disc bulge or herniation"),
+        field(`${key}_canal`, `${level} spinal canal`, "Spinal canal is adequate"),
+        field(`${key}_foramina`, `${level} neural foramina`, "Neural foramina are patent")
+      ]
+    };
+  });
+}
+
+const STRUCTURED_TEMPLATES: Record<StructuredTemplateId, StructuredTemplateDef> = {
+  CT_HEAD: {
+    id: "CT_HEAD",
+    reportTitle: "CT HEAD",
+    sections: [
+      section("Parenchyma", [
+        field(
+          "parenchyma_main",
+          "Brain parenchyma",
+          "Brain parenchyma shows normal attenuation with preserved grey-white matter differentiation"
+        ),
+        field("parenchyma_focal_lesion", "Focal lesion", "No focal lesion is seen"),
+        field("hemorrhage", "Hemorrhage", "No intracranial hemorrhage is seen"),
+        field("midline_shift", "Midline shift", "No midline shift")
+      ]),
+      section("Ventricles", [
+        field("ventricles", "Ventricular system", "Ventricular system is normal in size and configuration"),
+        field("cisterns", "Basal cisterns", "Basal cisterns are patent")
+      ]),
+      section("Extra-axial", [
+        field("extra_axial", "Extra-axial spaces", "No extra-axial collection is seen")
+      ]),
+      section("Bones/Sinuses", [
+        field("skull", "Skull bones", "Calvarium is intact"),
+        field(
+          "sinuses",
+          "Paranasal sinuses and mastoids",
+          "Visualized paranasal sinuses and mastoid air cells are clear"
+        )
+      ])
+    ],
+    organs: []
+  },
+  CT_CHEST: {
+    id: "CT_CHEST",
+    reportTitle: "CT CHEST",
+    sections: [
+      section("Lungs", [
+        field("lungs_main", "Lung parenchyma", "Both lungs are clear"),
+        field("lungs_nodules", "Nodules or masses", "No pulmonary nodule or mass is seen"),
+        field("airways", "Airways", "Tracheobronchial tree is patent")
+      ]),
+      section("Pleura", [
+        field("pleura", "Pleura", "No pleural effusion or pneumothorax")
+      ]),
+      section("Mediastinum", [
+        field("mediastinum", "Mediastinum", "Mediastinum is central"),
+        field(
+          "lymph_nodes",
+          "Lymph nodes",
+          "No significant mediastinal or hilar lymphadenopathy"
+        )
+      ]),
+      section("Cardiac/Vessels", [
+        field("heart", "Heart and pericardium", "Heart size is normal. No pericardial effusion"),
+        field("great_vessels", "Great vessels", "Great vessels are normal in calibre")
+      ]),
+      section("Other", [
+        field("chest_wall", "Chest wall and bones", "Chest wall and visualized bones are unremarkable"),
+        field("upper_abdomen", "Upper abdomen", "Visualized upper abdomen is unremarkable")
+      ])
+    ],
+    organs: [
+      { key: "lungs", mainField: "lungs_main", detailFields: ["lungs_nodules", "airways"] }
+    ]
+  },
+  MRI_BRAIN: {
+    id: "MRI_BRAIN",
+    reportTitle: "MRI BRAIN",
+    sections: [
+      section("Parenchyma", [
+        field(
+          "parenchyma_main",
+          "Brain parenchyma",
+          "Brain parenchyma shows normal signal intensity on all sequences"
+        ),
+        field("parenchyma_focal_lesion", "Focal lesion", "No focal lesion is seen"),
+        field("hemorrhage", "Hemorrhage", "No blooming on susceptibility-weighted images"),
+        field("midline_shift", "Midline shift", "No midline shift")
+      ]),
+      section("Diffusion", [
+        field("diffusion", "Diffusion restriction", "No diffusion restriction is seen")
+      ]),
+      section("Ventricles", [
+        field("ventricles", "Ventricles and sulci", "Ventricles and sulci are normal for age")
+      ]),
+      section("Posterior Fossa", [
+        field("posterior_fossa", "Brainstem and cerebellum", "Brainstem and cerebellum are normal")
+      ]),
+      section("Other", [
+        field("pituitary", "Pituitary and sella", "Pituitary gland and sella are normal"),
+        field("orbits", "Orbits", "Visualized orbits are normal"),
+        field("sinuses", "Paranasal sinuses", "Visualized paranasal sinuses are clear")
+      ])
+    ],
+    organs: []
+  },
+  MRI_LUMBAR_SPINE: {
+    id: "MRI_LUMBAR_SPINE",
+    reportTitle: "MRI LUMBAR SPINE",
+    sections: [
+      section("Alignment", [
+        field("alignment", "Alignment", "Normal lumbar lordosis is maintained. No listhesis"),
+        field(
+          "marrow",
+          "Vertebral bodies and marrow signal",
+          "Vertebral bodies show normal height and marrow signal"
+        )
+      ]),
+      { heading: "Disc levels", rows: lumbarDiscRows() },
+      section("Neural Elements", [
+        field(
+          "conus",
+          "Conus medullaris",
+          "Conus medullaris terminates at a normal level and shows normal signal"
+        ),
+        field("cauda_equina", "Cauda equina", "Cauda equina nerve roots are normal")
+      ]),
+      section("Soft Tissues", [
+        field("paraspinal", "Paraspinal soft tissues", "Paraspinal soft tissues are normal")
+      ])
+    ],
+    organs: [
+      ...LUMBAR_DISC_LEVELS.map((level) => {
+        const key = levelKey(level);
+        return {
+          key,
+          mainField: `${key}_disc`,
+          detailFields: [`${key}_canal`, `${key}_foramina`]
+        };
+      }),
+      { key: "conus", mainField: "conus", detailFields: ["cauda_equina"] }
+    ]
+  },
+  XRAY_CHEST: {
+    id: "XRAY_CHEST",
+    reportTitle: "X-RAY CHEST",
+    sections: [
+      section("Lungs", [
+        field("lung_fields", "Lung fields", "Both lung fields are clear")
+      ]),
+      section("Pleura", [
+        field("costophrenic_angles", "Costophrenic angles", "Both costophrenic angles are clear"),
+        field("diaphragm", "Diaphragm", "Both domes of diaphragm are normal")
+      ]),
+      section("Cardiomediastinal", [
+        field("cardiac_silhouette", "Cardiac silhouette", "Cardiac silhouette is normal in size"),
+        field("mediastinum", "Mediastinum", "Mediastinum is central")
+      ]),
+      section("Bones/Devices", [
+        field("bones", "Bony thorax", "Visualized bony thorax is normal"),
+        field("lines_tubes", "Lines and tubes", "")
+      ])
+    ],
+    organs: []
+  },
+  XRAY_KNEE: {
+    id: "XRAY_KNEE",
+    reportTitle: "X-RAY KNEE",
+    sections: [
+      section("Alignment", [
+        field("alignment", "Bony alignment", "Bony alignment is maintained")
+      ]),
+      section("Bones", [
+        field("fracture", "Fracture or dislocation", "No fracture or dislocation is seen"),
+        field("osteophytes", "Osteophytes", "No significant osteophytes")
+      ]),
+      section("Joint Spaces", [
+        field("joint_spaces", "Joint spaces", "Joint spaces are preserved")
+      ]),
+      section("Soft Tissues", [
+        field("soft_tissue", "Soft tissue swelling", "No soft tissue swelling"),
+        field("effusion", "Effusion", "No joint effusion")
+      ])
+    ],
+    organs: [
+      { key: "joint", mainField: "joint_spaces", detailFields: ["osteophytes", "effusion"] }
+    ]
+  }
+};
+
+export function getStructuredTemplate(templateId: string): StructuredTemplateDef | null {
+  return Object.prototype.hasOwnProperty.call(STRUCTURED_TEMPLATES, templateId)
+    ? STRUCTURED_TEMPLATES[templateId as StructuredTemplateId]
+    : null;
+}
+
+export function listStructuredFields(template: StructuredTemplateDef) {
+  return template.sections.flatMap((item) => item.rows.flatMap((row) => row.fields));
+}
+
+export function structuredFieldKeys(template: StructuredTemplateDef) {
+  return listStructuredFields(template).map((item) => item.key);
+}
+
+function joinSentences(parts: string[]) {
+  return parts.map(ensurePeriod).filter(Boolean).join(" ");
+}
+
+function inferOrganState(text: string): StructuredOrganState {
+  if (!text) return "visualized";
+  if (SURGICALLY_ABSENT_PATTERN.test(text)) return "surgically_absent";
+  if (NOT_VISUALIZED_PATTERN.test(text)) return "not_visualized";
+  if (NOT_ASSESSED_PATTERN.test(text)) return "not_assessed";
+  if (POST_OPERATIVE_PATTERN.test(text)) return "post_operative";
+  return "visualized";
+}
+
+// An organ that is absent, not seen, not assessed or post-operative drops the
+// normal defaults of its detail fields, so no template text can contradict
+// the main statement. Dictated detail is never removed; for the first three
+// states it is reported as a conflict instead.
+export function normalizeStructuredOverrides(params: {
+  template: StructuredTemplateDef;
+  overrides?: StructuredFieldOverrides;
+}): StructuredConsistencyNormalization {
+  const keys = structuredFieldKeys(params.template);
+  const overrides: StructuredFieldOverrides = {};
+  for (const key of keys) {
+    const value = params.overrides?.[key];
+    if (typeof value === "string" && value.trim()) {
+      overrides[key] = value.trim();
+    }
+  }
+
+  const labels = new Map(
+    listStructuredFields(params.template).map((item) => [item.key, item.label])
+  );
+  const suppressed = new Set<string>();
+  const organStates: Record<string, StructuredOrganState> = {};
+  const conflicts: StructuredOrganStateConflict[] = [];
+  for (const organ of params.template.organs) {
+    const state = inferOrganState(overrides[organ.mainField] || "");
+    organStates[organ.key] = state;
+    if (state === "visualized") continue;
+
+    const dictatedDetails = organ.detailFields.filter((detail) => overrides[detail]);
+    for (const detail of organ.detailFields) {
+      if (!overrides[detail]) suppressed.add(detail);
+    }
+    if (state !== "post_operative" && dictatedDetails.length) {
+      conflicts.push({
+        organKey: organ.key,
+        state,
+        mainLabel: labels.get(organ.mainField) || organ.mainField,
+        detailLabels: dictatedDetails.map((detail) => labels.get(detail) || detail)
+      });
+    }
+  }
+
+  return { overrides, suppressedFields: Array.from(suppressed), organStates, conflicts };
+}
+
+export function buildStructuredReport(params: {
+  template: StructuredTemplateDef;
+  patient?: StructuredPatientInfo;
+  overrides?: StructuredFieldOverrides;
+  suppressedFields?: string[];
+}) {
+  const consistency = normalizeStructuredOverrides({
+    template: params.template,
+    overrides: params.overrides
+  });
+  const overrides = consistency.overrides;
+  const suppressedFields = new Set([
+    ...consistency.suppressedFields,
+    ...(params.suppressedFields || [])
+  ]);
+  const resolve = (item: StructuredFieldDef) =>
+    suppressedFields.has(item.key) ? "" : overrides[item.key] || item.normal;
+
+  const patient = params.patient || {};
+  const lines: string[] = [];
+  lines.push(
+    `NAME: ${patient.name?.trim() || "________________"}    GENDER: ${
+      patient.gender?.trim() || "________"
+    }    DATE: ${patient.date?.trim() || "____/____/______"}`
+  );
+  lines.push(params.template.reportTitle);
+
+  for (const item of params.template.sections) {
+    const rowLines = item.rows
+      .map((row) => ({ label: row.label, text: joinSentences(row.fields.map(resolve)) }))
+      .filter((row) => row.text);
+    if (!rowLines.length) continue;
+    if (item.rows.length === 1 && item.rows[0].label === null) {
+      lines.push(`${item.heading}: ${rowLines[0].text}`);
+      continue;
+    }
+    lines.push(`${item.heading}:`);
+    for (const row of rowLines) {
+      lines.push(row.label ? `${row.label}: ${row.text}` : row.text);
+    }
+  }
+
+  return lines.join("\n");
+}
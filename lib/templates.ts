@@ -227,9 +227,34 @@ export const templates: Template[] = [
       "Deterministic Section Fill"
     ]
   },
+  {
+    id: "USG_THYROID",
+    title: "USG Thyroid / Neck",
+    allowedTopics: [
+      "Right lobe",
+      "Left lobe",
+      "Isthmus",
+      "Thyroid nodules",
+      "ACR TI-RADS",
+      "Cervical lymph nodes"
+    ],
+    headings: ["Thyroid Lobes", "Nodules", "Lymph Nodes", "Impression"]
+  },
+  {
+    id: "USG_BREAST",
+    title: "USG Breast",
+    allowedTopics: [
+      "Right breast",
+      "Left breast",
+      "Breast lesions",
+      "BI-RADS lexicon",
+      "Axillary lymph nodes"
+    ],
+    headings: ["Right Breast", "Left Breast", "Axillae", "Impression"]
+  },
   {
     id: "DOPPLER_LOWER_LIMB",
-    title: "Doppler Lower Limb",
+    title: "Doppler Lower Limb (Venous)",
     allowedTopics: [
       "Common femoral vein",
       "Femoral vein",
@@ -239,7 +264,51 @@ export const templates: Template[] = [
       "Flow pattern",
       "Thrombus"
     ],
-    headings: ["Proximal Veins", "Distal Veins", "Flow/Thrombus"]
+    headings: ["Right", "Left", "Superficial Veins"]
+  },
+  {
+    id: "DOPPLER_LOWER_LIMB_ARTERIAL",
+    title: "Doppler Lower Limb (Arterial)",
+    allowedTopics: [
+      "Common femoral artery",
+      "Superficial femoral artery",
+      "Popliteal artery",
+      "Tibial arteries",
+      "Dorsalis pedis artery",
+      "Waveform",
+      "Peak systolic velocity",
+      "Occlusion"
+    ],
+    headings: ["Right", "Left"]
+  },
+  {
+    id: "USG_OBSTETRIC_FIRST_TRIMESTER",
+    title: "USG Obstetric (First Trimester)",
+    allowedTopics: [
+      "Gestational sac",
+      "Yolk sac",
+      "Crown-rump length",
+      "Cardiac activity",
+      "Nuchal translucency",
+      "Chorionicity",
+      "Adnexa"
+    ],
+    headings: ["Gestation", "Embryo", "Dating", "Impression"]
+  },
+  {
+    id: "USG_OBSTETRIC_SECOND_THIRD_TRIMESTER",
+    title: "USG Obstetric (Second/Third Trimester)",
+    allowedTopics: [
+      "Fetal number",
+      "Presentation",
+      "Cardiac activity",
+      "Biometry",
+      "Estimated fetal weight",
+      "Placenta",
+      "Liquor",
+      "Cervix"
+    ],
+    headings: ["Gestation", "Biometry", "Placenta/Liquor", "Impression"]
   }
 ];
 
@@ -0,0 +1,50 @@
+export type DiffOpKind = "equal" | "remove" | "add";
+
+export type DiffOp<T> = {
+  kind: DiffOpKind;
+  value: T;
+};
+
+// Longest-common-subsequence diff, used for the admin comparison view and
+// for the compact edit diffs stored in the report audit trail.
+export function lcsDiff<T>(left: T[], right: T[], equals: (a: T, b: T) => boolean) {
+  const rows = left.length;
+  const cols = right.length;
+  const dp: number[][] = Array.from({ length: rows + 1 }, () =>
+    Array<number>(cols + 1).fill(0)
+  );
+
+  for (let i = 1; i <= rows; i += 1) {
+    for (let j = 1; j <= cols; j += 1) {
+      if (equals(left[i - 1], right[j - 1])) {
+        dp[i][j] = dp[i - 1][j - 1] + 1;
+      } else {
+        dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1]);
+      }
+    }
+  }
+
+  const ops: DiffOp<T>[] = [];
+  let i = rows;
+  let j = cols;
+
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && equals(left[i - 1], right[j - 1])) {
+      ops.push({ kind: "equal", value: left[i - 1] });
+      i -= 1;
+      j -= 1;
+      continue;
+    }
+    if (j > 0 && (i === 0 || dp[i][j - 1] > dp[i - 1][j])) {
+      ops.push({ kind: "add", value: right[j - 1] });
+      j -= 1;
+      continue;
+    }
+    if (i > 0) {
+      ops.push({ kind: "remove", value: left[i - 1] });
+      i -= 1;
+    }
+  }
+
+  return ops.reverse();
+}
@@ -0,0 +1,215 @@
+export type TranscriptSegment = {
+  start_sec: number | null;
+  end_sec: number | null;
+  text: string;
+};
+
+export type DictationTranscript = {
+  text: string;
+  segments: TranscriptSegment[];
+};
+
+const MAX_TRANSCRIPT_SEGMENTS = 2000;
+
+function normalizeText(value: unknown) {
+  if (typeof value !== "string") return "";
+  return value.replace(/\s+/g, " ").trim();
+}
+
+function parseSeconds(value: unknown) {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value >= 0 ? Math.round(value * 10) / 10 : null;
+  }
+  if (typeof value !== "string" || !value.trim()) return null;
+  const clock = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/);
+  if (clock) {
+    const hours = clock[1] ? parseInt(clock[1], 10) : 0;
+    const minutes = parseInt(clock[2], 10);
+    const seconds = parseFloat(clock[3]);
+    return Math.round((hours * 3600 + minutes * 60 + seconds) * 10) / 10;
+  }
+  const numeric = parseFloat(value);
+  return Number.isFinite(numeric) && numeric >= 0 ? Math.round(numeric * 10) / 10 : null;
+}
+
+export function sanitizeTranscript(input: unknown): DictationTranscript | null {
+  let parsed: unknown = input;
+  if (typeof parsed === "string") {
+    try {
+      parsed = JSON.parse(parsed);
+    } catch {
+      return null;
+    }
+  }
+
+  if (!parsed || typeof parsed !== "object") {
+    return null;
+  }
+
+  const raw = parsed as Record<string, unknown>;
+  const segmentsRaw = Array.isArray(raw.segments) ? raw.segments : [];
+  const segments: TranscriptSegment[] = [];
+  for (const item of segmentsRaw.slice(0, MAX_TRANSCRIPT_SEGMENTS)) {
+    if (!item || typeof item !== "object") continue;
+    const row = item as Record<string, unknown>;
+    const text = normalizeText(row.text);
+    if (!text) continue;
+    const start_sec = parseSeconds(row.start_sec ?? row.start);
+    const end_sec = parseSeconds(row.end_sec ?? row.end);
+    segments.push({
+      start_sec,
+      end_sec: start_sec !== null && end_sec !== null && end_sec < start_sec ? start_sec : end_sec,
+      text
+    });
+  }
+
+  const fallbackText = normalizeText(raw.text ?? raw.transcript);
+  if (!segments.length && fallbackText) {
+    segments.push({ start_sec: null, end_sec: null, text: fallbackText });
+  }
+  if (!segments.length) {
+    return null;
+  }
+
+  return {
+    text: segments.map((segment) => segment.text).join(" "),
+    segments
+  };
+}
+
+export function transcriptFromPlainText(text: string): DictationTranscript | null {
+  return sanitizeTranscript({ text });
+}
+
+function roundSeconds(value: number) {
+  return Math.round(value * 10) / 10;
+}
+
+// Moves a transcript of one audio piece onto the timeline of the full
+// recording and keeps only the lines that start inside [fromSec, toSec).
+export function windowTranscript(
+  transcript: DictationTranscript,
+  params: { offsetSec: number; fromSec: number; toSec: number }
+): DictationTranscript | null {
+  const segments = transcript.segments
+    .map((segment) => ({
+      start_sec:
+        segment.start_sec === null ? null : roundSeconds(segment.start_sec + params.offsetSec),
+      end_sec:
+        segment.end_sec === null ? null : roundSeconds(segment.end_sec + params.offsetSec),
+      text: segment.text
+    }))
+    .filter(
+      (segment) =>
+        segment.start_sec === null ||
+        (segment.start_sec >= params.fromSec && segment.start_sec < params.toSec)
+    );
+  if (!segments.length) return null;
+  return { text: segments.map((segment) => segment.text).join(" "), segments };
+}
+
+export function concatTranscripts(
+  transcripts: DictationTranscript[]
+): DictationTranscript | null {
+  const segments: TranscriptSegment[] = [];
+  for (const transcript of transcripts) {
+    for (const segment of transcript.segments) {
+      const previous = segments[segments.length - 1];
+      if (previous && previous.start_sec === null && previous.text === segment.text) continue;
+      segments.push(segment);
+    }
+  }
+  if (!segments.length) return null;
+  return {
+    text: segments.map((segment) => segment.text).join(" "),
+    segments: segments.slice(0, MAX_TRANSCRIPT_SEGMENTS)
+  };
+}
+
+// Cuts a transcript at the given start times, in ascending order. Untimed
+// lines stay with the piece before them.
+export function splitTranscriptAt(
+  transcript: DictationTranscript,
+  boundariesSec: number[]
+): DictationTranscript[] {
+  const groups: TranscriptSegment[][] = [[]];
+  let boundary = 0;
+  for (const segment of transcript.segments) {
+    while (
+      boundary < boundariesSec.length &&
+      segment.start_sec !== null &&
+      segment.start_sec >= boundariesSec[boundary]
+    ) {
+      boundary += 1;
+      groups.push([]);
+    }
+    groups[groups.length - 1].push(segment);
+  }
+  return groups
+    .filter((segments) => segments.length)
+    .map((segments) => ({ text: segments.map((segment) => segment.text).join(" "), segments }));
+}
+
+export function formatTranscriptTimestamp(seconds: number | null) {
+  if (seconds === null || !Number.isFinite(seconds)) return "--:--";
+  const whole = Math.floor(seconds);
+  const minutes = Math.floor(whole / 60);
+  const remainder = whole % 60;
+  return `${String(minutes).padStart(2, "0")}:${String(remainder).padStart(2, "0")}`;
+}
+
+export function formatTranscriptForPrompt(transcript: DictationTranscript) {
+  return transcript.segments
+    .map((segment) =>
+      segment.start_sec === null
+        ? segment.text
+        : `[${formatTranscriptTimestamp(segment.start_sec)}-${formatTranscriptTimestamp(
+            segment.end_sec
+          )}] ${segment.text}`
+    )
+    .join("\n");
+}
+
+export function hasTranscriptTimestamps(transcript: DictationTranscript | null) {
+  return Boolean(transcript?.segments.some((segment) => segment.start_sec !== null));
+}
+
+function phraseTokens(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9.]+/g, " ")
+    .split(/\s+/)
+    .map((token) => token.replace(/^\.+|\.+$/g, ""))
+    .filter(Boolean);
+}
+
+export function locateTranscriptPhrase(
+  transcript: DictationTranscript | null,
+  phrase: string
+) {
+  const wanted = phraseTokens(phrase);
+  if (!transcript || !wanted.length) return null;
+
+  let best: { start_sec: number | null; end_sec: number | null; coverage: number } | null =
+    null;
+  const segments = transcript.segments;
+  for (let i = 0; i < segments.length; i += 1) {
+    // Dictated phrases regularly straddle a pause, so also score each segment
+    // together with its neighbour.
+    for (let span = 1; span <= 2 && i + span <= segments.length; span += 1) {
+      const window = segments.slice(i, i + span);
+      const available = new Set(phraseTokens(window.map((item) => item.text).join(" ")));
+      const hits = wanted.filter((token) => available.has(token)).length;
+      const coverage = hits / wanted.length;
+      if (!best || coverage > best.coverage + 0.001) {
+        best = {
+          start_sec: window[0].start_sec,
+          end_sec: window[window.length - 1].end_sec,
+          coverage
+        };
+      }
+    }
+  }
+
+  return best && best.coverage >= 0.6 ? best : null;
+}
@@ -0,0 +1,51 @@
+import { appendFile, mkdir, readFile } from "fs/promises";
+import path from "path";
+import type { UsageLedgerEntry, UsageLedgerStore } from "@/lib/usageLedger/types";
+
+export const DEFAULT_USAGE_LEDGER_FILE = ".usage-ledger.jsonl";
+
+type FileLine = {
+  month: string;
+  entry: UsageLedgerEntry;
+};
+
+// One JSON line per entry. Appends are serialised through one promise chain,
+// so it is only safe with a single server process writing the file.
+export function createFileStore(params: { filePath?: string } = {}): UsageLedgerStore {
+  const filePath = path.resolve(process.cwd(), params.filePath || DEFAULT_USAGE_LEDGER_FILE);
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function write(month: string, entry: UsageLedgerEntry) {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await appendFile(filePath, `${JSON.stringify({ month, entry } satisfies FileLine)}\n`, "utf8");
+  }
+
+  function append(month: string, entry: UsageLedgerEntry) {
+    const next = queue.then(() => write(month, entry));
+    queue = next.catch(() => undefined);
+    return next;
+  }
+
+  async function list(month: string) {
+    let text = "";
+    try {
+      text = await readFile(filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === "ENOENT") return [];
+      throw error;
+    }
+    const entries: UsageLedgerEntry[] = [];
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const parsed = JSON.parse(line) as FileLine;
+        if (parsed.month === month && parsed.entry) entries.push(parsed.entry);
+      } catch {
+        // A line cut short by a crash is skipped rather than failing the read.
+      }
+    }
+    return entries;
+  }
+
+  return { name: "file", append, list };
+}
@@ -0,0 +1,120 @@
+import type { GenerationUsage } from "@/lib/llm/metering";
+import type { AuthenticatedUser } from "@/lib/serverAuth";
+import { createFileStore } from "@/lib/usageLedger/fileStore";
+import { createMemoryStore } from "@/lib/usageLedger/memoryStore";
+import { createRedisStore } from "@/lib/usageLedger/redisStore";
+import type {
+  UsageLedgerEntry,
+  UsageLedgerStore,
+  UsageLedgerStoreName
+} from "@/lib/usageLedger/types";
+
+export type {
+  UsageLedgerEntry,
+  UsageLedgerStore,
+  UsageLedgerStoreName
+} from "@/lib/usageLedger/types";
+
+let cachedStore: UsageLedgerStore | null = null;
+
+function readEnv(name: string) {
+  return (process.env[name] || "").trim();
+}
+
+function normalizeStoreName(value: string): UsageLedgerStoreName | "" {
+  const normalized = value.toLowerCase();
+  if (!normalized || normalized === "memory") return "memory";
+  if (normalized === "file") return "file";
+  if (normalized === "redis") return "redis";
+  return "";
+}
+
+// A memory ledger starts empty on every cold start, so production has to name
+// a store that outlives the process.
+export function getUsageLedgerConfigError() {
+  const name = normalizeStoreName(readEnv("USAGE_LEDGER_STORE"));
+  if (!name) {
+    return `Unknown USAGE_LEDGER_STORE "${readEnv("USAGE_LEDGER_STORE")}". Use memory, file, or redis.`;
+  }
+  if (name === "memory" && process.env.NODE_ENV === "production") {
+    return "USAGE_LEDGER_STORE must be file or redis in production.";
+  }
+  if (
+    name === "redis" &&
+    (!readEnv("USAGE_LEDGER_REDIS_URL") || !readEnv("USAGE_LEDGER_REDIS_TOKEN"))
+  ) {
+    return "USAGE_LEDGER_REDIS_URL and USAGE_LEDGER_REDIS_TOKEN must both be set.";
+  }
+  return "";
+}
+
+export function getUsageLedgerStore(): UsageLedgerStore {
+  if (cachedStore) return cachedStore;
+
+  const configError = getUsageLedgerConfigError();
+  if (configError) {
+    throw new Error(configError);
+  }
+
+  const name = normalizeStoreName(readEnv("USAGE_LEDGER_STORE"));
+  if (name === "redis") {
+    cachedStore = createRedisStore({
+      url: readEnv("USAGE_LEDGER_REDIS_URL"),
+      token: readEnv("USAGE_LEDGER_REDIS_TOKEN")
+    });
+  } else if (name === "file") {
+    cachedStore = createFileStore({ filePath: readEnv("USAGE_LEDGER_FILE") || undefined });
+  } else {
+    cachedStore = createMemoryStore();
+  }
+  return cachedStore;
+}
+
+export function usageLedgerMonth(ms: number) {
+  return new Date(ms).toISOString().slice(0, 7);
+}
+
+// Firestore document ids only; anything else is dropped rather than stored.
+export function parseLedgerReportId(value: string | undefined) {
+  const trimmed = (value || "").trim();
+  return /^[A-Za-z0-9_-]{1,128}$/.test(trimmed) ? trimmed : "";
+}
+
+// Written from the server with the verified uid, so clients cannot add to or
+// edit what they were billed. Requests that made no model calls are skipped,
+// and a ledger outage is logged rather than failing the report.
+export async function recordGenerationUsage(params: {
+  user: AuthenticatedUser;
+  reportId: string;
+  templateId: string;
+  templateTitle: string;
+  usage: GenerationUsage;
+  incurredAtMs?: number;
+}) {
+  if (!params.usage.calls) return;
+  const incurredAtMs = params.incurredAtMs ?? Date.now();
+  const entry: UsageLedgerEntry = {
+    uid: params.user.uid,
+    email: params.user.email,
+    reportId: params.reportId,
+    templateId: params.templateId,
+    templateTitle: params.templateTitle,
+    model: params.usage.model,
+    promptTokens: params.usage.promptTokens,
+    audioTokens: params.usage.audioTokens,
+    outputTokens: params.usage.outputTokens,
+    latencyMs: params.usage.latencyMs,
+    calls: params.usage.calls,
+    costUsd: params.usage.costUsd,
+    incurredAtMs
+  };
+  try {
+    await getUsageLedgerStore().append(usageLedgerMonth(incurredAtMs), entry);
+  } catch (error) {
+    console.warn(`Usage ledger unavailable: ${(error as Error).message}`);
+  }
+}
+
+export async function readUsageLedger(month: string) {
+  return getUsageLedgerStore().list(month);
+}
@@ -0,0 +1,19 @@
+import type { UsageLedgerEntry, UsageLedgerStore } from "@/lib/usageLedger/types";
+
+// Process-local, so the ledger is lost on every cold start. Meant for local
+// development only.
+export function createMemoryStore(): UsageLedgerStore {
+  const months = new Map<string, UsageLedgerEntry[]>();
+
+  async function append(month: string, entry: UsageLedgerEntry) {
+    const entries = months.get(month) || [];
+    entries.push(entry);
+    months.set(month, entries);
+  }
+
+  async function list(month: string) {
+    return [...(months.get(month) || [])];
+  }
+
+  return { name: "memory", append, list };
+}
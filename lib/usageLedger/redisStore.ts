@@ -0,0 +1,52 @@
+import type { UsageLedgerEntry, UsageLedgerStore } from "@/lib/usageLedger/types";
+
+type RedisRestReply = {
+  result?: unknown;
+  error?: unknown;
+};
+
+// Same Upstash-style REST protocol as the rate limiter's store. RPUSH appends
+// atomically, so concurrent requests never overwrite each other's entries.
+export function createRedisStore(params: { url: string; token: string }): UsageLedgerStore {
+  const baseUrl = params.url.replace(/\/$/, "");
+
+  async function command(args: Array<string | number>) {
+    const response = await fetch(baseUrl, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${params.token}`,
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify(args),
+      cache: "no-store"
+    });
+    const reply = (await response.json().catch(() => ({}))) as RedisRestReply;
+    if (!response.ok || reply.error) {
+      throw new Error(
+        `Redis ${args[0]} failed (${response.status}): ${String(reply.error || "no body")}`
+      );
+    }
+    return reply.result;
+  }
+
+  async function append(month: string, entry: UsageLedgerEntry) {
+    await command(["RPUSH", `usage:ledger:${month}`, JSON.stringify(entry)]);
+  }
+
+  async function list(month: string) {
+    const raw = await command(["LRANGE", `usage:ledger:${month}`, 0, -1]);
+    if (!Array.isArray(raw)) return [];
+    const entries: UsageLedgerEntry[] = [];
+    for (const item of raw) {
+      if (typeof item !== "string") continue;
+      try {
+        entries.push(JSON.parse(item) as UsageLedgerEntry);
+      } catch {
+        // Skip anything that is not a ledger entry.
+      }
+    }
+    return entries;
+  }
+
+  return { name: "redis", append, list };
+}
@@ -0,0 +1,28 @@
+export type UsageLedgerStoreName = "memory" | "file" | "redis";
+
+// One generate request's model usage, written by the server when the request
+// ends. `incurredAtMs` is when the calls were made, not when the report was.
+// `reportId` is empty when the client did not name the report it generates.
+export type UsageLedgerEntry = {
+  uid: string;
+  email: string;
+  reportId: string;
+  templateId: string;
+  templateTitle: string;
+  model: string;
+  promptTokens: number;
+  audioTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  calls: number;
+  costUsd: number;
+  incurredAtMs: number;
+};
+
+// Entries are append-only and grouped by UTC calendar month ("2026-10"), so a
+// month-to-date total reads one list.
+export type UsageLedgerStore = {
+  name: UsageLedgerStoreName;
+  append: (month: string, entry: UsageLedgerEntry) => Promise<void>;
+  list: (month: string) => Promise<UsageLedgerEntry[]>;
+};
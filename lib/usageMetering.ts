@@ -0,0 +1,233 @@
+import type { GenerationUsage } from "@/lib/llm/metering";
+
+export type UsageGroupBy = "day" | "template" | "radiologist";
+
+// One generate request's model usage, as read from the server-written ledger.
+export type UsageEntry = {
+  reportId: string;
+  ownerUid: string;
+  ownerEmail: string;
+  templateTitle: string;
+  incurredAtMs: number;
+  model: string;
+  promptTokens: number;
+  audioTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  costUsd: number;
+};
+
+export type UsageRow = {
+  key: string;
+  label: string;
+  reports: number;
+  generations: number;
+  promptTokens: number;
+  audioTokens: number;
+  outputTokens: number;
+  costUsd: number;
+};
+
+export type UsageBudgets = {
+  centreMonthlyUsd: number;
+  radiologistMonthlyUsd: number;
+};
+
+export type UsageBudgetAlert = {
+  scope: "centre" | "radiologist";
+  label: string;
+  spentUsd: number;
+  budgetUsd: number;
+  level: "warning" | "exceeded";
+};
+
+export const USAGE_BUDGET_WARNING_RATIO = 0.8;
+
+function toCount(value: unknown) {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+}
+
+export function parseGenerationUsage(value: unknown): GenerationUsage | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  const calls = Math.round(toCount(raw.calls));
+  if (!calls) return null;
+  return {
+    provider:
+      raw.provider === "gemini" || raw.provider === "openai" || raw.provider === "replay"
+        ? raw.provider
+        : "",
+    model: String(raw.model || ""),
+    promptTokens: Math.round(toCount(raw.promptTokens)),
+    audioTokens: Math.round(toCount(raw.audioTokens)),
+    outputTokens: Math.round(toCount(raw.outputTokens)),
+    totalTokens: Math.round(toCount(raw.totalTokens)),
+    latencyMs: Math.round(toCount(raw.latencyMs)),
+    calls,
+    costUsd: toCount(raw.costUsd)
+  };
+}
+
+// The llm* fields on a report accumulate across regenerations and section
+// redictations, so they hold everything the report has cost so far. They are
+// written from the same `usage` payload the ledger records.
+export function readReportUsageFields(data: Record<string, unknown>) {
+  return {
+    llmModel: String(data.llmModel || ""),
+    llmPromptTokens: toCount(data.llmPromptTokens),
+    llmAudioTokens: toCount(data.llmAudioTokens),
+    llmOutputTokens: toCount(data.llmOutputTokens),
+    llmLatencyMs: toCount(data.llmLatencyMs),
+    llmCostUsd: toCount(data.llmCostUsd),
+    llmCallCount: toCount(data.llmCallCount)
+  };
+}
+
+// Reads the `entries` list returned by /api/usage.
+export function parseUsageEntries(value: unknown): UsageEntry[] {
+  if (!Array.isArray(value)) return [];
+  const entries: UsageEntry[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== "object") continue;
+    const raw = item as Record<string, unknown>;
+    entries.push({
+      reportId: String(raw.reportId || ""),
+      ownerUid: String(raw.uid || ""),
+      ownerEmail: String(raw.email || ""),
+      templateTitle: String(raw.templateTitle || raw.templateId || ""),
+      incurredAtMs: toCount(raw.incurredAtMs),
+      model: String(raw.model || ""),
+      promptTokens: Math.round(toCount(raw.promptTokens)),
+      audioTokens: Math.round(toCount(raw.audioTokens)),
+      outputTokens: Math.round(toCount(raw.outputTokens)),
+      latencyMs: Math.round(toCount(raw.latencyMs)),
+      costUsd: toCount(raw.costUsd)
+    });
+  }
+  return entries;
+}
+
+// UTC, like the ledger's month keys, so each day falls inside one month.
+function dayKey(ms: number) {
+  const date = new Date(ms);
+  const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(date.getUTCDate()).padStart(2, "0");
+  return `${date.getUTCFullYear()}-${month}-${day}`;
+}
+
+function groupKey(
+  entry: UsageEntry,
+  groupBy: UsageGroupBy,
+  ownerNames: Record<string, string>
+) {
+  if (groupBy === "day") {
+    const key = entry.incurredAtMs ? dayKey(entry.incurredAtMs) : "unknown";
+    return { key, label: key === "unknown" ? "Unknown date" : key };
+  }
+  if (groupBy === "template") {
+    const label = entry.templateTitle || "Unknown Template";
+    return { key: label, label };
+  }
+  return {
+    key: entry.ownerUid || "unknown",
+    label: ownerNames[entry.ownerUid] || entry.ownerEmail || entry.ownerUid || "Unknown"
+  };
+}
+
+// Days are listed newest first; templates and radiologists by cost.
+// `ownerNames` maps uids to display names; the email is shown otherwise.
+// `reports` counts distinct report ids, so regenerating a report adds a
+// generation but not a report.
+export function aggregateUsage(
+  entries: UsageEntry[],
+  groupBy: UsageGroupBy,
+  ownerNames: Record<string, string> = {}
+): UsageRow[] {
+  const rows = new Map<string, UsageRow>();
+  const reportIds = new Map<string, Set<string>>();
+  for (const entry of entries) {
+    const { key, label } = groupKey(entry, groupBy, ownerNames);
+    const row =
+      rows.get(key) ||
+      {
+        key,
+        label,
+        reports: 0,
+        generations: 0,
+        promptTokens: 0,
+        audioTokens: 0,
+        outputTokens: 0,
+        costUsd: 0
+      };
+    const seen = reportIds.get(key) || new Set<string>();
+    if (entry.reportId && !seen.has(entry.reportId)) {
+      seen.add(entry.reportId);
+      row.reports += 1;
+    }
+    reportIds.set(key, seen);
+    row.generations += 1;
+    row.promptTokens += entry.promptTokens;
+    row.audioTokens += entry.audioTokens;
+    row.outputTokens += entry.outputTokens;
+    row.costUsd += entry.costUsd;
+    rows.set(key, row);
+  }
+  const list = Array.from(rows.values());
+  return groupBy === "day"
+    ? list.sort((a, b) => b.key.localeCompare(a.key))
+    : list.sort((a, b) => b.costUsd - a.costUsd);
+}
+
+function budgetLevel(spentUsd: number, budgetUsd: number): UsageBudgetAlert["level"] | null {
+  if (budgetUsd <= 0) return null;
+  if (spentUsd >= budgetUsd) return "exceeded";
+  if (spentUsd >= budgetUsd * USAGE_BUDGET_WARNING_RATIO) return "warning";
+  return null;
+}
+
+// `monthEntries` is one month of the ledger. A budget of 0 disables that
+// alert.
+export function monthlyBudgetAlerts(
+  monthEntries: UsageEntry[],
+  budgets: UsageBudgets,
+  ownerNames: Record<string, string> = {}
+): UsageBudgetAlert[] {
+  const alerts: UsageBudgetAlert[] = [];
+
+  const centreSpent = monthEntries.reduce((sum, entry) => sum + entry.costUsd, 0);
+  const centreLevel = budgetLevel(centreSpent, budgets.centreMonthlyUsd);
+  if (centreLevel) {
+    alerts.push({
+      scope: "centre",
+      label: "Centre",
+      spentUsd: centreSpent,
+      budgetUsd: budgets.centreMonthlyUsd,
+      level: centreLevel
+    });
+  }
+
+  for (const row of aggregateUsage(monthEntries, "radiologist", ownerNames)) {
+    const level = budgetLevel(row.costUsd, budgets.radiologistMonthlyUsd);
+    if (level) {
+      alerts.push({
+        scope: "radiologist",
+        label: row.label,
+        spentUsd: row.costUsd,
+        budgetUsd: budgets.radiologistMonthlyUsd,
+        level
+      });
+    }
+  }
+  return alerts;
+}
+
+export function formatUsd(value: number) {
+  return `$${value.toFixed(value >= 100 ? 0 : value >= 1 ? 2 : 4)}`;
+}
+
+export function formatTokenCount(value: number) {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1)}k`;
+  return String(Math.round(value));
+}
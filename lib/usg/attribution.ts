@@ -0,0 +1,126 @@
+import { USG_FIELD_KEYS, type UsgFieldOverrides } from "@/lib/usgTemplate";
+import { locateTranscriptPhrase, type DictationTranscript } from "@/lib/transcript";
+
+export type UsgFieldAttribution = {
+  value: string;
+  source_phrase: string;
+  start_sec: number | null;
+  end_sec: number | null;
+  confidence: number;
+};
+
+export type UsgFieldAttributionMap = Partial<
+  Record<keyof UsgFieldOverrides, UsgFieldAttribution>
+>;
+
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+const DEFAULT_UNATTRIBUTED_CONFIDENCE = 0.5;
+const UNVERIFIED_PHRASE_CONFIDENCE_CAP = 0.5;
+
+function normalizeText(value: unknown) {
+  if (typeof value !== "string") return "";
+  return value.replace(/\s+/g, " ").trim();
+}
+
+function parseConfidence(value: unknown) {
+  const parsed = typeof value === "string" ? parseFloat(value) : value;
+  if (typeof parsed !== "number" || !Number.isFinite(parsed)) return null;
+  // Models occasionally answer on a 0-100 scale.
+  const scaled = parsed > 1 && parsed <= 100 ? parsed / 100 : parsed;
+  return Math.round(Math.max(0, Math.min(1, scaled)) * 100) / 100;
+}
+
+function parseSeconds(value: unknown) {
+  const parsed = typeof value === "string" ? parseFloat(value) : value;
+  if (typeof parsed !== "number" || !Number.isFinite(parsed) || parsed < 0) return null;
+  return Math.round(parsed * 10) / 10;
+}
+
+function readRawSources(input: unknown) {
+  const out: Record<string, Record<string, unknown>> = {};
+  if (Array.isArray(input)) {
+    for (const item of input) {
+      if (!item || typeof item !== "object") continue;
+      const row = item as Record<string, unknown>;
+      const key = normalizeText(row.field_key ?? row.field ?? row.key);
+      if (key) out[key] = row;
+    }
+    return out;
+  }
+  if (input && typeof input === "object") {
+    for (const [key, row] of Object.entries(input as Record<string, unknown>)) {
+      if (row && typeof row === "object") out[key] = row as Record<string, unknown>;
+    }
+  }
+  return out;
+}
+
+export function buildUsgFieldAttributions(params: {
+  rawSources: unknown;
+  overrides: UsgFieldOverrides;
+  transcript: DictationTranscript | null;
+}) {
+  const sources = readRawSources(params.rawSources);
+  const attributions: UsgFieldAttributionMap = {};
+
+  for (const key of USG_FIELD_KEYS) {
+    const value = normalizeText(params.overrides[key]);
+    if (!value) continue;
+    const row = sources[key] || {};
+    const source_phrase = normalizeText(row.source_phrase ?? row.phrase ?? row.source);
+    let confidence = parseConfidence(row.confidence) ?? DEFAULT_UNATTRIBUTED_CONFIDENCE;
+    let start_sec = parseSeconds(row.start_sec);
+    let end_sec = parseSeconds(row.end_sec);
+
+    const located = source_phrase
+      ? locateTranscriptPhrase(params.transcript, source_phrase)
+      : null;
+    if (start_sec === null && located) {
+      start_sec = located.start_sec;
+      end_sec = located.end_sec;
+    }
+    if (!source_phrase || (params.transcript && !located)) {
+      confidence = Math.min(confidence, UNVERIFIED_PHRASE_CONFIDENCE_CAP);
+    }
+
+    attributions[key] = {
+      value,
+      source_phrase,
+      start_sec,
+      end_sec: start_sec !== null && end_sec !== null && end_sec < start_sec ? start_sec : end_sec,
+      confidence
+    };
+  }
+
+  return attributions;
+}
+
+export function parseUsgFieldAttributions(input: unknown) {
+  const sources = readRawSources(input);
+  const attributions: UsgFieldAttributionMap = {};
+  for (const key of USG_FIELD_KEYS) {
+    const row = sources[key];
+    if (!row) continue;
+    const value = normalizeText(row.value);
+    const confidence = parseConfidence(row.confidence);
+    if (!value || confidence === null) continue;
+    attributions[key] = {
+      value,
+      source_phrase: normalizeText(row.source_phrase),
+      start_sec: parseSeconds(row.start_sec),
+      end_sec: parseSeconds(row.end_sec),
+      confidence
+    };
+  }
+  return attributions;
+}
+
+export function listLowConfidenceFields(
+  attributions: UsgFieldAttributionMap,
+  threshold = LOW_CONFIDENCE_THRESHOLD
+) {
+  return USG_FIELD_KEYS.filter((key) => {
+    const entry = attributions[key];
+    return Boolean(entry && entry.confidence < threshold);
+  });
+}
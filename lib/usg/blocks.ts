@@ -116,6 +116,64 @@ function escapeRegExp(value: string) {
   return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
 
+// The report builders write headings inline ("Kidneys: ...") and some blocks
+// have no heading at all, so rendered reports are matched line by line.
+// IMPRESSION is matched first because its items often repeat organ findings.
+const RENDERED_BLOCK_LINE_PATTERNS: { id: UsgBlockId; pattern: RegExp }[] = [
+  { id: "IMPRESSION", pattern: /^impression\s*:/i },
+  { id: "LIVER", pattern: /^liver\s*:/i },
+  { id: "GALLBLADDER", pattern: /^gall\s*bladder\s*:/i },
+  { id: "CBD", pattern: /^(cbd|common bile duct)\s*:/i },
+  { id: "PANCREAS", pattern: /^pancreas\s*:/i },
+  { id: "SPLEEN", pattern: /^spleen\s*:/i },
+  { id: "KIDNEYS", pattern: /^(kidneys?|right kidney|left kidney)\s*:/i },
+  { id: "BLADDER", pattern: /^urinary bladder\s*:/i },
+  {
+    id: "PROSTATE_UTERUS_ADNEXA",
+    pattern: /^(prostate|uterus|adenexa|adnexa|ovaries|endometrium)\b[^:]{0,30}:/i
+  },
+  { id: "PERITONEAL", pattern: /^peritoneal cavity\s*:/i }
+];
+
+const RENDERED_SECTION_STOP_PATTERNS = [
+  /^name\s*:/i,
+  /^sonography\b/i,
+  /^usg kub\b/i,
+  /\blymph nodes?\b/i,
+  /correlate clinically/i,
+  /^-{5,}/,
+  /^other observations\b/i,
+  /has its limitations/i
+];
+
+function classifyRenderedLine(line: string): UsgBlockId | "stop" | null {
+  const trimmed = line.trim();
+  if (!trimmed) return "stop";
+  const match = RENDERED_BLOCK_LINE_PATTERNS.find((entry) => entry.pattern.test(trimmed));
+  if (match) return match.id;
+  return RENDERED_SECTION_STOP_PATTERNS.some((pattern) => pattern.test(trimmed))
+    ? "stop"
+    : null;
+}
+
+export function findRenderedSectionRange(params: {
+  lines: string[];
+  blockId: UsgBlockId;
+}) {
+  const { lines, blockId } = params;
+  const start = lines.findIndex((line) => classifyRenderedLine(line) === blockId);
+  if (start === -1) {
+    return null;
+  }
+  let end = start + 1;
+  while (end < lines.length) {
+    const kind = classifyRenderedLine(lines[end]);
+    if (kind !== null && kind !== blockId) break;
+    end += 1;
+  }
+  return { start, end };
+}
+
 export function replaceSectionByHeading(params: {
   reportText: string;
   heading: string;
@@ -132,7 +190,17 @@ export function replaceSectionByHeading(params: {
   const startNeedle = `\n${heading}\n`;
   const startIndex = reportText.indexOf(startNeedle);
   if (startIndex === -1) {
-    return reportText;
+    // Inline layout: the replacement carries its own heading lines.
+    const lines = reportText.split(/\r?\n/);
+    const range = findRenderedSectionRange({ lines, blockId: USG_BLOCKS[index].id });
+    if (!range) {
+      return reportText;
+    }
+    return [
+      ...lines.slice(0, range.start),
+      ...replacementLines,
+      ...lines.slice(range.end)
+    ].join("\n");
   }
   const contentStart = startIndex + startNeedle.length;
 
@@ -176,7 +244,9 @@ export function extractSectionByHeading(params: {
   const startNeedle = `\n${heading}\n`;
   const startIndex = reportText.indexOf(startNeedle);
   if (startIndex === -1) {
-    return null;
+    const lines = reportText.split(/\r?\n/);
+    const range = findRenderedSectionRange({ lines, blockId: USG_BLOCKS[index].id });
+    return range ? lines.slice(range.start, range.end).filter((line) => line.trim()) : null;
   }
   const contentStart = startIndex + startNeedle.length;
 
@@ -193,6 +263,88 @@ export function extractSectionByHeading(params: {
   return body ? body.split(/\r?\n/).filter((line) => line.trim()) : [];
 }
 
+const CBD_SENTENCE_PATTERN = /\b(cbd|common bile duct)\b/i;
+
+function splitSentences(text: string) {
+  return text
+    .split(/(?<=\.)\s+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+function findInsertionIndex(lines: string[], blockId: UsgBlockId) {
+  const order = USG_BLOCKS.map((block) => block.id);
+  for (const laterId of order.slice(order.indexOf(blockId) + 1)) {
+    const range = findRenderedSectionRange({ lines, blockId: laterId });
+    if (range) return range.start;
+  }
+  const closingIndex = lines.findIndex((line) =>
+    /correlate clinically|^-{5,}|has its limitations/i.test(line.trim())
+  );
+  return closingIndex === -1 ? lines.length : closingIndex;
+}
+
+// CBD is rendered inside the gall bladder line, so it is merged sentence by
+// sentence instead of line by line.
+function spliceCbdSentences(params: { reportText: string; renderedText: string }) {
+  const renderedLines = params.renderedText.split(/\r?\n/);
+  const renderedRange = findRenderedSectionRange({
+    lines: renderedLines,
+    blockId: "GALLBLADDER"
+  });
+  if (!renderedRange) return null;
+  const cbdSentences = splitSentences(
+    renderedLines[renderedRange.start].replace(/^[^:]*:\s*/, "")
+  ).filter((sentence) => CBD_SENTENCE_PATTERN.test(sentence));
+  if (!cbdSentences.length) return null;
+
+  const lines = params.reportText.split(/\r?\n/);
+  const range = findRenderedSectionRange({ lines, blockId: "GALLBLADDER" });
+  if (!range) {
+    const index = findInsertionIndex(lines, "CBD");
+    lines.splice(index, 0, `CBD: ${cbdSentences.join(" ")}`);
+    return { text: lines.join("\n"), status: "inserted" as const };
+  }
+
+  const line = lines[range.start];
+  const labelMatch = line.match(/^\s*[^:]*:\s*/);
+  const label = labelMatch ? labelMatch[0] : "";
+  const kept = splitSentences(line.slice(label.length)).filter(
+    (sentence) => !CBD_SENTENCE_PATTERN.test(sentence)
+  );
+  lines[range.start] = `${label}${[...kept, ...cbdSentences].join(" ")}`;
+  return { text: lines.join("\n"), status: "replaced" as const };
+}
+
+export function spliceRenderedSection(params: {
+  reportText: string;
+  renderedText: string;
+  blockId: UsgBlockId;
+}) {
+  const { reportText, renderedText, blockId } = params;
+  const block = getUsgBlock(blockId);
+  if (!block) return null;
+
+  const replacementLines = extractSectionByHeading({
+    reportText: renderedText,
+    heading: block.heading
+  });
+  if (!replacementLines) {
+    return blockId === "CBD" ? spliceCbdSentences({ reportText, renderedText }) : null;
+  }
+
+  if (extractSectionByHeading({ reportText, heading: block.heading })) {
+    return {
+      text: replaceSectionByHeading({ reportText, heading: block.heading, replacementLines }),
+      status: "replaced" as const
+    };
+  }
+
+  const lines = reportText.split(/\r?\n/);
+  lines.splice(findInsertionIndex(lines, blockId), 0, ...replacementLines);
+  return { text: lines.join("\n"), status: "inserted" as const };
+}
+
 export function containsLaterality(text: string) {
   return /\b(left|right|bilateral)\b/i.test(text);
 }
@@ -0,0 +1,535 @@
+import {
+  ensurePeriod,
+  normalizeText,
+  pickEnum,
+  toMeasurement
+} from "@/lib/usg/format";
+
+export const BREAST_TEMPLATE_ID = "USG_BREAST";
+
+export const BREAST_SIDES = ["right", "left"] as const;
+export const BREAST_EXAM_SIDES = ["bilateral", "right", "left"] as const;
+export const BIRADS_SHAPES = ["oval", "round", "irregular", "not_described"] as const;
+export const BIRADS_ORIENTATIONS = ["parallel", "not_parallel", "not_described"] as const;
+export const BIRADS_MARGINS = [
+  "circumscribed",
+  "indistinct",
+  "angular",
+  "microlobulated",
+  "spiculated",
+  "not_described"
+] as const;
+export const BIRADS_ECHO_PATTERNS = [
+  "anechoic",
+  "hyperechoic",
+  "complex_cystic_solid",
+  "hypoechoic",
+  "isoechoic",
+  "heterogeneous",
+  "not_described"
+] as const;
+export const BIRADS_POSTERIOR_FEATURES = [
+  "none",
+  "enhancement",
+  "shadowing",
+  "combined",
+  "not_described"
+] as const;
+export const BIRADS_CALCIFICATIONS = [
+  "none",
+  "in_mass",
+  "outside_mass",
+  "intraductal",
+  "not_described"
+] as const;
+
+export type BreastSide = (typeof BREAST_SIDES)[number];
+export type BreastExamSide = (typeof BREAST_EXAM_SIDES)[number];
+export type BiradsShape = (typeof BIRADS_SHAPES)[number];
+export type BiradsOrientation = (typeof BIRADS_ORIENTATIONS)[number];
+export type BiradsMargin = (typeof BIRADS_MARGINS)[number];
+export type BiradsEchoPattern = (typeof BIRADS_ECHO_PATTERNS)[number];
+export type BiradsPosteriorFeature = (typeof BIRADS_POSTERIOR_FEATURES)[number];
+export type BiradsCalcification = (typeof BIRADS_CALCIFICATIONS)[number];
+export type BiradsCategory = "0" | "1" | "2" | "3" | "4A" | "4B" | "4C" | "5" | "6";
+
+export type BreastLesion = {
+  side: BreastSide | "unspecified";
+  clock_position: number | null;
+  location: string;
+  distance_from_nipple_cm: number | null;
+  ap_mm: number | null;
+  transverse_mm: number | null;
+  cc_mm: number | null;
+  shape: BiradsShape;
+  orientation: BiradsOrientation;
+  margin: BiradsMargin;
+  echo_pattern: BiradsEchoPattern;
+  posterior_features: BiradsPosteriorFeature;
+  calcifications: BiradsCalcification;
+  biopsy_proven_malignancy: boolean;
+  description: string;
+};
+
+export type BreastFieldOverrides = {
+  right_breast_main?: string;
+  left_breast_main?: string;
+  right_axilla?: string;
+  left_axilla?: string;
+  other_findings?: string;
+  impression?: string;
+};
+
+export type BreastStudy = {
+  exam_side: BreastExamSide;
+  fields: BreastFieldOverrides;
+  lesions: BreastLesion[];
+};
+
+export type BiradsAssessment = {
+  category: BiradsCategory;
+  rule: string;
+  suspiciousFeatures: string[];
+  missingFeatures: string[];
+};
+
+export type BreastPatientInfo = {
+  name?: string;
+  gender?: string;
+  date?: string;
+};
+
+export const BREAST_FIELD_KEYS = [
+  "right_breast_main",
+  "left_breast_main",
+  "right_axilla",
+  "left_axilla",
+  "other_findings",
+  "impression"
+] as const satisfies readonly (keyof BreastFieldOverrides)[];
+
+export const BREAST_FIELD_LABELS: Record<keyof BreastFieldOverrides, string> = {
+  right_breast_main: "Right breast parenchyma",
+  left_breast_main: "Left breast parenchyma",
+  right_axilla: "Right axilla",
+  left_axilla: "Left axilla",
+  other_findings: "Other findings",
+  impression: "Impression"
+};
+
+const BREAST_DEFAULT_FIELDS: Required<BreastFieldOverrides> = {
+  right_breast_main: "Fibroglandular parenchyma shows normal echotexture. No ductal dilatation.",
+  left_breast_main: "Fibroglandular parenchyma shows normal echotexture. No ductal dilatation.",
+  right_axilla: "No significant axillary lymphadenopathy.",
+  left_axilla: "No significant axillary lymphadenopathy.",
+  other_findings: "",
+  impression: ""
+};
+
+const SIDE_FIELDS: Record<
+  BreastSide,
+  { main: keyof BreastFieldOverrides; axilla: keyof BreastFieldOverrides }
+> = {
+  right: { main: "right_breast_main", axilla: "right_axilla" },
+  left: { main: "left_breast_main", axilla: "left_axilla" }
+};
+
+// An incomplete lesion outranks benign findings but not suspicious ones, as in
+// the BI-RADS overall assessment hierarchy.
+const BIRADS_CATEGORY_ORDER: BiradsCategory[] = ["1", "2", "3", "0", "4A", "4B", "4C", "5", "6"];
+
+const BIRADS_CATEGORY_LABELS: Record<BiradsCategory, string> = {
+  "0": "incomplete, lesion features not dictated",
+  "1": "negative",
+  "2": "benign",
+  "3": "probably benign",
+  "4A": "low suspicion for malignancy",
+  "4B": "moderate suspicion for malignancy",
+  "4C": "high suspicion for malignancy",
+  "5": "highly suggestive of malignancy",
+  "6": "known biopsy-proven malignancy"
+};
+
+const BIRADS_MANAGEMENT: Record<BiradsCategory, string> = {
+  "0": "Complete the lesion description before a category is assigned.",
+  "1": "Routine screening as per age and risk.",
+  "2": "Routine screening as per age and risk.",
+  "3": "Short-interval (6-month) follow-up ultrasound.",
+  "4A": "Tissue diagnosis (ultrasound-guided biopsy) recommended.",
+  "4B": "Tissue diagnosis (ultrasound-guided biopsy) recommended.",
+  "4C": "Tissue diagnosis (ultrasound-guided biopsy) recommended.",
+  "5": "Ultrasound-guided biopsy and appropriate action recommended.",
+  "6": "Surgical excision when clinically appropriate."
+};
+
+const FEATURE_LABELS: Record<string, string> = {
+  oval: "oval",
+  round: "round",
+  irregular: "irregular",
+  parallel: "parallel",
+  not_parallel: "not parallel",
+  circumscribed: "circumscribed",
+  indistinct: "indistinct",
+  angular: "angular",
+  microlobulated: "microlobulated",
+  spiculated: "spiculated",
+  anechoic: "anechoic",
+  hyperechoic: "hyperechoic",
+  complex_cystic_solid: "complex cystic and solid",
+  hypoechoic: "hypoechoic",
+  isoechoic: "isoechoic",
+  heterogeneous: "heterogeneous",
+  enhancement: "posterior enhancement",
+  shadowing: "posterior shadowing",
+  combined: "combined posterior pattern",
+  in_mass: "calcifications in the mass",
+  outside_mass: "calcifications outside the mass",
+  intraductal: "intraductal calcifications"
+};
+
+const DESCRIPTOR_LABELS = {
+  shape: "shape",
+  orientation: "orientation",
+  margin: "margin",
+  echo_pattern: "echo pattern",
+  posterior_features: "posterior features",
+  calcifications: "calcifications"
+} as const;
+
+type BiradsRule = {
+  id: string;
+  category: BiradsCategory | ((suspicious: string[]) => BiradsCategory);
+  matches: (lesion: BreastLesion, suspicious: string[]) => boolean;
+};
+
+// Evaluated top to bottom; the first matching rule assigns the category.
+// Benign categories need every feature they rely on to have been dictated.
+const BIRADS_RULES: BiradsRule[] = [
+  {
+    id: "biopsy_proven",
+    category: "6",
+    matches: (lesion) => lesion.biopsy_proven_malignancy
+  },
+  {
+    id: "spiculated_or_multiple_suspicious",
+    category: "5",
+    matches: (lesion, suspicious) => lesion.margin === "spiculated" || suspicious.length >= 4
+  },
+  {
+    id: "suspicious_features",
+    category: (suspicious) =>
+      suspicious.length >= 3 ? "4C" : suspicious.length === 2 ? "4B" : "4A",
+    matches: (_lesion, suspicious) => suspicious.length > 0
+  },
+  {
+    id: "simple_cyst",
+    category: "2",
+    matches: (lesion) =>
+      lesion.echo_pattern === "anechoic" &&
+      lesion.margin === "circumscribed" &&
+      (lesion.shape === "oval" || lesion.shape === "round") &&
+      lesion.calcifications === "none"
+  },
+  {
+    id: "circumscribed_hyperechoic",
+    category: "2",
+    matches: (lesion) =>
+      lesion.echo_pattern === "hyperechoic" && lesion.margin === "circumscribed"
+  },
+  {
+    id: "features_not_described",
+    category: "0",
+    matches: (lesion) => missingBiradsFeatures(lesion).length > 0
+  },
+  {
+    id: "circumscribed_parallel_solid",
+    category: "3",
+    matches: () => true
+  }
+];
+
+const CLOCK_POSITION_PATTERN = /\b(1[0-2]|[1-9])\s*(?:o['’]?\s*clock|:00)\b/i;
+const NO_LESION_PATTERN = /\b(no\s+(?:focal\s+)?(?:solid\s+or\s+cystic\s+)?(?:lesion|mass|nodule)s?)\b/i;
+const QUADRANT_PATTERN = /\b(upper|lower)\s+(outer|inner)\b/i;
+
+export function isBreastTemplateId(templateId: string) {
+  return templateId === BREAST_TEMPLATE_ID;
+}
+
+function toClockPosition(value: unknown) {
+  const parsed =
+    typeof value === "number"
+      ? value
+      : typeof value === "string"
+      ? Number(value.match(CLOCK_POSITION_PATTERN)?.[1] ?? parseFloat(value))
+      : NaN;
+  return Number.isInteger(parsed) && parsed >= 1 && parsed <= 12 ? parsed : null;
+}
+
+function sanitizeLesion(input: unknown): BreastLesion {
+  const raw = input && typeof input === "object" ? (input as Record<string, unknown>) : {};
+  return {
+    side: pickEnum([...BREAST_SIDES, "unspecified"], raw.side, "unspecified"),
+    clock_position: toClockPosition(raw.clock_position),
+    location: normalizeText(raw.location),
+    distance_from_nipple_cm: toMeasurement(raw.distance_from_nipple_cm),
+    ap_mm: toMeasurement(raw.ap_mm),
+    transverse_mm: toMeasurement(raw.transverse_mm),
+    cc_mm: toMeasurement(raw.cc_mm),
+    shape: pickEnum(BIRADS_SHAPES, raw.shape, "not_described"),
+    orientation: pickEnum(BIRADS_ORIENTATIONS, raw.orientation, "not_described"),
+    margin: pickEnum(BIRADS_MARGINS, raw.margin, "not_described"),
+    echo_pattern: pickEnum(BIRADS_ECHO_PATTERNS, raw.echo_pattern, "not_described"),
+    posterior_features: pickEnum(
+      BIRADS_POSTERIOR_FEATURES,
+      raw.posterior_features,
+      "not_described"
+    ),
+    calcifications: pickEnum(BIRADS_CALCIFICATIONS, raw.calcifications, "not_described"),
+    biopsy_proven_malignancy: raw.biopsy_proven_malignancy === true,
+    description: normalizeText(raw.description)
+  };
+}
+
+export function sanitizeBreastStudy(input: unknown): BreastStudy {
+  const raw = input && typeof input === "object" ? (input as Record<string, unknown>) : {};
+  const fieldsRaw =
+    raw.fields && typeof raw.fields === "object" ? (raw.fields as Record<string, unknown>) : {};
+  const fields: BreastFieldOverrides = {};
+  for (const key of BREAST_FIELD_KEYS) {
+    const value = normalizeText(fieldsRaw[key]);
+    if (value) fields[key] = value;
+  }
+  return {
+    exam_side: pickEnum(BREAST_EXAM_SIDES, raw.exam_side, "bilateral"),
+    fields,
+    lesions: (Array.isArray(raw.lesions) ? raw.lesions : []).map(sanitizeLesion)
+  };
+}
+
+function listSuspiciousFeatures(lesion: BreastLesion) {
+  const features: string[] = [];
+  if (lesion.shape === "irregular") features.push("irregular shape");
+  if (lesion.orientation === "not_parallel") features.push("not parallel orientation");
+  if (lesion.margin !== "circumscribed" && lesion.margin !== "not_described") {
+    features.push(`${FEATURE_LABELS[lesion.margin]} margin`);
+  }
+  if (lesion.echo_pattern === "complex_cystic_solid") features.push("complex cystic and solid");
+  if (lesion.posterior_features === "shadowing") features.push("posterior shadowing");
+  if (lesion.calcifications === "in_mass" || lesion.calcifications === "intraductal") {
+    features.push(FEATURE_LABELS[lesion.calcifications]);
+  }
+  return features;
+}
+
+export function missingBiradsFeatures(lesion: BreastLesion) {
+  return (Object.keys(DESCRIPTOR_LABELS) as (keyof typeof DESCRIPTOR_LABELS)[])
+    .filter((feature) => lesion[feature] === "not_described")
+    .map((feature) => DESCRIPTOR_LABELS[feature]);
+}
+
+export function assessBirads(lesion: BreastLesion): BiradsAssessment {
+  const suspiciousFeatures = listSuspiciousFeatures(lesion);
+  const missingFeatures = missingBiradsFeatures(lesion);
+  const rule =
+    BIRADS_RULES.find((item) => item.matches(lesion, suspiciousFeatures)) ||
+    BIRADS_RULES[BIRADS_RULES.length - 1];
+  const category =
+    typeof rule.category === "function" ? rule.category(suspiciousFeatures) : rule.category;
+  return { category, rule: rule.id, suspiciousFeatures, missingFeatures };
+}
+
+export function highestBiradsCategory(categories: BiradsCategory[]): BiradsCategory {
+  return categories.reduce<BiradsCategory>(
+    (highest, category) =>
+      BIRADS_CATEGORY_ORDER.indexOf(category) > BIRADS_CATEGORY_ORDER.indexOf(highest)
+        ? category
+        : highest,
+    "1"
+  );
+}
+
+// Clock faces are read facing the patient, so the outer half of the right
+// breast is 7 to 11 o'clock and of the left breast 1 to 5 o'clock.
+function clockQuadrant(side: BreastSide, clock: number) {
+  if (clock === 12 || clock === 6 || clock === 3 || clock === 9) return null;
+  const vertical = clock < 3 || clock > 9 ? "upper" : "lower";
+  const rightSideOfFace = clock > 0 && clock < 6;
+  const outer = side === "left" ? rightSideOfFace : !rightSideOfFace;
+  return `${vertical} ${outer ? "outer" : "inner"}`;
+}
+
+export function checkBreastLaterality(study: BreastStudy) {
+  const flags: string[] = [];
+  study.lesions.forEach((lesion, index) => {
+    const name = `Lesion ${index + 1}`;
+    if (lesion.side === "unspecified") {
+      flags.push(`${name}: side (right/left breast) was not dictated.`);
+      return;
+    }
+    if (study.exam_side !== "bilateral" && lesion.side !== study.exam_side) {
+      flags.push(
+        `${name}: reported in the ${lesion.side} breast but this is a ${study.exam_side} breast study.`
+      );
+    }
+    const mainText = study.fields[SIDE_FIELDS[lesion.side].main] || "";
+    if (NO_LESION_PATTERN.test(mainText)) {
+      flags.push(
+        `${name}: ${lesion.side} breast was dictated as "${mainText}" but a lesion is recorded on that side.`
+      );
+    }
+    const dictatedQuadrant = lesion.location.match(QUADRANT_PATTERN);
+    if (dictatedQuadrant && lesion.clock_position !== null) {
+      const expected = clockQuadrant(lesion.side, lesion.clock_position);
+      const dictated = `${dictatedQuadrant[1]} ${dictatedQuadrant[2]}`.toLowerCase();
+      if (expected && expected !== dictated) {
+        flags.push(
+          `${name}: ${lesion.clock_position} o'clock in the ${lesion.side} breast is ${expected} quadrant, but "${dictatedQuadrant[0]}" was dictated.`
+        );
+      }
+    }
+  });
+  return flags;
+}
+
+function formatNumber(value: number) {
+  return String(Math.round(value * 10) / 10);
+}
+
+function lesionPosition(lesion: BreastLesion) {
+  return [
+    lesion.clock_position !== null ? `${lesion.clock_position} o'clock` : "",
+    lesion.location,
+    lesion.distance_from_nipple_cm !== null
+      ? `${formatNumber(lesion.distance_from_nipple_cm)} cm from nipple`
+      : ""
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+function describeLesion(lesion: BreastLesion, assessment: BiradsAssessment) {
+  const dimensions = [lesion.ap_mm, lesion.transverse_mm, lesion.cc_mm].filter(
+    (value): value is number => value !== null
+  );
+  const size = dimensions.length ? `${dimensions.map(formatNumber).join(" x ")} mm ` : "";
+  // Features that were not dictated are left out rather than described.
+  const descriptors = [lesion.shape, lesion.orientation, lesion.margin, lesion.echo_pattern]
+    .filter((value) => value !== "not_described")
+    .map((value) => FEATURE_LABELS[value]);
+  const posterior =
+    lesion.posterior_features === "none"
+      ? "no posterior acoustic features"
+      : lesion.posterior_features === "not_described"
+      ? ""
+      : FEATURE_LABELS[lesion.posterior_features];
+  const calcifications =
+    lesion.calcifications === "none"
+      ? "no calcifications"
+      : lesion.calcifications === "not_described"
+      ? ""
+      : FEATURE_LABELS[lesion.calcifications];
+  const position = lesionPosition(lesion);
+  return `${position ? `${position}: ` : ""}${size}${
+    descriptors.length ? `${descriptors.join(", ")} ` : ""
+  }mass${posterior ? ` with ${posterior}` : ""}${calcifications ? `; ${calcifications}` : ""}. BI-RADS ${
+    assessment.category
+  }.${lesion.description ? ` ${ensurePeriod(lesion.description)}` : ""}`;
+}
+
+export function buildBreastReport(params: { patient?: BreastPatientInfo; study: BreastStudy }) {
+  const { study } = params;
+  const patient = params.patient || {};
+  const resolve = (key: keyof BreastFieldOverrides) =>
+    study.fields[key] || BREAST_DEFAULT_FIELDS[key];
+  const sides = study.exam_side === "bilateral" ? BREAST_SIDES : [study.exam_side];
+  const assessments = study.lesions.map(assessBirads);
+
+  const lines: string[] = [];
+  lines.push(
+    `NAME: ${patient.name?.trim() || "________________"}    GENDER: ${
+      patient.gender?.trim() || "________"
+    }    DATE: ${patient.date?.trim() || "____/____/______"}`
+  );
+  lines.push(
+    study.exam_side === "bilateral"
+      ? "USG BOTH BREASTS"
+      : `USG ${study.exam_side.toUpperCase()} BREAST`
+  );
+
+  const impression: string[] = [];
+  for (const side of sides) {
+    lines.push("");
+    lines.push(`${side.toUpperCase()} BREAST:`);
+    lines.push(`Parenchyma: ${ensurePeriod(resolve(SIDE_FIELDS[side].main))}`);
+    const sideLesions = study.lesions
+      .map((lesion, index) => ({ lesion, index, assessment: assessments[index] }))
+      .filter((item) => item.lesion.side === side);
+    if (!sideLesions.length) {
+      lines.push("No focal solid or cystic lesion.");
+    }
+    for (const { lesion, index, assessment } of sideLesions) {
+      lines.push(`Lesion ${index + 1}: ${describeLesion(lesion, assessment)}`);
+    }
+    lines.push(`Axilla: ${ensurePeriod(resolve(SIDE_FIELDS[side].axilla))}`);
+  }
+
+  const unsided = study.lesions
+    .map((lesion, index) => ({ lesion, index, assessment: assessments[index] }))
+    .filter((item) => item.lesion.side === "unspecified");
+  if (unsided.length) {
+    lines.push("");
+    lines.push("SIDE NOT SPECIFIED:");
+    for (const { lesion, index, assessment } of unsided) {
+      lines.push(`Lesion ${index + 1}: ${describeLesion(lesion, assessment)}`);
+    }
+  }
+  const otherFindings = resolve("other_findings");
+  if (otherFindings) {
+    lines.push("");
+    lines.push(ensurePeriod(otherFindings));
+  }
+
+  const dictatedImpression = resolve("impression");
+  if (dictatedImpression) impression.push(ensurePeriod(dictatedImpression));
+  study.lesions.forEach((lesion, index) => {
+    const category = assessments[index].category;
+    const position = lesionPosition(lesion);
+    const sideLabel =
+      lesion.side === "unspecified"
+        ? "Breast"
+        : `${lesion.side[0].toUpperCase()}${lesion.side.slice(1)} breast`;
+    impression.push(
+      `${sideLabel} lesion ${index + 1}${position ? ` (${position})` : ""}: BI-RADS ${category} - ${
+        BIRADS_CATEGORY_LABELS[category]
+      }.`
+    );
+  });
+  const overall = highestBiradsCategory(assessments.map((item) => item.category));
+  impression.push(
+    `Overall assessment: BI-RADS ${overall} (${BIRADS_CATEGORY_LABELS[overall]}). ${BIRADS_MANAGEMENT[overall]}`
+  );
+
+  lines.push("");
+  lines.push("IMPRESSION:");
+  lines.push(...impression.map((item) => `- ${item}`));
+  const flags = checkBreastLaterality(study);
+  assessments.forEach((assessment, index) => {
+    if (!assessment.missingFeatures.length) return;
+    flags.push(
+      assessment.category === "0"
+        ? `Lesion ${index + 1}: ${assessment.missingFeatures.join(
+            ", "
+          )} not dictated, so no BI-RADS category or management was assigned.`
+        : `Lesion ${index + 1}: ${assessment.missingFeatures.join(
+            ", "
+          )} not dictated; BI-RADS ${assessment.category} is based on the dictated features only.`
+    );
+  });
+  return {
+    text: lines.join("\n"),
+    flags,
+    assessments,
+    overall
+  };
+}
@@ -0,0 +1,478 @@
+import { USG_BLOCKS, findRenderedSectionRange } from "@/lib/usg/blocks";
+import { inferLinearUnit, parseVolume } from "@/lib/usg/measurements";
+import { USG_FIELD_KEYS, type UsgFieldOverrides } from "@/lib/usgTemplate";
+
+export const USG_CONSISTENCY_ISSUE_KINDS = [
+  "laterality",
+  "missing_unit",
+  "implausible_value",
+  "contradiction"
+] as const;
+
+export type UsgConsistencyIssueKind = (typeof USG_CONSISTENCY_ISSUE_KINDS)[number];
+
+// A fix is a plain-text replacement in the rendered report; an empty replace
+// removes the matched text.
+export type UsgConsistencyFix = {
+  find: string;
+  replace: string;
+};
+
+export type UsgConsistencyIssue = {
+  id: string;
+  kind: UsgConsistencyIssueKind;
+  field_key: keyof UsgFieldOverrides;
+  message: string;
+  fix: UsgConsistencyFix | null;
+};
+
+type Side = "right" | "left";
+
+type FindingDef = {
+  finding: string;
+  pattern: RegExp;
+  impliedOrgan?: string;
+};
+
+const LATERAL_ORGANS: { organ: string; pattern: RegExp }[] = [
+  { organ: "ureter", pattern: /\b(ureter\w*|vesico-?ureteric|vuj|puj)\b/i },
+  { organ: "kidney", pattern: /\b(kidneys?|renal|nephro\w*)\b/i },
+  { organ: "ovary", pattern: /\b(ovar\w*|adnex\w*)\b/i }
+];
+
+const LATERAL_FINDINGS: FindingDef[] = [
+  { finding: "calculus", pattern: /\b(calcul(?:us|i)|\w*lithiasis|stones?)\b/i },
+  { finding: "hydronephrosis", pattern: /\bhydro\w*/i, impliedOrgan: "kidney" },
+  { finding: "cyst", pattern: /\b(cysts?|cystic)\b/i },
+  { finding: "mass", pattern: /\b(mass|tumou?r|sol)\b/i }
+];
+
+const CONTRADICTION_FINDINGS: FindingDef[] = [
+  ...LATERAL_FINDINGS,
+  { finding: "sludge", pattern: /\bsludge\b/i },
+  { finding: "focal lesion", pattern: /\bfocal\s+(?:solid\s*\/?\s*)?(?:cystic\s+)?lesions?\b/i },
+  { finding: "free fluid", pattern: /\b(free fluid|ascites)\b/i },
+  { finding: "wall thickening", pattern: /\bwall thickening\b/i }
+];
+
+const NEGATION_PATTERN = /\b(no|not|without|nil|absent|free of|negative for|ruled? out)\b/i;
+const CLAUSE_BREAK_PATTERN =
+  /,\s*(?:but|however|a|an|the|there|which|with)\b|\b(?:but|however|whereas)\b/gi;
+const NEGATION_AFTER_PATTERN =
+  /^[^,.;]*\b(not (?:seen|noted|visuali[sz]ed|detected|identified)|absent|ruled out)\b/i;
+
+const NUMERIC_UNIT_FIELDS = new Set<keyof UsgFieldOverrides>([
+  "bladder_prevoid_volume_cc",
+  "bladder_postvoid_volume_cc",
+  "endometrium_measurement_mm",
+  "impression",
+  "correlate_clinically"
+]);
+
+const PLAUSIBLE_LINEAR_LIMITS: {
+  key: keyof UsgFieldOverrides;
+  label: string;
+  maxMm: number;
+  defaultUnit: "mm" | null;
+}[] = [
+  { key: "cbd_main", label: "CBD diameter", maxMm: 30, defaultUnit: "mm" },
+  { key: "endometrium_measurement_mm", label: "Endometrial thickness", maxMm: 40, defaultUnit: "mm" },
+  { key: "kidneys_size", label: "Renal length", maxMm: 200, defaultUnit: null },
+  { key: "liver_main", label: "Liver span", maxMm: 300, defaultUnit: null },
+  { key: "spleen_main", label: "Spleen length", maxMm: 300, defaultUnit: null }
+];
+
+const PLAUSIBLE_VOLUME_LIMITS: {
+  key: keyof UsgFieldOverrides;
+  label: string;
+  maxCc: number;
+}[] = [
+  { key: "bladder_prevoid_volume_cc", label: "Prevoid bladder volume", maxCc: 2500 },
+  { key: "bladder_postvoid_volume_cc", label: "Postvoid bladder volume", maxCc: 2500 }
+];
+
+// Each number of a size, with the unit that closes the size ("116x46 mm").
+const LINEAR_VALUE_PATTERN =
+  /(\d+(?:\.\d+)?)(?=(?:\s*(?:x|×|\*)\s*\d+(?:\.\d+)?)*\s*(mm|cm)?\b)/gi;
+const DIMENSION_WITHOUT_UNIT_PATTERN =
+  /(\d+(?:\.\d+)?)\s*(?:x|×|\*)\s*(\d+(?:\.\d+)?)(?:\s*(?:x|×|\*)\s*(\d+(?:\.\d+)?))?(?!\s*(?:mm|cm|millimet|centimet|\d|\.\d|x|×|\*))/gi;
+const MEASURE_WITHOUT_UNIT_PATTERN =
+  /\b(?:measuring|measures|measured|size of|thickness of|diameter of)\s+(\d+(?:\.\d+)?)(?!\s*(?:mm|cm|cc|ml|millimet|centimet|x|×|\*|%|\d|\.\d))/gi;
+
+const MIN_FIX_CONTEXT_LENGTH = 12;
+
+function normalizeText(value: unknown) {
+  if (typeof value !== "string") return "";
+  return value.replace(/\s+/g, " ").trim();
+}
+
+function splitSentences(text: string) {
+  return text
+    .split(/(?<=[.!?])\s+|;\s*|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+function stripTrailingPeriod(text: string) {
+  return text.replace(/[.!?]+$/, "").trim();
+}
+
+function countOccurrences(haystack: string, needle: string) {
+  if (!needle) return 0;
+  return haystack.split(needle).length - 1;
+}
+
+function sidesIn(text: string) {
+  if (/\b(bilateral|both)\b/i.test(text)) return ["right", "left"] as Side[];
+  const sides: Side[] = [];
+  if (/\b(right|rt)\b/i.test(text)) sides.push("right");
+  if (/\b(left|lt)\b/i.test(text)) sides.push("left");
+  return sides;
+}
+
+function organIn(text: string) {
+  return LATERAL_ORGANS.find((entry) => entry.pattern.test(text))?.organ || "";
+}
+
+// A negation carries across list commas ("no calculus, mass or
+// hydronephrosis") but not into a new clause.
+function negationScope(before: string) {
+  const breaks = Array.from(before.matchAll(CLAUSE_BREAK_PATTERN));
+  const last = breaks[breaks.length - 1];
+  return last ? before.slice((last.index || 0) + last[0].length) : before;
+}
+
+function positiveFindings(sentence: string, defs: FindingDef[]) {
+  return defs.filter((def) => {
+    const match = def.pattern.exec(sentence);
+    if (!match) return false;
+    const before = sentence.slice(0, match.index);
+    const after = sentence.slice(match.index + match[0].length);
+    return !NEGATION_PATTERN.test(negationScope(before)) && !NEGATION_AFTER_PATTERN.test(after);
+  });
+}
+
+function negatedFindings(sentence: string, defs: FindingDef[]) {
+  return defs.filter(
+    (def) => def.pattern.test(sentence) && !positiveFindings(sentence, [def]).length
+  );
+}
+
+function swapSide(text: string, from: Side, to: Side) {
+  const pattern = from === "right" ? /\b(right|rt)\b/i : /\b(left|lt)\b/i;
+  return text.replace(pattern, (word) => {
+    const replacement = to === "right" ? "right" : "left";
+    if (word === word.toUpperCase()) return replacement.toUpperCase();
+    if (word[0] === word[0].toUpperCase()) {
+      return `${replacement[0].toUpperCase()}${replacement.slice(1)}`;
+    }
+    return replacement;
+  });
+}
+
+// Prefers replacing within a whole sentence of the field that is found
+// verbatim in the report, so the fix cannot land on an unrelated number.
+function buildFix(params: {
+  reportText: string;
+  contextText: string;
+  variants: { target: string; replacement: string }[];
+}): UsgConsistencyFix | null {
+  const reportLower = params.reportText.toLowerCase();
+  for (const { target, replacement } of params.variants) {
+    for (const sentence of splitSentences(params.contextText)) {
+      const core = stripTrailingPeriod(sentence);
+      if (core.length < MIN_FIX_CONTEXT_LENGTH || !core.includes(target)) continue;
+      const index = reportLower.indexOf(core.toLowerCase());
+      if (index === -1) continue;
+      const find = params.reportText.slice(index, index + core.length);
+      return { find, replace: find.replace(target, replacement) };
+    }
+  }
+  for (const { target, replacement } of params.variants) {
+    if (countOccurrences(params.reportText, target) === 1) {
+      return { find: target, replace: replacement };
+    }
+  }
+  return null;
+}
+
+// KUB reports leave out the abdominal organs, so a field whose numbers are not
+// in the report was not rendered and is not checked.
+function isFieldRendered(value: string, reportText: string) {
+  const numbers = value.match(/\d+(?:\.\d+)?/g) || [];
+  return !numbers.length || numbers.some((number) => reportText.includes(number));
+}
+
+function readImpressionAndFindings(reportText: string) {
+  const lines = reportText.split(/\r?\n/);
+  const start = lines.findIndex((line) => /^\s*impression\s*:?/i.test(line));
+  if (start === -1) return { findingLines: lines, impressionLines: [] as string[] };
+  const impressionLines: string[] = [
+    lines[start].replace(/^\s*impression\s*:?\s*/i, "")
+  ];
+  for (const line of lines.slice(start + 1)) {
+    if (/correlate clinically|^-{3,}|has its limitations|^other observations/i.test(line)) break;
+    impressionLines.push(line.replace(/^\s*[-*]\s*/, ""));
+  }
+  return {
+    findingLines: lines.slice(0, start),
+    impressionLines: impressionLines.filter((line) => line.trim())
+  };
+}
+
+function checkLaterality(reportText: string): Omit<UsgConsistencyIssue, "id">[] {
+  const { findingLines, impressionLines } = readImpressionAndFindings(reportText);
+  const findingSides = new Map<string, Set<Side>>();
+  for (const line of findingLines) {
+    const heading = /^([^:]{1,40}):/.exec(line)?.[1] || "";
+    for (const sentence of splitSentences(line)) {
+      for (const def of positiveFindings(sentence, LATERAL_FINDINGS)) {
+        const organ = organIn(sentence) || organIn(heading) || def.impliedOrgan || "";
+        if (!organ) continue;
+        const sides = sidesIn(sentence).length ? sidesIn(sentence) : sidesIn(heading);
+        const key = `${organ}:${def.finding}`;
+        const set = findingSides.get(key) || new Set<Side>();
+        sides.forEach((side) => set.add(side));
+        findingSides.set(key, set);
+      }
+    }
+  }
+
+  const issues: Omit<UsgConsistencyIssue, "id">[] = [];
+  for (const sentence of impressionLines.flatMap(splitSentences)) {
+    const sides = sidesIn(sentence);
+    if (sides.length !== 1) continue;
+    const [side] = sides;
+    for (const def of positiveFindings(sentence, LATERAL_FINDINGS)) {
+      const organ = organIn(sentence) || def.impliedOrgan || "";
+      const found = findingSides.get(`${organ}:${def.finding}`);
+      if (!organ || !found?.size || found.has(side)) continue;
+      const other: Side = side === "right" ? "left" : "right";
+      const core = stripTrailingPeriod(sentence);
+      issues.push({
+        kind: "laterality",
+        field_key: "impression",
+        message: `Impression says ${side} ${organ} ${def.finding}, but the findings describe it on the ${other} side.`,
+        fix: buildFix({
+          reportText,
+          contextText: core,
+          variants: [{ target: core, replacement: swapSide(core, side, other) }]
+        })
+      });
+      break;
+    }
+  }
+  return issues;
+}
+
+function numericGroups(groups: unknown[]) {
+  return groups.filter((part): part is string => typeof part === "string" && Boolean(part));
+}
+
+function unitForMatch(match: RegExpMatchArray) {
+  return inferLinearUnit(numericGroups(match.slice(1)).map(Number));
+}
+
+function addMissingUnits(text: string) {
+  return text
+    .replace(
+      DIMENSION_WITHOUT_UNIT_PATTERN,
+      (whole: string, ...groups: unknown[]) =>
+        `${whole} ${inferLinearUnit(numericGroups(groups.slice(0, 3)).map(Number))}`
+    )
+    .replace(
+      MEASURE_WITHOUT_UNIT_PATTERN,
+      (whole: string, value: string) => `${whole} ${inferLinearUnit([Number(value)])}`
+    );
+}
+
+function checkMissingUnits(
+  overrides: UsgFieldOverrides,
+  reportText: string
+): Omit<UsgConsistencyIssue, "id">[] {
+  const issues: Omit<UsgConsistencyIssue, "id">[] = [];
+  for (const key of USG_FIELD_KEYS) {
+    if (NUMERIC_UNIT_FIELDS.has(key)) continue;
+    const value = normalizeText(overrides[key]);
+    if (!value || !isFieldRendered(value, reportText)) continue;
+    const dimensions = Array.from(value.matchAll(DIMENSION_WITHOUT_UNIT_PATTERN));
+    const matches = dimensions.length
+      ? dimensions
+      : Array.from(value.matchAll(MEASURE_WITHOUT_UNIT_PATTERN));
+    if (!matches.length) continue;
+    const units = Array.from(new Set(matches.map(unitForMatch)));
+    const sentenceVariants = splitSentences(value)
+      .map(stripTrailingPeriod)
+      .filter((sentence) => addMissingUnits(sentence) !== sentence)
+      .map((sentence) => ({ target: sentence, replacement: addMissingUnits(sentence) }));
+    // The KUB builder respaces sizes ("104 x 46"), so a respaced first size is
+    // the fallback target.
+    const first = matches[0];
+    const spaced = dimensions.length
+      ? numericGroups(first.slice(1)).join(" x ")
+      : first[0].trim();
+    issues.push({
+      kind: "missing_unit",
+      field_key: key,
+      message: `${matches.map((match) => `"${match[0].trim()}"`).join(", ")} in ${key} ${
+        matches.length > 1 ? "have" : "has"
+      } no unit; ${units.join("/")} assumed from the value.`,
+      fix: buildFix({
+        reportText,
+        contextText: value,
+        variants: [
+          ...sentenceVariants,
+          { target: spaced, replacement: `${spaced} ${unitForMatch(first)}` }
+        ]
+      })
+    });
+  }
+  return issues;
+}
+
+function formatMm(value: number) {
+  return Number.isInteger(value) ? String(value) : String(Math.round(value * 10) / 10);
+}
+
+// A tenfold slip (cm spoken as mm) is the usual cause, so the fix proposes the
+// value divided by ten when that lands in range.
+function checkPlausibility(
+  overrides: UsgFieldOverrides,
+  reportText: string
+): Omit<UsgConsistencyIssue, "id">[] {
+  const issues: Omit<UsgConsistencyIssue, "id">[] = [];
+  for (const limit of PLAUSIBLE_LINEAR_LIMITS) {
+    const value = normalizeText(overrides[limit.key]);
+    if (!value || !isFieldRendered(value, reportText)) continue;
+    for (const match of Array.from(value.matchAll(LINEAR_VALUE_PATTERN))) {
+      const unit = match[2]?.toLowerCase() || limit.defaultUnit;
+      if (!unit) continue;
+      const number = Number(match[1]);
+      const mm = unit === "cm" ? number * 10 : number;
+      if (mm <= limit.maxMm) continue;
+      const corrected = formatMm(number / 10);
+      const variants = [{ target: match[1], replacement: corrected }];
+      if (!match[2]) {
+        variants.unshift({ target: `${match[1]} mm`, replacement: `${corrected} mm` });
+      }
+      issues.push({
+        kind: "implausible_value",
+        field_key: limit.key,
+        message: `${limit.label} of ${match[1]} ${unit} is implausible (expected at most ${limit.maxMm} mm); check for a unit or decimal slip.`,
+        fix:
+          mm / 10 <= limit.maxMm
+            ? buildFix({ reportText, contextText: value, variants })
+            : null
+      });
+      break;
+    }
+  }
+  for (const limit of PLAUSIBLE_VOLUME_LIMITS) {
+    const value = normalizeText(overrides[limit.key]);
+    const volume = parseVolume(value);
+    if (!volume || volume.value <= limit.maxCc || !isFieldRendered(value, reportText)) continue;
+    issues.push({
+      kind: "implausible_value",
+      field_key: limit.key,
+      message: `${limit.label} of ${volume.value} cc is implausible (expected at most ${limit.maxCc} cc).`,
+      fix: null
+    });
+  }
+  return issues;
+}
+
+function fieldForSentence(
+  overrides: UsgFieldOverrides,
+  keys: (keyof UsgFieldOverrides)[],
+  sentence: string
+) {
+  const core = stripTrailingPeriod(sentence).toLowerCase();
+  return keys.find((key) => normalizeText(overrides[key]).toLowerCase().includes(core));
+}
+
+function checkContradictions(
+  overrides: UsgFieldOverrides,
+  reportText: string
+): Omit<UsgConsistencyIssue, "id">[] {
+  const lines = reportText.split(/\r?\n/);
+  const issues: Omit<UsgConsistencyIssue, "id">[] = [];
+  for (const block of USG_BLOCKS) {
+    if (block.id === "IMPRESSION") continue;
+    const range = findRenderedSectionRange({ lines, blockId: block.id });
+    if (!range) continue;
+    const sentences = lines
+      .slice(range.start, range.end)
+      .flatMap((line) => splitSentences(line.replace(/^[^:]{1,40}:\s*/, "")));
+    for (const def of CONTRADICTION_FINDINGS) {
+      const positive = sentences.find((sentence) => positiveFindings(sentence, [def]).length);
+      if (!positive) continue;
+      const positiveSides = sidesIn(positive);
+      const negative = sentences.find((sentence) => {
+        if (!negatedFindings(sentence, [def]).length) return false;
+        const negativeSides = sidesIn(sentence);
+        return (
+          !negativeSides.length ||
+          !positiveSides.length ||
+          negativeSides.some((side) => positiveSides.includes(side))
+        );
+      });
+      if (!negative) continue;
+      const fieldKey =
+        fieldForSentence(overrides, block.fieldKeys, negative) ||
+        fieldForSentence(overrides, block.fieldKeys, positive) ||
+        block.fieldKeys[0];
+      const find = countOccurrences(reportText, negative) === 1 ? negative : "";
+      issues.push({
+        kind: "contradiction",
+        field_key: fieldKey,
+        message: `${block.heading.replace(/:$/, "")} states both "${stripTrailingPeriod(
+          negative
+        )}" and "${stripTrailingPeriod(positive)}" (${def.finding}).`,
+        fix: find ? { find, replace: "" } : null
+      });
+    }
+  }
+  return issues;
+}
+
+export function checkUsgConsistency(params: {
+  overrides: UsgFieldOverrides;
+  reportText: string;
+}): UsgConsistencyIssue[] {
+  const { overrides, reportText } = params;
+  return [
+    ...checkLaterality(reportText),
+    ...checkMissingUnits(overrides, reportText),
+    ...checkPlausibility(overrides, reportText),
+    ...checkContradictions(overrides, reportText)
+  ].map((issue, index) => ({ id: `${issue.kind}-${issue.field_key}-${index}`, ...issue }));
+}
+
+export function parseUsgConsistencyIssues(input: unknown): UsgConsistencyIssue[] {
+  if (!Array.isArray(input)) return [];
+  const issues: UsgConsistencyIssue[] = [];
+  for (const item of input) {
+    if (!item || typeof item !== "object") continue;
+    const row = item as Record<string, unknown>;
+    const kind = normalizeText(row.kind) as UsgConsistencyIssueKind;
+    const fieldKey = normalizeText(row.field_key) as keyof UsgFieldOverrides;
+    const message = normalizeText(row.message);
+    if (!USG_CONSISTENCY_ISSUE_KINDS.includes(kind) || !USG_FIELD_KEYS.includes(fieldKey)) {
+      continue;
+    }
+    if (!message) continue;
+    const fixRaw =
+      row.fix && typeof row.fix === "object" ? (row.fix as Record<string, unknown>) : null;
+    const find = typeof fixRaw?.find === "string" ? fixRaw.find : "";
+    issues.push({
+      id: normalizeText(row.id) || `${kind}-${fieldKey}-${issues.length}`,
+      kind,
+      field_key: fieldKey,
+      message,
+      fix: find
+        ? { find, replace: typeof fixRaw?.replace === "string" ? fixRaw.replace : "" }
+        : null
+    });
+  }
+  return issues;
+}
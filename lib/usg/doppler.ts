@@ -0,0 +1,249 @@
+import { buildAsciiTable, ensurePeriod, normalizeText } from "@/lib/usg/format";
+
+export type DopplerMode = "venous" | "arterial";
+
+export const DOPPLER_SIDES = ["right", "left"] as const;
+export const DOPPLER_EXAM_SIDES = ["bilateral", "right", "left"] as const;
+
+export type DopplerSide = (typeof DOPPLER_SIDES)[number];
+export type DopplerExamSide = (typeof DOPPLER_EXAM_SIDES)[number];
+
+export type DopplerSegmentDef = {
+  key: string;
+  label: string;
+};
+
+export type DopplerParameterDef = {
+  key: string;
+  label: string;
+  normal: string;
+  format?: (value: string) => string;
+};
+
+export type DopplerNoteDef = {
+  key: string;
+  label: string;
+  normal: string;
+};
+
+export type DopplerModeDef = {
+  mode: DopplerMode;
+  reportTitle: string;
+  segments: DopplerSegmentDef[];
+  parameters: DopplerParameterDef[];
+  notes: DopplerNoteDef[];
+};
+
+export type DopplerFieldOverrides = Record<string, string>;
+
+export type DopplerStudy = {
+  exam_side: DopplerExamSide;
+  fields: DopplerFieldOverrides;
+};
+
+export type DopplerPatientInfo = {
+  name?: string;
+  gender?: string;
+  date?: string;
+};
+
+export const DOPPLER_TEMPLATE_MODES: Record<string, DopplerMode> = {
+  DOPPLER_LOWER_LIMB: "venous",
+  DOPPLER_LOWER_LIMB_ARTERIAL: "arterial"
+};
+
+const NOT_DICTATED = "Not dictated";
+
+function formatPsv(value: string) {
+  return /^\d+(?:\.\d+)?$/.test(value.trim()) ? `PSV ${value.trim()} cm/s` : value;
+}
+
+const DOPPLER_MODE_DEFS: Record<DopplerMode, DopplerModeDef> = {
+  venous: {
+    mode: "venous",
+    reportTitle: "COLOUR DOPPLER LOWER LIMB VEINS",
+    segments: [
+      { key: "cfv", label: "Common femoral vein" },
+      { key: "fv", label: "Femoral vein" },
+      { key: "popliteal", label: "Popliteal vein" },
+      { key: "calf", label: "Calf veins" }
+    ],
+    parameters: [
+      { key: "compressibility", label: "Compressibility", normal: "Fully compressible" },
+      { key: "phasicity", label: "Flow phasicity", normal: "Phasic flow" },
+      { key: "thrombus", label: "Thrombus", normal: "No thrombus" }
+    ],
+    notes: [
+      {
+        key: "superficial_veins",
+        label: "Superficial veins",
+        normal: "Great saphenous vein and saphenofemoral junction are normal"
+      }
+    ]
+  },
+  arterial: {
+    mode: "arterial",
+    reportTitle: "COLOUR DOPPLER LOWER LIMB ARTERIES",
+    segments: [
+      { key: "cfa", label: "Common femoral artery" },
+      { key: "sfa", label: "Superficial femoral artery" },
+      { key: "popliteal", label: "Popliteal artery" },
+      { key: "ata", label: "Anterior tibial artery" },
+      { key: "pta", label: "Posterior tibial artery" },
+      { key: "dpa", label: "Dorsalis pedis artery" }
+    ],
+    parameters: [
+      { key: "waveform", label: "Waveform", normal: "Triphasic waveform" },
+      { key: "psv", label: "PSV (cm/s)", normal: "", format: formatPsv },
+      { key: "thrombus", label: "Thrombus / occlusion", normal: "No thrombus or occlusion" }
+    ],
+    notes: []
+  }
+};
+
+export function getDopplerMode(templateId: string): DopplerMode | null {
+  return DOPPLER_TEMPLATE_MODES[templateId] || null;
+}
+
+export function isDopplerTemplateId(templateId: string) {
+  return Boolean(getDopplerMode(templateId));
+}
+
+export function getDopplerModeDef(mode: DopplerMode) {
+  return DOPPLER_MODE_DEFS[mode];
+}
+
+export function dopplerFieldKey(side: DopplerSide, segment: string, parameter: string) {
+  return `${side}_${segment}_${parameter}`;
+}
+
+export function dopplerSideFieldKeys(mode: DopplerMode, side: DopplerSide) {
+  const def = DOPPLER_MODE_DEFS[mode];
+  return [
+    ...def.segments.flatMap((segment) =>
+      def.parameters.map((parameter) => dopplerFieldKey(side, segment.key, parameter.key))
+    ),
+    `${side}_summary`
+  ];
+}
+
+export function dopplerFieldKeys(mode: DopplerMode) {
+  return [
+    ...DOPPLER_SIDES.flatMap((side) => dopplerSideFieldKeys(mode, side)),
+    ...DOPPLER_MODE_DEFS[mode].notes.map((note) => note.key),
+    "other_findings"
+  ];
+}
+
+// Labels read "Left common femoral vein thrombus", built from the same segment
+// and parameter labels the report table prints.
+export function dopplerFieldLabels(mode: DopplerMode) {
+  const def = DOPPLER_MODE_DEFS[mode];
+  const lowerFirst = (label: string) =>
+    /^[A-Z][a-z]/.test(label) ? `${label[0].toLowerCase()}${label.slice(1)}` : label;
+  const labels: Record<string, string> = { other_findings: "Other findings" };
+  for (const side of DOPPLER_SIDES) {
+    for (const segment of def.segments) {
+      for (const parameter of def.parameters) {
+        labels[dopplerFieldKey(side, segment.key, parameter.key)] = `${sideLabel(
+          side
+        )} ${lowerFirst(segment.label)} ${lowerFirst(parameter.label)}`;
+      }
+    }
+    labels[`${side}_summary`] = `${sideLabel(side)} limb`;
+  }
+  for (const note of def.notes) labels[note.key] = note.label;
+  return labels;
+}
+
+export function sanitizeDopplerStudy(input: unknown, mode: DopplerMode): DopplerStudy {
+  const raw = input && typeof input === "object" ? (input as Record<string, unknown>) : {};
+  const fieldsRaw =
+    raw.fields && typeof raw.fields === "object" ? (raw.fields as Record<string, unknown>) : {};
+  const fields: DopplerFieldOverrides = {};
+  for (const key of dopplerFieldKeys(mode)) {
+    const value = normalizeText(fieldsRaw[key]);
+    if (value) fields[key] = value;
+  }
+  const examSide = normalizeText(raw.exam_side).toLowerCase();
+  return {
+    exam_side: (DOPPLER_EXAM_SIDES as readonly string[]).includes(examSide)
+      ? (examSide as DopplerExamSide)
+      : "bilateral",
+    fields
+  };
+}
+
+function sideLabel(side: DopplerSide) {
+  return side === "right" ? "Right" : "Left";
+}
+
+// A side with nothing dictated is kept in the table as "Not dictated" and
+// flagged rather than filled with normal defaults, unless neither side was
+// dictated (a normal study).
+export function buildDopplerReport(params: {
+  mode: DopplerMode;
+  patient?: DopplerPatientInfo;
+  study: DopplerStudy;
+}) {
+  const def = DOPPLER_MODE_DEFS[params.mode];
+  const { study } = params;
+  const patient = params.patient || {};
+  const sides = study.exam_side === "bilateral" ? [...DOPPLER_SIDES] : [study.exam_side];
+  const dictatedSides = sides.filter((side) =>
+    dopplerSideFieldKeys(params.mode, side).some((key) => study.fields[key])
+  );
+  const flags: string[] = [];
+  const undictatedSides = dictatedSides.length
+    ? sides.filter((side) => !dictatedSides.includes(side))
+    : [];
+  for (const side of undictatedSides) {
+    flags.push(
+      `${sideLabel(side)} limb: no findings were dictated for this side; confirm before sign-off.`
+    );
+  }
+
+  const cellFor = (side: DopplerSide, segmentKey: string) => {
+    if (undictatedSides.includes(side)) return NOT_DICTATED;
+    return def.parameters
+      .map((parameter) => {
+        const value = study.fields[dopplerFieldKey(side, segmentKey, parameter.key)];
+        if (!value) return parameter.normal;
+        return parameter.format ? parameter.format(value) : value;
+      })
+      .filter(Boolean)
+      .join("; ");
+  };
+
+  const lines: string[] = [];
+  lines.push(
+    `NAME: ${patient.name?.trim() || "________________"}    GENDER: ${
+      patient.gender?.trim() || "________"
+    }    DATE: ${patient.date?.trim() || "____/____/______"}`
+  );
+  lines.push(def.reportTitle);
+  lines.push("");
+  lines.push(
+    ...buildAsciiTable([
+      ["Segment", ...sides.map(sideLabel)],
+      ...def.segments.map((segment) => [
+        segment.label,
+        ...sides.map((side) => cellFor(side, segment.key))
+      ])
+    ])
+  );
+  lines.push("");
+
+  for (const side of sides) {
+    const summary = study.fields[`${side}_summary`];
+    if (summary) lines.push(`${sideLabel(side)}: ${ensurePeriod(summary)}`);
+  }
+  for (const note of def.notes) {
+    const value = study.fields[note.key] || note.normal;
+    if (value) lines.push(`${note.label}: ${ensurePeriod(value)}`);
+  }
+  const otherFindings = study.fields.other_findings;
+  if (otherFindings) lines.push(ensurePeriod(otherFindings));
+
+  return { text: lines.join("\n"), flags };
+}
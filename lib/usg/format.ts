@@ -0,0 +1,44 @@
+// Text and table helpers shared by the template report builders.
+
+// Collapses whitespace; finite numbers are kept as their string form and any
+// other non-string value becomes "".
+export function normalizeText(value: unknown) {
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  if (typeof value !== "string") return "";
+  return value.replace(/\s+/g, " ").trim();
+}
+
+// A positive number from a model value, or null.
+export function toMeasurement(value: unknown) {
+  const parsed =
+    typeof value === "number" ? value : typeof value === "string" ? parseFloat(value) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+export function pickEnum<T extends string>(options: readonly T[], value: unknown, fallback: T): T {
+  const normalized = normalizeText(value).toLowerCase().replace(/[\s-]+/g, "_");
+  return (options as readonly string[]).includes(normalized) ? (normalized as T) : fallback;
+}
+
+export function ensurePeriod(text: string) {
+  const trimmed = text.trim();
+  if (!trimmed) return "";
+  return /[.!?]$/.test(trimmed) ? trimmed : `${trimmed}.`;
+}
+
+export function padTableCell(text: string, minWidth: number) {
+  const normalized = text.replace(/\s+/g, " ").trim();
+  if (normalized.length >= minWidth) return normalized;
+  return `${normalized}${" ".repeat(minWidth - normalized.length)}`;
+}
+
+// The first row is the header; columns are sized to their widest cell.
+export function buildAsciiTable(rows: string[][]) {
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length))
+  );
+  const border = `+${widths.map((width) => "-".repeat(width + 2)).join("+")}+`;
+  const renderRow = (row: string[]) =>
+    `| ${row.map((cell, column) => padTableCell(cell, widths[column])).join(" | ")} |`;
+  return [border, renderRow(rows[0]), border, ...rows.slice(1).map(renderRow), border];
+}
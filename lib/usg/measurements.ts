@@ -0,0 +1,308 @@
+import type { UsgGender } from "@/lib/usgTemplate";
+
+export type LinearUnit = "mm" | "cm";
+
+export type LinearMeasurement = {
+  value: number;
+  unit: LinearUnit;
+  mm: number;
+};
+
+export type VolumeMeasurement = {
+  value: number;
+  unit: "cc";
+};
+
+export type RenalRange = {
+  minMm: number;
+  maxMm: number;
+  label: string;
+};
+
+export type KidneyMeasurement = {
+  side: "right" | "left";
+  dimensions: LinearMeasurement[];
+  lengthMm: number;
+  range: RenalRange;
+  status: "normal" | "small" | "enlarged";
+};
+
+export type ProstateMeasurement = {
+  dimensions: LinearMeasurement[] | null;
+  volumeCc: number;
+  weightG: number;
+  computed: boolean;
+  enlarged: boolean;
+};
+
+export type BladderResidualMeasurement = {
+  prevoid: VolumeMeasurement;
+  postvoid: VolumeMeasurement;
+  residualPercent: number;
+  significant: boolean;
+};
+
+export type UsgDerivedMeasurements = {
+  kidneys: Partial<Record<"right" | "left", KidneyMeasurement>>;
+  prostate: ProstateMeasurement | null;
+  bladder: BladderResidualMeasurement | null;
+  endometrium: LinearMeasurement | null;
+  impressionSuggestions: string[];
+};
+
+const ELLIPSOID_COEFFICIENT = 0.52;
+const PROSTATE_NORMAL_MAX_CC = 25;
+const PVR_SIGNIFICANT_CC = 100;
+const PVR_SIGNIFICANT_PERCENT = 20;
+const PVR_MIN_CC_FOR_PERCENT = 50;
+
+// Renal length bands (mm) by age in years; adult band is used when age is
+// not dictated.
+const RENAL_LENGTH_RANGES: { maxAgeYears: number; range: RenalRange }[] = [
+  { maxAgeYears: 1, range: { minMm: 40, maxMm: 65, label: "infant" } },
+  { maxAgeYears: 5, range: { minMm: 55, maxMm: 85, label: "age 1-5 years" } },
+  { maxAgeYears: 10, range: { minMm: 70, maxMm: 100, label: "age 6-10 years" } },
+  { maxAgeYears: 15, range: { minMm: 80, maxMm: 115, label: "age 11-15 years" } },
+  { maxAgeYears: 60, range: { minMm: 90, maxMm: 125, label: "adult" } },
+  { maxAgeYears: Infinity, range: { minMm: 85, maxMm: 120, label: "age over 60 years" } }
+];
+
+const KIDNEY_SIZE_IMPRESSION_TERMS = {
+  small: "small|atrophic|contracted|shrunken",
+  enlarged: "enlarged|bulky|nephromegaly"
+};
+
+const DIMENSION_PATTERN =
+  /(\d+(?:\.\d+)?)\s*(?:mm|cm)?\s*(?:x|×|\*|by)\s*(\d+(?:\.\d+)?)\s*(?:mm|cm)?(?:\s*(?:x|×|\*|by)\s*(\d+(?:\.\d+)?))?\s*(mm|cm|millimet(?:er|re)s?|centimet(?:er|re)s?)?/i;
+const VOLUME_PATTERN =
+  /(\d+(?:\.\d+)?)\s*(cc|ml|cm3|cm\^3|cubic\s+centimet(?:er|re)s?|millilit(?:er|re)s?)?/i;
+const DICTATED_PROSTATE_VOLUME_PATTERN =
+  /(?:volume|weight|weighing|measuring)[^.;\d]{0,30}(\d+(?:\.\d+)?)\s*(?:cc|ml|cm3|g|gm|grams?)\b/i;
+
+function round(value: number, digits = 0) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// Undimensioned organ sizes under 30 are almost always spoken in cm.
+export function inferLinearUnit(values: number[]): LinearUnit {
+  return Math.max(...values) < 30 ? "cm" : "mm";
+}
+
+function toLinearUnit(raw: string | undefined, values: number[]): LinearUnit {
+  if (raw) return /^c/i.test(raw) ? "cm" : "mm";
+  return inferLinearUnit(values);
+}
+
+export function parseDimensions(text: string): LinearMeasurement[] | null {
+  const match = DIMENSION_PATTERN.exec(text || "");
+  if (!match) return null;
+  const values = [match[1], match[2], match[3]]
+    .filter((value): value is string => Boolean(value))
+    .map(Number);
+  const unit = toLinearUnit(match[4], values);
+  return values.map((value) => ({
+    value,
+    unit,
+    mm: unit === "cm" ? round(value * 10, 1) : value
+  }));
+}
+
+export function parseLinear(text: string, defaultUnit: LinearUnit): LinearMeasurement | null {
+  const match = /(\d+(?:\.\d+)?)\s*(mm|cm|millimet(?:er|re)s?|centimet(?:er|re)s?)?/i.exec(
+    text || ""
+  );
+  if (!match) return null;
+  const value = Number(match[1]);
+  const unit: LinearUnit = match[2] ? (/^c/i.test(match[2]) ? "cm" : "mm") : defaultUnit;
+  return { value, unit, mm: unit === "cm" ? round(value * 10, 1) : value };
+}
+
+export function parseVolume(text: string): VolumeMeasurement | null {
+  const match = VOLUME_PATTERN.exec(text || "");
+  if (!match) return null;
+  return { value: Number(match[1]), unit: "cc" };
+}
+
+export function parseAgeYears(age: string | undefined) {
+  const match = /(\d+(?:\.\d+)?)\s*(months?|mths?|mo|weeks?|wks?|days?|years?|yrs?|y)?\b/i.exec(
+    age || ""
+  );
+  if (!match) return null;
+  const value = Number(match[1]);
+  const unit = (match[2] || "").toLowerCase();
+  if (/^(months?|mths?|mo)$/.test(unit)) return value / 12;
+  if (/^(weeks?|wks?)$/.test(unit)) return value / 52;
+  if (/^days?$/.test(unit)) return value / 365;
+  return value;
+}
+
+export function renalLengthRange(ageYears: number | null) {
+  const years = ageYears ?? 30;
+  const band = RENAL_LENGTH_RANGES.find((entry) => years <= entry.maxAgeYears);
+  return (band || RENAL_LENGTH_RANGES[RENAL_LENGTH_RANGES.length - 1]).range;
+}
+
+function measureKidney(
+  side: "right" | "left",
+  sizeText: string,
+  ageYears: number | null
+): KidneyMeasurement | null {
+  const dimensions = parseDimensions(sizeText);
+  if (!dimensions) return null;
+  const lengthMm = Math.max(...dimensions.map((dimension) => dimension.mm));
+  const range = renalLengthRange(ageYears);
+  const status =
+    lengthMm < range.minMm ? "small" : lengthMm > range.maxMm ? "enlarged" : "normal";
+  return { side, dimensions, lengthMm, range, status };
+}
+
+// A volume or weight the radiologist states wins over one computed from the
+// dictated dimensions.
+function measureProstate(text: string): ProstateMeasurement | null {
+  const dictated = DICTATED_PROSTATE_VOLUME_PATTERN.exec(text);
+  if (dictated) {
+    const volumeCc = Number(dictated[1]);
+    return {
+      dimensions: parseDimensions(text),
+      volumeCc,
+      weightG: round(volumeCc),
+      computed: false,
+      enlarged: volumeCc > PROSTATE_NORMAL_MAX_CC
+    };
+  }
+  const dimensions = parseDimensions(text);
+  if (!dimensions || dimensions.length !== 3) return null;
+  const volumeCc = round(
+    (dimensions[0].mm * dimensions[1].mm * dimensions[2].mm * ELLIPSOID_COEFFICIENT) / 1000,
+    1
+  );
+  return {
+    dimensions,
+    volumeCc,
+    weightG: round(volumeCc),
+    computed: true,
+    enlarged: volumeCc > PROSTATE_NORMAL_MAX_CC
+  };
+}
+
+function measureBladderResidual(
+  prevoidText: string,
+  postvoidText: string
+): BladderResidualMeasurement | null {
+  const prevoid = parseVolume(prevoidText);
+  const postvoid = parseVolume(postvoidText);
+  if (!prevoid || !postvoid || prevoid.value <= 0) return null;
+  const residualPercent = round((postvoid.value / prevoid.value) * 100, 1);
+  const significant =
+    postvoid.value >= PVR_SIGNIFICANT_CC ||
+    (postvoid.value >= PVR_MIN_CC_FOR_PERCENT && residualPercent >= PVR_SIGNIFICANT_PERCENT);
+  return { prevoid, postvoid, residualPercent, significant };
+}
+
+function formatNumber(value: number) {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1).replace(/\.0$/, "");
+}
+
+function sideLabel(side: "right" | "left") {
+  return side === "right" ? "Right" : "Left";
+}
+
+function suggestImpressions(
+  derived: Omit<UsgDerivedMeasurements, "impressionSuggestions">,
+  impressionText: string
+) {
+  const suggestions: string[] = [];
+  const { prostate, bladder, kidneys } = derived;
+  if (
+    prostate?.enlarged &&
+    !/\b(prostatomegaly|enlarged\s+prostate|prostat\w*\s+(?:is\s+)?enlarge|bph)\b/i.test(
+      impressionText
+    )
+  ) {
+    suggestions.push(`Prostatomegaly (volume ${formatNumber(prostate.volumeCc)} cc)`);
+  }
+  if (
+    bladder?.significant &&
+    !/\b(post[-\s]?void|residual)\b/i.test(impressionText)
+  ) {
+    suggestions.push(
+      `Significant post-void residual urine (${formatNumber(bladder.postvoid.value)} cc, ${formatNumber(
+        bladder.residualPercent
+      )}% of prevoid volume)`
+    );
+  }
+  for (const kidney of [kidneys.right, kidneys.left]) {
+    if (!kidney || kidney.status === "normal") continue;
+    const terms = KIDNEY_SIZE_IMPRESSION_TERMS[kidney.status];
+    const alreadyStated = new RegExp(
+      `\\b${kidney.side}\\b[^.;]*\\b(${terms})\\b|\\b(${terms})\\b[^.;]*\\b${kidney.side}\\b`,
+      "i"
+    ).test(impressionText);
+    if (alreadyStated) continue;
+    suggestions.push(
+      `${sideLabel(kidney.side)} kidney ${kidney.status} for age (length ${formatNumber(kidney.lengthMm)} mm)`
+    );
+  }
+  return suggestions;
+}
+
+export function computeUsgDerivedMeasurements(params: {
+  gender: UsgGender;
+  age?: string;
+  kidneySizes: { right: string; left: string };
+  prostateText: string;
+  prevoidText: string;
+  postvoidText: string;
+  endometriumText: string;
+  impressionText: string;
+}): UsgDerivedMeasurements {
+  const ageYears = parseAgeYears(params.age);
+  const kidneys: UsgDerivedMeasurements["kidneys"] = {};
+  const right = measureKidney("right", params.kidneySizes.right, ageYears);
+  const left = measureKidney("left", params.kidneySizes.left, ageYears);
+  if (right) kidneys.right = right;
+  if (left) kidneys.left = left;
+
+  const derived = {
+    kidneys,
+    prostate: params.gender === "male" ? measureProstate(params.prostateText) : null,
+    bladder: measureBladderResidual(params.prevoidText, params.postvoidText),
+    endometrium:
+      params.gender === "female" ? parseLinear(params.endometriumText, "mm") : null
+  };
+  return {
+    ...derived,
+    impressionSuggestions: suggestImpressions(derived, params.impressionText)
+  };
+}
+
+export function formatProstateVolumeSentence(prostate: ProstateMeasurement | null) {
+  if (!prostate?.computed) return "";
+  return `Estimated volume ${formatNumber(prostate.volumeCc)} cc (approx. weight ${formatNumber(
+    prostate.weightG
+  )} g).`;
+}
+
+export function formatResidualSentence(bladder: BladderResidualMeasurement | null) {
+  if (!bladder) return "";
+  return `Post-void residual: ${formatNumber(bladder.residualPercent)}% of prevoid volume.`;
+}
+
+export function formatKidneyRangeSentence(kidney: KidneyMeasurement | undefined) {
+  if (!kidney || kidney.status === "normal") return "";
+  return `${sideLabel(kidney.side)} kidney length (${formatNumber(kidney.lengthMm)} mm) is ${
+    kidney.status === "small" ? "below" : "above"
+  } the expected range for ${kidney.range.label} (${kidney.range.minMm}-${kidney.range.maxMm} mm).`;
+}
+
+export function formatEndometriumThickness(endometrium: LinearMeasurement | null) {
+  if (!endometrium) return "";
+  return `${formatNumber(endometrium.mm)} mm`;
+}
+
+export function mergeImpressionSuggestions(impression: string, suggestions: string[]) {
+  if (!suggestions.length) return impression;
+  const base = impression.trim().replace(/[.;,\s]+$/g, "");
+  return [base, ...suggestions].filter(Boolean).join("; ");
+}
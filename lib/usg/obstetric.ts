@@ -0,0 +1,566 @@
+import { ensurePeriod, normalizeText, toMeasurement } from "@/lib/usg/format";
+
+export type ObstetricVariant = "first_trimester" | "second_third_trimester";
+
+export type ObstetricFetus = {
+  label: string;
+  cardiac_activity: string;
+  fhr_bpm: number | null;
+  presentation: string;
+  gestational_sac_msd_mm: number | null;
+  yolk_sac: string;
+  crl_mm: number | null;
+  nt_mm: number | null;
+  bpd_mm: number | null;
+  hc_mm: number | null;
+  ac_mm: number | null;
+  fl_mm: number | null;
+  placenta: string;
+  afi_cm: number | null;
+  dvp_cm: number | null;
+  other_findings: string;
+};
+
+export type ObstetricStudy = {
+  lmp: string;
+  dictated_ga_weeks: number | null;
+  dictated_ga_days: number | null;
+  chorionicity: string;
+  cervical_length_mm: number | null;
+  maternal_findings: string;
+  fetuses: ObstetricFetus[];
+};
+
+export type ObstetricPatientInfo = {
+  name?: string;
+  date?: string;
+};
+
+type FetusTextKey = {
+  [K in keyof ObstetricFetus]: ObstetricFetus[K] extends string ? K : never;
+}[keyof ObstetricFetus];
+type FetusNumberKey = Exclude<keyof ObstetricFetus, FetusTextKey>;
+type StudyTextKey = "lmp" | "chorionicity" | "maternal_findings";
+type StudyNumberKey = "dictated_ga_weeks" | "dictated_ga_days" | "cervical_length_mm";
+
+type BiometryKey = "bpd_mm" | "hc_mm" | "ac_mm" | "fl_mm";
+
+export type BiometryParameterResult = {
+  key: BiometryKey;
+  label: string;
+  valueMm: number;
+  gaDays: number | null;
+};
+
+export type FetalBiometryResult = {
+  parameters: BiometryParameterResult[];
+  gaDays: number | null;
+  gaMethod: string;
+  efwGrams: number | null;
+  efwMethod: string;
+};
+
+export const OBSTETRIC_TEMPLATE_VARIANTS: Record<string, ObstetricVariant> = {
+  USG_OBSTETRIC_FIRST_TRIMESTER: "first_trimester",
+  USG_OBSTETRIC_SECOND_THIRD_TRIMESTER: "second_third_trimester"
+};
+
+const MAX_FETUSES = 4;
+const FETUS_LETTERS = ["A", "B", "C", "D"];
+const EFW_SD_FRACTION = 0.127;
+const FHR_NORMAL_RANGE_BPM = [110, 160] as const;
+
+const FETUS_FIELDS: Record<ObstetricVariant, { text: FetusTextKey[]; numeric: FetusNumberKey[] }> =
+  {
+    first_trimester: {
+      text: ["label", "cardiac_activity", "yolk_sac", "other_findings"],
+      numeric: ["fhr_bpm", "gestational_sac_msd_mm", "crl_mm", "nt_mm"]
+    },
+    second_third_trimester: {
+      text: ["label", "cardiac_activity", "presentation", "placenta", "other_findings"],
+      numeric: ["fhr_bpm", "bpd_mm", "hc_mm", "ac_mm", "fl_mm", "afi_cm", "dvp_cm"]
+    }
+  };
+
+const STUDY_FIELDS: Record<ObstetricVariant, { text: StudyTextKey[]; numeric: StudyNumberKey[] }> =
+  {
+    first_trimester: {
+      text: ["lmp", "chorionicity", "maternal_findings"],
+      numeric: ["dictated_ga_weeks", "dictated_ga_days"]
+    },
+    second_third_trimester: {
+      text: ["lmp", "chorionicity", "maternal_findings"],
+      numeric: ["dictated_ga_weeks", "dictated_ga_days", "cervical_length_mm"]
+    }
+  };
+
+const BIOMETRY_LABELS: Record<BiometryKey, string> = {
+  bpd_mm: "BPD",
+  hc_mm: "HC",
+  ac_mm: "AC",
+  fl_mm: "FL"
+};
+
+// Hadlock 1984 single-parameter menstrual age regressions (cm -> weeks).
+const HADLOCK_GA_WEEKS: Record<BiometryKey, (cm: number) => number> = {
+  bpd_mm: (b) => 9.54 + 1.482 * b + 0.1676 * b * b,
+  hc_mm: (h) => 8.96 + 0.54 * h + 0.0003 * h * h * h,
+  ac_mm: (a) => 8.14 + 0.753 * a + 0.0036 * a * a,
+  fl_mm: (f) => 10.35 + 2.46 * f + 0.17 * f * f
+};
+
+const CARDIAC_ABSENT_PATTERN =
+  /\b(absent|not\s+(?:seen|detected|visuali[sz]ed)|no\s+(?:cardiac|heart)|nil|negative)\b/i;
+const CARDIAC_PRESENT_PATTERN = /\b(present|seen|positive|regular|detected)\b/i;
+
+export function getObstetricVariant(templateId: string): ObstetricVariant | null {
+  return OBSTETRIC_TEMPLATE_VARIANTS[templateId] || null;
+}
+
+export function obstetricFieldKeys(variant: ObstetricVariant) {
+  return { fetus: FETUS_FIELDS[variant], study: STUDY_FIELDS[variant] };
+}
+
+function emptyFetus(index: number): ObstetricFetus {
+  return {
+    label: FETUS_LETTERS[index] || String(index + 1),
+    cardiac_activity: "",
+    fhr_bpm: null,
+    presentation: "",
+    gestational_sac_msd_mm: null,
+    yolk_sac: "",
+    crl_mm: null,
+    nt_mm: null,
+    bpd_mm: null,
+    hc_mm: null,
+    ac_mm: null,
+    fl_mm: null,
+    placenta: "",
+    afi_cm: null,
+    dvp_cm: null,
+    other_findings: ""
+  };
+}
+
+function sanitizeFetus(input: unknown, index: number): ObstetricFetus {
+  const fetus = emptyFetus(index);
+  if (!input || typeof input !== "object") return fetus;
+  const raw = input as Record<string, unknown>;
+  for (const key of Object.keys(fetus) as (keyof ObstetricFetus)[]) {
+    if (typeof fetus[key] === "string") {
+      const text = normalizeText(raw[key]);
+      if (text) (fetus as Record<string, unknown>)[key] = text;
+    } else {
+      (fetus as Record<string, unknown>)[key] = toMeasurement(raw[key]);
+    }
+  }
+  return fetus;
+}
+
+export function sanitizeObstetricStudy(input: unknown): ObstetricStudy {
+  const raw = input && typeof input === "object" ? (input as Record<string, unknown>) : {};
+  const fetusesRaw = Array.isArray(raw.fetuses) ? raw.fetuses.slice(0, MAX_FETUSES) : [];
+  const fetuses = fetusesRaw.map((item, index) => sanitizeFetus(item, index));
+  return {
+    lmp: normalizeText(raw.lmp),
+    dictated_ga_weeks: toMeasurement(raw.dictated_ga_weeks),
+    dictated_ga_days: toMeasurement(raw.dictated_ga_days),
+    chorionicity: normalizeText(raw.chorionicity),
+    cervical_length_mm: toMeasurement(raw.cervical_length_mm),
+    maternal_findings: normalizeText(raw.maternal_findings),
+    fetuses: fetuses.length ? fetuses : [emptyFetus(0)]
+  };
+}
+
+// Segment extractions of one long recording describe the same fetuses in the
+// same order, so they are merged index by index.
+export function mergeObstetricStudies(studies: ObstetricStudy[]): ObstetricStudy {
+  const merged = sanitizeObstetricStudy({});
+  merged.fetuses = [];
+  const mergeText = (current: string, next: string) =>
+    !next || current.toLowerCase().includes(next.toLowerCase())
+      ? current
+      : current
+      ? `${current} ${next}`
+      : next;
+
+  for (const study of studies) {
+    merged.lmp = merged.lmp || study.lmp;
+    merged.dictated_ga_weeks = merged.dictated_ga_weeks ?? study.dictated_ga_weeks;
+    merged.dictated_ga_days = merged.dictated_ga_days ?? study.dictated_ga_days;
+    merged.chorionicity = merged.chorionicity || study.chorionicity;
+    merged.cervical_length_mm = merged.cervical_length_mm ?? study.cervical_length_mm;
+    merged.maternal_findings = mergeText(merged.maternal_findings, study.maternal_findings);
+    study.fetuses.forEach((fetus, index) => {
+      const target = merged.fetuses[index] || emptyFetus(index);
+      merged.fetuses[index] = target;
+      for (const key of Object.keys(target) as (keyof ObstetricFetus)[]) {
+        const record = target as Record<string, unknown>;
+        if (typeof target[key] === "string") {
+          record[key] =
+            key === "label"
+              ? fetus.label || target.label
+              : mergeText(target[key] as string, fetus[key] as string);
+        } else if (target[key] === null) {
+          record[key] = fetus[key];
+        }
+      }
+    });
+  }
+  if (!merged.fetuses.length) merged.fetuses = [emptyFetus(0)];
+  return merged;
+}
+
+export function formatGestationalAge(totalDays: number) {
+  const rounded = Math.round(totalDays);
+  const weeks = Math.floor(rounded / 7);
+  const days = rounded % 7;
+  return `${weeks} week${weeks === 1 ? "" : "s"} ${days} day${days === 1 ? "" : "s"}`;
+}
+
+function weeksToDays(weeks: number) {
+  return Math.round(weeks * 7);
+}
+
+// Hadlock 1992 CRL formula; falls back to the mean sac diameter rule
+// (GA in days = MSD in mm + 30) before an embryo is measurable.
+function firstTrimesterGaDays(fetus: ObstetricFetus) {
+  if (fetus.crl_mm !== null) {
+    const c = fetus.crl_mm / 10;
+    const weeks = Math.exp(
+      1.684969 + 0.315646 * c - 0.049306 * c ** 2 + 0.004057 * c ** 3 - 0.000120456 * c ** 4
+    );
+    return { gaDays: weeksToDays(weeks), gaMethod: "Hadlock CRL" };
+  }
+  if (fetus.gestational_sac_msd_mm !== null) {
+    return { gaDays: Math.round(fetus.gestational_sac_msd_mm + 30), gaMethod: "mean sac diameter" };
+  }
+  return { gaDays: null, gaMethod: "" };
+}
+
+function estimateFetalWeight(fetus: ObstetricFetus) {
+  if (fetus.ac_mm === null || fetus.fl_mm === null) return null;
+  const a = fetus.ac_mm / 10;
+  const f = fetus.fl_mm / 10;
+  const b = fetus.bpd_mm !== null ? fetus.bpd_mm / 10 : null;
+  const h = fetus.hc_mm !== null ? fetus.hc_mm / 10 : null;
+  let log10Weight: number;
+  let method: string;
+  if (b !== null && h !== null) {
+    log10Weight = 1.3596 - 0.00386 * a * f + 0.0064 * h + 0.00061 * b * a + 0.0424 * a + 0.174 * f;
+    method = "Hadlock BPD/HC/AC/FL";
+  } else if (h !== null) {
+    log10Weight = 1.326 - 0.00326 * a * f + 0.0107 * h + 0.0438 * a + 0.158 * f;
+    method = "Hadlock HC/AC/FL";
+  } else if (b !== null) {
+    log10Weight = 1.335 - 0.0034 * a * f + 0.0316 * b + 0.0457 * a + 0.1623 * f;
+    method = "Hadlock BPD/AC/FL";
+  } else {
+    log10Weight = 1.304 + 0.05281 * a + 0.1938 * f - 0.004 * a * f;
+    method = "Hadlock AC/FL";
+  }
+  return { grams: Math.round(10 ** log10Weight), method };
+}
+
+export function computeFetalBiometry(
+  fetus: ObstetricFetus,
+  variant: ObstetricVariant
+): FetalBiometryResult {
+  if (variant === "first_trimester") {
+    return { parameters: [], ...firstTrimesterGaDays(fetus), efwGrams: null, efwMethod: "" };
+  }
+
+  const parameters: BiometryParameterResult[] = [];
+  for (const key of Object.keys(BIOMETRY_LABELS) as BiometryKey[]) {
+    const valueMm = fetus[key];
+    if (valueMm === null) continue;
+    parameters.push({
+      key,
+      label: BIOMETRY_LABELS[key],
+      valueMm,
+      gaDays: weeksToDays(HADLOCK_GA_WEEKS[key](valueMm / 10))
+    });
+  }
+
+  let gaDays: number | null = null;
+  let gaMethod = "";
+  if (parameters.length === 4) {
+    const [b, h, a, f] = (["bpd_mm", "hc_mm", "ac_mm", "fl_mm"] as const).map(
+      (key) => (fetus[key] as number) / 10
+    );
+    gaDays = weeksToDays(10.85 + 0.06 * h * f + 0.67 * b + 0.168 * a);
+    gaMethod = "Hadlock composite";
+  } else if (parameters.length) {
+    gaDays = Math.round(
+      parameters.reduce((sum, item) => sum + (item.gaDays as number), 0) / parameters.length
+    );
+    gaMethod = `mean of ${parameters.map((item) => item.label).join("/")}`;
+  }
+
+  const efw = estimateFetalWeight(fetus);
+  return {
+    parameters,
+    gaDays,
+    gaMethod,
+    efwGrams: efw?.grams ?? null,
+    efwMethod: efw?.method ?? ""
+  };
+}
+
+function normalCdf(z: number) {
+  // Abramowitz-Stegun 7.1.26 approximation of erf.
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t +
+      0.254829592) *
+      t *
+      Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Hadlock 1991 in-utero weight standard: ln(mean EFW) is quadratic in
+// menstrual weeks with a standard deviation of about 12.7% of the mean.
+export function efwPercentile(efwGrams: number, gaDays: number) {
+  const weeks = gaDays / 7;
+  const mean = Math.exp(0.578 + 0.332 * weeks - 0.00354 * weeks * weeks);
+  const z = (efwGrams - mean) / (EFW_SD_FRACTION * mean);
+  return Math.round(normalCdf(z) * 100);
+}
+
+function formatPercentile(value: number) {
+  if (value < 1) return "<1st";
+  if (value > 99) return ">99th";
+  const suffix =
+    value % 100 >= 11 && value % 100 <= 13
+      ? "th"
+      : value % 10 === 1
+      ? "st"
+      : value % 10 === 2
+      ? "nd"
+      : value % 10 === 3
+      ? "rd"
+      : "th";
+  return `${value}${suffix}`;
+}
+
+// Re-dating thresholds for a discrepancy between dictated and ultrasound GA.
+export function gaDiscrepancyThresholdDays(gaDays: number) {
+  if (gaDays < 63) return 5;
+  if (gaDays < 112) return 7;
+  if (gaDays < 154) return 10;
+  if (gaDays < 196) return 14;
+  return 21;
+}
+
+export function assessLiquor(params: { afiCm: number | null; dvpCm: number | null }) {
+  if (params.afiCm !== null) {
+    const measure = `AFI ${params.afiCm} cm`;
+    if (params.afiCm < 5) return { status: "oligohydramnios" as const, text: `Oligohydramnios (${measure})` };
+    if (params.afiCm >= 25) return { status: "polyhydramnios" as const, text: `Polyhydramnios (${measure})` };
+    return { status: "adequate" as const, text: `Adequate (${measure})` };
+  }
+  if (params.dvpCm !== null) {
+    const measure = `deepest vertical pocket ${params.dvpCm} cm`;
+    if (params.dvpCm < 2) return { status: "oligohydramnios" as const, text: `Oligohydramnios (${measure})` };
+    if (params.dvpCm > 8) return { status: "polyhydramnios" as const, text: `Polyhydramnios (${measure})` };
+    return { status: "adequate" as const, text: `Adequate (${measure})` };
+  }
+  return null;
+}
+
+function cardiacActivityState(fetus: ObstetricFetus) {
+  if (CARDIAC_ABSENT_PATTERN.test(fetus.cardiac_activity)) return "absent";
+  if (fetus.fhr_bpm !== null || CARDIAC_PRESENT_PATTERN.test(fetus.cardiac_activity)) {
+    return "present";
+  }
+  return "unknown";
+}
+
+function formatMm(value: number) {
+  return `${Math.round(value * 10) / 10} mm`;
+}
+
+function gestationCountLabel(count: number) {
+  if (count === 1) return "Single";
+  if (count === 2) return "Twin";
+  if (count === 3) return "Triplet";
+  return `${count}-fetus`;
+}
+
+export function buildObstetricReport(params: {
+  variant: ObstetricVariant;
+  patient?: ObstetricPatientInfo;
+  study: ObstetricStudy;
+}) {
+  const { variant, study } = params;
+  const patient = params.patient || {};
+  const multiple = study.fetuses.length > 1;
+  const dictatedGaDays =
+    study.dictated_ga_weeks !== null
+      ? Math.round(study.dictated_ga_weeks * 7 + (study.dictated_ga_days ?? 0))
+      : null;
+
+  const lines: string[] = [];
+  const flags: string[] = [];
+  const impression: string[] = [];
+
+  lines.push(
+    `NAME: ${patient.name?.trim() || "________________"}    GENDER: Female    DATE: ${
+      patient.date?.trim() || "____/____/______"
+    }`
+  );
+  lines.push(
+    variant === "first_trimester"
+      ? "OBSTETRIC ULTRASOUND - FIRST TRIMESTER"
+      : "OBSTETRIC ULTRASOUND - SECOND / THIRD TRIMESTER"
+  );
+  const datingParts = [
+    study.lmp ? `LMP: ${study.lmp}` : "",
+    dictatedGaDays !== null ? `GA by dates: ${formatGestationalAge(dictatedGaDays)}` : ""
+  ].filter(Boolean);
+  if (datingParts.length) {
+    lines.push(ensurePeriod(datingParts.join(". ")));
+  }
+
+  const fetusStates = study.fetuses.map(cardiacActivityState);
+  const allLive = fetusStates.every((state) => state === "present");
+  lines.push(
+    `Gestation: ${ensurePeriod(
+      `${gestationCountLabel(study.fetuses.length)}${allLive ? " live" : ""} intrauterine gestation${
+        study.chorionicity ? ` (${study.chorionicity})` : ""
+      }`
+    )}`
+  );
+
+  const fetusSummaries: string[] = [];
+  study.fetuses.forEach((fetus, index) => {
+    const name = multiple ? `Fetus ${fetus.label || FETUS_LETTERS[index]}` : "Fetus";
+    if (multiple) lines.push(`${name.toUpperCase()}:`);
+
+    const state = fetusStates[index];
+    const cardiacText =
+      state === "absent"
+        ? fetus.cardiac_activity || "Absent"
+        : [
+            fetus.cardiac_activity || (state === "present" ? "Present" : ""),
+            fetus.fhr_bpm !== null ? `FHR ${Math.round(fetus.fhr_bpm)} bpm` : ""
+          ]
+            .filter(Boolean)
+            .join(", ");
+    if (cardiacText) lines.push(`Cardiac activity: ${ensurePeriod(cardiacText)}`);
+    if (state === "absent") {
+      flags.push(`${name}: cardiac activity reported absent; confirm before sign-off.`);
+    }
+    if (
+      variant === "second_third_trimester" &&
+      fetus.fhr_bpm !== null &&
+      (fetus.fhr_bpm < FHR_NORMAL_RANGE_BPM[0] || fetus.fhr_bpm > FHR_NORMAL_RANGE_BPM[1])
+    ) {
+      flags.push(
+        `${name}: FHR ${Math.round(fetus.fhr_bpm)} bpm is outside ${FHR_NORMAL_RANGE_BPM[0]}-${FHR_NORMAL_RANGE_BPM[1]} bpm.`
+      );
+    }
+    if (variant === "second_third_trimester" && fetus.presentation) {
+      lines.push(`Presentation: ${ensurePeriod(fetus.presentation)}`);
+    }
+
+    const biometry = computeFetalBiometry(fetus, variant);
+    if (variant === "first_trimester") {
+      if (fetus.gestational_sac_msd_mm !== null) {
+        lines.push(`Gestational sac: Mean sac diameter ${formatMm(fetus.gestational_sac_msd_mm)}.`);
+      }
+      if (fetus.yolk_sac) lines.push(`Yolk sac: ${ensurePeriod(fetus.yolk_sac)}`);
+      if (fetus.crl_mm !== null) lines.push(`CRL: ${formatMm(fetus.crl_mm)}.`);
+      if (fetus.nt_mm !== null) lines.push(`Nuchal translucency: ${formatMm(fetus.nt_mm)}.`);
+    } else if (biometry.parameters.length) {
+      lines.push("Biometry:");
+      for (const item of biometry.parameters) {
+        lines.push(
+          `${item.label}: ${formatMm(item.valueMm)}${
+            item.gaDays !== null ? ` (${formatGestationalAge(item.gaDays)})` : ""
+          }`
+        );
+      }
+    }
+
+    if (biometry.gaDays !== null) {
+      lines.push(
+        `GA by ultrasound: ${formatGestationalAge(biometry.gaDays)} (${biometry.gaMethod}).`
+      );
+      if (dictatedGaDays !== null) {
+        const difference = biometry.gaDays - dictatedGaDays;
+        if (Math.abs(difference) > gaDiscrepancyThresholdDays(biometry.gaDays)) {
+          flags.push(
+            `${name}: dictated GA ${formatGestationalAge(dictatedGaDays)} differs from computed GA ${formatGestationalAge(
+              biometry.gaDays
+            )} by ${Math.abs(difference)} days (${difference > 0 ? "larger" : "smaller"} than dates).`
+          );
+        }
+      }
+    }
+
+    let efwText = "";
+    if (biometry.efwGrams !== null) {
+      const percentile =
+        dictatedGaDays !== null ? efwPercentile(biometry.efwGrams, dictatedGaDays) : null;
+      efwText = `${biometry.efwGrams} g${
+        percentile !== null ? `, ${formatPercentile(percentile)} percentile` : ""
+      }`;
+      lines.push(
+        `EFW: ${biometry.efwGrams} g +/- 15% (${biometry.efwMethod})${
+          percentile !== null
+            ? `; ${formatPercentile(percentile)} percentile for ${formatGestationalAge(
+                dictatedGaDays as number
+              )} by dates`
+            : ""
+        }.`
+      );
+    }
+
+    if (variant === "second_third_trimester" && fetus.placenta) {
+      lines.push(`Placenta: ${ensurePeriod(fetus.placenta)}`);
+    }
+    const liquor =
+      variant === "second_third_trimester"
+        ? assessLiquor({ afiCm: fetus.afi_cm, dvpCm: fetus.dvp_cm })
+        : null;
+    if (liquor) {
+      lines.push(`Liquor: ${liquor.text}.`);
+      if (liquor.status !== "adequate") {
+        flags.push(`${name}: ${liquor.text.toLowerCase()}.`);
+      }
+    }
+    if (fetus.other_findings) lines.push(ensurePeriod(fetus.other_findings));
+
+    const summaryParts = [
+      biometry.gaDays !== null ? `${formatGestationalAge(biometry.gaDays)} by ultrasound` : "",
+      efwText ? `EFW ${efwText}` : "",
+      state === "absent" ? "no cardiac activity" : "",
+      liquor && liquor.status !== "adequate" ? liquor.status : ""
+    ].filter(Boolean);
+    if (summaryParts.length) {
+      fetusSummaries.push(multiple ? `${name}: ${summaryParts.join(", ")}` : summaryParts.join(", "));
+    }
+  });
+
+  if (variant === "second_third_trimester" && study.cervical_length_mm !== null) {
+    lines.push(`Cervix: Cervical length ${formatMm(study.cervical_length_mm)}.`);
+  }
+  if (study.maternal_findings) lines.push(ensurePeriod(study.maternal_findings));
+
+  impression.push(
+    ensurePeriod(
+      `${gestationCountLabel(study.fetuses.length)}${allLive ? " live" : ""} intrauterine gestation${
+        !multiple && fetusSummaries[0] ? ` of ${fetusSummaries[0]}` : ""
+      }`
+    )
+  );
+  if (multiple) impression.push(...fetusSummaries.map(ensurePeriod));
+
+  lines.push("IMPRESSION:");
+  lines.push(...impression.map((item) => `- ${item}`));
+
+  return { text: lines.join("\n"), flags };
+}
@@ -0,0 +1,69 @@
+import {
+  USG_FIELD_KEYS,
+  type UsgFieldOverrides,
+  type UsgReportSettings
+} from "@/lib/usgTemplate";
+
+const MAX_SETTING_LINE_LENGTH = 400;
+const MAX_SETTING_NOTE_LENGTH = 2000;
+const MAX_FIELD_DEFAULT_LENGTH = 600;
+
+export const USG_REPORT_SETTING_LINES = [
+  { key: "departmentLine", label: "Department / header line (KUB)", multiline: true },
+  { key: "referredBy", label: "Default referrer (KUB)", multiline: false },
+  { key: "endOfReportLine", label: "End-of-report line (abdomen)", multiline: false },
+  { key: "limitationsNote", label: "Limitations note (abdomen)", multiline: true }
+] as const;
+
+export type UsgReportSettingLineKey = (typeof USG_REPORT_SETTING_LINES)[number]["key"];
+
+// Header and footer lines may span several lines; single-line values are
+// collapsed so they cannot break the report layout.
+function normalizeLine(value: unknown, multiline: boolean) {
+  if (typeof value !== "string") return undefined;
+  const text = multiline
+    ? value
+        .replace(/\r\n/g, "\n")
+        .split("\n")
+        .map((line) => line.replace(/[ \t]+/g, " ").trim())
+        .join("\n")
+        .trim()
+    : value.replace(/\s+/g, " ").trim();
+  return text.slice(0, multiline ? MAX_SETTING_NOTE_LENGTH : MAX_SETTING_LINE_LENGTH);
+}
+
+function sanitizeFieldDefaults(input: unknown) {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return undefined;
+  const raw = input as Record<string, unknown>;
+  const fields: UsgFieldOverrides = {};
+  for (const key of USG_FIELD_KEYS) {
+    const value = raw[key];
+    if (typeof value !== "string") continue;
+    fields[key] = value.replace(/\s+/g, " ").trim().slice(0, MAX_FIELD_DEFAULT_LENGTH);
+  }
+  return Object.keys(fields).length ? fields : undefined;
+}
+
+export function sanitizeUsgReportSettings(input: unknown): UsgReportSettings | null {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return null;
+  const raw = input as Record<string, unknown>;
+  const settings: UsgReportSettings = {};
+  for (const line of USG_REPORT_SETTING_LINES) {
+    const value = normalizeLine(raw[line.key], line.multiline);
+    if (value !== undefined) settings[line.key] = value;
+  }
+  const fieldDefaults = sanitizeFieldDefaults(raw.fieldDefaults);
+  if (fieldDefaults) settings.fieldDefaults = fieldDefaults;
+  const kubFieldDefaults = sanitizeFieldDefaults(raw.kubFieldDefaults);
+  if (kubFieldDefaults) settings.kubFieldDefaults = kubFieldDefaults;
+  return Object.keys(settings).length ? settings : null;
+}
+
+export function parseUsgReportSettingsJson(text: string) {
+  if (!text.trim()) return null;
+  try {
+    return sanitizeUsgReportSettings(JSON.parse(text));
+  } catch {
+    return null;
+  }
+}
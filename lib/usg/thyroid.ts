@@ -0,0 +1,524 @@
+import {
+  buildAsciiTable,
+  ensurePeriod,
+  normalizeText,
+  pickEnum,
+  toMeasurement
+} from "@/lib/usg/format";
+
+export const THYROID_TEMPLATE_ID = "USG_THYROID";
+
+export const THYROID_LOBES = ["right", "left", "isthmus"] as const;
+export const TIRADS_COMPOSITIONS = [
+  "cystic",
+  "spongiform",
+  "mixed_cystic_solid",
+  "solid",
+  "indeterminate",
+  "not_described"
+] as const;
+export const TIRADS_ECHOGENICITIES = [
+  "anechoic",
+  "hyperechoic",
+  "isoechoic",
+  "hypoechoic",
+  "very_hypoechoic",
+  "indeterminate",
+  "not_described"
+] as const;
+export const TIRADS_SHAPES = ["wider_than_tall", "taller_than_wide", "not_described"] as const;
+export const TIRADS_MARGINS = [
+  "smooth",
+  "ill_defined",
+  "lobulated_irregular",
+  "extrathyroidal_extension",
+  "indeterminate",
+  "not_described"
+] as const;
+export const TIRADS_ECHOGENIC_FOCI = [
+  "none",
+  "comet_tail",
+  "macrocalcification",
+  "peripheral_rim",
+  "punctate"
+] as const;
+
+export type ThyroidLobe = (typeof THYROID_LOBES)[number];
+export type TiradsComposition = (typeof TIRADS_COMPOSITIONS)[number];
+export type TiradsEchogenicity = (typeof TIRADS_ECHOGENICITIES)[number];
+export type TiradsShape = (typeof TIRADS_SHAPES)[number];
+export type TiradsMargin = (typeof TIRADS_MARGINS)[number];
+export type TiradsEchogenicFocus = (typeof TIRADS_ECHOGENIC_FOCI)[number];
+export type TiradsLevel = 1 | 2 | 3 | 4 | 5;
+
+export type ThyroidNodule = {
+  lobe: ThyroidLobe | "unspecified";
+  location: string;
+  ap_mm: number | null;
+  transverse_mm: number | null;
+  cc_mm: number | null;
+  composition: TiradsComposition;
+  echogenicity: TiradsEchogenicity;
+  shape: TiradsShape;
+  margin: TiradsMargin;
+  echogenic_foci: TiradsEchogenicFocus[];
+  description: string;
+};
+
+export type ThyroidFieldOverrides = {
+  right_lobe_main?: string;
+  left_lobe_main?: string;
+  isthmus_main?: string;
+  parenchyma?: string;
+  cervical_lymph_nodes?: string;
+  other_findings?: string;
+  impression?: string;
+};
+
+export type ThyroidStudy = {
+  fields: ThyroidFieldOverrides;
+  nodules: ThyroidNodule[];
+};
+
+export type ThyroidLobeState = "present" | "surgically_absent" | "not_visualized";
+
+export type ThyroidConsistencyNormalization = {
+  study: ThyroidStudy;
+  lobeStates: Record<ThyroidLobe, ThyroidLobeState>;
+  suppressedFields: (keyof ThyroidFieldOverrides)[];
+  droppedNodules: number;
+};
+
+export type TiradsAssessment = {
+  // With features missing, points and level are only a lower bound.
+  points: number;
+  level: TiradsLevel;
+  missingFeatures: string[];
+  maxDimensionMm: number | null;
+  recommendation: "fna" | "follow_up" | "none";
+  recommendationText: string;
+};
+
+export type ThyroidPatientInfo = {
+  name?: string;
+  gender?: string;
+  date?: string;
+};
+
+export const THYROID_FIELD_KEYS = [
+  "right_lobe_main",
+  "left_lobe_main",
+  "isthmus_main",
+  "parenchyma",
+  "cervical_lymph_nodes",
+  "other_findings",
+  "impression"
+] as const satisfies readonly (keyof ThyroidFieldOverrides)[];
+
+export const THYROID_FIELD_LABELS: Record<keyof ThyroidFieldOverrides, string> = {
+  right_lobe_main: "Right lobe",
+  left_lobe_main: "Left lobe",
+  isthmus_main: "Isthmus",
+  parenchyma: "Parenchyma",
+  cervical_lymph_nodes: "Lymph nodes",
+  other_findings: "Other findings",
+  impression: "Impression"
+};
+
+const THYROID_DEFAULT_FIELDS: Required<ThyroidFieldOverrides> = {
+  right_lobe_main: "Right lobe of thyroid is normal in size, shape and echotexture.",
+  left_lobe_main: "Left lobe of thyroid is normal in size, shape and echotexture.",
+  isthmus_main: "Isthmus is normal in thickness.",
+  parenchyma: "Thyroid parenchyma shows homogeneous echotexture.",
+  cervical_lymph_nodes: "No significant cervical lymphadenopathy.",
+  other_findings: "",
+  impression: ""
+};
+
+const LOBE_FIELD: Record<ThyroidLobe, keyof ThyroidFieldOverrides> = {
+  right: "right_lobe_main",
+  left: "left_lobe_main",
+  isthmus: "isthmus_main"
+};
+
+const LOBE_LABELS: Record<ThyroidNodule["lobe"], string> = {
+  right: "Right lobe",
+  left: "Left lobe",
+  isthmus: "Isthmus",
+  unspecified: "Unspecified lobe"
+};
+
+// ACR TI-RADS (2017) points per feature. Indeterminate composition scores 2,
+// indeterminate echogenicity 1 and indeterminate margin 0, as the lexicon says.
+// Features that were not dictated add nothing and leave the score incomplete.
+const COMPOSITION_POINTS: Record<TiradsComposition, number> = {
+  cystic: 0,
+  spongiform: 0,
+  mixed_cystic_solid: 1,
+  solid: 2,
+  indeterminate: 2,
+  not_described: 0
+};
+const ECHOGENICITY_POINTS: Record<TiradsEchogenicity, number> = {
+  anechoic: 0,
+  hyperechoic: 1,
+  isoechoic: 1,
+  hypoechoic: 2,
+  very_hypoechoic: 3,
+  indeterminate: 1,
+  not_described: 0
+};
+const SHAPE_POINTS: Record<TiradsShape, number> = {
+  wider_than_tall: 0,
+  taller_than_wide: 3,
+  not_described: 0
+};
+const MARGIN_POINTS: Record<TiradsMargin, number> = {
+  smooth: 0,
+  ill_defined: 0,
+  lobulated_irregular: 2,
+  extrathyroidal_extension: 3,
+  indeterminate: 0,
+  not_described: 0
+};
+const FOCI_POINTS: Record<TiradsEchogenicFocus, number> = {
+  none: 0,
+  comet_tail: 0,
+  macrocalcification: 1,
+  peripheral_rim: 2,
+  punctate: 3
+};
+
+const FEATURE_LABELS: Record<string, string> = {
+  cystic: "cystic",
+  spongiform: "spongiform",
+  mixed_cystic_solid: "mixed cystic-solid",
+  solid: "solid",
+  anechoic: "anechoic",
+  hyperechoic: "hyperechoic",
+  isoechoic: "isoechoic",
+  hypoechoic: "hypoechoic",
+  very_hypoechoic: "very hypoechoic",
+  wider_than_tall: "wider-than-tall",
+  taller_than_wide: "taller-than-wide",
+  smooth: "smooth",
+  ill_defined: "ill-defined",
+  lobulated_irregular: "lobulated/irregular",
+  extrathyroidal_extension: "extrathyroidal extension",
+  comet_tail: "comet-tail",
+  macrocalcification: "macrocalcification",
+  peripheral_rim: "rim calcification",
+  punctate: "punctate foci"
+};
+
+// FNA and follow-up size thresholds (largest dimension, mm) per TR level.
+const TIRADS_SIZE_THRESHOLDS: Record<TiradsLevel, { fna: number; followUp: number } | null> = {
+  1: null,
+  2: null,
+  3: { fna: 25, followUp: 15 },
+  4: { fna: 15, followUp: 10 },
+  5: { fna: 10, followUp: 5 }
+};
+
+const TIRADS_LEVEL_LABELS: Record<TiradsLevel, string> = {
+  1: "benign",
+  2: "not suspicious",
+  3: "mildly suspicious",
+  4: "moderately suspicious",
+  5: "highly suspicious"
+};
+
+const TIRADS_FOLLOW_UP_TEXT: Record<TiradsLevel, string> = {
+  1: "",
+  2: "",
+  3: "Follow-up at 1, 3, 5 yr",
+  4: "Follow-up at 1, 2, 3, 5 yr",
+  5: "Follow-up yearly for 5 yr"
+};
+
+const MAX_FNA_NODULES = 2;
+
+const SURGICALLY_ABSENT_PATTERN =
+  /\b(surgically\s+absent|(?:hemi|total\s+)?thyroidectomy|post[-\s]?operative|resected|not\s+seen\s+post)/i;
+const NOT_VISUALIZED_PATTERN = /\b(not\s+visuali[sz]ed|not\s+seen|could\s+not\s+be\s+assessed)\b/i;
+
+export function isThyroidTemplateId(templateId: string) {
+  return templateId === THYROID_TEMPLATE_ID;
+}
+
+function sanitizeNodule(input: unknown): ThyroidNodule {
+  const raw = input && typeof input === "object" ? (input as Record<string, unknown>) : {};
+  const foci = (Array.isArray(raw.echogenic_foci) ? raw.echogenic_foci : [raw.echogenic_foci])
+    .map((item) => pickEnum(TIRADS_ECHOGENIC_FOCI, item, "none"))
+    .filter((item) => item !== "none");
+  return {
+    lobe: pickEnum([...THYROID_LOBES, "unspecified"], raw.lobe, "unspecified"),
+    location: normalizeText(raw.location),
+    ap_mm: toMeasurement(raw.ap_mm),
+    transverse_mm: toMeasurement(raw.transverse_mm),
+    cc_mm: toMeasurement(raw.cc_mm),
+    composition: pickEnum(TIRADS_COMPOSITIONS, raw.composition, "not_described"),
+    echogenicity: pickEnum(TIRADS_ECHOGENICITIES, raw.echogenicity, "not_described"),
+    shape: pickEnum(TIRADS_SHAPES, raw.shape, "not_described"),
+    margin: pickEnum(TIRADS_MARGINS, raw.margin, "not_described"),
+    echogenic_foci: Array.from(new Set(foci)),
+    description: normalizeText(raw.description)
+  };
+}
+
+export function sanitizeThyroidStudy(input: unknown): ThyroidStudy {
+  const raw = input && typeof input === "object" ? (input as Record<string, unknown>) : {};
+  const fieldsRaw =
+    raw.fields && typeof raw.fields === "object" ? (raw.fields as Record<string, unknown>) : {};
+  const fields: ThyroidFieldOverrides = {};
+  for (const key of THYROID_FIELD_KEYS) {
+    const value = normalizeText(fieldsRaw[key]);
+    if (value) fields[key] = value;
+  }
+  return {
+    fields,
+    nodules: (Array.isArray(raw.nodules) ? raw.nodules : []).map(sanitizeNodule)
+  };
+}
+
+function inferLobeState(text: string): ThyroidLobeState {
+  if (SURGICALLY_ABSENT_PATTERN.test(text)) return "surgically_absent";
+  if (NOT_VISUALIZED_PATTERN.test(text)) return "not_visualized";
+  return "present";
+}
+
+// Thyroid counterpart of normalizeUsgOverridesForConsistency: nodules cannot
+// sit in a lobe that was dictated as resected or not visualized, a lobe with
+// nodules gets no "normal" default, and a gland without both lobes gets no
+// normal isthmus/parenchyma defaults.
+export function normalizeThyroidForConsistency(
+  study: ThyroidStudy
+): ThyroidConsistencyNormalization {
+  const lobeStates = Object.fromEntries(
+    THYROID_LOBES.map((lobe) => [lobe, inferLobeState(study.fields[LOBE_FIELD[lobe]] || "")])
+  ) as Record<ThyroidLobe, ThyroidLobeState>;
+  const nodules = study.nodules.filter(
+    (nodule) => nodule.lobe === "unspecified" || lobeStates[nodule.lobe] === "present"
+  );
+  const suppressedFields: (keyof ThyroidFieldOverrides)[] = THYROID_LOBES.filter(
+    (lobe) =>
+      !study.fields[LOBE_FIELD[lobe]] && nodules.some((nodule) => nodule.lobe === lobe)
+  ).map((lobe) => LOBE_FIELD[lobe]);
+  if (lobeStates.right !== "present" && lobeStates.left !== "present") {
+    for (const key of ["isthmus_main", "parenchyma"] as const) {
+      if (!study.fields[key]) suppressedFields.push(key);
+    }
+  }
+  return {
+    study: { fields: { ...study.fields }, nodules },
+    lobeStates,
+    suppressedFields,
+    droppedNodules: study.nodules.length - nodules.length
+  };
+}
+
+function noduleDimensions(nodule: ThyroidNodule) {
+  return [nodule.ap_mm, nodule.transverse_mm, nodule.cc_mm].filter(
+    (value): value is number => value !== null
+  );
+}
+
+function tiradsLevel(points: number): TiradsLevel {
+  if (points >= 7) return 5;
+  if (points >= 4) return 4;
+  if (points === 3) return 3;
+  if (points === 2) return 2;
+  return 1;
+}
+
+// Spongiform nodules score 0 whatever else is seen, so nothing is missing.
+export function missingTiradsFeatures(nodule: ThyroidNodule) {
+  if (nodule.composition === "spongiform") return [];
+  return (["composition", "echogenicity", "shape", "margin"] as const).filter(
+    (feature) => nodule[feature] === "not_described"
+  );
+}
+
+export function assessTirads(nodule: ThyroidNodule): TiradsAssessment {
+  const missingFeatures = missingTiradsFeatures(nodule);
+  // Spongiform nodules score 0 overall; no points are added for other features.
+  const points =
+    nodule.composition === "spongiform"
+      ? 0
+      : COMPOSITION_POINTS[nodule.composition] +
+        ECHOGENICITY_POINTS[nodule.echogenicity] +
+        SHAPE_POINTS[nodule.shape] +
+        MARGIN_POINTS[nodule.margin] +
+        nodule.echogenic_foci.reduce((sum, focus) => sum + FOCI_POINTS[focus], 0);
+  const level = tiradsLevel(points);
+  const dimensions = noduleDimensions(nodule);
+  const maxDimensionMm = dimensions.length ? Math.max(...dimensions) : null;
+  const thresholds = TIRADS_SIZE_THRESHOLDS[level];
+  const base = { points, level, missingFeatures, maxDimensionMm };
+
+  // No recommendation is made from assumed features.
+  if (missingFeatures.length) {
+    return { ...base, recommendation: "none", recommendationText: "Features not dictated" };
+  }
+  if (!thresholds) {
+    return { ...base, recommendation: "none", recommendationText: "No FNA" };
+  }
+  if (maxDimensionMm === null) {
+    return { ...base, recommendation: "none", recommendationText: "Size not dictated" };
+  }
+  if (maxDimensionMm >= thresholds.fna) {
+    return { ...base, recommendation: "fna", recommendationText: "FNA" };
+  }
+  if (maxDimensionMm >= thresholds.followUp) {
+    return {
+      ...base,
+      recommendation: "follow_up",
+      recommendationText: TIRADS_FOLLOW_UP_TEXT[level]
+    };
+  }
+  return { ...base, recommendation: "none", recommendationText: "No FNA" };
+}
+
+function formatNumber(value: number) {
+  return String(Math.round(value * 10) / 10);
+}
+
+function formatSize(nodule: ThyroidNodule) {
+  const dimensions = noduleDimensions(nodule);
+  return dimensions.length ? dimensions.map(formatNumber).join(" x ") : "-";
+}
+
+function formatFeatures(nodule: ThyroidNodule) {
+  const scored = (["composition", "echogenicity", "shape", "margin"] as const).map((feature) => {
+    const value = nodule[feature];
+    if (value === "not_described") return `${feature} not described`;
+    if (value === "indeterminate") return `${feature} indeterminate`;
+    return FEATURE_LABELS[value];
+  });
+  return [...scored, ...nodule.echogenic_foci.map((item) => FEATURE_LABELS[item])]
+    .filter(Boolean)
+    .join(", ");
+}
+
+function formatLevel(assessment: TiradsAssessment) {
+  return assessment.missingFeatures.length ? `>=TR${assessment.level}` : `TR${assessment.level}`;
+}
+
+function noduleLocation(nodule: ThyroidNodule) {
+  return [LOBE_LABELS[nodule.lobe], nodule.location].filter(Boolean).join(", ");
+}
+
+export function buildThyroidReport(params: {
+  patient?: ThyroidPatientInfo;
+  study: ThyroidStudy;
+  suppressedFields?: (keyof ThyroidFieldOverrides)[];
+}) {
+  const { study } = params;
+  const patient = params.patient || {};
+  const suppressed = new Set(params.suppressedFields || []);
+  const resolve = (key: keyof ThyroidFieldOverrides) =>
+    suppressed.has(key) ? "" : study.fields[key] || THYROID_DEFAULT_FIELDS[key];
+
+  const lines: string[] = [];
+  const flags: string[] = [];
+  lines.push(
+    `NAME: ${patient.name?.trim() || "________________"}    GENDER: ${
+      patient.gender?.trim() || "________"
+    }    DATE: ${patient.date?.trim() || "____/____/______"}`
+  );
+  lines.push("USG THYROID / NECK");
+  lines.push("");
+
+  for (const lobe of THYROID_LOBES) {
+    const text = resolve(LOBE_FIELD[lobe]);
+    if (text) lines.push(`${LOBE_LABELS[lobe]}: ${ensurePeriod(text)}`);
+  }
+  const parenchyma = resolve("parenchyma");
+  if (parenchyma) lines.push(`Parenchyma: ${ensurePeriod(parenchyma)}`);
+
+  const assessments = study.nodules.map(assessTirads);
+  if (study.nodules.length) {
+    lines.push("");
+    lines.push("Nodules (ACR TI-RADS):");
+    lines.push(
+      ...buildAsciiTable([
+        ["#", "Location", "Size (mm)", "Features", "Points", "TI-RADS", "Recommendation"],
+        ...study.nodules.map((nodule, index) => [
+          String(index + 1),
+          noduleLocation(nodule),
+          formatSize(nodule),
+          formatFeatures(nodule),
+          `${assessments[index].missingFeatures.length ? ">=" : ""}${assessments[index].points}`,
+          formatLevel(assessments[index]),
+          assessments[index].recommendationText
+        ])
+      ])
+    );
+    study.nodules.forEach((nodule, index) => {
+      if (nodule.description) {
+        lines.push(`Nodule ${index + 1}: ${ensurePeriod(nodule.description)}`);
+      }
+    });
+    lines.push("");
+  }
+
+  const lymphNodes = resolve("cervical_lymph_nodes");
+  if (lymphNodes) lines.push(`Lymph nodes: ${ensurePeriod(lymphNodes)}`);
+  const otherFindings = resolve("other_findings");
+  if (otherFindings) lines.push(ensurePeriod(otherFindings));
+
+  const impression: string[] = [];
+  const dictatedImpression = resolve("impression");
+  if (dictatedImpression) impression.push(ensurePeriod(dictatedImpression));
+  if (!study.nodules.length) {
+    impression.push("No focal thyroid nodule.");
+  }
+  study.nodules.forEach((nodule, index) => {
+    const assessment = assessments[index];
+    const size =
+      assessment.maxDimensionMm !== null ? ` (${formatNumber(assessment.maxDimensionMm)} mm)` : "";
+    const incomplete = assessment.missingFeatures.length > 0;
+    const action = incomplete
+      ? `${assessment.missingFeatures.join(", ")} not dictated; no recommendation made`
+      : assessment.recommendation === "fna"
+      ? "FNA recommended"
+      : assessment.recommendation === "follow_up"
+      ? "ultrasound follow-up recommended"
+      : assessment.level >= 3 && assessment.maxDimensionMm === null
+      ? "size needed for a recommendation"
+      : "no FNA or follow-up needed";
+    impression.push(
+      incomplete
+        ? `Nodule ${index + 1}, ${noduleLocation(nodule).toLowerCase()}${size}: ACR TI-RADS incomplete (at least ${
+            assessment.points
+          } point${assessment.points === 1 ? "" : "s"}) - ${action}.`
+        : `Nodule ${index + 1}, ${noduleLocation(nodule).toLowerCase()}${size}: ACR TI-RADS TR${
+            assessment.level
+          } (${TIRADS_LEVEL_LABELS[assessment.level]}, ${assessment.points} point${
+            assessment.points === 1 ? "" : "s"
+          }) - ${action}.`
+    );
+    if (incomplete) {
+      flags.push(
+        `Nodule ${index + 1}: ${assessment.missingFeatures.join(
+          ", "
+        )} not dictated, so TI-RADS is incomplete and no FNA or follow-up recommendation was made.`
+      );
+    } else if (assessment.level >= 3 && assessment.maxDimensionMm === null) {
+      flags.push(
+        `Nodule ${index + 1}: size was not dictated, so no TI-RADS recommendation could be made.`
+      );
+    }
+  });
+
+  const fnaCount = assessments.filter((item) => item.recommendation === "fna").length;
+  if (fnaCount > MAX_FNA_NODULES) {
+    flags.push(
+      `${fnaCount} nodules meet FNA criteria; ACR TI-RADS advises sampling at most the ${MAX_FNA_NODULES} with the highest points.`
+    );
+  }
+
+  lines.push("IMPRESSION:");
+  lines.push(...impression.map((item) => `- ${item}`));
+  return { text: lines.join("\n"), flags, assessments };
+}
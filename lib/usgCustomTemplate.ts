@@ -5,7 +5,8 @@ import {
   type UsgFieldOverrides,
   type UsgGender,
   type UsgOrganStateMap,
-  type UsgPatientInfo
+  type UsgPatientInfo,
+  type UsgReportSettings
 } from "@/lib/usgTemplate";
 
 export const CUSTOM_TEMPLATE_ID = "USG_ABDOMEN_CUSTOM";
@@ -763,6 +764,7 @@ export function renderCustomTemplateDeterministically(params: {
   templateScope?: "abdomen" | "kub";
   suppressedFields?: (keyof UsgFieldOverrides)[];
   organStates?: UsgOrganStateMap;
+  settings?: UsgReportSettings | null;
 }): CustomRenderResult {
   const {
     templateText,
@@ -772,7 +774,8 @@ export function renderCustomTemplateDeterministically(params: {
     patient,
     templateScope = "abdomen",
     suppressedFields = [],
-    organStates
+    organStates,
+    settings
   } = params;
 
   const canonicalReport =
@@ -781,13 +784,15 @@ export function renderCustomTemplateDeterministically(params: {
           gender,
           patient,
           overrides,
-          suppressedFields
+          suppressedFields,
+          settings
         })
       : buildUsgReport({
           gender,
           patient,
           overrides,
-          suppressedFields
+          suppressedFields,
+          settings
         });
 
   const canonicalSections = extractCanonicalSectionValues(canonicalReport, gender);
@@ -1,3 +1,14 @@
+import {
+  computeUsgDerivedMeasurements,
+  formatEndometriumThickness,
+  formatKidneyRangeSentence,
+  formatProstateVolumeSentence,
+  formatResidualSentence,
+  mergeImpressionSuggestions,
+  type UsgDerivedMeasurements
+} from "@/lib/usg/measurements";
+import { ensurePeriod, padTableCell } from "@/lib/usg/format";
+
 export type UsgGender = "male" | "female";
 
 export type UsgPatientInfo = {
@@ -46,6 +57,17 @@ export type UsgFieldOverrides = {
   correlate_clinically?: string;
 };
 
+// Institution or radiologist boilerplate. A missing key keeps the built-in
+// text; an empty string leaves that line (or default sentence) out.
+export type UsgReportSettings = {
+  fieldDefaults?: UsgFieldOverrides;
+  kubFieldDefaults?: UsgFieldOverrides;
+  departmentLine?: string;
+  referredBy?: string;
+  endOfReportLine?: string;
+  limitationsNote?: string;
+};
+
 export type UsgOrganState =
   | "visualized"
   | "limited_visualization"
@@ -169,10 +191,91 @@ const USG_KUB_DEFAULT_FIELDS_FEMALE: Required<UsgFieldOverrides> = {
   correlate_clinically: "Please correlate clinically"
 };
 
+// Normal wording for a spoken "insert normal <organ>" command. The base set
+// covers both genders; the bladder takes the fuller KUB wording because the
+// abdomen default only says how full it is.
+export const USG_NORMAL_FIELD_TEXT: Required<UsgFieldOverrides> = {
+  ...USG_DEFAULT_FIELDS_BASE,
+  bladder_main: USG_KUB_DEFAULT_FIELDS_MALE.bladder_main,
+  bladder_wall_thickening: USG_KUB_DEFAULT_FIELDS_MALE.bladder_wall_thickening,
+  bladder_mass_calculus: USG_KUB_DEFAULT_FIELDS_MALE.bladder_mass_calculus
+};
+
 export const USG_FIELD_KEYS = Object.keys(
   USG_DEFAULT_FIELDS_MALE
 ) as (keyof UsgFieldOverrides)[];
 
+// Field names as the report headings print them, for text that refers to a
+// field outside its own section.
+export const USG_FIELD_LABELS: Record<keyof UsgFieldOverrides, string> = {
+  liver_main: "Liver",
+  liver_focal_lesion: "Liver focal lesion",
+  liver_hepatic_veins: "Hepatic veins",
+  liver_ihbr: "Intrahepatic biliary radicles",
+  liver_portal_vein: "Portal vein",
+  gallbladder_main: "Gall bladder",
+  gallbladder_calculus_sludge: "Gall bladder calculus / sludge",
+  cbd_main: "CBD",
+  pancreas_main: "Pancreas",
+  pancreas_echotexture: "Pancreatic echotexture",
+  spleen_main: "Spleen",
+  spleen_focal_lesion: "Splenic focal lesion",
+  kidneys_size: "Kidney size",
+  kidneys_main: "Kidneys",
+  kidneys_cmd: "Corticomedullary differentiation",
+  kidneys_cortical_scarring: "Renal cortical scarring",
+  kidneys_parenchyma: "Renal parenchyma",
+  kidneys_calculus_hydronephrosis: "Renal calculus / hydronephrosis",
+  bladder_main: "Urinary bladder",
+  bladder_wall_thickening: "Bladder wall",
+  bladder_mass_calculus: "Bladder mass / calculus",
+  bladder_prevoid_volume_cc: "Pre-void bladder volume",
+  bladder_postvoid_volume_cc: "Post-void residual volume",
+  prostate_main: "Prostate",
+  prostate_echotexture: "Prostate echotexture",
+  uterus_main: "Uterus",
+  uterus_myometrium: "Myometrium",
+  endometrium_measurement_mm: "Endometrial thickness",
+  ovaries_main: "Adnexa",
+  adnexal_mass: "Adnexal mass",
+  peritoneal_fluid: "Peritoneal cavity",
+  lymph_nodes: "Lymph nodes",
+  impression: "Impression",
+  correlate_clinically: "Clinical correlation"
+};
+
+export const USG_BUILT_IN_BOILERPLATE = {
+  departmentLine: USG_KUB_DEPARTMENT_LINE,
+  referredBy: USG_KUB_REFERRED_BY_DEFAULT,
+  endOfReportLine: USG_END_OF_REPORT_LINE_MALE,
+  limitationsNote: USG_LIMITATIONS_NOTE
+};
+
+export function getUsgDefaultFields(params: {
+  gender: UsgGender;
+  kub: boolean;
+}): Required<UsgFieldOverrides> {
+  if (params.kub) {
+    return params.gender === "female" ? USG_KUB_DEFAULT_FIELDS_FEMALE : USG_KUB_DEFAULT_FIELDS_MALE;
+  }
+  return params.gender === "female" ? USG_DEFAULT_FIELDS_FEMALE : USG_DEFAULT_FIELDS_MALE;
+}
+
+function applySettingsDefaults(
+  defaults: Required<UsgFieldOverrides>,
+  layers: (UsgFieldOverrides | undefined)[]
+) {
+  const next = { ...defaults };
+  for (const layer of layers) {
+    if (!layer) continue;
+    for (const key of USG_FIELD_KEYS) {
+      const value = layer[key];
+      if (typeof value === "string") next[key] = value.trim();
+    }
+  }
+  return next;
+}
+
 const NOT_VISUALIZED_FRAGMENT =
   "(?:not\\s+(?:well\\s+)?visuali[sz]ed|not\\s+seen|not\\s+appreciable|non[-\\s]?visuali[sz]ed|poorly\\s+visuali[sz]ed|could\\s+not\\s+be\\s+visuali[sz]ed)";
 const NOT_ASSESSED_FRAGMENT =
@@ -212,12 +315,6 @@ const ORGAN_SURGERY_PATTERNS: Record<UsgOrganKey, RegExp> = {
   adnexa: /\b(oophorectomy|salpingo[-\s]?oophorectomy|post[-\s]?oophorectomy)\b/i
 };
 
-function ensurePeriod(text: string) {
-  const trimmed = text.trim();
-  if (!trimmed) return "";
-  return /[.!?]$/.test(trimmed) ? trimmed : `${trimmed}.`;
-}
-
 function escapeRegExp(text: string) {
   return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
@@ -629,12 +726,6 @@ function joinFragments(parts: string[]) {
   return parts.map((part) => part.trim()).filter(Boolean).join(" ");
 }
 
-function padTableCell(text: string, minWidth: number) {
-  const normalized = text.replace(/\s+/g, " ").trim();
-  if (normalized.length >= minWidth) return normalized;
-  return `${normalized}${" ".repeat(minWidth - normalized.length)}`;
-}
-
 function buildUsgKubHeaderTable(params: {
   labNo: string;
   date: string;
@@ -771,6 +862,18 @@ function formatBladderVolumeLine(label: string, rawValue: string) {
   return ensurePeriod(`${label}: ${normalizedValue}`);
 }
 
+function buildKubKidneyStarter(
+  size: string,
+  kidney: UsgDerivedMeasurements["kidneys"]["right"]
+) {
+  if (!size) return "is normal in size, shape, position.";
+  if (!kidney || kidney.status === "normal") {
+    return `is normal in size (${size}), shape, position.`;
+  }
+  const { minMm, maxMm, label } = kidney.range;
+  return `is ${kidney.status} in size (${size}; expected length ${minMm}-${maxMm} mm for ${label}), normal in shape, position.`;
+}
+
 function resolvePatientInfo(patient: UsgPatientInfo, gender: UsgGender) {
   const name = patient.name?.trim() || "________________";
   const genderLabel =
@@ -779,6 +882,41 @@ function resolvePatientInfo(patient: UsgPatientInfo, gender: UsgGender) {
   return { name, gender: genderLabel, date };
 }
 
+function resolveDerivedMeasurements(params: {
+  overrides: UsgFieldOverrides;
+  defaults: Required<UsgFieldOverrides>;
+  suppressedFields: Set<keyof UsgFieldOverrides>;
+  gender: UsgGender;
+  age?: string;
+}) {
+  const { overrides, defaults, suppressedFields } = params;
+  const resolve = (key: keyof UsgFieldOverrides) =>
+    resolveField(overrides, defaults, key, suppressedFields);
+  const kidneySizeText = resolve("kidneys_size");
+  const dictatedImpression = suppressedFields.has("impression")
+    ? ""
+    : (overrides.impression || "").trim();
+  const derived = computeUsgDerivedMeasurements({
+    gender: params.gender,
+    age: params.age,
+    kidneySizes: {
+      right: extractKidneyDimensionFromSizeText(kidneySizeText, "right"),
+      left: extractKidneyDimensionFromSizeText(kidneySizeText, "left")
+    },
+    prostateText: resolve("prostate_main"),
+    prevoidText: resolve("bladder_prevoid_volume_cc"),
+    postvoidText: resolve("bladder_postvoid_volume_cc"),
+    endometriumText: resolve("endometrium_measurement_mm"),
+    impressionText: dictatedImpression
+  });
+  // Suggestions replace the default "normal study" impression rather than
+  // being appended to it.
+  const impression = derived.impressionSuggestions.length
+    ? mergeImpressionSuggestions(dictatedImpression, derived.impressionSuggestions)
+    : resolve("impression");
+  return { derived, impression };
+}
+
 function splitConclusionItems(text: string) {
   const normalized = text
     .replace(/\r/g, "\n")
@@ -827,6 +965,7 @@ export function buildUsgReport(params: {
   patient?: UsgPatientInfo;
   overrides?: UsgFieldOverrides;
   suppressedFields?: (keyof UsgFieldOverrides)[];
+  settings?: UsgReportSettings | null;
 } = {}) {
   const gender = params.gender || "male";
   const consistency = normalizeUsgOverridesForConsistency({
@@ -838,9 +977,18 @@ export function buildUsgReport(params: {
     ...consistency.suppressedFields,
     ...(params.suppressedFields || [])
   ]);
-  const defaults =
-    gender === "female" ? USG_DEFAULT_FIELDS_FEMALE : USG_DEFAULT_FIELDS_MALE;
+  const settings = params.settings || {};
+  const defaults = applySettingsDefaults(getUsgDefaultFields({ gender, kub: false }), [
+    settings.fieldDefaults
+  ]);
   const patient = resolvePatientInfo(params.patient || {}, gender);
+  const measurements = resolveDerivedMeasurements({
+    overrides,
+    defaults,
+    suppressedFields,
+    gender,
+    age: params.patient?.age
+  });
 
   const lines: string[] = [];
   lines.push(
@@ -896,7 +1044,13 @@ export function buildUsgReport(params: {
     suppressedFields
   );
   if (kidneySize.trim()) {
-    lines.push(`Kidneys: ${ensurePeriod(kidneySize)}`);
+    lines.push(
+      `Kidneys: ${joinFragments([
+        ensurePeriod(kidneySize),
+        formatKidneyRangeSentence(measurements.derived.kidneys.right),
+        formatKidneyRangeSentence(measurements.derived.kidneys.left)
+      ])}`
+    );
   }
 
   const kidneyDetails = joinSentences([
@@ -947,6 +1101,10 @@ export function buildUsgReport(params: {
   if (bladderPostvoidLine) {
     lines.push(bladderPostvoidLine);
   }
+  const residualLine = formatResidualSentence(measurements.derived.bladder);
+  if (residualLine) {
+    lines.push(residualLine);
+  }
 
   if (gender === "male") {
     const prostateMain = resolveField(
@@ -956,7 +1114,12 @@ export function buildUsgReport(params: {
       suppressedFields
     );
     if (prostateMain.trim()) {
-      lines.push(`Prostate: ${ensurePeriod(prostateMain)}`);
+      lines.push(
+        `Prostate: ${joinFragments([
+          ensurePeriod(prostateMain),
+          formatProstateVolumeSentence(measurements.derived.prostate)
+        ])}`
+      );
     }
     const prostateEcho = resolveField(
       overrides,
@@ -989,8 +1152,11 @@ export function buildUsgReport(params: {
     const endometriumIsSuppressed = suppressedFields.has(
       "endometrium_measurement_mm"
     );
+    const endometriumThickness =
+      formatEndometriumThickness(measurements.derived.endometrium) ||
+      `${endometrium.trim()} mm`;
     const endometriumLine = endometrium.trim()
-      ? `Endometrial echoes are central (${endometrium} mm).`
+      ? `Endometrial echoes are central (${endometriumThickness}).`
       : endometriumIsSuppressed
       ? ""
       : "Endometrial echoes are central.";
@@ -1019,7 +1185,7 @@ export function buildUsgReport(params: {
     suppressedFields
   );
   if (peritoneal.trim()) {
-    lines.push(ensurePeriod(peritoneal));
+    lines.push(`Peritoneal cavity: ${ensurePeriod(peritoneal)}`);
   }
 
   const lymphNodes = resolveField(
@@ -1034,7 +1200,7 @@ export function buildUsgReport(params: {
 
   lines.push(
     ...buildConclusionLines(
-      resolveField(overrides, defaults, "impression", suppressedFields),
+      measurements.impression,
       defaults
     )
   );
@@ -1050,11 +1216,15 @@ export function buildUsgReport(params: {
   }
 
   const endOfReportLine =
-    gender === "female"
-      ? USG_END_OF_REPORT_LINE_FEMALE
-      : USG_END_OF_REPORT_LINE_MALE;
-  lines.push(endOfReportLine);
-  lines.push(USG_LIMITATIONS_NOTE);
+    settings.endOfReportLine ??
+    (gender === "female" ? USG_END_OF_REPORT_LINE_FEMALE : USG_END_OF_REPORT_LINE_MALE);
+  const limitationsNote = settings.limitationsNote ?? USG_LIMITATIONS_NOTE;
+  if (endOfReportLine.trim()) {
+    lines.push(endOfReportLine);
+  }
+  if (limitationsNote.trim()) {
+    lines.push(limitationsNote);
+  }
 
   return lines.join("\n");
 }
@@ -1064,6 +1234,7 @@ export function buildUsgKubReport(params: {
   patient?: UsgPatientInfo;
   overrides?: UsgFieldOverrides;
   suppressedFields?: (keyof UsgFieldOverrides)[];
+  settings?: UsgReportSettings | null;
 } = {}) {
   const gender = params.gender || "male";
   const consistency = normalizeUsgOverridesForConsistency({
@@ -1075,20 +1246,32 @@ export function buildUsgKubReport(params: {
     ...consistency.suppressedFields,
     ...(params.suppressedFields || [])
   ]);
-  const defaults =
-    gender === "female"
-      ? USG_KUB_DEFAULT_FIELDS_FEMALE
-      : USG_KUB_DEFAULT_FIELDS_MALE;
+  const settings = params.settings || {};
+  const defaults = applySettingsDefaults(getUsgDefaultFields({ gender, kub: true }), [
+    settings.fieldDefaults,
+    settings.kubFieldDefaults
+  ]);
   const patient = resolvePatientInfo(params.patient || {}, gender);
   const labNo = params.patient?.labNo?.trim() || "____________________";
   const age = params.patient?.age?.trim() || "________";
   const referredBy =
-    params.patient?.referredBy?.trim() || USG_KUB_REFERRED_BY_DEFAULT;
+    params.patient?.referredBy?.trim() ||
+    (settings.referredBy ?? USG_KUB_REFERRED_BY_DEFAULT).trim();
+  const departmentLine = settings.departmentLine ?? USG_KUB_DEPARTMENT_LINE;
   const ageSex = `${age} / ${patient.gender}`;
+  const measurements = resolveDerivedMeasurements({
+    overrides,
+    defaults,
+    suppressedFields,
+    gender,
+    age: params.patient?.age
+  });
 
   const lines: string[] = [];
-  lines.push(USG_KUB_DEPARTMENT_LINE);
-  lines.push("");
+  if (departmentLine.trim()) {
+    lines.push(departmentLine);
+    lines.push("");
+  }
   lines.push(
     ...buildUsgKubHeaderTable({
       labNo,
@@ -1164,14 +1347,10 @@ export function buildUsgKubReport(params: {
 
   const rightStarter = hasUnavailableKidneyStatement
     ? ""
-    : rightKidneySize
-    ? `is normal in size (${rightKidneySize}), shape, position.`
-    : "is normal in size, shape, position.";
+    : buildKubKidneyStarter(rightKidneySize, measurements.derived.kidneys.right);
   const leftStarter = hasUnavailableKidneyStatement
     ? ""
-    : leftKidneySize
-    ? `is normal in size (${leftKidneySize}), shape, position.`
-    : "is normal in size, shape, position.";
+    : buildKubKidneyStarter(leftKidneySize, measurements.derived.kidneys.left);
 
   const rightLine = joinSentences(
     uniqueSentenceList([rightStarter, ...rightSideSentences])
@@ -1210,6 +1389,10 @@ export function buildUsgKubReport(params: {
   if (bladderPostvoidLine) {
     lines.push(bladderPostvoidLine);
   }
+  const residualLine = formatResidualSentence(measurements.derived.bladder);
+  if (residualLine) {
+    lines.push(residualLine);
+  }
 
   if (gender === "male") {
     const prostateMain = resolveField(
@@ -1219,7 +1402,12 @@ export function buildUsgKubReport(params: {
       suppressedFields
     );
     if (prostateMain.trim()) {
-      lines.push(`Prostate: ${ensurePeriod(prostateMain)}`);
+      lines.push(
+        `Prostate: ${joinFragments([
+          ensurePeriod(prostateMain),
+          formatProstateVolumeSentence(measurements.derived.prostate)
+        ])}`
+      );
     }
     const prostateEcho = resolveField(
       overrides,
@@ -1252,8 +1440,11 @@ export function buildUsgKubReport(params: {
     const endometriumIsSuppressed = suppressedFields.has(
       "endometrium_measurement_mm"
     );
+    const endometriumThickness =
+      formatEndometriumThickness(measurements.derived.endometrium) ||
+      `${endometrium.trim()} mm`;
     const endometriumLine = endometrium.trim()
-      ? `Endometrial echoes are central (${endometrium} mm).`
+      ? `Endometrial echoes are central (${endometriumThickness}).`
       : endometriumIsSuppressed
       ? ""
       : "Endometrial echoes are central.";
@@ -1269,7 +1460,7 @@ export function buildUsgKubReport(params: {
 
   lines.push(
     ...buildConclusionLines(
-      resolveField(overrides, defaults, "impression", suppressedFields),
+      measurements.impression,
       defaults,
       { forceLabel: "IMPRESSION:" }
     )
@@ -5,11 +5,14 @@ const MAX_SECTIONS = 48;
 const MAX_FIELDS = 160;
 const MAX_DEPENDS_ON = 64;
 
-export type TemplateProfileFieldType =
-  | "text"
-  | "number"
-  | "boolean"
-  | "measurement";
+export const TEMPLATE_PROFILE_FIELD_TYPES = [
+  "text",
+  "number",
+  "boolean",
+  "measurement"
+] as const;
+
+export type TemplateProfileFieldType = (typeof TEMPLATE_PROFILE_FIELD_TYPES)[number];
 
 export type TemplateProfileSection = {
   id: string;
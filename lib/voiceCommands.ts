@@ -0,0 +1,307 @@
+import type { DictationTranscript, TranscriptSegment } from "@/lib/transcript";
+import { USG_NORMAL_FIELD_TEXT, type UsgFieldOverrides } from "@/lib/usgTemplate";
+
+export type VoiceCommandKind =
+  | "scratch_that"
+  | "delete_last_sentence"
+  | "new_paragraph"
+  | "next_organ"
+  | "period"
+  | "insert_normal";
+
+export type AppliedVoiceCommand = {
+  kind: VoiceCommandKind;
+  spoken: string;
+  start_sec: number | null;
+  detail: string;
+};
+
+export type VoiceOrgan = {
+  id: string;
+  label: string;
+  fieldKeys: Array<keyof UsgFieldOverrides>;
+};
+
+export type VoiceCommandResult = {
+  transcript: DictationTranscript;
+  commands: AppliedVoiceCommand[];
+  normalOrgans: VoiceOrgan[];
+};
+
+const VOICE_ORGANS: Array<VoiceOrgan & { pattern: RegExp }> = [
+  {
+    id: "liver",
+    label: "Liver",
+    pattern: /^liver$/,
+    fieldKeys: [
+      "liver_main",
+      "liver_focal_lesion",
+      "liver_hepatic_veins",
+      "liver_ihbr",
+      "liver_portal_vein"
+    ]
+  },
+  {
+    id: "gallbladder",
+    label: "Gall bladder",
+    pattern: /^gall\s*bladder$/,
+    fieldKeys: ["gallbladder_main", "gallbladder_calculus_sludge"]
+  },
+  { id: "cbd", label: "CBD", pattern: /^(?:cbd|common bile duct)$/, fieldKeys: ["cbd_main"] },
+  {
+    id: "pancreas",
+    label: "Pancreas",
+    pattern: /^pancreas$/,
+    fieldKeys: ["pancreas_main", "pancreas_echotexture"]
+  },
+  {
+    id: "spleen",
+    label: "Spleen",
+    pattern: /^spleen$/,
+    fieldKeys: ["spleen_main", "spleen_focal_lesion"]
+  },
+  {
+    id: "kidneys",
+    label: "Kidneys",
+    pattern: /^kidneys?$/,
+    fieldKeys: [
+      "kidneys_main",
+      "kidneys_cmd",
+      "kidneys_cortical_scarring",
+      "kidneys_parenchyma",
+      "kidneys_calculus_hydronephrosis"
+    ]
+  },
+  {
+    id: "bladder",
+    label: "Urinary bladder",
+    pattern: /^(?:urinary\s+)?bladder$/,
+    fieldKeys: ["bladder_main", "bladder_wall_thickening", "bladder_mass_calculus"]
+  },
+  {
+    id: "prostate",
+    label: "Prostate",
+    pattern: /^prostate$/,
+    fieldKeys: ["prostate_main", "prostate_echotexture"]
+  },
+  {
+    id: "uterus",
+    label: "Uterus",
+    pattern: /^uterus$/,
+    fieldKeys: ["uterus_main", "uterus_myometrium"]
+  },
+  {
+    id: "ovaries",
+    label: "Ovaries",
+    pattern: /^(?:ovary|ovaries|adnexa)$/,
+    fieldKeys: ["ovaries_main", "adnexal_mass"]
+  },
+  {
+    id: "peritoneum",
+    label: "Peritoneum",
+    pattern: /^(?:peritoneum|peritoneal cavity)$/,
+    fieldKeys: ["peritoneal_fluid"]
+  }
+];
+
+const ORGAN_WORDS =
+  "liver|gall\\s*bladder|cbd|common bile duct|pancreas|spleen|kidneys?|(?:urinary\\s+)?bladder|prostate|uterus|ovary|ovaries|adnexa|peritoneum|peritoneal cavity";
+
+// One alternation so commands are applied in the order they were spoken.
+// Trailing punctuation the transcriber put after a command belongs to it.
+const COMMAND_ALTERNATIVES = [
+  "\\b(?<scratch>scratch that|strike that)\\b",
+  "\\b(?<deleteLast>delete (?:the )?last sentence)\\b",
+  "\\b(?<paragraph>new paragraph)\\b",
+  "\\b(?<nextOrgan>next organ)\\b",
+  "\\b(?<period>period|full stop)\\b",
+  `\\b(?<insert>insert (?:a )?normal (?<organ>${ORGAN_WORDS}))\\b`
+];
+const COMMAND_PATTERN = new RegExp(`(?:${COMMAND_ALTERNATIVES.join("|")})[\\s.,;:!?]*`, "gi");
+
+// "Period" is also a dictated word ("post operative period, likely seroma"),
+// so it only counts as a command when it stands alone: at the end of a
+// segment, before a sentence mark or before a capitalised word. Common
+// phrases that end a sentence with the word itself stay literal.
+const STANDALONE_PERIOD_AFTER_PATTERN = /^\s*(?:$|[.!?]|[A-Z])/;
+const LITERAL_PERIOD_BEFORE_PATTERN =
+  /\b(?:menstrual|last|follow[- ]?up|time|window|gestational|waiting|operative|partum|short|long)\s*$/i;
+
+function normalizeText(value: string) {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+function endSentence(text: string) {
+  const trimmed = text.replace(/[\s,;:]+$/, "");
+  if (!trimmed) return "";
+  return /[.!?]$/.test(trimmed) ? `${trimmed} ` : `${trimmed}. `;
+}
+
+// Drops the last sentence, completed or still open; returns what was removed.
+function dropLastSentence(text: string) {
+  const body = text.replace(/[\s.!?,;:]+$/, "");
+  const boundary = Math.max(body.lastIndexOf(". "), body.lastIndexOf("? "), body.lastIndexOf("! "));
+  const kept = boundary >= 0 ? `${body.slice(0, boundary + 1)} ` : "";
+  return { kept, removed: normalizeText(body.slice(boundary + 1)) };
+}
+
+function organFor(spoken: string) {
+  const key = normalizeText(spoken.toLowerCase());
+  return VOICE_ORGANS.find((organ) => organ.pattern.test(key)) || null;
+}
+
+function normalOrganText(organ: VoiceOrgan) {
+  const parts = organ.fieldKeys
+    .map((key) => normalizeText(USG_NORMAL_FIELD_TEXT[key] || ""))
+    .filter(Boolean)
+    .map((text) => (/[.!?]$/.test(text) ? text : `${text}.`));
+  return `${organ.label}: ${parts.join(" ")}`;
+}
+
+// Commands are resolved in spoken order over the running transcript, so a
+// correction removes the sentence dictated just before it even when that
+// sentence ended in an earlier segment.
+export function applyVoiceCommands(transcript: DictationTranscript): VoiceCommandResult {
+  const commands: AppliedVoiceCommand[] = [];
+  const normalOrgans: VoiceOrgan[] = [];
+  const output: TranscriptSegment[] = [];
+
+  const lastSpokenIndex = () => {
+    for (let index = output.length - 1; index >= 0; index -= 1) {
+      if (output[index].text.trim()) return index;
+    }
+    return -1;
+  };
+  const dropFromPrevious = () => {
+    const index = lastSpokenIndex();
+    if (index < 0) return "";
+    const { kept, removed } = dropLastSentence(output[index].text);
+    output[index] = { ...output[index], text: kept };
+    return removed;
+  };
+  // A command at the start of a segment ends the sentence left open in the
+  // segment before it.
+  const endSpoken = (text: string) => {
+    if (text.trim()) return endSentence(text);
+    const index = lastSpokenIndex();
+    if (index >= 0) output[index] = { ...output[index], text: endSentence(output[index].text) };
+    return "";
+  };
+
+  for (const segment of transcript.segments) {
+    let text = "";
+    let cursor = 0;
+    for (const match of Array.from(segment.text.matchAll(COMMAND_PATTERN))) {
+      const groups = match.groups || {};
+      const index = match.index || 0;
+      const before = segment.text.slice(cursor, index);
+      if (
+        groups.period &&
+        (!STANDALONE_PERIOD_AFTER_PATTERN.test(
+          segment.text.slice(index + groups.period.length)
+        ) ||
+          LITERAL_PERIOD_BEFORE_PATTERN.test(before))
+      ) {
+        continue;
+      }
+      const organ = groups.insert ? organFor(groups.organ || "") : null;
+      if (groups.insert && !organ) continue;
+      text += before;
+      cursor = index + match[0].length;
+      const spoken = normalizeText(match[0].replace(/[\s.,;:!?]+$/, ""));
+      const command = (kind: VoiceCommandKind, detail: string) =>
+        commands.push({ kind, spoken, start_sec: segment.start_sec, detail });
+
+      if (groups.scratch || groups.deleteLast) {
+        let removed = "";
+        if (text.trim()) {
+          const dropped = dropLastSentence(text);
+          text = dropped.kept;
+          removed = dropped.removed;
+        } else {
+          removed = dropFromPrevious();
+        }
+        command(
+          groups.scratch ? "scratch_that" : "delete_last_sentence",
+          removed ? `Removed "${removed}"` : "Nothing to remove"
+        );
+      } else if (groups.paragraph || groups.nextOrgan) {
+        text = endSpoken(text);
+        command(
+          groups.paragraph ? "new_paragraph" : "next_organ",
+          groups.paragraph ? "Started a new paragraph" : "Started the next organ"
+        );
+      } else if (groups.period) {
+        text = endSpoken(text);
+        command("period", "Ended the sentence");
+      } else if (organ) {
+        text = `${endSpoken(text)}${normalOrganText(organ)} `;
+        if (!normalOrgans.some((item) => item.id === organ.id)) {
+          normalOrgans.push({ id: organ.id, label: organ.label, fieldKeys: organ.fieldKeys });
+        }
+        command("insert_normal", `Inserted normal ${organ.label.toLowerCase()} text`);
+      }
+    }
+    text += segment.text.slice(cursor);
+    output.push({ ...segment, text });
+  }
+
+  if (!commands.length) {
+    return { transcript, commands, normalOrgans };
+  }
+
+  const segments = output
+    .map((segment) => ({ ...segment, text: normalizeText(segment.text) }))
+    .filter((segment) => segment.text);
+  return {
+    transcript: { text: segments.map((segment) => segment.text).join(" "), segments },
+    commands,
+    normalOrgans
+  };
+}
+
+// Fields the model left empty for an organ inserted by voice take the normal
+// wording; anything dictated for that organ is kept.
+export function fillNormalOrganFields(
+  overrides: UsgFieldOverrides,
+  organs: VoiceOrgan[]
+): UsgFieldOverrides {
+  if (!organs.length) return overrides;
+  const next: UsgFieldOverrides = { ...overrides };
+  for (const organ of organs) {
+    for (const key of organ.fieldKeys) {
+      const current = next[key];
+      if (typeof current === "string" && current.trim()) continue;
+      if (USG_NORMAL_FIELD_TEXT[key]) next[key] = USG_NORMAL_FIELD_TEXT[key];
+    }
+  }
+  return next;
+}
+
+const VOICE_COMMAND_KINDS = new Set<VoiceCommandKind>([
+  "scratch_that",
+  "delete_last_sentence",
+  "new_paragraph",
+  "next_organ",
+  "period",
+  "insert_normal"
+]);
+
+export function parseAppliedVoiceCommands(input: unknown): AppliedVoiceCommand[] {
+  if (!Array.isArray(input)) return [];
+  const commands: AppliedVoiceCommand[] = [];
+  for (const item of input) {
+    if (!item || typeof item !== "object") continue;
+    const row = item as Record<string, unknown>;
+    const kind = row.kind as VoiceCommandKind;
+    if (!VOICE_COMMAND_KINDS.has(kind)) continue;
+    commands.push({
+      kind,
+      spoken: typeof row.spoken === "string" ? normalizeText(row.spoken) : "",
+      start_sec:
+        typeof row.start_sec === "number" && Number.isFinite(row.start_sec) ? row.start_sec : null,
+      detail: typeof row.detail === "string" ? normalizeText(row.detail) : ""
+    });
+  }
+  return commands;
+}